@@ -0,0 +1,428 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import {
+  Scale,
+  CheckCircle,
+  XCircle,
+  ArrowLeft,
+  Loader2,
+  AlertTriangle,
+  ChevronLeft,
+  ChevronRight,
+  RefreshCw
+} from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { formatINR } from '@/lib/utils/money';
+
+interface DisputeDeposit {
+  id: string;
+  amount: number;
+  source: string;
+  origin: 'CREATOR_REPORTED' | 'PLATFORM_FETCHED';
+  status: string;
+  externalRef: string | null;
+  createdAt: string;
+}
+
+interface Dispute {
+  id: string;
+  revenueMonth: string;
+  reportedAmount: number;
+  verifiedAmount: number;
+  difference: number;
+  differencePercent: number;
+  status: 'OPEN' | 'RESOLVED';
+  resolution: 'ACCEPT_VERIFIED' | 'ACCEPT_REPORTED' | null;
+  resolutionNote: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+  vault: {
+    id: string;
+    status: string;
+    offering: {
+      id: string;
+      title: string;
+      channel: {
+        channelName: string;
+        youtubeChannelId: string;
+      };
+    };
+  };
+  deposits: DisputeDeposit[];
+}
+
+interface Stats {
+  open: number;
+  resolved: number;
+}
+
+interface Pagination {
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export default function AdminDisputesPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [disputes, setDisputes] = useState<Dispute[]>([]);
+  const [stats, setStats] = useState<Stats | null>(null);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [selectedStatus, setSelectedStatus] = useState('OPEN');
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [resolving, setResolving] = useState<string | null>(null);
+  const [correcting, setCorrecting] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/signin');
+      return;
+    }
+
+    if (status === 'authenticated') {
+      if (session?.user?.role !== 'ADMIN') {
+        router.push('/');
+        return;
+      }
+      fetchDisputes();
+    }
+  }, [status, session, router, selectedStatus]);
+
+  const fetchDisputes = async (page = 1) => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: '20',
+      });
+      if (selectedStatus !== 'ALL') params.set('status', selectedStatus);
+
+      const res = await fetch(`/api/admin/disputes?${params}`);
+      if (!res.ok) throw new Error('Failed to fetch disputes');
+
+      const data = await res.json();
+      setDisputes(data.disputes);
+      setStats(data.stats);
+      setPagination(data.pagination);
+    } catch (err) {
+      setError('Failed to load disputes');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResolve = async (disputeId: string, resolution: 'ACCEPT_VERIFIED' | 'ACCEPT_REPORTED') => {
+    try {
+      setResolving(disputeId);
+      setMessage('');
+
+      const res = await fetch('/api/admin/disputes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ disputeId, resolution, note: notes[disputeId] || undefined }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to resolve dispute');
+
+      setMessage(data.message);
+      await fetchDisputes(pagination?.page || 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resolve dispute');
+      console.error(err);
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  // Reverse the distribution of a rejected deposit that was already paid out
+  const handleCorrect = async (dispute: Dispute, depositId: string) => {
+    try {
+      setCorrecting(depositId);
+      setMessage('');
+
+      const res = await fetch('/api/admin/corrections', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          depositId,
+          reason: `Rejected by dispute for ${dispute.revenueMonth}${dispute.resolutionNote ? `: ${dispute.resolutionNote}` : ''}`,
+        }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to correct distribution');
+
+      setMessage(data.message);
+      await fetchDisputes(pagination?.page || 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to correct distribution');
+      console.error(err);
+    } finally {
+      setCorrecting(null);
+    }
+  };
+
+  // The origin a resolution rejected
+  const isRejected = (dispute: Dispute, deposit: DisputeDeposit) =>
+    dispute.status === 'RESOLVED' &&
+    (dispute.resolution === 'ACCEPT_REPORTED' ? deposit.origin === 'PLATFORM_FETCHED' : deposit.origin !== 'PLATFORM_FETCHED');
+
+  const getStatusBadge = (dispute: Dispute) => {
+    if (dispute.status === 'OPEN') {
+      return (
+        <span className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-medium bg-yellow-500/10 text-yellow-400 border border-yellow-500/20">
+          <AlertTriangle className="w-3 h-3" />
+          Open
+        </span>
+      );
+    }
+    return (
+      <span className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-medium bg-green-500/10 text-green-400 border border-green-500/20">
+        <CheckCircle className="w-3 h-3" />
+        {dispute.resolution === 'ACCEPT_REPORTED' ? 'Accepted reported' : 'Accepted verified'}
+      </span>
+    );
+  };
+
+  const formatDate = (date: string | null) => (date ? new Date(date).toLocaleString() : '-');
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-red-600" />
+      </div>
+    );
+  }
+
+  if (session?.user?.role !== 'ADMIN') {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <Card className="bg-zinc-900 border-zinc-800 p-8 text-center">
+          <AlertTriangle className="w-12 h-12 text-yellow-500 mx-auto mb-4" />
+          <h2 className="text-xl font-bold text-white mb-2">Access Denied</h2>
+          <p className="text-gray-400">You don&apos;t have permission to access this page.</p>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-black">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <Link href="/admin" className="inline-flex items-center text-gray-400 hover:text-white mb-4">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Dashboard
+            </Link>
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-yellow-600 rounded-lg flex items-center justify-center">
+                <Scale className="w-6 h-6 text-white" />
+              </div>
+              <div>
+                <h1 className="text-2xl font-bold text-white">Revenue Disputes</h1>
+                <p className="text-gray-400 text-sm">Creator-reported revenue that differs from the platform figure</p>
+              </div>
+            </div>
+          </div>
+          <Button
+            onClick={() => fetchDisputes(pagination?.page || 1)}
+            variant="outline"
+            className="border-zinc-700 text-gray-300 hover:bg-zinc-800"
+          >
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Refresh
+          </Button>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 rounded-lg flex items-center gap-3">
+            <AlertTriangle className="w-5 h-5 text-red-500" />
+            <p className="text-red-400">{error}</p>
+            <button onClick={() => setError('')} className="ml-auto text-gray-400 hover:text-white">
+              <XCircle className="w-5 h-5" />
+            </button>
+          </div>
+        )}
+
+        {message && (
+          <div className="mb-6 p-4 bg-green-500/10 border border-green-500/20 rounded-lg flex items-center gap-3">
+            <CheckCircle className="w-5 h-5 text-green-500" />
+            <p className="text-green-400">{message}</p>
+            <button onClick={() => setMessage('')} className="ml-auto text-gray-400 hover:text-white">
+              <XCircle className="w-5 h-5" />
+            </button>
+          </div>
+        )}
+
+        {/* Stats */}
+        {stats && (
+          <div className="grid grid-cols-2 gap-4 mb-6">
+            <button
+              onClick={() => setSelectedStatus(selectedStatus === 'OPEN' ? 'ALL' : 'OPEN')}
+              className={`p-4 rounded-lg border text-left transition-all ${
+                selectedStatus === 'OPEN'
+                  ? 'bg-yellow-500/10 border-yellow-500/30'
+                  : 'bg-zinc-900 border-zinc-800 hover:border-zinc-700'
+              }`}
+            >
+              <p className="text-2xl font-bold text-white">{stats.open}</p>
+              <p className="text-sm text-gray-400">Open</p>
+            </button>
+            <button
+              onClick={() => setSelectedStatus(selectedStatus === 'RESOLVED' ? 'ALL' : 'RESOLVED')}
+              className={`p-4 rounded-lg border text-left transition-all ${
+                selectedStatus === 'RESOLVED'
+                  ? 'bg-green-500/10 border-green-500/30'
+                  : 'bg-zinc-900 border-zinc-800 hover:border-zinc-700'
+              }`}
+            >
+              <p className="text-2xl font-bold text-white">{stats.resolved}</p>
+              <p className="text-sm text-gray-400">Resolved</p>
+            </button>
+          </div>
+        )}
+
+        {/* Disputes */}
+        <Card className="bg-zinc-900 border-zinc-800">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-yellow-600" />
+            </div>
+          ) : disputes.length === 0 ? (
+            <div className="text-center py-12">
+              <Scale className="w-12 h-12 text-gray-600 mx-auto mb-4" />
+              <p className="text-gray-400">No disputes found</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-zinc-800">
+              {disputes.map((dispute) => (
+                <div key={dispute.id} className="p-4">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium text-white">
+                      {dispute.vault.offering.channel.channelName} · {dispute.vault.offering.title}
+                    </p>
+                    {getStatusBadge(dispute)}
+                    <span className="text-xs text-gray-500">{dispute.revenueMonth}</span>
+                    <span className="ml-auto text-xs text-gray-500">Raised {formatDate(dispute.createdAt)}</span>
+                  </div>
+
+                  <div className="grid grid-cols-3 gap-4 mt-3 text-sm">
+                    <div>
+                      <p className="text-gray-500">Creator reported</p>
+                      <p className="text-white font-medium">{formatINR(dispute.reportedAmount)}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-500">Platform fetched</p>
+                      <p className="text-white font-medium">{formatINR(dispute.verifiedAmount)}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-500">Difference</p>
+                      <p className={`font-medium ${dispute.difference > 0 ? 'text-red-400' : 'text-yellow-400'}`}>
+                        {dispute.difference > 0 ? '+' : ''}{formatINR(dispute.difference)} ({dispute.differencePercent.toFixed(1)}%)
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="mt-3 space-y-1">
+                    {dispute.deposits.map((deposit) => (
+                      <p key={deposit.id} className="text-xs text-gray-400 font-mono">
+                        {deposit.origin === 'PLATFORM_FETCHED' ? 'fetched ' : 'reported'} · {formatINR(deposit.amount)} · {deposit.status}
+                        {deposit.externalRef && ` · ${deposit.externalRef}`}
+                        {deposit.status === 'DISTRIBUTED' && isRejected(dispute, deposit) && (
+                          <button
+                            onClick={() => handleCorrect(dispute, deposit.id)}
+                            disabled={correcting !== null}
+                            className="ml-2 text-red-400 hover:text-red-300 underline disabled:opacity-50"
+                          >
+                            {correcting === deposit.id ? 'Reversing...' : 'Reverse distribution'}
+                          </button>
+                        )}
+                      </p>
+                    ))}
+                  </div>
+
+                  {dispute.status === 'OPEN' ? (
+                    <div className="mt-4 flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={notes[dispute.id] || ''}
+                        onChange={(e) => setNotes({ ...notes, [dispute.id]: e.target.value })}
+                        placeholder="Resolution note"
+                        className="flex-1 px-3 py-1.5 bg-zinc-800 border border-zinc-700 rounded-lg text-sm text-white focus:outline-none"
+                      />
+                      <Button
+                        onClick={() => handleResolve(dispute.id, 'ACCEPT_VERIFIED')}
+                        disabled={resolving !== null}
+                        size="sm"
+                        className="bg-green-600 hover:bg-green-700"
+                      >
+                        {resolving === dispute.id && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                        Accept Fetched
+                      </Button>
+                      <Button
+                        onClick={() => handleResolve(dispute.id, 'ACCEPT_REPORTED')}
+                        disabled={resolving !== null}
+                        variant="outline"
+                        size="sm"
+                        className="border-zinc-700 text-gray-300 hover:bg-zinc-800"
+                      >
+                        Accept Reported
+                      </Button>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-gray-500 mt-3">
+                      Resolved {formatDate(dispute.resolvedAt)}
+                      {dispute.resolutionNote && ` · ${dispute.resolutionNote}`}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Pagination */}
+          {pagination && pagination.totalPages > 1 && (
+            <div className="p-4 border-t border-zinc-800 flex items-center justify-between">
+              <p className="text-sm text-gray-400">
+                Page {pagination.page} of {pagination.totalPages}
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  onClick={() => fetchDisputes(pagination.page - 1)}
+                  disabled={pagination.page === 1}
+                  variant="outline"
+                  size="sm"
+                  className="border-zinc-700"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                <Button
+                  onClick={() => fetchDisputes(pagination.page + 1)}
+                  disabled={pagination.page === pagination.totalPages}
+                  variant="outline"
+                  size="sm"
+                  className="border-zinc-700"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
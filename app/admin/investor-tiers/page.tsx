@@ -0,0 +1,423 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import {
+  BadgeCheck,
+  CheckCircle,
+  XCircle,
+  ArrowLeft,
+  Loader2,
+  AlertTriangle,
+  Clock,
+  ChevronLeft,
+  ChevronRight,
+  RefreshCw,
+  FileText
+} from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { formatINR } from '@/lib/utils/money';
+
+type Tier = 'RETAIL' | 'VERIFIED_INCOME' | 'ACCREDITED';
+
+// Evidence is only ever linked to our own file route, never an arbitrary URL
+const FILE_URL = /^\/api\/files\/[a-z0-9]+$/;
+type RequestStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+interface TierRequest {
+  id: string;
+  currentTier: Tier;
+  requestedTier: Tier;
+  annualIncome: number | null;
+  netWorth: number | null;
+  documentUrls: string[];
+  status: RequestStatus;
+  reviewNote: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+  user: {
+    id: string;
+    name: string | null;
+    email: string;
+    kycStatus: string;
+    investorTier: Tier;
+  };
+}
+
+interface TierLimit {
+  tier: Tier;
+  maxSingleInvestment: number | null;
+  maxAnnualInvestment: number | null;
+  isDefault: boolean;
+}
+
+interface Stats {
+  pending: number;
+  approved: number;
+  rejected: number;
+}
+
+interface Pagination {
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+const TIER_LABELS: Record<Tier, string> = {
+  RETAIL: 'Retail',
+  VERIFIED_INCOME: 'Verified income',
+  ACCREDITED: 'Accredited',
+};
+
+export default function AdminInvestorTiersPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [requests, setRequests] = useState<TierRequest[]>([]);
+  const [limits, setLimits] = useState<TierLimit[]>([]);
+  const [stats, setStats] = useState<Stats | null>(null);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [selectedStatus, setSelectedStatus] = useState<RequestStatus | 'ALL'>('PENDING');
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [reviewing, setReviewing] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/signin');
+      return;
+    }
+
+    if (status === 'authenticated') {
+      if (session?.user?.role !== 'ADMIN') {
+        router.push('/');
+        return;
+      }
+      fetchRequests();
+    }
+  }, [status, session, router, selectedStatus]);
+
+  const fetchRequests = async (page = 1) => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: '20',
+      });
+      if (selectedStatus !== 'ALL') params.set('status', selectedStatus);
+
+      const res = await fetch(`/api/admin/investor-tiers?${params}`);
+      if (!res.ok) throw new Error('Failed to fetch tier requests');
+
+      const data = await res.json();
+      setRequests(data.requests);
+      setLimits(data.limits);
+      setStats(data.stats);
+      setPagination(data.pagination);
+    } catch (err) {
+      setError('Failed to load tier requests');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReview = async (requestId: string, action: 'approve' | 'reject') => {
+    if (action === 'reject' && !notes[requestId]) {
+      setError('Add a note explaining the rejection');
+      return;
+    }
+
+    try {
+      setReviewing(requestId);
+      setMessage('');
+
+      const res = await fetch('/api/admin/investor-tiers', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ requestId, action, note: notes[requestId] || undefined }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to review request');
+
+      setMessage(data.message);
+      await fetchRequests(pagination?.page || 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to review request');
+      console.error(err);
+    } finally {
+      setReviewing(null);
+    }
+  };
+
+  const getStatusBadge = (request: TierRequest) => {
+    switch (request.status) {
+      case 'PENDING':
+        return (
+          <span className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-medium bg-yellow-500/10 text-yellow-400 border border-yellow-500/20">
+            <Clock className="w-3 h-3" />
+            Pending
+          </span>
+        );
+      case 'APPROVED':
+        return (
+          <span className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-medium bg-green-500/10 text-green-400 border border-green-500/20">
+            <CheckCircle className="w-3 h-3" />
+            Approved
+          </span>
+        );
+      default:
+        return (
+          <span className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-medium bg-red-500/10 text-red-400 border border-red-500/20">
+            <XCircle className="w-3 h-3" />
+            Rejected
+          </span>
+        );
+    }
+  };
+
+  const formatDate = (date: string | null) => (date ? new Date(date).toLocaleString() : '-');
+  const formatLimit = (amount: number | null) => (amount === null ? 'No limit' : formatINR(amount));
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-red-600" />
+      </div>
+    );
+  }
+
+  if (session?.user?.role !== 'ADMIN') {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <Card className="bg-zinc-900 border-zinc-800 p-8 text-center">
+          <AlertTriangle className="w-12 h-12 text-yellow-500 mx-auto mb-4" />
+          <h2 className="text-xl font-bold text-white mb-2">Access Denied</h2>
+          <p className="text-gray-400">You don&apos;t have permission to access this page.</p>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-black">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <Link href="/admin" className="inline-flex items-center text-gray-400 hover:text-white mb-4">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Dashboard
+            </Link>
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-blue-600 rounded-lg flex items-center justify-center">
+                <BadgeCheck className="w-6 h-6 text-white" />
+              </div>
+              <div>
+                <h1 className="text-2xl font-bold text-white">Investor Tiers</h1>
+                <p className="text-gray-400 text-sm">Upgrade requests and investment limits per tier</p>
+              </div>
+            </div>
+          </div>
+          <Button
+            onClick={() => fetchRequests(pagination?.page || 1)}
+            variant="outline"
+            className="border-zinc-700 text-gray-300 hover:bg-zinc-800"
+          >
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Refresh
+          </Button>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 rounded-lg flex items-center gap-3">
+            <AlertTriangle className="w-5 h-5 text-red-500" />
+            <p className="text-red-400">{error}</p>
+            <button onClick={() => setError('')} className="ml-auto text-gray-400 hover:text-white">
+              <XCircle className="w-5 h-5" />
+            </button>
+          </div>
+        )}
+
+        {message && (
+          <div className="mb-6 p-4 bg-green-500/10 border border-green-500/20 rounded-lg flex items-center gap-3">
+            <CheckCircle className="w-5 h-5 text-green-500" />
+            <p className="text-green-400">{message}</p>
+            <button onClick={() => setMessage('')} className="ml-auto text-gray-400 hover:text-white">
+              <XCircle className="w-5 h-5" />
+            </button>
+          </div>
+        )}
+
+        {/* Tier limits */}
+        {limits.length > 0 && (
+          <div className="grid grid-cols-3 gap-4 mb-6">
+            {limits.map((limit) => (
+              <div key={limit.tier} className="p-4 rounded-lg border bg-zinc-900 border-zinc-800">
+                <p className="font-medium text-white">
+                  {TIER_LABELS[limit.tier]}
+                  {limit.isDefault && <span className="ml-2 text-xs text-gray-500">default</span>}
+                </p>
+                <p className="text-sm text-gray-400 mt-2">Per investment: {formatLimit(limit.maxSingleInvestment)}</p>
+                <p className="text-sm text-gray-400">Per 12 months: {formatLimit(limit.maxAnnualInvestment)}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Stats */}
+        {stats && (
+          <div className="grid grid-cols-3 gap-4 mb-6">
+            {(['PENDING', 'APPROVED', 'REJECTED'] as const).map((s) => (
+              <button
+                key={s}
+                onClick={() => setSelectedStatus(selectedStatus === s ? 'ALL' : s)}
+                className={`p-4 rounded-lg border text-left transition-all ${
+                  selectedStatus === s
+                    ? 'bg-blue-500/10 border-blue-500/30'
+                    : 'bg-zinc-900 border-zinc-800 hover:border-zinc-700'
+                }`}
+              >
+                <p className="text-2xl font-bold text-white">{stats[s.toLowerCase() as keyof Stats]}</p>
+                <p className="text-sm text-gray-400">{s.charAt(0) + s.slice(1).toLowerCase()}</p>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Requests */}
+        <Card className="bg-zinc-900 border-zinc-800">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+            </div>
+          ) : requests.length === 0 ? (
+            <div className="text-center py-12">
+              <BadgeCheck className="w-12 h-12 text-gray-600 mx-auto mb-4" />
+              <p className="text-gray-400">No upgrade requests found</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-zinc-800">
+              {requests.map((request) => (
+                <div key={request.id} className="p-4">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium text-white">{request.user.name || request.user.email}</p>
+                    {getStatusBadge(request)}
+                    <span className="text-xs text-gray-500">
+                      {TIER_LABELS[request.currentTier]} → {TIER_LABELS[request.requestedTier]}
+                    </span>
+                    <span className="ml-auto text-xs text-gray-500">Submitted {formatDate(request.createdAt)}</span>
+                  </div>
+
+                  <div className="grid grid-cols-3 gap-4 mt-3 text-sm">
+                    <div>
+                      <p className="text-gray-500">Annual income</p>
+                      <p className="text-white font-medium">
+                        {request.annualIncome === null ? '-' : formatINR(request.annualIncome)}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-gray-500">Net worth</p>
+                      <p className="text-white font-medium">
+                        {request.netWorth === null ? '-' : formatINR(request.netWorth)}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-gray-500">KYC</p>
+                      <p className="text-white font-medium">{request.user.kycStatus}</p>
+                    </div>
+                  </div>
+
+                  <div className="mt-3 flex flex-wrap gap-3">
+                    {request.documentUrls.filter((url) => FILE_URL.test(url)).map((url, i) => (
+                      <a
+                        key={url}
+                        href={url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300"
+                      >
+                        <FileText className="w-3 h-3" />
+                        Document {i + 1}
+                      </a>
+                    ))}
+                  </div>
+
+                  {request.status === 'PENDING' ? (
+                    <div className="mt-4 flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={notes[request.id] || ''}
+                        onChange={(e) => setNotes({ ...notes, [request.id]: e.target.value })}
+                        placeholder="Review note (required to reject)"
+                        className="flex-1 px-3 py-1.5 bg-zinc-800 border border-zinc-700 rounded-lg text-sm text-white focus:outline-none"
+                      />
+                      <Button
+                        onClick={() => handleReview(request.id, 'approve')}
+                        disabled={reviewing !== null}
+                        size="sm"
+                        className="bg-green-600 hover:bg-green-700"
+                      >
+                        {reviewing === request.id && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                        Approve
+                      </Button>
+                      <Button
+                        onClick={() => handleReview(request.id, 'reject')}
+                        disabled={reviewing !== null}
+                        variant="outline"
+                        size="sm"
+                        className="border-zinc-700 text-gray-300 hover:bg-zinc-800"
+                      >
+                        Reject
+                      </Button>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-gray-500 mt-3">
+                      Reviewed {formatDate(request.reviewedAt)}
+                      {request.reviewNote && ` · ${request.reviewNote}`}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Pagination */}
+          {pagination && pagination.totalPages > 1 && (
+            <div className="p-4 border-t border-zinc-800 flex items-center justify-between">
+              <p className="text-sm text-gray-400">
+                Page {pagination.page} of {pagination.totalPages}
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  onClick={() => fetchRequests(pagination.page - 1)}
+                  disabled={pagination.page === 1}
+                  variant="outline"
+                  size="sm"
+                  className="border-zinc-700"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                <Button
+                  onClick={() => fetchRequests(pagination.page + 1)}
+                  disabled={pagination.page === pagination.totalPages}
+                  variant="outline"
+                  size="sm"
+                  className="border-zinc-700"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,419 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import {
+  Timer,
+  CheckCircle,
+  XCircle,
+  ArrowLeft,
+  Loader2,
+  AlertTriangle,
+  ChevronLeft,
+  ChevronRight,
+  RefreshCw,
+  Play,
+  RotateCcw
+} from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+
+interface Job {
+  name: string;
+  description: string;
+  intervalMs: number;
+  maxAttempts: number;
+  running: boolean;
+  lockedBy: string | null;
+  nextRunAt: string | null;
+  consecutiveFailures: number;
+  lastRunAt: string | null;
+  lastSuccessAt: string | null;
+  lastError: string | null;
+}
+
+interface JobRun {
+  id: string;
+  jobName: string;
+  status: 'RUNNING' | 'SUCCEEDED' | 'FAILED';
+  trigger: 'SCHEDULE' | 'MANUAL';
+  attempt: number;
+  instanceId: string;
+  startedAt: string;
+  finishedAt: string | null;
+  durationMs: number | null;
+  result: Record<string, unknown> | null;
+  error: string | null;
+  nextRetryAt: string | null;
+}
+
+interface Stats {
+  succeeded24h: number;
+  failed24h: number;
+}
+
+interface Pagination {
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export default function AdminJobsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [runs, setRuns] = useState<JobRun[]>([]);
+  const [stats, setStats] = useState<Stats | null>(null);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [selectedJob, setSelectedJob] = useState('ALL');
+  const [selectedStatus, setSelectedStatus] = useState('ALL');
+  const [runningJob, setRunningJob] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/signin');
+      return;
+    }
+
+    if (status === 'authenticated') {
+      if (session?.user?.role !== 'ADMIN') {
+        router.push('/');
+        return;
+      }
+      fetchJobs();
+    }
+  }, [status, session, router, selectedJob, selectedStatus]);
+
+  const fetchJobs = async (page = 1) => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: '20',
+      });
+      if (selectedJob !== 'ALL') params.set('jobName', selectedJob);
+      if (selectedStatus !== 'ALL') params.set('status', selectedStatus);
+
+      const res = await fetch(`/api/admin/jobs?${params}`);
+      if (!res.ok) throw new Error('Failed to fetch jobs');
+
+      const data = await res.json();
+      setJobs(data.jobs);
+      setRuns(data.runs);
+      setStats(data.stats);
+      setPagination(data.pagination);
+    } catch (err) {
+      setError('Failed to load jobs');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRunNow = async (jobName: string) => {
+    try {
+      setRunningJob(jobName);
+      setMessage('');
+
+      const res = await fetch('/api/admin/jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'run', jobName }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `Failed to run ${jobName}`);
+
+      setMessage(data.message);
+      await fetchJobs(pagination?.page || 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to run ${jobName}`);
+      console.error(err);
+    } finally {
+      setRunningJob(null);
+    }
+  };
+
+  const getStatusBadge = (status: string) => {
+    switch (status) {
+      case 'SUCCEEDED':
+        return (
+          <span className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-medium bg-green-500/10 text-green-400 border border-green-500/20">
+            <CheckCircle className="w-3 h-3" />
+            Succeeded
+          </span>
+        );
+      case 'RUNNING':
+        return (
+          <span className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-medium bg-blue-500/10 text-blue-400 border border-blue-500/20">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            Running
+          </span>
+        );
+      case 'FAILED':
+        return (
+          <span className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-medium bg-red-500/10 text-red-400 border border-red-500/20">
+            <XCircle className="w-3 h-3" />
+            Failed
+          </span>
+        );
+      default:
+        return null;
+    }
+  };
+
+  const formatInterval = (ms: number) => {
+    const minutes = Math.round(ms / 60000);
+    return minutes >= 60 ? `${Math.round(minutes / 60)}h` : `${minutes}m`;
+  };
+
+  const formatDate = (date: string | null) => (date ? new Date(date).toLocaleString() : '-');
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-red-600" />
+      </div>
+    );
+  }
+
+  if (session?.user?.role !== 'ADMIN') {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <Card className="bg-zinc-900 border-zinc-800 p-8 text-center">
+          <AlertTriangle className="w-12 h-12 text-yellow-500 mx-auto mb-4" />
+          <h2 className="text-xl font-bold text-white mb-2">Access Denied</h2>
+          <p className="text-gray-400">You don&apos;t have permission to access this page.</p>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-black">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <Link href="/admin" className="inline-flex items-center text-gray-400 hover:text-white mb-4">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Dashboard
+            </Link>
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-purple-600 rounded-lg flex items-center justify-center">
+                <Timer className="w-6 h-6 text-white" />
+              </div>
+              <div>
+                <h1 className="text-2xl font-bold text-white">Background Jobs</h1>
+                <p className="text-gray-400 text-sm">Scheduled tasks, run history and failures</p>
+              </div>
+            </div>
+          </div>
+          <Button
+            onClick={() => fetchJobs(pagination?.page || 1)}
+            variant="outline"
+            className="border-zinc-700 text-gray-300 hover:bg-zinc-800"
+          >
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Refresh
+          </Button>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 rounded-lg flex items-center gap-3">
+            <AlertTriangle className="w-5 h-5 text-red-500" />
+            <p className="text-red-400">{error}</p>
+            <button onClick={() => setError('')} className="ml-auto text-gray-400 hover:text-white">
+              <XCircle className="w-5 h-5" />
+            </button>
+          </div>
+        )}
+
+        {message && (
+          <div className="mb-6 p-4 bg-green-500/10 border border-green-500/20 rounded-lg flex items-center gap-3">
+            <CheckCircle className="w-5 h-5 text-green-500" />
+            <p className="text-green-400">{message}</p>
+            <button onClick={() => setMessage('')} className="ml-auto text-gray-400 hover:text-white">
+              <XCircle className="w-5 h-5" />
+            </button>
+          </div>
+        )}
+
+        {/* Stats */}
+        {stats && (
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-6">
+            <div className="p-4 rounded-lg border bg-zinc-900 border-zinc-800">
+              <p className="text-2xl font-bold text-white">{jobs.length}</p>
+              <p className="text-sm text-gray-400">Registered Jobs</p>
+            </div>
+            <button
+              onClick={() => setSelectedStatus(selectedStatus === 'SUCCEEDED' ? 'ALL' : 'SUCCEEDED')}
+              className={`p-4 rounded-lg border text-left transition-all ${
+                selectedStatus === 'SUCCEEDED'
+                  ? 'bg-green-500/10 border-green-500/30'
+                  : 'bg-zinc-900 border-zinc-800 hover:border-zinc-700'
+              }`}
+            >
+              <p className="text-2xl font-bold text-white">{stats.succeeded24h}</p>
+              <p className="text-sm text-gray-400">Succeeded (24h)</p>
+            </button>
+            <button
+              onClick={() => setSelectedStatus(selectedStatus === 'FAILED' ? 'ALL' : 'FAILED')}
+              className={`p-4 rounded-lg border text-left transition-all ${
+                selectedStatus === 'FAILED'
+                  ? 'bg-red-500/10 border-red-500/30'
+                  : 'bg-zinc-900 border-zinc-800 hover:border-zinc-700'
+              }`}
+            >
+              <p className="text-2xl font-bold text-white">{stats.failed24h}</p>
+              <p className="text-sm text-gray-400">Failed (24h)</p>
+            </button>
+          </div>
+        )}
+
+        {/* Jobs */}
+        <Card className="bg-zinc-900 border-zinc-800 mb-6">
+          <div className="divide-y divide-zinc-800">
+            {jobs.map((job) => (
+              <div key={job.name} className="p-4 flex items-center gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={() => setSelectedJob(selectedJob === job.name ? 'ALL' : job.name)}
+                      className={`font-medium hover:underline ${selectedJob === job.name ? 'text-purple-400' : 'text-white'}`}
+                    >
+                      {job.name}
+                    </button>
+                    <span className="text-xs text-gray-500">every {formatInterval(job.intervalMs)}</span>
+                    {job.running && getStatusBadge('RUNNING')}
+                    {job.consecutiveFailures > 0 && (
+                      <span className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-medium bg-yellow-500/10 text-yellow-400 border border-yellow-500/20">
+                        <RotateCcw className="w-3 h-3" />
+                        Retrying ({job.consecutiveFailures}/{job.maxAttempts})
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-400">{job.description}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Last success: {formatDate(job.lastSuccessAt)} · Next run: {formatDate(job.nextRunAt)}
+                  </p>
+                  {job.lastError && (
+                    <p className="text-xs text-red-400 mt-1 truncate">Last error: {job.lastError}</p>
+                  )}
+                </div>
+                <Button
+                  onClick={() => handleRunNow(job.name)}
+                  disabled={runningJob !== null || job.running}
+                  variant="outline"
+                  size="sm"
+                  className="border-zinc-700 text-gray-300 hover:bg-zinc-800"
+                >
+                  {runningJob === job.name ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Play className="w-4 h-4 mr-2" />
+                  )}
+                  Run Now
+                </Button>
+              </div>
+            ))}
+          </div>
+        </Card>
+
+        {/* Run History */}
+        <Card className="bg-zinc-900 border-zinc-800">
+          <div className="p-4 border-b border-zinc-800 flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-white">
+              Run History{selectedJob !== 'ALL' && ` - ${selectedJob}`}
+            </h3>
+            <select
+              value={selectedStatus}
+              onChange={(e) => setSelectedStatus(e.target.value)}
+              className="px-3 py-1.5 bg-zinc-800 border border-zinc-700 rounded-lg text-sm text-white focus:outline-none"
+            >
+              <option value="ALL">All statuses</option>
+              <option value="SUCCEEDED">Succeeded</option>
+              <option value="FAILED">Failed</option>
+              <option value="RUNNING">Running</option>
+            </select>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-purple-600" />
+            </div>
+          ) : runs.length === 0 ? (
+            <div className="text-center py-12">
+              <Timer className="w-12 h-12 text-gray-600 mx-auto mb-4" />
+              <p className="text-gray-400">No job runs found</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-zinc-800">
+              {runs.map((run) => (
+                <div key={run.id} className="p-4">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium text-white">{run.jobName}</p>
+                    {getStatusBadge(run.status)}
+                    <span className="text-xs text-gray-500">
+                      {run.trigger === 'MANUAL' ? 'Manual' : 'Scheduled'} · attempt {run.attempt}
+                    </span>
+                    <span className="ml-auto text-xs text-gray-500">
+                      {formatDate(run.startedAt)}
+                      {run.durationMs !== null && ` · ${run.durationMs}ms`}
+                    </span>
+                  </div>
+                  {run.error && (
+                    <p className="text-sm text-red-400 mt-1">{run.error}</p>
+                  )}
+                  {run.nextRetryAt && (
+                    <p className="text-xs text-yellow-400 mt-1">Retry scheduled for {formatDate(run.nextRetryAt)}</p>
+                  )}
+                  {run.result && (
+                    <p className="text-xs text-gray-400 mt-1 font-mono">{JSON.stringify(run.result)}</p>
+                  )}
+                  <p className="text-xs text-gray-600 mt-1">{run.instanceId}</p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Pagination */}
+          {pagination && pagination.totalPages > 1 && (
+            <div className="p-4 border-t border-zinc-800 flex items-center justify-between">
+              <p className="text-sm text-gray-400">
+                Page {pagination.page} of {pagination.totalPages}
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  onClick={() => fetchJobs(pagination.page - 1)}
+                  disabled={pagination.page === 1}
+                  variant="outline"
+                  size="sm"
+                  className="border-zinc-700"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                <Button
+                  onClick={() => fetchJobs(pagination.page + 1)}
+                  disabled={pagination.page === pagination.totalPages}
+                  variant="outline"
+                  size="sm"
+                  className="border-zinc-700"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
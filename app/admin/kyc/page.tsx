@@ -41,6 +41,14 @@ interface KYCApplication {
   role: string;
   createdAt: string;
   updatedAt: string;
+  verification: {
+    id: string;
+    provider: string;
+    status: 'IN_PROGRESS' | 'MANUAL_REVIEW' | 'APPROVED' | 'REJECTED';
+    checks: Array<{ code: string; outcome: 'PASS' | 'REVIEW' | 'FAIL'; detail: string }>;
+    decisionReason: string | null;
+    decidedBy: string | null;
+  } | null;
 }
 
 interface Stats {
@@ -115,6 +123,23 @@ export default function AdminKYCPage() {
     }
   };
 
+  // The list only has masked KYC data; the detail endpoint decrypts it (audit-logged)
+  const openApplication = async (app: KYCApplication) => {
+    setSelectedApplication(app);
+    try {
+      const res = await fetch(`/api/admin/kyc/${app.id}`);
+      if (!res.ok) throw new Error('Failed to fetch application details');
+
+      const data = await res.json();
+      setSelectedApplication((current) =>
+        current?.id === app.id ? { ...current, kycData: data.user.kycData } : current
+      );
+    } catch (err) {
+      setError('Failed to load application details');
+      console.error(err);
+    }
+  };
+
   const handleApprove = async (userId: string) => {
     try {
       setActionLoading(true);
@@ -365,7 +390,7 @@ export default function AdminKYCPage() {
                       className={`w-full text-left p-4 hover:bg-zinc-800/50 cursor-pointer transition-colors ${
                         selectedApplication?.id === app.id ? 'bg-zinc-800' : ''
                       }`}
-                      onClick={() => setSelectedApplication(app)}
+                      onClick={() => openApplication(app)}
                     >
                       <div className="flex items-center gap-4">
                         <div className="w-12 h-12 rounded-full bg-zinc-800 flex items-center justify-center overflow-hidden">
@@ -503,9 +528,7 @@ export default function AdminKYCPage() {
                       <div>
                         <p className="text-xs text-gray-500">PAN Number</p>
                         <p className="text-sm text-white font-mono">
-                          {selectedApplication.kycData?.panNumber 
-                            ? `****${selectedApplication.kycData.panNumber.slice(-4)}`
-                            : '-'}
+                          {selectedApplication.kycData?.panNumber || '-'}
                         </p>
                       </div>
                     </div>
@@ -526,7 +549,7 @@ export default function AdminKYCPage() {
                         <div>
                           <p className="text-xs text-gray-500">Aadhaar Number</p>
                           <p className="text-sm text-white font-mono">
-                            ****-****-{selectedApplication.kycData.aadhaarNumber.slice(-4)}
+                            {selectedApplication.kycData.aadhaarNumber}
                           </p>
                         </div>
                       </div>
@@ -575,6 +598,32 @@ export default function AdminKYCPage() {
                     </div>
                   )}
 
+                  {/* Automated Checks */}
+                  {selectedApplication.verification && (
+                    <div className="pt-4 border-t border-zinc-800">
+                      <p className="text-sm font-medium text-white mb-3">
+                        Automated Checks
+                        <span className="ml-2 text-xs text-gray-500">via {selectedApplication.verification.provider}</span>
+                      </p>
+                      <div className="space-y-2">
+                        {selectedApplication.verification.checks.map((check) => (
+                          <div key={check.code} className="flex items-start gap-2">
+                            {check.outcome === 'PASS' && <CheckCircle className="w-4 h-4 text-green-500 mt-0.5" />}
+                            {check.outcome === 'REVIEW' && <Clock className="w-4 h-4 text-yellow-500 mt-0.5" />}
+                            {check.outcome === 'FAIL' && <XCircle className="w-4 h-4 text-red-500 mt-0.5" />}
+                            <div>
+                              <p className="text-xs text-gray-500">{check.code.replace('_', ' ')}</p>
+                              <p className="text-sm text-gray-300">{check.detail}</p>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                      {selectedApplication.verification.status === 'MANUAL_REVIEW' && selectedApplication.verification.decisionReason && (
+                        <p className="text-xs text-yellow-400 mt-2">{selectedApplication.verification.decisionReason}</p>
+                      )}
+                    </div>
+                  )}
+
                   {/* Rejection Reason */}
                   {selectedApplication.kycStatus === 'REJECTED' && selectedApplication.kycData?.rejectionReason && (
                     <div className="pt-4 border-t border-zinc-800">
@@ -7,6 +7,10 @@ import {
   Shield, 
   LayoutDashboard, 
   Wallet, 
+  Timer,
+  Scale,
+  BadgeCheck,
+  FileCheck,
   ChevronRight,
   Loader2,
   AlertTriangle
@@ -55,7 +59,11 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
   const navItems = [
     { href: '/admin', label: 'Dashboard', icon: LayoutDashboard },
     { href: '/admin/kyc', label: 'KYC Management', icon: Shield },
+    { href: '/admin/offerings', label: 'Offering Review', icon: FileCheck },
+    { href: '/admin/investor-tiers', label: 'Investor Tiers', icon: BadgeCheck },
     { href: '/admin/withdrawals', label: 'Withdrawals', icon: Wallet },
+    { href: '/admin/jobs', label: 'Background Jobs', icon: Timer },
+    { href: '/admin/disputes', label: 'Revenue Disputes', icon: Scale },
   ];
 
   return (
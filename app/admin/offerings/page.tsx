@@ -0,0 +1,475 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import {
+  FileCheck,
+  CheckCircle,
+  XCircle,
+  ArrowLeft,
+  Loader2,
+  AlertTriangle,
+  Clock,
+  RefreshCw,
+  MessageSquare,
+  ChevronDown,
+  ChevronUp
+} from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+
+type OfferingStatus = 'PENDING_APPROVAL' | 'CHANGES_REQUESTED' | 'ACTIVE' | 'CLOSED';
+type ReviewDecision = 'APPROVED' | 'CHANGES_REQUESTED' | 'REJECTED';
+type ReviewAction = 'approve' | 'request_changes' | 'reject';
+
+interface OfferingSummary extends Record<string, unknown> {
+  id: string;
+  title: string;
+  status: string;
+  createdAt: string;
+  channel: {
+    channelName: string;
+    owner: { name: string | null; email: string; kycStatus: string };
+  };
+  revisions: Array<{ version: number; submittedAt: string; decision: ReviewDecision | null }>;
+}
+
+interface Revision {
+  id: string;
+  version: number;
+  snapshot: Record<string, string | number | null>;
+  submittedAt: string;
+  decision: ReviewDecision | null;
+  summary: string | null;
+  reviewedAt: string | null;
+  comments: Array<{ id: string; field: string; comment: string }>;
+  changedFields: string[];
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  sharePercentage: 'Revenue share (%)',
+  totalShares: 'Total shares',
+  pricePerShare: 'Price per share (₹)',
+  minInvestment: 'Minimum investment (₹)',
+  maxInvestment: 'Maximum investment (₹)',
+  duration: 'Duration (months)',
+  buybackPricePerShare: 'Buyback price per share (₹)',
+  revenueSources: 'Revenue sources',
+  returnCapMultiple: 'Return cap (x raised)',
+  minimumMonthlyPayment: 'Minimum monthly payment (₹)',
+  general: 'General',
+};
+
+const STATUS_FILTERS: Array<{ value: OfferingStatus | 'ALL'; label: string }> = [
+  { value: 'PENDING_APPROVAL', label: 'Awaiting review' },
+  { value: 'CHANGES_REQUESTED', label: 'Changes requested' },
+  { value: 'ACTIVE', label: 'Active' },
+  { value: 'CLOSED', label: 'Closed' },
+  { value: 'ALL', label: 'All' },
+];
+
+export default function AdminOfferingsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [offerings, setOfferings] = useState<OfferingSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [selectedStatus, setSelectedStatus] = useState<OfferingStatus | 'ALL'>('PENDING_APPROVAL');
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [revisions, setRevisions] = useState<Revision[] | null>(null);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [summary, setSummary] = useState('');
+  const [reviewing, setReviewing] = useState<ReviewAction | null>(null);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/signin');
+      return;
+    }
+
+    if (status === 'authenticated') {
+      if (session?.user?.role !== 'ADMIN') {
+        router.push('/');
+        return;
+      }
+      fetchOfferings();
+    }
+  }, [status, session, router, selectedStatus]);
+
+  const fetchOfferings = async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams();
+      if (selectedStatus !== 'ALL') params.set('status', selectedStatus);
+
+      const res = await fetch(`/api/admin/offerings?${params}`);
+      if (!res.ok) throw new Error('Failed to fetch offerings');
+
+      const data = await res.json();
+      setOfferings(data.offerings);
+    } catch (err) {
+      setError('Failed to load offerings');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleExpanded = async (offeringId: string) => {
+    if (expanded === offeringId) {
+      setExpanded(null);
+      return;
+    }
+
+    setExpanded(offeringId);
+    setRevisions(null);
+    setComments({});
+    setSummary('');
+
+    try {
+      const res = await fetch(`/api/admin/offerings/${offeringId}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load review history');
+      setRevisions(data.revisions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load review history');
+    }
+  };
+
+  const handleReview = async (offeringId: string, action: ReviewAction) => {
+    const fieldComments = Object.entries(comments)
+      .filter(([, comment]) => comment.trim())
+      .map(([field, comment]) => ({ field, comment }));
+
+    if (action === 'request_changes' && fieldComments.length === 0) {
+      setError('Comment on at least one field to request changes');
+      return;
+    }
+    if (action === 'reject' && !summary.trim()) {
+      setError('Add a summary explaining the rejection');
+      return;
+    }
+
+    try {
+      setReviewing(action);
+      setMessage('');
+
+      const res = await fetch('/api/admin/offerings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ offeringId, action, reason: summary || undefined, comments: fieldComments }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to review offering');
+
+      setMessage(data.message);
+      setExpanded(null);
+      await fetchOfferings();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to review offering');
+      console.error(err);
+    } finally {
+      setReviewing(null);
+    }
+  };
+
+  const getStatusBadge = (offeringStatus: string) => {
+    switch (offeringStatus) {
+      case 'PENDING_APPROVAL':
+        return (
+          <span className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-medium bg-yellow-500/10 text-yellow-400 border border-yellow-500/20">
+            <Clock className="w-3 h-3" />
+            Awaiting review
+          </span>
+        );
+      case 'CHANGES_REQUESTED':
+        return (
+          <span className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-medium bg-blue-500/10 text-blue-400 border border-blue-500/20">
+            <MessageSquare className="w-3 h-3" />
+            Changes requested
+          </span>
+        );
+      case 'ACTIVE':
+      case 'FUNDED':
+        return (
+          <span className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-medium bg-green-500/10 text-green-400 border border-green-500/20">
+            <CheckCircle className="w-3 h-3" />
+            {offeringStatus === 'ACTIVE' ? 'Active' : 'Funded'}
+          </span>
+        );
+      default:
+        return (
+          <span className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-medium bg-zinc-500/10 text-gray-400 border border-zinc-500/20">
+            <XCircle className="w-3 h-3" />
+            {offeringStatus.charAt(0) + offeringStatus.slice(1).toLowerCase()}
+          </span>
+        );
+    }
+  };
+
+  const formatDate = (date: string | null) => (date ? new Date(date).toLocaleString() : '-');
+
+  const renderReview = (offering: OfferingSummary) => {
+    if (!revisions) {
+      return (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+        </div>
+      );
+    }
+
+    // Offerings submitted before reviews were recorded have no revisions yet
+    const latest = revisions[revisions.length - 1];
+    const terms = (latest?.snapshot ?? offering) as Record<string, unknown>;
+    const changedFields = latest?.changedFields ?? [];
+    const awaitingReview = offering.status === 'PENDING_APPROVAL';
+
+    return (
+      <div className="mt-4 space-y-4">
+        {latest && (
+          <p className="text-xs text-gray-500">
+            Revision {latest.version} · submitted {formatDate(latest.submittedAt)}
+            {changedFields.length > 0 && ' · changed fields are highlighted'}
+          </p>
+        )}
+
+        <div className="divide-y divide-zinc-800 border border-zinc-800 rounded-lg">
+          {Object.keys(FIELD_LABELS).filter((field) => field !== 'general').map((field) => (
+            <div
+              key={field}
+              className={`p-3 grid grid-cols-12 gap-3 text-sm ${
+                changedFields.includes(field) ? 'bg-blue-500/5' : ''
+              }`}
+            >
+              <p className="col-span-3 text-gray-500">
+                {FIELD_LABELS[field]}
+                {changedFields.includes(field) && <span className="ml-2 text-xs text-blue-400">changed</span>}
+              </p>
+              <p className="col-span-5 text-white whitespace-pre-wrap break-words">
+                {String(terms[field] ?? '-')}
+              </p>
+              {awaitingReview && (
+                <input
+                  type="text"
+                  value={comments[field] || ''}
+                  onChange={(e) => setComments({ ...comments, [field]: e.target.value })}
+                  placeholder="Comment"
+                  className="col-span-4 px-3 py-1.5 bg-zinc-800 border border-zinc-700 rounded-lg text-sm text-white focus:outline-none"
+                />
+              )}
+            </div>
+          ))}
+        </div>
+
+        {awaitingReview && (
+          <div className="space-y-2">
+            <input
+              type="text"
+              value={comments.general || ''}
+              onChange={(e) => setComments({ ...comments, general: e.target.value })}
+              placeholder="General comment"
+              className="w-full px-3 py-1.5 bg-zinc-800 border border-zinc-700 rounded-lg text-sm text-white focus:outline-none"
+            />
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={summary}
+                onChange={(e) => setSummary(e.target.value)}
+                placeholder="Summary (required to reject)"
+                className="flex-1 px-3 py-1.5 bg-zinc-800 border border-zinc-700 rounded-lg text-sm text-white focus:outline-none"
+              />
+              <Button
+                onClick={() => handleReview(offering.id, 'approve')}
+                disabled={reviewing !== null}
+                size="sm"
+                className="bg-green-600 hover:bg-green-700"
+              >
+                {reviewing === 'approve' && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Approve
+              </Button>
+              <Button
+                onClick={() => handleReview(offering.id, 'request_changes')}
+                disabled={reviewing !== null}
+                size="sm"
+                className="bg-blue-600 hover:bg-blue-700"
+              >
+                {reviewing === 'request_changes' && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Request changes
+              </Button>
+              <Button
+                onClick={() => handleReview(offering.id, 'reject')}
+                disabled={reviewing !== null}
+                variant="outline"
+                size="sm"
+                className="border-zinc-700 text-gray-300 hover:bg-zinc-800"
+              >
+                {reviewing === 'reject' && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Reject
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Earlier rounds */}
+        {revisions.some((revision) => revision.decision) && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-white">History</p>
+            {[...revisions].reverse().filter((revision) => revision.decision).map((revision) => (
+              <div key={revision.id} className="p-3 bg-zinc-800/50 rounded-lg text-xs text-gray-400">
+                <p>
+                  <span className="text-white">Revision {revision.version}</span>
+                  {' · '}{revision.decision?.replace('_', ' ').toLowerCase()} {formatDate(revision.reviewedAt)}
+                  {revision.changedFields.length > 0 && ` · changed ${revision.changedFields.map((f) => FIELD_LABELS[f] ?? f).join(', ')}`}
+                </p>
+                {revision.summary && <p className="mt-1">{revision.summary}</p>}
+                {revision.comments.map((c) => (
+                  <p key={c.id} className="mt-1">
+                    <span className="text-gray-300">{FIELD_LABELS[c.field] ?? c.field}:</span> {c.comment}
+                  </p>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-red-600" />
+      </div>
+    );
+  }
+
+  if (session?.user?.role !== 'ADMIN') {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <Card className="bg-zinc-900 border-zinc-800 p-8 text-center">
+          <AlertTriangle className="w-12 h-12 text-yellow-500 mx-auto mb-4" />
+          <h2 className="text-xl font-bold text-white mb-2">Access Denied</h2>
+          <p className="text-gray-400">You don&apos;t have permission to access this page.</p>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-black">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <Link href="/admin" className="inline-flex items-center text-gray-400 hover:text-white mb-4">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Dashboard
+            </Link>
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-blue-600 rounded-lg flex items-center justify-center">
+                <FileCheck className="w-6 h-6 text-white" />
+              </div>
+              <div>
+                <h1 className="text-2xl font-bold text-white">Offering Review</h1>
+                <p className="text-gray-400 text-sm">Approve creator offerings or send them back with comments</p>
+              </div>
+            </div>
+          </div>
+          <Button
+            onClick={() => fetchOfferings()}
+            variant="outline"
+            className="border-zinc-700 text-gray-300 hover:bg-zinc-800"
+          >
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Refresh
+          </Button>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 rounded-lg flex items-center gap-3">
+            <AlertTriangle className="w-5 h-5 text-red-500" />
+            <p className="text-red-400">{error}</p>
+            <button onClick={() => setError('')} className="ml-auto text-gray-400 hover:text-white">
+              <XCircle className="w-5 h-5" />
+            </button>
+          </div>
+        )}
+
+        {message && (
+          <div className="mb-6 p-4 bg-green-500/10 border border-green-500/20 rounded-lg flex items-center gap-3">
+            <CheckCircle className="w-5 h-5 text-green-500" />
+            <p className="text-green-400">{message}</p>
+            <button onClick={() => setMessage('')} className="ml-auto text-gray-400 hover:text-white">
+              <XCircle className="w-5 h-5" />
+            </button>
+          </div>
+        )}
+
+        {/* Status filter */}
+        <div className="flex flex-wrap gap-2 mb-6">
+          {STATUS_FILTERS.map((filter) => (
+            <button
+              key={filter.value}
+              onClick={() => setSelectedStatus(filter.value)}
+              className={`px-3 py-1.5 rounded-lg border text-sm transition-all ${
+                selectedStatus === filter.value
+                  ? 'bg-blue-500/10 border-blue-500/30 text-white'
+                  : 'bg-zinc-900 border-zinc-800 text-gray-400 hover:border-zinc-700'
+              }`}
+            >
+              {filter.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Offerings */}
+        <Card className="bg-zinc-900 border-zinc-800">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+            </div>
+          ) : offerings.length === 0 ? (
+            <div className="text-center py-12">
+              <FileCheck className="w-12 h-12 text-gray-600 mx-auto mb-4" />
+              <p className="text-gray-400">No offerings found</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-zinc-800">
+              {offerings.map((offering) => (
+                <div key={offering.id} className="p-4">
+                  <button
+                    onClick={() => toggleExpanded(offering.id)}
+                    className="w-full flex items-center gap-2 text-left"
+                  >
+                    <p className="font-medium text-white">{offering.title}</p>
+                    {getStatusBadge(offering.status)}
+                    <span className="text-xs text-gray-500">
+                      {offering.channel.channelName} · {offering.channel.owner.name || offering.channel.owner.email}
+                      {offering.revisions[0] && ` · revision ${offering.revisions[0].version}`}
+                    </span>
+                    <span className="ml-auto text-xs text-gray-500">
+                      Submitted {formatDate(offering.revisions[0]?.submittedAt ?? offering.createdAt)}
+                    </span>
+                    {expanded === offering.id ? (
+                      <ChevronUp className="w-4 h-4 text-gray-400" />
+                    ) : (
+                      <ChevronDown className="w-4 h-4 text-gray-400" />
+                    )}
+                  </button>
+
+                  {expanded === offering.id && renderReview(offering)}
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+/**
+ * Admin Distribution Corrections API
+ *
+ * Lists corrections with their outstanding adjustments, and lets an
+ * admin reverse the distribution made from a wrong deposit.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminUser } from '@/lib/utils/admin';
+import { prisma } from '@/lib/prisma';
+import { dexEscrowService } from '@/lib/services/dex-escrow';
+
+// GET - Corrections with the reversed distribution and adjustments
+export async function GET(req: NextRequest) {
+  try {
+    const { isAdmin, error } = await isAdminUser();
+    if (!isAdmin) return error!;
+
+    const { searchParams } = new URL(req.url);
+    const vaultId = searchParams.get('vaultId');
+    const page = Number.parseInt(searchParams.get('page') || '1');
+    const limit = Number.parseInt(searchParams.get('limit') || '20');
+
+    const where = vaultId ? { vaultId } : {};
+
+    const [corrections, total] = await Promise.all([
+      prisma.distributionCorrection.findMany({
+        where,
+        include: {
+          distribution: {
+            select: {
+              id: true,
+              revenueMonth: true,
+              totalAmount: true,
+              platformFee: true,
+              executedAt: true,
+            },
+          },
+          adjustments: {
+            orderBy: { createdAt: 'asc' },
+          },
+          vault: {
+            select: {
+              id: true,
+              offering: {
+                select: {
+                  id: true,
+                  title: true,
+                  channel: { select: { channelName: true } },
+                },
+              },
+            },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.distributionCorrection.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      corrections,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching corrections:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch corrections' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Reverse the distribution of a wrong deposit
+export async function POST(req: NextRequest) {
+  try {
+    const { isAdmin, userId, error } = await isAdminUser();
+    if (!isAdmin) return error!;
+
+    const { depositId, reason } = await req.json();
+
+    if (!depositId || !reason?.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'depositId and reason are required' },
+        { status: 400 }
+      );
+    }
+
+    const correction = await dexEscrowService.correctDistribution(depositId, reason, userId);
+
+    return NextResponse.json({
+      success: true,
+      correction,
+      message: correction.adjustments.length > 0
+        ? `Distribution reversed. ${correction.adjustments.length} claim(s) were already paid and will be recovered from future distributions.`
+        : 'Distribution reversed',
+    });
+  } catch (error: unknown) {
+    console.error('Error correcting distribution:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to correct distribution';
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 400 }
+    );
+  }
+}
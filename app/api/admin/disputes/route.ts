@@ -0,0 +1,141 @@
+/**
+ * Admin Revenue Disputes API
+ *
+ * Lists revenue disputes raised by reconciliation, with the deposits on
+ * both sides, and lets an admin resolve one.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { DisputeResolution, DisputeStatus } from '@prisma/client';
+import { isAdminUser } from '@/lib/utils/admin';
+import { prisma } from '@/lib/prisma';
+import { dexEscrowService } from '@/lib/services/dex-escrow';
+
+// GET - Disputes with their vault, offering and the month's deposits
+export async function GET(req: NextRequest) {
+  try {
+    const { isAdmin, error } = await isAdminUser();
+    if (!isAdmin) return error!;
+
+    const { searchParams } = new URL(req.url);
+    const status = searchParams.get('status');
+    const page = Number.parseInt(searchParams.get('page') || '1');
+    const limit = Number.parseInt(searchParams.get('limit') || '20');
+
+    const where = status && status in DisputeStatus ? { status: status as DisputeStatus } : {};
+
+    const [disputes, total, open, resolved] = await Promise.all([
+      prisma.revenueDispute.findMany({
+        where,
+        include: {
+          vault: {
+            select: {
+              id: true,
+              status: true,
+              offering: {
+                select: {
+                  id: true,
+                  title: true,
+                  channel: {
+                    select: {
+                      channelName: true,
+                      youtubeChannelId: true,
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.revenueDispute.count({ where }),
+      prisma.revenueDispute.count({ where: { status: 'OPEN' } }),
+      prisma.revenueDispute.count({ where: { status: 'RESOLVED' } }),
+    ]);
+
+    const deposits = disputes.length > 0
+      ? await prisma.escrowDeposit.findMany({
+          where: {
+            OR: disputes.map((d) => ({ vaultId: d.vaultId, revenueMonth: d.revenueMonth })),
+          },
+          select: {
+            id: true,
+            vaultId: true,
+            revenueMonth: true,
+            amount: true,
+            source: true,
+            origin: true,
+            status: true,
+            externalRef: true,
+            createdAt: true,
+          },
+          orderBy: { createdAt: 'asc' },
+        })
+      : [];
+
+    return NextResponse.json({
+      success: true,
+      disputes: disputes.map((dispute) => ({
+        ...dispute,
+        deposits: deposits.filter(
+          (d) => d.vaultId === dispute.vaultId && d.revenueMonth === dispute.revenueMonth
+        ),
+      })),
+      stats: { open, resolved },
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching disputes:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch disputes' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Resolve a dispute
+export async function POST(req: NextRequest) {
+  try {
+    const { isAdmin, userId, error } = await isAdminUser();
+    if (!isAdmin) return error!;
+
+    const { disputeId, resolution, note } = await req.json();
+
+    if (!disputeId || !(resolution in DisputeResolution)) {
+      return NextResponse.json(
+        { success: false, error: 'disputeId and a resolution of ACCEPT_VERIFIED or ACCEPT_REPORTED are required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await dexEscrowService.resolveDispute(
+      disputeId,
+      userId!,
+      resolution as DisputeResolution,
+      note
+    );
+
+    return NextResponse.json({
+      success: true,
+      result,
+      message: result.alreadyDistributed.length > 0
+        ? `Dispute resolved. ${result.alreadyDistributed.length} rejected deposit(s) were already distributed and need a correction.`
+        : 'Dispute resolved',
+    });
+  } catch (error: unknown) {
+    console.error('Error resolving dispute:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to resolve dispute';
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 400 }
+    );
+  }
+}
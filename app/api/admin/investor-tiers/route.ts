@@ -0,0 +1,161 @@
+/**
+ * Admin Investor Tiers API
+ *
+ * Review investors' tier upgrade requests and set each tier's
+ * investment limits.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { InvestorTier, TierRequestStatus } from '@prisma/client';
+import { isAdminUser } from '@/lib/utils/admin';
+import { prisma } from '@/lib/prisma';
+import { TierLimits, investorTierService } from '@/lib/services/investor-tiers';
+import { money } from '@/lib/utils/money';
+
+// GET - Upgrade requests with the requesting user, and every tier's limits
+export async function GET(req: NextRequest) {
+  try {
+    const { isAdmin, error } = await isAdminUser();
+    if (!isAdmin) return error!;
+
+    const { searchParams } = new URL(req.url);
+    const status = searchParams.get('status');
+    const page = Number.parseInt(searchParams.get('page') || '1');
+    const limit = Number.parseInt(searchParams.get('limit') || '20');
+
+    const where = status && status in TierRequestStatus ? { status: status as TierRequestStatus } : {};
+
+    const [requests, total, pending, approved, rejected, limits] = await Promise.all([
+      prisma.tierUpgradeRequest.findMany({
+        where,
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              kycStatus: true,
+              investorTier: true,
+            },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.tierUpgradeRequest.count({ where }),
+      prisma.tierUpgradeRequest.count({ where: { status: 'PENDING' } }),
+      prisma.tierUpgradeRequest.count({ where: { status: 'APPROVED' } }),
+      prisma.tierUpgradeRequest.count({ where: { status: 'REJECTED' } }),
+      investorTierService.getAllLimits(),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      requests,
+      limits,
+      stats: { pending, approved, rejected },
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching tier requests:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch tier requests' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Approve or reject an upgrade request
+export async function POST(req: NextRequest) {
+  try {
+    const { isAdmin, userId, error } = await isAdminUser();
+    if (!isAdmin) return error!;
+
+    const { requestId, action, note } = await req.json();
+
+    if (!requestId || !['approve', 'reject'].includes(action)) {
+      return NextResponse.json(
+        { success: false, error: 'requestId and an action of approve or reject are required' },
+        { status: 400 }
+      );
+    }
+
+    if (action === 'reject' && !note) {
+      return NextResponse.json(
+        { success: false, error: 'A note explaining the rejection is required' },
+        { status: 400 }
+      );
+    }
+
+    const request = action === 'approve'
+      ? await investorTierService.approveRequest(requestId, userId!, note)
+      : await investorTierService.rejectRequest(requestId, userId!, note);
+
+    return NextResponse.json({
+      success: true,
+      request,
+      message: action === 'approve'
+        ? `Investor moved to the ${request.requestedTier} tier`
+        : 'Upgrade request rejected',
+    });
+  } catch (error: unknown) {
+    console.error('Error reviewing tier request:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to review tier request';
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 400 }
+    );
+  }
+}
+
+// PUT - Set a tier's limits. null removes a limit; omitted fields keep their value.
+export async function PUT(req: NextRequest) {
+  try {
+    const { isAdmin, userId, error } = await isAdminUser();
+    if (!isAdmin) return error!;
+
+    const { tier, maxSingleInvestment, maxAnnualInvestment } = await req.json();
+
+    if (!(tier in InvestorTier)) {
+      return NextResponse.json(
+        { success: false, error: 'tier must be RETAIL, VERIFIED_INCOME or ACCREDITED' },
+        { status: 400 }
+      );
+    }
+
+    const changes: Partial<TierLimits> = {};
+
+    for (const [field, value] of Object.entries({ maxSingleInvestment, maxAnnualInvestment })) {
+      if (value === undefined) continue;
+
+      if (value !== null && (typeof value !== 'number' || value <= 0)) {
+        return NextResponse.json(
+          { success: false, error: `${field} must be a positive amount, or null for no limit` },
+          { status: 400 }
+        );
+      }
+
+      changes[field as keyof TierLimits] = value === null ? null : money(value);
+    }
+
+    const limits = await investorTierService.updateLimits(tier as InvestorTier, changes, userId!);
+
+    return NextResponse.json({
+      success: true,
+      limits,
+      message: `${tier} limits updated`,
+    });
+  } catch (error) {
+    console.error('Error updating tier limits:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update tier limits' },
+      { status: 500 }
+    );
+  }
+}
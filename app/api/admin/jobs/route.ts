@@ -0,0 +1,91 @@
+/**
+ * Admin Jobs API
+ *
+ * Lists background jobs with their schedule state and run history, and
+ * lets an admin run a job immediately.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { JobRunStatus } from '@prisma/client';
+import { isAdminUser } from '@/lib/utils/admin';
+import { prisma } from '@/lib/prisma';
+import { jobScheduler } from '@/lib/jobs';
+
+// GET - Jobs, recent runs and 24h stats
+export async function GET(req: NextRequest) {
+  try {
+    const { isAdmin, error } = await isAdminUser();
+    if (!isAdmin) return error!;
+
+    const { searchParams } = new URL(req.url);
+    const jobName = searchParams.get('jobName') || undefined;
+    const status = searchParams.get('status');
+    const page = Number.parseInt(searchParams.get('page') || '1');
+    const limit = Number.parseInt(searchParams.get('limit') || '20');
+
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+
+    const [jobs, { runs, pagination }, succeeded, failed] = await Promise.all([
+      jobScheduler.getJobs(),
+      jobScheduler.getRuns({
+        jobName,
+        status: status && status in JobRunStatus ? (status as JobRunStatus) : undefined,
+        page,
+        limit,
+      }),
+      prisma.jobRun.count({ where: { status: 'SUCCEEDED', startedAt: { gte: since } } }),
+      prisma.jobRun.count({ where: { status: 'FAILED', startedAt: { gte: since } } }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      jobs,
+      runs,
+      stats: {
+        succeeded24h: succeeded,
+        failed24h: failed,
+      },
+      pagination,
+    });
+  } catch (error) {
+    console.error('Error fetching jobs:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch jobs' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Run a job now
+export async function POST(req: NextRequest) {
+  try {
+    const { isAdmin, error } = await isAdminUser();
+    if (!isAdmin) return error!;
+
+    const { action, jobName } = await req.json();
+
+    if (action !== 'run' || !jobName) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid action' },
+        { status: 400 }
+      );
+    }
+
+    const run = await jobScheduler.runNow(jobName);
+
+    return NextResponse.json({
+      success: true,
+      run,
+      message: run.status === 'SUCCEEDED'
+        ? `Job ${jobName} completed`
+        : `Job ${jobName} failed: ${run.error}`,
+    });
+  } catch (error: unknown) {
+    console.error('Error running job:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to run job';
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 400 }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { fieldEncryptionService } from '@/lib/services/field-encryption';
 
 // Helper function to check if user is admin
 async function isAdmin(userId: string): Promise<boolean> {
@@ -12,7 +13,7 @@ async function isAdmin(userId: string): Promise<boolean> {
   return user?.role === 'ADMIN';
 }
 
-// GET - Get single KYC application details
+// GET - Get single KYC application details, decrypted. Every read is audit-logged.
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
@@ -74,9 +75,18 @@ export async function GET(
       );
     }
 
+    const kycData = user.kycData
+      ? await fieldEncryptionService.revealKycData(user.kycData as Record<string, unknown>, {
+          actorId: session.user.id,
+          subjectUserId: user.id,
+          resourceId: user.id,
+          ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim() ?? null,
+        })
+      : null;
+
     return NextResponse.json({
       success: true,
-      user,
+      user: { ...user, kycData },
     });
   } catch (error) {
     console.error('Error fetching KYC details:', error);
@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { KYCService } from '@/lib/services/kyc';
+import { fieldEncryptionService } from '@/lib/services/field-encryption';
 import { Prisma } from '@prisma/client';
 
 const kycService = new KYCService();
@@ -49,6 +50,11 @@ export async function GET(request: NextRequest) {
     if (status !== 'ALL') {
       where.kycStatus = status as 'PENDING' | 'VERIFIED' | 'REJECTED';
     }
+
+    // Submissions still with the KYC provider are not in the admin queue yet
+    if (status === 'PENDING') {
+      where.kycVerifications = { none: { status: 'IN_PROGRESS' } };
+    }
     
     // Only show users who have submitted KYC data (not null)
     where.NOT = { kycData: { equals: Prisma.DbNull } };
@@ -74,6 +80,18 @@ export async function GET(request: NextRequest) {
           role: true,
           createdAt: true,
           updatedAt: true,
+          kycVerifications: {
+            select: {
+              id: true,
+              provider: true,
+              status: true,
+              checks: true,
+              decisionReason: true,
+              decidedBy: true,
+            },
+            orderBy: { createdAt: 'desc' },
+            take: 1,
+          },
         },
         orderBy: { updatedAt: 'desc' },
         skip,
@@ -84,14 +102,31 @@ export async function GET(request: NextRequest) {
 
     // Get stats - use Prisma.DbNull for proper null comparison
     const [pendingCount, verifiedCount, rejectedCount] = await Promise.all([
-      prisma.user.count({ where: { kycStatus: 'PENDING', NOT: { kycData: { equals: Prisma.DbNull } } } }),
+      prisma.user.count({
+        where: {
+          kycStatus: 'PENDING',
+          NOT: { kycData: { equals: Prisma.DbNull } },
+          kycVerifications: { none: { status: 'IN_PROGRESS' } },
+        },
+      }),
       prisma.user.count({ where: { kycStatus: 'VERIFIED', NOT: { kycData: { equals: Prisma.DbNull } } } }),
       prisma.user.count({ where: { kycStatus: 'REJECTED', NOT: { kycData: { equals: Prisma.DbNull } } } }),
     ]);
 
+    // Sensitive fields stay masked here; the detail endpoint decrypts them
+    const maskedApplications = await Promise.all(
+      applications.map(async ({ kycVerifications, ...application }) => ({
+        ...application,
+        verification: kycVerifications[0] ?? null,
+        kycData: application.kycData
+          ? await fieldEncryptionService.maskKycData(application.kycData as Record<string, unknown>)
+          : null,
+      }))
+    );
+
     return NextResponse.json({
       success: true,
-      applications,
+      applications: maskedApplications,
       stats: {
         pending: pendingCount,
         verified: verifiedCount,
@@ -0,0 +1,63 @@
+/**
+ * Admin Ledger API
+ *
+ * Trial balance for the double-entry ledger. The books are healthy when
+ * total debits equal total credits and every wallet agrees with its
+ * ledger accounts.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminUser } from '@/lib/utils/admin';
+import { ledgerService } from '@/lib/services/ledger';
+
+// GET - Trial balance across all ledger accounts
+export async function GET() {
+  try {
+    const { isAdmin, error } = await isAdminUser();
+    if (!isAdmin) return error!;
+
+    const trialBalance = await ledgerService.getTrialBalance();
+
+    return NextResponse.json({
+      success: true,
+      ...trialBalance,
+    });
+  } catch (error) {
+    console.error('Error building trial balance:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to build trial balance' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Post opening balances for wallets that predate the ledger
+export async function POST(req: NextRequest) {
+  try {
+    const { isAdmin, error } = await isAdminUser();
+    if (!isAdmin) return error!;
+
+    const { action } = await req.json();
+
+    if (action !== 'opening-balances') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid action' },
+        { status: 400 }
+      );
+    }
+
+    const walletsPosted = await ledgerService.postOpeningBalances();
+
+    return NextResponse.json({
+      success: true,
+      walletsPosted,
+      message: `Posted opening balances for ${walletsPosted} wallet${walletsPosted === 1 ? '' : 's'}`,
+    });
+  } catch (error) {
+    console.error('Error posting opening balances:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to post opening balances' },
+      { status: 500 }
+    );
+  }
+}
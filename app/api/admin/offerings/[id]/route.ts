@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { offeringReviewService } from '@/lib/services/offering-review';
+
+// GET - An offering with every submission and its reviewer comments
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+    });
+
+    if (user?.role !== 'ADMIN') {
+      return NextResponse.json(
+        { success: false, error: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const offering = await prisma.offering.findUnique({
+      where: { id: params.id },
+      include: {
+        channel: {
+          include: {
+            owner: {
+              select: {
+                id: true,
+                name: true,
+                email: true,
+                kycStatus: true,
+              },
+            },
+          },
+        },
+        escrowVault: true,
+      },
+    });
+
+    if (!offering) {
+      return NextResponse.json(
+        { success: false, error: 'Offering not found' },
+        { status: 404 }
+      );
+    }
+
+    const revisions = await offeringReviewService.getHistory(offering.id);
+
+    return NextResponse.json({
+      success: true,
+      offering,
+      revisions,
+    });
+  } catch (error) {
+    console.error('Error fetching offering review:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch offering' },
+      { status: 500 }
+    );
+  }
+}
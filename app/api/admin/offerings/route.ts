@@ -2,7 +2,11 @@
  * Admin Offerings API
  * 
  * Endpoints for admin to manage offerings.
- * When an offering is approved, an escrow vault is automatically created.
+ * Offerings awaiting review are approved, rejected or sent back with
+ * per-field comments (`request_changes`) through the offering review
+ * service. When an offering is approved, an escrow vault is automatically
+ * created and its term starts. `mature` winds an offering down before its
+ * term ends.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -10,6 +14,9 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { dexEscrowService } from '@/lib/services/dex-escrow';
+import { maturityDate, offeringLifecycleService } from '@/lib/services/offering-lifecycle';
+import { notificationService } from '@/lib/services/notifications';
+import { offeringReviewService } from '@/lib/services/offering-review';
 
 // GET - List all offerings for admin review
 export async function GET(req: NextRequest) {
@@ -60,6 +67,11 @@ export async function GET(req: NextRequest) {
           where: { status: 'CONFIRMED' },
         },
         escrowVault: true,
+        revisions: {
+          orderBy: { version: 'desc' },
+          take: 1,
+          select: { version: true, submittedAt: true, decision: true },
+        },
       },
       orderBy: { createdAt: 'desc' },
     });
@@ -77,7 +89,7 @@ export async function GET(req: NextRequest) {
   }
 }
 
-// PUT - Approve or reject an offering
+// PUT - Approve, reject, request changes on, suspend or mature an offering
 export async function PUT(req: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
@@ -99,7 +111,7 @@ export async function PUT(req: NextRequest) {
       );
     }
 
-    const { offeringId, action, reason } = await req.json();
+    const { offeringId, action, reason, comments } = await req.json();
 
     if (!offeringId || !action) {
       return NextResponse.json(
@@ -108,9 +120,9 @@ export async function PUT(req: NextRequest) {
       );
     }
 
-    if (!['approve', 'reject', 'suspend'].includes(action)) {
+    if (!['approve', 'reject', 'request_changes', 'suspend', 'mature'].includes(action)) {
       return NextResponse.json(
-        { success: false, error: 'Invalid action. Use approve, reject, or suspend' },
+        { success: false, error: 'Invalid action. Use approve, reject, request_changes, suspend, or mature' },
         { status: 400 }
       );
     }
@@ -127,6 +139,61 @@ export async function PUT(req: NextRequest) {
       );
     }
 
+    if (action === 'mature') {
+      try {
+        const maturity = await offeringLifecycleService.matureOffering(offeringId, session.user.id);
+        return NextResponse.json({
+          success: maturity.status === 'MATURED',
+          maturity,
+          ...(maturity.status === 'MATURED'
+            ? { message: 'Offering matured and closed' }
+            : { error: `Offering cannot mature yet: ${maturity.reason}` }),
+        }, { status: maturity.status === 'MATURED' ? 200 : 409 });
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Failed to mature offering';
+        return NextResponse.json(
+          { success: false, error: errorMessage },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Decide a submission awaiting review
+    const isReviewAction = ['approve', 'reject', 'request_changes'].includes(action);
+    if (isReviewAction && (['PENDING_APPROVAL', 'CHANGES_REQUESTED'].includes(offering.status) || action === 'request_changes')) {
+      if (comments !== undefined && !Array.isArray(comments)) {
+        return NextResponse.json(
+          { success: false, error: 'comments must be a list of { field, comment }' },
+          { status: 400 }
+        );
+      }
+
+      try {
+        const review = await offeringReviewService.review(offeringId, session.user.id, {
+          decision: action === 'approve' ? 'APPROVED' : action === 'reject' ? 'REJECTED' : 'CHANGES_REQUESTED',
+          summary: typeof reason === 'string' ? reason : undefined,
+          comments: (comments ?? []).map((c: { field?: unknown; comment?: unknown }) => ({
+            field: String(c?.field ?? ''),
+            comment: String(c?.comment ?? ''),
+          })),
+        });
+
+        return NextResponse.json({
+          success: true,
+          offering: review.offering,
+          revision: review.revision,
+          vaultId: review.vaultId,
+          message: action === 'request_changes' ? 'Changes requested from the creator' : `Offering ${action}d successfully`,
+        });
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Failed to review offering';
+        return NextResponse.json(
+          { success: false, error: errorMessage },
+          { status: 400 }
+        );
+      }
+    }
+
     let newStatus: string;
     let vaultId: string | null = null;
 
@@ -144,10 +211,19 @@ export async function PUT(req: NextRequest) {
         newStatus = offering.status;
     }
 
+    // The term starts at first approval; re-approving after a suspension keeps it
+    const activatedAt = action === 'approve' && !offering.activatedAt ? new Date() : null;
+
     // Update offering status
     const updatedOffering = await prisma.offering.update({
       where: { id: offeringId },
-      data: { status: newStatus as 'ACTIVE' | 'CLOSED' | 'SUSPENDED' },
+      data: {
+        status: newStatus as 'ACTIVE' | 'CLOSED' | 'SUSPENDED',
+        ...(activatedAt && {
+          activatedAt,
+          maturesAt: maturityDate(activatedAt, offering.duration),
+        }),
+      },
     });
 
     // If approving, create escrow vault
@@ -160,6 +236,14 @@ export async function PUT(req: NextRequest) {
       }
     }
 
+    if (action === 'approve' && offering.status !== 'ACTIVE') {
+      await notificationService.notify(offering.channel.ownerId, {
+        type: 'OFFERING_APPROVED',
+        offeringId,
+        channelName: offering.channel.channelName,
+      });
+    }
+
     return NextResponse.json({
       success: true,
       offering: updatedOffering,
@@ -0,0 +1,122 @@
+/**
+ * Admin Transfer Rules API
+ *
+ * View and set an offering's restrictions on secondary transfers:
+ * lock-up, holding cap, KYC-verified buyers and blocked jurisdictions.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminUser } from '@/lib/utils/admin';
+import { prisma } from '@/lib/prisma';
+import { DEFAULT_TRANSFER_RULES, TransferRules, transferRulesService } from '@/lib/services/transfer-rules';
+
+// GET - Rules for an offering (defaults if none are set)
+export async function GET(req: NextRequest) {
+  try {
+    const { isAdmin, error } = await isAdminUser();
+    if (!isAdmin) return error!;
+
+    const offeringId = req.nextUrl.searchParams.get('offeringId');
+    if (!offeringId) {
+      return NextResponse.json(
+        { success: false, error: 'offeringId is required' },
+        { status: 400 }
+      );
+    }
+
+    const rule = await prisma.transferRule.findUnique({
+      where: { offeringId },
+    });
+
+    return NextResponse.json({
+      success: true,
+      rules: rule ?? { offeringId, ...DEFAULT_TRANSFER_RULES },
+      isDefault: !rule,
+    });
+  } catch (error) {
+    console.error('Error fetching transfer rules:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch transfer rules' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Set rules for an offering. Omitted fields keep their value.
+export async function PUT(req: NextRequest) {
+  try {
+    const { isAdmin, userId, error } = await isAdminUser();
+    if (!isAdmin) return error!;
+
+    const { offeringId, lockupDays, maxHoldingPercent, requireKycVerified, blockedJurisdictions } = await req.json();
+
+    if (!offeringId) {
+      return NextResponse.json(
+        { success: false, error: 'offeringId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (lockupDays !== undefined && (!Number.isInteger(lockupDays) || lockupDays < 0)) {
+      return NextResponse.json(
+        { success: false, error: 'lockupDays must be a whole number of days, zero or more' },
+        { status: 400 }
+      );
+    }
+
+    if (maxHoldingPercent !== undefined && maxHoldingPercent !== null
+      && (typeof maxHoldingPercent !== 'number' || maxHoldingPercent <= 0 || maxHoldingPercent > 100)) {
+      return NextResponse.json(
+        { success: false, error: 'maxHoldingPercent must be between 0 and 100, or null for no cap' },
+        { status: 400 }
+      );
+    }
+
+    if (requireKycVerified !== undefined && typeof requireKycVerified !== 'boolean') {
+      return NextResponse.json(
+        { success: false, error: 'requireKycVerified must be true or false' },
+        { status: 400 }
+      );
+    }
+
+    if (blockedJurisdictions !== undefined
+      && (!Array.isArray(blockedJurisdictions) || !blockedJurisdictions.every((j) => typeof j === 'string'))) {
+      return NextResponse.json(
+        { success: false, error: 'blockedJurisdictions must be a list of country names or codes' },
+        { status: 400 }
+      );
+    }
+
+    const offering = await prisma.offering.findUnique({
+      where: { id: offeringId },
+      select: { id: true },
+    });
+
+    if (!offering) {
+      return NextResponse.json(
+        { success: false, error: 'Offering not found' },
+        { status: 404 }
+      );
+    }
+
+    const changes: Partial<TransferRules> = {};
+    if (lockupDays !== undefined) changes.lockupDays = lockupDays;
+    if (maxHoldingPercent !== undefined) changes.maxHoldingPercent = maxHoldingPercent;
+    if (requireKycVerified !== undefined) changes.requireKycVerified = requireKycVerified;
+    if (blockedJurisdictions !== undefined) changes.blockedJurisdictions = blockedJurisdictions;
+
+    const rules = await transferRulesService.updateRules(offeringId, changes, userId!);
+
+    return NextResponse.json({
+      success: true,
+      rules,
+      message: 'Transfer rules updated',
+    });
+  } catch (error) {
+    console.error('Error updating transfer rules:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update transfer rules' },
+      { status: 500 }
+    );
+  }
+}
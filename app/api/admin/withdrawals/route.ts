@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { LedgerAccounts, ledgerService } from '@/lib/services/ledger';
+import { formatINR } from '@/lib/utils/money';
+import { notificationService } from '@/lib/services/notifications';
 
 // Helper function to check if user is admin
 async function isAdmin(userId: string): Promise<boolean> {
@@ -193,9 +196,7 @@ export async function PATCH(request: NextRequest) {
           await tx.wallet.update({
             where: { id: user.wallet!.id },
             data: {
-              lockedBalance: { decrement: withdrawal.amount },
               totalWithdrawn: { increment: withdrawal.netAmount },
-              lastActivityAt: new Date(),
             },
           });
 
@@ -211,21 +212,35 @@ export async function PATCH(request: NextRequest) {
             },
           });
 
-          // Create final ledger entry
-          await tx.walletLedger.create({
-            data: {
-              walletId: user.wallet!.id,
-              entryType: 'WITHDRAWAL',
-              debit: withdrawal.netAmount,
-              credit: 0,
-              balance: user.wallet!.balance,
-              description: `Withdrawal completed - ₹${withdrawal.netAmount.toLocaleString('en-IN')} sent to ${withdrawal.bankAccount.bankName}`,
-              referenceType: 'withdrawal',
-              referenceId: withdrawalId,
-            },
+          // Release the locked funds - net amount paid out, fee kept as revenue
+          await ledgerService.post(tx, {
+            description: `Withdrawal completed - ${formatINR(withdrawal.netAmount)} sent to ${withdrawal.bankAccount.bankName}`,
+            referenceType: 'withdrawal',
+            referenceId: withdrawalId,
+            lines: [
+              { account: LedgerAccounts.walletLocked(user.wallet!.id), debit: withdrawal.netAmount, entryType: 'WITHDRAWAL' },
+              {
+                account: LedgerAccounts.walletLocked(user.wallet!.id),
+                debit: withdrawal.fee,
+                entryType: 'FEE_CHARGED',
+                description: 'Withdrawal fee',
+              },
+              { account: LedgerAccounts.STRIPE_CLEARING, credit: withdrawal.netAmount },
+              { account: LedgerAccounts.PLATFORM_REVENUE, credit: withdrawal.fee },
+            ],
           });
         }
 
+        await notificationService.notify(withdrawal.userId, action === 'approve'
+          ? { type: 'WITHDRAWAL_PROCESSING', withdrawalId, amount: withdrawal.netAmount }
+          : {
+              type: 'WITHDRAWAL_COMPLETED',
+              withdrawalId,
+              amount: withdrawal.netAmount,
+              bankName: withdrawal.bankAccount.bankName,
+            },
+          { client: tx });
+
         return updatedWithdrawal;
       });
 
@@ -248,16 +263,6 @@ export async function PATCH(request: NextRequest) {
           },
         });
 
-        // Unlock and restore funds
-        await tx.wallet.update({
-          where: { id: user.wallet!.id },
-          data: {
-            balance: { increment: withdrawal.amount },
-            lockedBalance: { decrement: withdrawal.amount },
-            lastActivityAt: new Date(),
-          },
-        });
-
         // Update transaction
         await tx.transaction.updateMany({
           where: {
@@ -269,20 +274,24 @@ export async function PATCH(request: NextRequest) {
           },
         });
 
-        // Create ledger entry for unlock
-        await tx.walletLedger.create({
-          data: {
-            walletId: user.wallet!.id,
-            entryType: 'UNLOCK',
-            debit: 0,
-            credit: withdrawal.amount,
-            balance: user.wallet!.balance + withdrawal.amount,
-            description: `Withdrawal rejected - funds restored. Reason: ${failureReason || 'Rejected by admin'}`,
-            referenceType: 'withdrawal',
-            referenceId: withdrawalId,
-          },
+        // Unlock and restore funds
+        await ledgerService.post(tx, {
+          description: `Withdrawal rejected - funds restored. Reason: ${failureReason || 'Rejected by admin'}`,
+          referenceType: 'withdrawal',
+          referenceId: withdrawalId,
+          lines: [
+            { account: LedgerAccounts.walletLocked(user.wallet!.id), debit: withdrawal.amount },
+            { account: LedgerAccounts.wallet(user.wallet!.id), credit: withdrawal.amount, entryType: 'UNLOCK' },
+          ],
         });
 
+        await notificationService.notify(withdrawal.userId, {
+          type: 'WITHDRAWAL_FAILED',
+          withdrawalId,
+          amount: withdrawal.amount,
+          reason: failureReason || 'Rejected by admin',
+        }, { client: tx });
+
         return updatedWithdrawal;
       });
 
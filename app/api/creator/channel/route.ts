@@ -3,64 +3,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { YouTubeService } from '@/lib/services/youtube';
-
-// Helper function to refresh access token if expired
-async function getValidAccessToken(account: {
-  id: string;
-  access_token: string | null;
-  refresh_token: string | null;
-  expires_at: number | null;
-}): Promise<string | null> {
-  // Check if token is expired (with 5 minute buffer)
-  const now = Math.floor(Date.now() / 1000);
-  const isExpired = account.expires_at ? account.expires_at < now + 300 : true;
-
-  if (!isExpired && account.access_token) {
-    return account.access_token;
-  }
-
-  // Token is expired, try to refresh
-  if (!account.refresh_token) {
-    console.error('No refresh token available');
-    return null;
-  }
-
-  try {
-    const response = await fetch('https://oauth2.googleapis.com/token', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-      body: new URLSearchParams({
-        client_id: process.env.GOOGLE_CLIENT_ID!,
-        client_secret: process.env.GOOGLE_CLIENT_SECRET!,
-        grant_type: 'refresh_token',
-        refresh_token: account.refresh_token,
-      }),
-    });
-
-    const tokens = await response.json();
-
-    if (!response.ok) {
-      console.error('Token refresh failed:', tokens);
-      return null;
-    }
-
-    // Update the account with new tokens
-    await prisma.account.update({
-      where: { id: account.id },
-      data: {
-        access_token: tokens.access_token,
-        expires_at: Math.floor(Date.now() / 1000) + tokens.expires_in,
-        // refresh_token is only returned if it changed
-        ...(tokens.refresh_token && { refresh_token: tokens.refresh_token }),
-      },
-    });
-
-    return tokens.access_token;
-  } catch (error) {
-    console.error('Error refreshing token:', error);
-    return null;
-  }
-}
+import { getValidAccessToken } from '@/lib/utils/google-auth';
 
 export async function POST(request: NextRequest) {
   try {
@@ -162,16 +105,22 @@ export async function POST(request: NextRequest) {
     const analytics = await youtubeService.getChannelAnalytics(youtubeChannelId);
     const recentVideos = await youtubeService.getRecentVideos(youtubeChannelId, 10);
     
-    // Get revenue estimate
-    const endDate = new Date().toISOString().split('T')[0];
-    const startDate = new Date(Date.now() - 365 * 24 * 60 * 60 * 1000)
+    // Revenue for the last 12 complete months. Needs the monetary Analytics
+    // scope and a monetized channel, so verification doesn't depend on it.
+    const now = new Date();
+    const startDate = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 12, 1))
       .toISOString()
       .split('T')[0];
-    const revenueData = await youtubeService.getRevenueData(
-      youtubeChannelId,
-      startDate,
-      endDate
-    );
+    const endDate = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 0))
+      .toISOString()
+      .split('T')[0];
+    const revenueData = await youtubeService
+      .getRevenueData(youtubeChannelId, startDate, endDate)
+      .catch(() => ({
+        months: [],
+        totalRevenue: null,
+        note: 'Revenue requires YouTube Analytics monetary access for a monetized channel.',
+      }));
 
     // Create or update channel record
     const channel = await prisma.channel.upsert({
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { offeringReviewService } from '@/lib/services/offering-review';
+
+// GET - One of the creator's offerings with its review history
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const offering = await prisma.offering.findFirst({
+      where: { id: params.id, channel: { ownerId: session.user.id } },
+      include: {
+        channel: {
+          select: {
+            channelName: true,
+            channelUrl: true,
+          },
+        },
+      },
+    });
+
+    if (!offering) {
+      return NextResponse.json(
+        { success: false, error: 'Offering not found' },
+        { status: 404 }
+      );
+    }
+
+    const revisions = await offeringReviewService.getHistory(offering.id);
+
+    return NextResponse.json({
+      success: true,
+      offering,
+      revisions,
+    });
+  } catch (error) {
+    console.error('Offering fetch error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch offering' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Revise an offering with requested changes and resubmit it for review
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const terms = await req.json();
+
+    const offering = await offeringReviewService.resubmitOffering(session.user.id, params.id, terms);
+
+    return NextResponse.json({
+      success: true,
+      offering,
+      message: 'Offering resubmitted. Pending admin approval.',
+    });
+  } catch (error: unknown) {
+    console.error('Offering resubmit error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to resubmit offering';
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: errorMessage === 'Offering not found' ? 404 : 400 }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { offeringReviewService } from '@/lib/services/offering-review';
 
 export async function POST(request: NextRequest) {
   try {
@@ -14,77 +15,29 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const body = await request.json();
-    const {
-      channelId,
-      title,
-      description,
-      sharePercentage,
-      totalShares,
-      pricePerShare,
-      minInvestment,
-      maxInvestment,
-      duration,
-    } = body;
+    const { channelId, ...terms } = await request.json();
 
-    // Validate channel ownership
-    const channel = await prisma.channel.findFirst({
-      where: {
-        id: channelId,
-        ownerId: session.user.id,
-        status: 'VERIFIED',
-      },
-    });
-
-    if (!channel) {
+    if (typeof channelId !== 'string' || !channelId) {
       return NextResponse.json(
-        { success: false, error: 'Channel not found or not verified' },
-        { status: 404 }
-      );
-    }
-
-    // Validate offering parameters
-    if (sharePercentage < 1 || sharePercentage > 50) {
-      return NextResponse.json(
-        { success: false, error: 'Share percentage must be between 1% and 50%' },
+        { success: false, error: 'channelId is required' },
         { status: 400 }
       );
     }
 
-    if (minInvestment < 100) {
-      return NextResponse.json(
-        { success: false, error: 'Minimum investment must be at least $100' },
-        { status: 400 }
-      );
-    }
-
-    // Create offering
-    const offering = await prisma.offering.create({
-      data: {
-        channelId,
-        title,
-        description,
-        sharePercentage,
-        totalShares,
-        availableShares: totalShares,
-        pricePerShare,
-        minInvestment,
-        maxInvestment,
-        duration,
-        status: 'PENDING_APPROVAL', // Requires admin approval
-      },
-    });
+    // Validates channel ownership and the offering terms
+    const offering = await offeringReviewService.submitOffering(session.user.id, channelId, terms);
 
     return NextResponse.json({
       success: true,
       offering,
       message: 'Offering created successfully. Pending admin approval.',
     });
-  } catch (error) {
+  } catch (error: unknown) {
     console.error('Offering creation error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to create offering';
     return NextResponse.json(
-      { success: false, error: 'Failed to create offering' },
-      { status: 500 }
+      { success: false, error: errorMessage },
+      { status: errorMessage === 'Channel not found or not verified' ? 404 : 400 }
     );
   }
 }
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getRevenueAccess } from '@/lib/services/revenue-providers';
+
+/**
+ * Channel Revenue Access API
+ *
+ * Whether the creator has let the platform read their YouTube Analytics
+ * revenue, and the scope to request with a Google sign-in if not.
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const access = await getRevenueAccess(session.user.id);
+
+    return NextResponse.json({ success: true, access });
+  } catch (error) {
+    console.error('Revenue access check error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to check revenue access' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { revenueIngestionService } from '@/lib/services/revenue-ingestion';
+
+/**
+ * Channel Revenue Sync API
+ *
+ * Lets a creator pull their channel's latest monthly revenue from YouTube
+ * Analytics now, instead of waiting for the daily revenue-ingestion job.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { channelId } = await request.json();
+
+    if (!channelId) {
+      return NextResponse.json(
+        { success: false, error: 'channelId is required' },
+        { status: 400 }
+      );
+    }
+
+    const channel = await prisma.channel.findFirst({
+      where: {
+        id: channelId,
+        ownerId: session.user.id,
+      },
+    });
+
+    if (!channel) {
+      return NextResponse.json(
+        { success: false, error: 'Channel not found or you do not own it' },
+        { status: 404 }
+      );
+    }
+
+    const result = await revenueIngestionService.ingestChannel(channel.id);
+    const deposits = result.months.flatMap(month => month.deposits);
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      message: deposits.length > 0
+        ? `Deposited revenue for ${result.months.filter(m => m.deposits.length > 0).map(m => m.month).join(', ')}`
+        : 'Revenue is already up to date',
+    });
+  } catch (error: unknown) {
+    console.error('Revenue sync error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to sync revenue';
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 400 }
+    );
+  }
+}
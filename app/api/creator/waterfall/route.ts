@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { revenueWaterfallService } from '@/lib/services/revenue-waterfall';
+import { RevenueSource } from '@prisma/client';
+
+/**
+ * Channel Revenue Waterfall API
+ *
+ * Shows a channel's offerings in waterfall order and how much of each
+ * revenue source they promise. With `source` and `grossRevenue`, also
+ * previews how that revenue would be split.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const channelId = searchParams.get('channelId');
+    const source = searchParams.get('source');
+    const grossRevenue = searchParams.get('grossRevenue');
+
+    if (!channelId) {
+      return NextResponse.json(
+        { success: false, error: 'channelId is required' },
+        { status: 400 }
+      );
+    }
+
+    const [channel, user] = await Promise.all([
+      prisma.channel.findUnique({ where: { id: channelId } }),
+      prisma.user.findUnique({ where: { id: session.user.id }, select: { role: true } }),
+    ]);
+
+    if (!channel || (channel.ownerId !== session.user.id && user?.role !== 'ADMIN')) {
+      return NextResponse.json(
+        { success: false, error: 'Channel not found or you do not own it' },
+        { status: 404 }
+      );
+    }
+
+    const waterfall = await revenueWaterfallService.getWaterfall(channel.id);
+
+    let preview = null;
+    if (source || grossRevenue) {
+      if (!Object.values(RevenueSource).includes(source as RevenueSource) || !(Number(grossRevenue) > 0)) {
+        return NextResponse.json(
+          { success: false, error: 'A preview needs a known source and a positive grossRevenue' },
+          { status: 400 }
+        );
+      }
+      preview = await revenueWaterfallService.allocate(channel.id, source as RevenueSource, grossRevenue!);
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...waterfall,
+      preview,
+    });
+  } catch (error: unknown) {
+    console.error('Waterfall fetch error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to fetch revenue waterfall';
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * DEX Audit Chain Head API
+ *
+ * The latest entry of a vault's audit chain, for investors to keep as an
+ * independent checkpoint and verify against later.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { escrowAuditService } from '@/lib/services/escrow-audit';
+
+// GET - Export a vault's chain head: ?vaultId= or ?offeringId=
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const searchParams = req.nextUrl.searchParams;
+    const offeringId = searchParams.get('offeringId');
+    const vaultId = searchParams.get('vaultId');
+
+    if (!offeringId && !vaultId) {
+      return NextResponse.json(
+        { success: false, error: 'offeringId or vaultId is required' },
+        { status: 400 }
+      );
+    }
+
+    const vault = await prisma.escrowVault.findUnique({
+      where: vaultId ? { id: vaultId } : { offeringId: offeringId! },
+      include: { offering: { include: { channel: true } } },
+    });
+
+    if (!vault) {
+      return NextResponse.json(
+        { success: false, error: 'Vault not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!(await escrowAuditService.canView(session.user.id, vault))) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const head = await escrowAuditService.getHead(vault.id);
+
+    return NextResponse.json({
+      success: true,
+      head,
+      exportedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error exporting audit chain head:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to export audit chain head' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * DEX Audit Chain Verification API
+ *
+ * Walks a vault's hash-chained audit log and reports the first broken
+ * link. Pass a checkpoint (a chain head exported earlier) to also check
+ * that the history up to it is unchanged.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { ChainCheckpoint, escrowAuditService } from '@/lib/services/escrow-audit';
+
+// GET - Verify a vault's audit chain: ?vaultId= or ?offeringId=, optionally &checkpointSequence=&checkpointHash=
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const searchParams = req.nextUrl.searchParams;
+    const offeringId = searchParams.get('offeringId');
+    const vaultId = searchParams.get('vaultId');
+    const checkpointSequence = searchParams.get('checkpointSequence');
+    const checkpointHash = searchParams.get('checkpointHash');
+
+    if (!offeringId && !vaultId) {
+      return NextResponse.json(
+        { success: false, error: 'offeringId or vaultId is required' },
+        { status: 400 }
+      );
+    }
+
+    let checkpoint: ChainCheckpoint | undefined;
+    if (checkpointSequence || checkpointHash) {
+      const sequence = Number(checkpointSequence);
+      if (!Number.isInteger(sequence) || sequence < 1 || !/^[0-9a-f]{64}$/.test(checkpointHash || '')) {
+        return NextResponse.json(
+          { success: false, error: 'A checkpoint needs checkpointSequence (from 1) and a 64-character hex checkpointHash' },
+          { status: 400 }
+        );
+      }
+      checkpoint = { sequence, entryHash: checkpointHash! };
+    }
+
+    const vault = await prisma.escrowVault.findUnique({
+      where: vaultId ? { id: vaultId } : { offeringId: offeringId! },
+      include: { offering: { include: { channel: true } } },
+    });
+
+    if (!vault) {
+      return NextResponse.json(
+        { success: false, error: 'Vault not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!(await escrowAuditService.canView(session.user.id, vault))) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const verification = await escrowAuditService.verifyChain(vault.id, checkpoint);
+
+    return NextResponse.json({
+      success: true,
+      verification,
+    });
+  } catch (error) {
+    console.error('Error verifying audit chain:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to verify audit chain' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { ClaimMode } from '@prisma/client';
+import { authOptions } from '@/lib/auth';
+import { claimPreferenceService } from '@/lib/services/claim-preferences';
+
+// GET - What happens to the user's claims after each distribution
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const preference = await claimPreferenceService.getPreference(session.user.id);
+
+    return NextResponse.json({ success: true, preference });
+  } catch (error) {
+    console.error('Claim preference fetch error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch claim preference' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Update the preference: { mode?, maxPremiumPercent? }
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { mode, maxPremiumPercent } = await request.json();
+
+    const valid = (mode === undefined || Object.values(ClaimMode).includes(mode))
+      && (maxPremiumPercent === undefined || typeof maxPremiumPercent === 'number');
+
+    if (!valid) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid claim preference' },
+        { status: 400 }
+      );
+    }
+
+    const preference = await claimPreferenceService.updatePreference(session.user.id, { mode, maxPremiumPercent });
+
+    return NextResponse.json({ success: true, preference });
+  } catch (error) {
+    console.error('Claim preference update error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to update claim preference';
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 400 }
+    );
+  }
+}
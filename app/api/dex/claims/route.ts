@@ -10,6 +10,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { dexEscrowService } from '@/lib/services/dex-escrow';
+import { ZERO, formatINR } from '@/lib/utils/money';
 
 // GET - Get user's claims
 export async function GET(req: NextRequest) {
@@ -63,6 +64,13 @@ export async function GET(req: NextRequest) {
             createdAt: true,
           },
         },
+        reinvestment: {
+          select: {
+            route: true,
+            shares: true,
+            amount: true,
+          },
+        },
       },
       orderBy: { createdAt: 'desc' },
     });
@@ -71,13 +79,13 @@ export async function GET(req: NextRequest) {
     const summary = {
       totalAvailable: claims
         .filter((c) => c.status === 'AVAILABLE')
-        .reduce((sum, c) => sum + c.amount, 0),
+        .reduce((total, c) => total.plus(c.amount), ZERO),
       totalClaimed: claims
         .filter((c) => c.status === 'CLAIMED')
-        .reduce((sum, c) => sum + c.amount, 0),
+        .reduce((total, c) => total.plus(c.amount), ZERO),
       totalExpired: claims
         .filter((c) => c.status === 'EXPIRED')
-        .reduce((sum, c) => sum + c.amount, 0),
+        .reduce((total, c) => total.plus(c.amount), ZERO),
       availableCount: claims.filter((c) => c.status === 'AVAILABLE').length,
     };
 
@@ -140,13 +148,13 @@ export async function POST(req: NextRequest) {
       }
 
       const results = [];
-      let totalClaimed = 0;
+      let totalClaimed = ZERO;
 
       for (const claim of availableClaims) {
         try {
           await dexEscrowService.processClaim(claim.id, session.user.id);
           results.push({ claimId: claim.id, success: true, amount: claim.amount });
-          totalClaimed += claim.amount;
+          totalClaimed = totalClaimed.plus(claim.amount);
         } catch (error: unknown) {
           const errorMessage = error instanceof Error ? error.message : 'Unknown error';
           results.push({ claimId: claim.id, success: false, error: errorMessage });
@@ -157,7 +165,7 @@ export async function POST(req: NextRequest) {
         success: true,
         results,
         totalClaimed,
-        message: `Processed ${results.filter(r => r.success).length} claims, total ₹${totalClaimed.toLocaleString('en-IN')}`,
+        message: `Processed ${results.filter(r => r.success).length} claims, total ${formatINR(totalClaimed)}`,
       });
     }
 
@@ -180,7 +188,7 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({
       success: true,
       claim,
-      message: `Successfully claimed ₹${claim?.amount.toLocaleString('en-IN')} from ${claim?.vault.offering.channel.channelName}`,
+      message: `Successfully claimed ${formatINR(claim?.amount ?? 0)} from ${claim?.vault.offering.channel.channelName}`,
     });
   } catch (error: unknown) {
     console.error('Error processing claim:', error);
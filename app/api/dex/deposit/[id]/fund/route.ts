@@ -0,0 +1,102 @@
+/**
+ * DEX Deposit Funding API
+ *
+ * Pays in a deposit that is awaiting funds, e.g. revenue fetched from the
+ * platform or a Stripe deposit whose payment was abandoned. Only the
+ * channel owner can fund a deposit.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { dexEscrowService } from '@/lib/services/dex-escrow';
+import { PaymentService } from '@/lib/services/payment';
+import { revenueReconciliationService } from '@/lib/services/revenue-reconciliation';
+
+const paymentService = new PaymentService();
+
+// POST - Fund a pending deposit from the wallet (distributed straight away) or through Stripe
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { method = 'WALLET' } = await req.json();
+
+    if (method !== 'WALLET' && method !== 'STRIPE') {
+      return NextResponse.json(
+        { success: false, error: 'method must be WALLET or STRIPE' },
+        { status: 400 }
+      );
+    }
+
+    const deposit = await prisma.escrowDeposit.findUnique({
+      where: { id: params.id },
+      include: { vault: { include: { offering: { include: { channel: true } } } } },
+    });
+
+    if (!deposit) {
+      return NextResponse.json(
+        { success: false, error: 'Deposit not found' },
+        { status: 404 }
+      );
+    }
+
+    if (deposit.vault.offering.channel.ownerId !== session.user.id) {
+      return NextResponse.json(
+        { success: false, error: 'Only the channel owner can fund this deposit' },
+        { status: 403 }
+      );
+    }
+
+    if (method === 'STRIPE') {
+      const payment = await paymentService.createEscrowDepositIntent(deposit.id, session.user.id);
+
+      return NextResponse.json({
+        success: true,
+        depositId: deposit.id,
+        payment,
+        message: 'Complete the payment to fund the deposit. It is verified and distributed once the payment settles.',
+      });
+    }
+
+    await dexEscrowService.fundDepositFromWallet(deposit.id, session.user.id);
+    const reconciliation = await revenueReconciliationService.reconcile(deposit.vaultId, deposit.revenueMonth);
+
+    if (reconciliation.status === 'DISPUTED' || reconciliation.supersededDeposits.includes(deposit.id)) {
+      return NextResponse.json({
+        success: true,
+        depositId: deposit.id,
+        reconciliation,
+        message: reconciliation.status === 'DISPUTED'
+          ? 'Deposit funded. Distribution is held until the revenue dispute for this month is resolved.'
+          : 'Deposit funded, then refunded to your wallet as a duplicate of revenue already distributed for this month.',
+      });
+    }
+
+    const distribution = await dexEscrowService.distributeRevenue(deposit.vault.offeringId, deposit.id);
+
+    return NextResponse.json({
+      success: true,
+      depositId: deposit.id,
+      distribution,
+      message: 'Deposit funded from your wallet and distributed successfully',
+    });
+  } catch (error) {
+    console.error('Error funding deposit:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to fund deposit';
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 400 }
+    );
+  }
+}
@@ -3,6 +3,8 @@
  * 
  * Endpoints for depositing YouTube revenue into escrow.
  * Only channel owners can deposit revenue for their offerings.
+ * A deposit is paid in from the creator's wallet or through Stripe and
+ * is only verified, and distributed, once the money has settled.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -10,8 +12,13 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { dexEscrowService } from '@/lib/services/dex-escrow';
+import { PaymentService } from '@/lib/services/payment';
+import { revenueReconciliationService } from '@/lib/services/revenue-reconciliation';
+import { sum } from '@/lib/utils/money';
 import { RevenueSource } from '@prisma/client';
 
+const paymentService = new PaymentService();
+
 // GET - Get deposit history for an offering
 export async function GET(req: NextRequest) {
   try {
@@ -89,8 +96,9 @@ export async function GET(req: NextRequest) {
       success: true,
       deposits: vault.deposits,
       summary: {
-        totalDeposited: vault.deposits.reduce((sum, d) => sum + d.amount, 0),
+        totalDeposited: sum(vault.deposits, (d) => d.amount),
         pendingDeposits: vault.deposits.filter(d => d.status === 'PENDING').length,
+        awaitingFunds: vault.deposits.filter(d => d.status === 'PENDING' && !d.fundingMethod).length,
         verifiedDeposits: vault.deposits.filter(d => d.status === 'VERIFIED').length,
         distributedDeposits: vault.deposits.filter(d => d.status === 'DISTRIBUTED').length,
       },
@@ -121,6 +129,7 @@ export async function POST(req: NextRequest) {
       revenueMonth, 
       source = 'YOUTUBE_ADSENSE',
       externalRef,
+      funding = 'WALLET',
       autoDistribute = true,
     } = await req.json();
 
@@ -139,6 +148,13 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    if (funding !== 'WALLET' && funding !== 'STRIPE') {
+      return NextResponse.json(
+        { success: false, error: 'funding must be WALLET or STRIPE' },
+        { status: 400 }
+      );
+    }
+
     // Validate revenue month format (YYYY-MM)
     if (!/^\d{4}-\d{2}$/.test(revenueMonth)) {
       return NextResponse.json(
@@ -179,38 +195,75 @@ export async function POST(req: NextRequest) {
       await dexEscrowService.createVault(offeringId);
     }
 
-    // Deposit revenue
+    // Deposit revenue; a wallet deposit is paid in (and verified) as it is made
     const depositId = await dexEscrowService.depositRevenue(
       offeringId,
       amount,
       revenueMonth,
       source as RevenueSource,
-      externalRef
+      {
+        externalRef,
+        origin: 'CREATOR_REPORTED',
+        fundFromWallet: funding === 'WALLET' ? offering.channel.ownerId : undefined,
+      }
     );
 
-    // Auto-verify and distribute if requested
+    if (funding === 'STRIPE') {
+      const payment = await paymentService.createEscrowDepositIntent(depositId, session.user.id);
+
+      return NextResponse.json({
+        success: true,
+        depositId,
+        payment,
+        message: 'Revenue deposit recorded. Complete the payment to fund it; it is verified and distributed once the payment settles.',
+      });
+    }
+
+    const { vaultId } = await prisma.escrowDeposit.findUniqueOrThrow({ where: { id: depositId } });
+    const reconciliation = await revenueReconciliationService.reconcile(vaultId, revenueMonth);
+
+    // Distribute straight away if requested
     if (autoDistribute) {
-      await dexEscrowService.verifyDeposit(depositId);
+      if (reconciliation.status === 'DISPUTED') {
+        return NextResponse.json({
+          success: true,
+          depositId,
+          reconciliation,
+          message: 'Revenue deposited. It differs from the platform-fetched figure for this month, so distribution is held until the dispute is resolved.',
+        });
+      }
+
+      if (reconciliation.supersededDeposits.includes(depositId)) {
+        return NextResponse.json({
+          success: true,
+          depositId,
+          reconciliation,
+          message: 'Revenue for this month was already fetched from the platform; this deposit was refunded to your wallet as a duplicate.',
+        });
+      }
+
       const distribution = await dexEscrowService.distributeRevenue(offeringId, depositId);
 
       return NextResponse.json({
         success: true,
         depositId,
         distribution,
-        message: 'Revenue deposited and distributed successfully',
+        message: 'Revenue deposited from your wallet and distributed successfully',
       });
     }
 
     return NextResponse.json({
       success: true,
       depositId,
-      message: 'Revenue deposited successfully. Awaiting verification.',
+      reconciliation,
+      message: 'Revenue deposited from your wallet. It will be distributed in the next distribution run.',
     });
   } catch (error) {
     console.error('Error depositing revenue:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to deposit revenue';
     return NextResponse.json(
-      { success: false, error: 'Failed to deposit revenue' },
-      { status: 500 }
+      { success: false, error: errorMessage },
+      { status: 400 }
     );
   }
 }
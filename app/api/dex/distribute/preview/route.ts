@@ -0,0 +1,70 @@
+/**
+ * DEX Distribution Preview API
+ *
+ * Dry run of a distribution: the platform fee and the exact claims a
+ * deposit would produce, without distributing anything.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { dexEscrowService } from '@/lib/services/dex-escrow';
+
+// GET - Preview a distribution (admin/creator only)
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const searchParams = req.nextUrl.searchParams;
+    const offeringId = searchParams.get('offeringId');
+    const depositId = searchParams.get('depositId');
+
+    if (!offeringId || !depositId) {
+      return NextResponse.json(
+        { success: false, error: 'offeringId and depositId are required' },
+        { status: 400 }
+      );
+    }
+
+    const offering = await prisma.offering.findUnique({
+      where: { id: offeringId },
+      include: { channel: true },
+    });
+
+    if (!offering) {
+      return NextResponse.json(
+        { success: false, error: 'Offering not found' },
+        { status: 404 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: session.user.id } });
+    const isCreator = offering.channel.ownerId === session.user.id;
+    const isAdmin = user?.role === 'ADMIN';
+
+    if (!isCreator && !isAdmin) {
+      return NextResponse.json(
+        { success: false, error: 'Only the channel owner or admin can preview a distribution' },
+        { status: 403 }
+      );
+    }
+
+    const preview = await dexEscrowService.previewDistribution(offeringId, depositId);
+
+    return NextResponse.json({ success: true, preview });
+  } catch (error) {
+    console.error('Error previewing distribution:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to preview distribution';
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 400 }
+    );
+  }
+}
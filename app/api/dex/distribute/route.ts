@@ -121,9 +121,9 @@ export async function POST(req: NextRequest) {
 
     const { offeringId, depositId } = await req.json();
 
-    if (!offeringId) {
+    if (!offeringId || !depositId) {
       return NextResponse.json(
-        { success: false, error: 'offeringId is required' },
+        { success: false, error: 'offeringId and depositId are required' },
         { status: 400 }
       );
     }
@@ -1,10 +1,12 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { candleService } from '@/lib/services/candles';
+import { Money, sum, toNumber } from '@/lib/utils/money';
 
 interface TradeData {
-  totalAmount: number;
+  totalAmount: Money;
   shares: number;
-  pricePerShare: number;
+  pricePerShare: Money;
 }
 
 interface MarketDataItem {
@@ -22,6 +24,7 @@ interface MarketDataItem {
   totalShares: number;
   sharePercentage: number;
   analytics: unknown;
+  chartData: { time: number; value: number }[];
 }
 
 // GET /api/exchange/market-stats
@@ -63,28 +66,37 @@ export async function GET() {
       },
     });
 
+    // Hourly candles over the last 24h drive price change and sparklines
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    const candlesByOffering = await Promise.all(
+      offerings.map(offering => candleService.getCandles(offering.id, 'HOUR_1', { from: since }))
+    );
+
     // Calculate market-wide stats
     let totalMarketCap = 0;
     let total24hVolume = 0;
     
-    const marketData: MarketDataItem[] = offerings.map(offering => {
-      const marketCap = offering.pricePerShare * offering.totalShares;
-      const volume24h = offering.trades.reduce((sum: number, t: TradeData) => sum + t.totalAmount, 0);
-      const shares24h = offering.trades.reduce((sum: number, t: TradeData) => sum + t.shares, 0);
+    const marketData: MarketDataItem[] = offerings.map((offering, index) => {
+      // Market-wide stats are for display, so plain numbers are fine here
+      const candles = candlesByOffering[index];
+      const price = candles.length > 0 ? candles[candles.length - 1].close : toNumber(offering.pricePerShare);
+      const marketCap = price * offering.totalShares;
+      const volume24h = toNumber(sum(offering.trades, (t: TradeData) => t.totalAmount));
+      const shares24h = offering.trades.reduce((total: number, t: TradeData) => total + t.shares, 0);
       const investorCount = offering.investments.length;
       
       totalMarketCap += marketCap;
       total24hVolume += volume24h;
       
-      // Calculate price change (mock for now)
-      const priceChange = (Math.random() - 0.45) * 10;
-      const priceChangePercent = (priceChange / offering.pricePerShare) * 100;
+      const openPrice = candles.length > 0 ? candles[0].open : price;
+      const priceChange = price - openPrice;
+      const priceChangePercent = openPrice > 0 ? (priceChange / openPrice) * 100 : 0;
       
       return {
         id: offering.id,
         symbol: offering.channel.channelName,
         channelName: offering.channel.channelName,
-        price: offering.pricePerShare,
+        price,
         priceChange,
         priceChangePercent,
         marketCap,
@@ -95,6 +107,7 @@ export async function GET() {
         totalShares: offering.totalShares,
         sharePercentage: offering.sharePercentage,
         analytics: offering.channel.analytics,
+        chartData: candles.map(candle => ({ time: candle.time, value: candle.close })),
       };
     });
 
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { marketDataService } from '@/lib/services/market-data';
 
 // GET /api/exchange/order-book?offeringId=xxx
 export async function GET(request: Request) {
@@ -37,82 +38,31 @@ export async function GET(request: Request) {
       );
     }
 
-    // Get active sell orders (asks)
-    const sellOrders = await prisma.sellOrder.findMany({
-      where: {
-        offeringId,
-        status: {
-          in: ['ACTIVE', 'PARTIALLY_FILLED'],
-        },
-        sharesRemaining: {
-          gt: 0,
-        },
-      },
-      orderBy: {
-        pricePerShare: 'asc',
-      },
-      select: {
-        id: true,
-        pricePerShare: true,
-        sharesRemaining: true,
-        minShares: true,
-        seller: {
-          select: {
-            id: true,
-            name: true,
-          },
-        },
-      },
-    });
-
-    // Aggregate asks by price level
-    const asksByPrice = new Map<number, { price: number; shares: number; total: number; orders: string[] }>();
-    
-    sellOrders.forEach(order => {
-      const price = Number(order.pricePerShare.toFixed(2));
-      if (!asksByPrice.has(price)) {
-        asksByPrice.set(price, {
-          price,
-          shares: 0,
-          total: 0,
-          orders: [],
-        });
-      }
-      const level = asksByPrice.get(price)!;
-      level.shares += order.sharesRemaining;
-      level.total = level.price * level.shares;
-      level.orders.push(order.id);
-    });
-
-    const asks = Array.from(asksByPrice.values())
-      .sort((a, b) => a.price - b.price)
-      .slice(0, 15);
+    // Same aggregation the live stream sends, so snapshots and deltas line up
+    const book = await marketDataService.getOrderBook(offeringId);
+    const asks = book.asks.slice(0, 15);
+    const bids = book.bids.slice(0, 15);
 
-    // Generate synthetic bids (buy orders) based on current market
-    // In a real system, these would come from actual limit buy orders
+    // Calculate spread (only when both sides of the book have resting orders)
     const currentPrice = offering.pricePerShare;
-    const bids: { price: number; shares: number; total: number }[] = [];
-    
-    for (let i = 1; i <= 15; i++) {
-      const bidPrice = Number((currentPrice * (1 - i * 0.005)).toFixed(2));
-      const shares = Math.floor(Math.random() * 500) + 50 + (15 - i) * 20;
-      bids.push({
-        price: bidPrice,
-        shares,
-        total: Number((bidPrice * shares).toFixed(2)),
-      });
-    }
-
-    // Calculate spread
-    const bestBid = bids.length > 0 ? bids[0].price : currentPrice * 0.995;
-    const bestAsk = asks.length > 0 ? asks[0].price : currentPrice * 1.005;
-    const spread = bestAsk - bestBid;
-    const spreadPercent = (spread / currentPrice) * 100;
+    const bestBid = bids.length > 0 ? bids[0].price : null;
+    const bestAsk = asks.length > 0 ? asks[0].price : null;
+    const spread = bestBid !== null && bestAsk !== null ? bestAsk - bestBid : null;
+    const midPrice = bestBid !== null && bestAsk !== null ? (bestAsk + bestBid) / 2 : null;
+    const spreadPercent = spread !== null && midPrice ? (spread / midPrice) * 100 : null;
 
     // Calculate market depth
     const totalBidVolume = bids.reduce((sum, b) => sum + b.shares, 0);
     const totalAskVolume = asks.reduce((sum, a) => sum + a.shares, 0);
-    const bidAskRatio = totalBidVolume / (totalBidVolume + totalAskVolume || 1);
+    const totalVolume = totalBidVolume + totalAskVolume;
+    const bidAskRatio = totalVolume > 0 ? totalBidVolume / totalVolume : null;
+
+    let sentiment: 'bullish' | 'bearish' | 'neutral' = 'neutral';
+    if (bidAskRatio !== null && bidAskRatio > 0.55) {
+      sentiment = 'bullish';
+    } else if (bidAskRatio !== null && bidAskRatio < 0.45) {
+      sentiment = 'bearish';
+    }
 
     return NextResponse.json({
       success: true,
@@ -129,7 +79,7 @@ export async function GET(request: Request) {
           totalBidVolume,
           totalAskVolume,
           bidAskRatio,
-          sentiment: bidAskRatio > 0.55 ? 'bullish' : bidAskRatio < 0.45 ? 'bearish' : 'neutral',
+          sentiment,
         },
       },
       bestBid,
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MarketEvent, marketDataService } from '@/lib/services/market-data';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+const MAX_OFFERINGS_PER_STREAM = 50;
+
+// GET /api/exchange/stream?offeringId=xxx[,yyy][&channels=ticker]
+// Server-Sent Events: a snapshot per offering, then trade prints,
+// order-book deltas and ticker updates as they happen.
+// channels=ticker sends ticker updates only (for ticker bars and watchlists).
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const offeringIds = Array.from(
+    new Set((searchParams.get('offeringId') || '').split(',').map((id) => id.trim()).filter(Boolean))
+  );
+  const tickerOnly = searchParams.get('channels') === 'ticker';
+
+  if (offeringIds.length === 0) {
+    return NextResponse.json(
+      { success: false, error: 'Offering ID is required' },
+      { status: 400 }
+    );
+  }
+
+  if (offeringIds.length > MAX_OFFERINGS_PER_STREAM) {
+    return NextResponse.json(
+      { success: false, error: `At most ${MAX_OFFERINGS_PER_STREAM} offerings per stream` },
+      { status: 400 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const send = (event: MarketEvent) => {
+        if (tickerOnly) {
+          if (event.type === 'snapshot') {
+            event = { type: 'ticker', offeringId: event.offeringId, seq: event.seq, ticker: event.ticker };
+          } else if (event.type !== 'ticker') {
+            return;
+          }
+        }
+        write(`event: ${event.type}\nid: ${event.seq}\ndata: ${JSON.stringify(event)}\n\n`);
+      };
+
+      const unsubscribes = offeringIds.map((offeringId) => marketDataService.subscribe(offeringId, send));
+      const heartbeat = setInterval(() => write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribes.forEach((unsubscribe) => unsubscribe());
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+
+      request.signal.addEventListener('abort', () => cleanup());
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
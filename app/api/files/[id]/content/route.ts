@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { fileStorageService } from '@/lib/services/storage';
+
+/**
+ * GET /api/files/[id]/content?expires=...&signature=...
+ * Streams a private file. Only reachable through a signed URL issued by
+ * GET /api/files/[id], and only until it expires.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    if (!fileStorageService.verifySignedUrl(params.id, searchParams.get('expires'), searchParams.get('signature'))) {
+      return NextResponse.json({ success: false, error: 'Link is invalid or has expired' }, { status: 403 });
+    }
+
+    const file = await prisma.storedFile.findUnique({ where: { id: params.id } });
+    const body = file && await fileStorageService.read(file);
+
+    if (!file || !body) {
+      return NextResponse.json({ success: false, error: 'File not found' }, { status: 404 });
+    }
+
+    const extension = file.contentType === 'application/pdf' ? 'pdf' : file.contentType.split('/')[1];
+
+    return new NextResponse(new Uint8Array(body), {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Length': String(body.length),
+        'Content-Disposition': `inline; filename="${file.id}.${extension}"`,
+        'Cache-Control': 'private, no-store',
+        'X-Content-Type-Options': 'nosniff',
+        'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'; sandbox",
+      },
+    });
+  } catch (error) {
+    console.error('Error streaming file:', error);
+    return NextResponse.json({ success: false, error: 'Failed to fetch file' }, { status: 500 });
+  }
+}
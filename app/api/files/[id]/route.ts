@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { fileStorageService } from '@/lib/services/storage';
+import { fieldEncryptionService } from '@/lib/services/field-encryption';
+
+/**
+ * GET /api/files/[id]
+ * Public files are streamed directly. Private files (KYC and tier documents) are
+ * only for the owner and admins, who are redirected to a short-lived
+ * signed URL. Admin views of another user's document are audit-logged.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const file = await prisma.storedFile.findUnique({ where: { id: params.id } });
+
+    if (!file) {
+      return NextResponse.json({ success: false, error: 'File not found' }, { status: 404 });
+    }
+
+    if (fileStorageService.isPublic(file)) {
+      const body = await fileStorageService.read(file);
+      if (!body) {
+        return NextResponse.json({ success: false, error: 'File not found' }, { status: 404 });
+      }
+
+      return new NextResponse(new Uint8Array(body), {
+        headers: {
+          'Content-Type': file.contentType,
+          'Content-Length': String(body.length),
+          'Cache-Control': 'public, max-age=86400, immutable',
+          'X-Content-Type-Options': 'nosniff',
+        },
+      });
+    }
+
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const viewer = { id: session.user.id, role: session.user.role ?? 'INVESTOR' };
+
+    // Not found rather than forbidden, so file ids can't be probed
+    if (!fileStorageService.canAccess(file, viewer)) {
+      return NextResponse.json({ success: false, error: 'File not found' }, { status: 404 });
+    }
+
+    if (file.ownerId !== viewer.id) {
+      await fieldEncryptionService.logAccess({
+        actorId: viewer.id,
+        subjectUserId: file.ownerId,
+        resourceType: file.purpose === 'TIER_DOCUMENT' ? 'TIER_DOCUMENT' : 'KYC_DOCUMENT',
+        resourceId: file.id,
+        ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim() ?? null,
+      }, ['content']);
+    }
+
+    const response = NextResponse.redirect(new URL(fileStorageService.signedUrl(file), request.url));
+    response.headers.set('Cache-Control', 'private, no-store');
+    return response;
+  } catch (error) {
+    console.error('Error fetching file:', error);
+    return NextResponse.json({ success: false, error: 'Failed to fetch file' }, { status: 500 });
+  }
+}
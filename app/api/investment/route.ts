@@ -4,6 +4,7 @@ import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { PaymentService } from '@/lib/services/payment';
 import { KYCService } from '@/lib/services/kyc';
+import { multiply, sum } from '@/lib/utils/money';
 
 const paymentService = new PaymentService();
 const kycService = new KYCService();
@@ -44,10 +45,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const totalAmount = shares * offering.pricePerShare;
+    const totalAmount = multiply(offering.pricePerShare, shares);
 
     // Validate investment amount
-    if (totalAmount < offering.minInvestment) {
+    if (totalAmount.lessThan(offering.minInvestment)) {
       return NextResponse.json(
         {
           success: false,
@@ -57,7 +58,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (offering.maxInvestment && totalAmount > offering.maxInvestment) {
+    if (offering.maxInvestment && totalAmount.greaterThan(offering.maxInvestment)) {
       return NextResponse.json(
         {
           success: false,
@@ -75,7 +76,7 @@ export async function POST(request: NextRequest) {
 
     if (!eligibility.eligible) {
       return NextResponse.json(
-        { success: false, error: eligibility.reason },
+        { success: false, error: eligibility.reason, code: eligibility.code },
         { status: 403 }
       );
     }
@@ -170,14 +171,17 @@ export async function GET(request: NextRequest) {
     });
 
     // Calculate total invested and total returns
-    const totalInvested = investments
-      .filter((inv) => inv.status === 'CONFIRMED')
-      .reduce((sum, inv) => sum + inv.totalAmount, 0);
-
-    const totalReturns = investments
-      .flatMap((inv) => inv.payouts)
-      .filter((payout) => payout.status === 'COMPLETED')
-      .reduce((sum, payout) => sum + payout.amount, 0);
+    const totalInvested = sum(
+      investments.filter((inv) => inv.status === 'CONFIRMED'),
+      (inv) => inv.totalAmount
+    );
+
+    const totalReturns = sum(
+      investments
+        .flatMap((inv) => inv.payouts)
+        .filter((payout) => payout.status === 'COMPLETED'),
+      (payout) => payout.amount
+    );
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { InvestorTier } from '@prisma/client';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { investorTierService } from '@/lib/services/investor-tiers';
+import { fileStorageService } from '@/lib/services/storage';
+
+// GET - Current tier, its limits, 12-month usage and upgrade requests
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { investorTier: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    const [limits, usage, requests] = await Promise.all([
+      investorTierService.getLimits(user.investorTier),
+      investorTierService.getUsage(session.user.id, { includeOpenBids: true }),
+      prisma.tierUpgradeRequest.findMany({
+        where: { userId: session.user.id },
+        orderBy: { createdAt: 'desc' },
+        take: 10,
+      }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      tier: user.investorTier,
+      limits,
+      usage,
+      requests,
+    });
+  } catch (error) {
+    console.error('Investor tier fetch error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch investor tier' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Request an upgrade to a higher tier
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { requestedTier, annualIncome, netWorth, documentUrls } = await request.json();
+
+    if (!(requestedTier in InvestorTier) || requestedTier === 'RETAIL') {
+      return NextResponse.json(
+        { success: false, error: 'requestedTier must be VERIFIED_INCOME or ACCREDITED' },
+        { status: 400 }
+      );
+    }
+
+    for (const [field, value] of Object.entries({ annualIncome, netWorth })) {
+      if (value !== undefined && (typeof value !== 'number' || value <= 0)) {
+        return NextResponse.json(
+          { success: false, error: `${field} must be a positive amount` },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Evidence must be this user's own private uploads (type tier_document)
+    if (!Array.isArray(documentUrls) || !documentUrls.every((url) => typeof url === 'string')
+      || !(await fileStorageService.ownsFileUrls(session.user.id, 'TIER_DOCUMENT', documentUrls))) {
+      return NextResponse.json(
+        { success: false, error: 'documentUrls must be links to your uploaded tier documents' },
+        { status: 400 }
+      );
+    }
+
+    const upgradeRequest = await investorTierService.requestUpgrade(session.user.id, {
+      requestedTier: requestedTier as InvestorTier,
+      annualIncome,
+      netWorth,
+      documentUrls,
+    });
+
+    return NextResponse.json({
+      success: true,
+      request: upgradeRequest,
+      message: 'Upgrade request submitted. An admin will review your documents.',
+    });
+  } catch (error: unknown) {
+    console.error('Tier upgrade request error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to submit upgrade request';
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 400 }
+    );
+  }
+}
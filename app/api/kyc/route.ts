@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { KYCService } from '@/lib/services/kyc';
+import { fileStorageService } from '@/lib/services/storage';
 
 const kycService = new KYCService();
 
@@ -74,6 +75,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Documents must be the submitter's own private uploads
+    const documentUrls = [kycData.documentFrontUrl, kycData.documentBackUrl, kycData.selfieUrl].filter(Boolean);
+    if (!documentUrls.every((url) => typeof url === 'string')
+      || !(await fileStorageService.ownsFileUrls(session.user.id, 'KYC_DOCUMENT', documentUrls))) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid document upload' },
+        { status: 400 }
+      );
+    }
+
     const result = await kycService.initiateKYC(session.user.id, kycData);
 
     return NextResponse.json({
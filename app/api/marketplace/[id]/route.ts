@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { dexEscrowService } from '@/lib/services/dex-escrow';
+import { toNumber } from '@/lib/utils/money';
 
 export async function GET(
   request: NextRequest,
@@ -23,6 +25,14 @@ export async function GET(
             shares: true,
           },
         },
+        transferRule: {
+          select: {
+            lockupDays: true,
+            maxHoldingPercent: true,
+            requireKycVerified: true,
+            blockedJurisdictions: true,
+          },
+        },
       },
     });
 
@@ -35,6 +45,7 @@ export async function GET(
 
     const soldShares = offering.totalShares - offering.availableShares;
     const fundingProgress = Math.round((soldShares / offering.totalShares) * 100);
+    const progress = await dexEscrowService.getReturnProgress(offering.id);
 
     return NextResponse.json({
       success: true,
@@ -42,6 +53,15 @@ export async function GET(
         ...offering,
         fundingProgress,
         investorCount: offering.investments.length,
+        returnProgress: {
+          returnCapMultiple: progress.returnCapMultiple && toNumber(progress.returnCapMultiple),
+          minimumMonthlyPayment: progress.minimumMonthlyPayment && toNumber(progress.minimumMonthlyPayment),
+          principal: toNumber(progress.principal),
+          capAmount: progress.capAmount && toNumber(progress.capAmount),
+          returned: toNumber(progress.returned),
+          progressPercent: progress.progressPercent,
+          capReachedAt: progress.capReachedAt,
+        },
       },
     });
   } catch (error) {
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { NotificationType } from '@prisma/client';
+import { authOptions } from '@/lib/auth';
+import { notificationService } from '@/lib/services/notifications';
+
+// GET - In-app and email settings for every notification type
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const preferences = await notificationService.getPreferences(session.user.id);
+
+    return NextResponse.json({ success: true, preferences });
+  } catch (error) {
+    console.error('Notification preferences fetch error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch notification preferences' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Update settings: { preferences: [{ type, inApp?, email? }] }
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { preferences } = await request.json();
+
+    const valid = Array.isArray(preferences) && preferences.every((preference) =>
+      Object.values(NotificationType).includes(preference?.type)
+      && ['inApp', 'email'].every((channel) =>
+        preference[channel] === undefined || typeof preference[channel] === 'boolean')
+    );
+
+    if (!valid) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid notification preferences' },
+        { status: 400 }
+      );
+    }
+
+    const updated = await notificationService.updatePreferences(session.user.id, preferences);
+
+    return NextResponse.json({ success: true, preferences: updated });
+  } catch (error) {
+    console.error('Notification preferences update error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update notification preferences' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { notificationService } from '@/lib/services/notifications';
+
+// GET - The user's latest notifications and unread count
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { notifications, unreadCount } = await notificationService.list(session.user.id, {
+      unreadOnly: searchParams.get('unread') === 'true',
+      limit: Number.parseInt(searchParams.get('limit') || '20'),
+    });
+
+    return NextResponse.json({ success: true, notifications, unreadCount });
+  } catch (error) {
+    console.error('Notifications fetch error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch notifications' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH - Mark notifications as read: { ids: [...] } or { all: true }
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { ids, all } = await request.json();
+
+    if (!all && (!Array.isArray(ids) || ids.length === 0 || !ids.every((id) => typeof id === 'string'))) {
+      return NextResponse.json(
+        { success: false, error: 'Provide notification ids or all: true' },
+        { status: 400 }
+      );
+    }
+
+    const updated = await notificationService.markRead(session.user.id, all ? undefined : ids);
+
+    return NextResponse.json({ success: true, updated });
+  } catch (error) {
+    console.error('Notifications update error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update notifications' },
+      { status: 500 }
+    );
+  }
+}
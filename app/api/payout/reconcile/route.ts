@@ -3,13 +3,26 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { dexEscrowService } from '@/lib/services/dex-escrow';
+import { PaymentService } from '@/lib/services/payment';
+import { revenueReconciliationService } from '@/lib/services/revenue-reconciliation';
+import { revenueWaterfallService } from '@/lib/services/revenue-waterfall';
+import { sum } from '@/lib/utils/money';
+import { RevenueSource } from '@prisma/client';
+
+const paymentService = new PaymentService();
 
 /**
  * Revenue Reconciliation API
  * 
  * This endpoint is called by creators to deposit YouTube revenue into the DEX escrow.
+ * The gross revenue of one source is split down the channel's revenue waterfall
+ * across the active offerings that cover that source (see revenue-waterfall.ts).
  * The escrow system automatically distributes revenue based on ownership percentages.
  * Neither creators nor investors have direct control over the distribution logic.
+ * Each deposit is paid in from the creator's wallet, or through a Stripe payment
+ * per offering, and is only distributed once the money has settled.
+ * Reported figures are checked against platform-fetched revenue for the month;
+ * a significant difference holds distribution until an admin resolves it.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -22,7 +35,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { channelId, revenueMonth, grossRevenue, source = 'YOUTUBE_ADSENSE', externalRef } = await request.json();
+    const {
+      channelId,
+      revenueMonth,
+      grossRevenue,
+      source = 'YOUTUBE_ADSENSE',
+      externalRef,
+      funding = 'WALLET',
+    } = await request.json();
 
     if (!channelId || !revenueMonth || !grossRevenue) {
       return NextResponse.json(
@@ -38,17 +58,26 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (funding !== 'WALLET' && funding !== 'STRIPE') {
+      return NextResponse.json(
+        { success: false, error: 'funding must be WALLET or STRIPE' },
+        { status: 400 }
+      );
+    }
+
+    if (!Object.values(RevenueSource).includes(source)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown revenue source: ${source}` },
+        { status: 400 }
+      );
+    }
+
     // Verify channel ownership
     const channel = await prisma.channel.findFirst({
       where: {
         id: channelId,
         ownerId: session.user.id,
       },
-      include: {
-        offerings: {
-          where: { status: 'ACTIVE' },
-        },
-      },
     });
 
     if (!channel) {
@@ -58,57 +87,86 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (channel.offerings.length === 0) {
+    const waterfall = await revenueWaterfallService.allocate(channel.id, source, grossRevenue);
+
+    if (waterfall.allocations.length === 0) {
       return NextResponse.json(
-        { success: false, error: 'No active offerings found for this channel' },
+        { success: false, error: `No active offerings on this channel cover ${source} revenue` },
         { status: 400 }
       );
     }
 
     const distributions = [];
 
-    // Process each offering
-    for (const offering of channel.offerings) {
-      // Calculate revenue allocated to this offering based on sharePercentage
-      const offeringRevenue = grossRevenue * (offering.sharePercentage / 100);
+    // Process each offering, senior first
+    for (const allocation of waterfall.allocations) {
+      const offeringRevenue = allocation.amount;
 
-      if (offeringRevenue <= 0) continue;
+      if (!offeringRevenue.greaterThan(0)) continue;
 
       try {
         // Ensure vault exists
         let vault = await prisma.escrowVault.findUnique({
-          where: { offeringId: offering.id },
+          where: { offeringId: allocation.offeringId },
         });
 
         if (!vault) {
-          await dexEscrowService.createVault(offering.id);
+          await dexEscrowService.createVault(allocation.offeringId);
         }
 
-        // Deposit revenue into escrow
+        // Deposit revenue into escrow; from the wallet it is paid in (and verified) at once
         const depositId = await dexEscrowService.depositRevenue(
-          offering.id,
+          allocation.offeringId,
           offeringRevenue,
           revenueMonth,
           source,
-          externalRef
+          {
+            externalRef,
+            origin: 'CREATOR_REPORTED',
+            fundFromWallet: funding === 'WALLET' ? session.user.id : undefined,
+          }
         );
 
-        // Verify and distribute
-        await dexEscrowService.verifyDeposit(depositId);
-        const distribution = await dexEscrowService.distributeRevenue(offering.id, depositId);
+        if (funding === 'STRIPE') {
+          const payment = await paymentService.createEscrowDepositIntent(depositId, session.user.id);
+          distributions.push({
+            offeringId: allocation.offeringId,
+            offeringTitle: allocation.title,
+            depositId,
+            payment,
+          });
+          continue;
+        }
+
+        // Compare with platform-fetched revenue for the month before paying out
+        const { vaultId } = await prisma.escrowDeposit.findUniqueOrThrow({ where: { id: depositId } });
+        const reconciliation = await revenueReconciliationService.reconcile(vaultId, revenueMonth);
+
+        if (reconciliation.status === 'DISPUTED' || reconciliation.supersededDeposits.includes(depositId)) {
+          distributions.push({
+            offeringId: allocation.offeringId,
+            offeringTitle: allocation.title,
+            depositId,
+            reconciliation: reconciliation.status,
+            disputeId: reconciliation.disputeId,
+          });
+          continue;
+        }
+
+        const distribution = await dexEscrowService.distributeRevenue(allocation.offeringId, depositId);
 
         distributions.push({
-          offeringId: offering.id,
-          offeringTitle: offering.title,
+          offeringId: allocation.offeringId,
+          offeringTitle: allocation.title,
           depositId,
           ...distribution,
         });
       } catch (error: unknown) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        console.error(`Error processing offering ${offering.id}:`, error);
+        console.error(`Error processing offering ${allocation.offeringId}:`, error);
         distributions.push({
-          offeringId: offering.id,
-          offeringTitle: offering.title,
+          offeringId: allocation.offeringId,
+          offeringTitle: allocation.title,
           error: errorMessage,
         });
       }
@@ -126,6 +184,7 @@ export async function POST(request: NextRequest) {
           channelId,
           revenueMonth,
           grossRevenue,
+          source,
           distributions: distributions.map(d => ({
             offeringId: d.offeringId,
             distributed: 'distributionId' in d,
@@ -137,18 +196,25 @@ export async function POST(request: NextRequest) {
 
     const successfulDistributions = distributions.filter(d => 'distributionId' in d);
     const failedDistributions = distributions.filter(d => 'error' in d);
+    const heldDistributions = distributions.filter(d => 'reconciliation' in d);
+    const awaitingPayment = distributions.filter(d => 'payment' in d);
 
     return NextResponse.json({
       success: true,
       distributions,
+      waterfall,
       summary: {
         grossRevenue,
-        totalDistributed: successfulDistributions.reduce((sum, d) => sum + (d.totalAmount || 0), 0),
+        totalDistributed: sum(successfulDistributions, (d) => d.totalAmount),
         successfulOfferings: successfulDistributions.length,
         failedOfferings: failedDistributions.length,
+        heldOfferings: heldDistributions.length,
+        awaitingPayment: awaitingPayment.length,
         revenueMonth,
       },
-      message: 'Revenue deposited into escrow and distributed automatically to all stakeholders',
+      message: funding === 'STRIPE'
+        ? 'Revenue deposits recorded. Complete each payment to fund them; they are distributed once the payments settle.'
+        : 'Revenue deposited into escrow from your wallet and distributed automatically to all stakeholders',
     });
   } catch (error) {
     console.error('Reconciliation error:', error);
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { priceAlertService } from '@/lib/services/price-alerts';
+
+// PATCH - Change an alert (threshold, source, direction); re-arms a triggered alert
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { threshold, source, direction } = await req.json();
+
+    const alert = await priceAlertService.updateAlert(session.user.id, params.id, {
+      threshold,
+      source,
+      direction,
+    });
+
+    return NextResponse.json({ success: true, alert });
+  } catch (error: unknown) {
+    console.error('Price alert update error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to update price alert';
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: errorMessage === 'Alert not found' ? 404 : 400 }
+    );
+  }
+}
+
+// DELETE - Cancel an alert
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const alert = await priceAlertService.cancelAlert(session.user.id, params.id);
+
+    return NextResponse.json({ success: true, alert });
+  } catch (error: unknown) {
+    console.error('Price alert cancel error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to cancel price alert';
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: errorMessage === 'Alert not found' ? 404 : 400 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { PriceAlertStatus } from '@prisma/client';
+import { authOptions } from '@/lib/auth';
+import { priceAlertService } from '@/lib/services/price-alerts';
+
+// GET - The user's price alerts, optionally by ?offeringId= and ?status=
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const offeringId = searchParams.get('offeringId') || undefined;
+    const status = searchParams.get('status');
+
+    if (status && !(status in PriceAlertStatus)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid status' },
+        { status: 400 }
+      );
+    }
+
+    const alerts = await priceAlertService.listAlerts(session.user.id, {
+      offeringId,
+      status: (status as PriceAlertStatus) || undefined,
+    });
+
+    return NextResponse.json({ success: true, alerts });
+  } catch (error) {
+    console.error('Price alerts fetch error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch price alerts' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create an alert: { offeringId, threshold, source?, direction? }
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { offeringId, threshold, source, direction } = await request.json();
+
+    if (typeof offeringId !== 'string' || !offeringId) {
+      return NextResponse.json(
+        { success: false, error: 'offeringId is required' },
+        { status: 400 }
+      );
+    }
+
+    const alert = await priceAlertService.createAlert(session.user.id, {
+      offeringId,
+      threshold,
+      source,
+      direction,
+    });
+
+    return NextResponse.json({ success: true, alert });
+  } catch (error: unknown) {
+    console.error('Price alert create error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to create price alert';
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { matchingEngine } from '@/lib/services/matching-engine';
+
+// DELETE - Cancel a buy order and release its locked funds
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const buyOrder = await prisma.buyOrder.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!buyOrder) {
+      return NextResponse.json(
+        { success: false, error: 'Buy order not found' },
+        { status: 404 }
+      );
+    }
+
+    if (buyOrder.buyerId !== session.user.id) {
+      return NextResponse.json(
+        { success: false, error: 'You can only cancel your own buy orders' },
+        { status: 403 }
+      );
+    }
+
+    if (buyOrder.status !== 'ACTIVE' && buyOrder.status !== 'PARTIALLY_FILLED') {
+      return NextResponse.json(
+        { success: false, error: `Order is already ${buyOrder.status.toLowerCase().replace('_', ' ')}` },
+        { status: 400 }
+      );
+    }
+
+    const cancelledOrder = await matchingEngine.cancelBuyOrder(params.id);
+
+    return NextResponse.json({
+      success: true,
+      buyOrder: cancelledOrder,
+      message: 'Buy order cancelled successfully',
+    });
+  } catch (error) {
+    console.error('Error cancelling buy order:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to cancel buy order' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,215 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { matchingEngine } from '@/lib/services/matching-engine';
+import { transferRulesService } from '@/lib/services/transfer-rules';
+import { investorTierService } from '@/lib/services/investor-tiers';
+import { formatINR, multiply } from '@/lib/utils/money';
+
+// GET - List resting buy orders (optionally filter by offering)
+export async function GET(req: NextRequest) {
+  try {
+    const searchParams = req.nextUrl.searchParams;
+    const offeringId = searchParams.get('offeringId');
+    const myOrders = searchParams.get('myOrders') === 'true';
+
+    const session = await getServerSession(authOptions);
+
+    // Build where clause
+    const where: any = {
+      status: { in: ['ACTIVE', 'PARTIALLY_FILLED'] },
+      sharesRemaining: { gt: 0 },
+    };
+
+    if (offeringId) {
+      where.offeringId = offeringId;
+    }
+
+    // If user wants their own orders
+    if (myOrders) {
+      if (!session?.user?.id) {
+        return NextResponse.json(
+          { success: false, error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+      where.buyerId = session.user.id;
+      delete where.status; // Show all statuses for own orders
+      delete where.sharesRemaining;
+    }
+
+    const buyOrders = await prisma.buyOrder.findMany({
+      where,
+      select: {
+        id: true,
+        offeringId: true,
+        sharesRequested: true,
+        sharesRemaining: true,
+        limitPrice: true,
+        status: true,
+        expiresAt: true,
+        createdAt: true,
+        // Only expose the reserved funds and buyer on the owner's own orders
+        lockedAmount: myOrders,
+        buyerId: myOrders,
+        offering: {
+          include: {
+            channel: {
+              select: {
+                channelName: true,
+                channelUrl: true,
+              },
+            },
+          },
+        },
+      },
+      orderBy: [
+        { limitPrice: 'desc' }, // Best bid first
+        { createdAt: 'asc' }, // Then by oldest
+      ],
+    });
+
+    return NextResponse.json({
+      success: true,
+      buyOrders,
+      total: buyOrders.length,
+    });
+  } catch (error) {
+    console.error('Error fetching buy orders:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch buy orders' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Place a limit buy order (matched immediately, remainder rests on the book)
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { offeringId, shares, limitPrice, expiresAt } = await req.json();
+
+    // Validate input
+    if (!offeringId || !shares || shares < 1 || !Number.isInteger(shares)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid parameters. Provide offeringId and a whole number of shares.' },
+        { status: 400 }
+      );
+    }
+
+    if (!limitPrice || limitPrice <= 0) {
+      return NextResponse.json(
+        { success: false, error: 'Limit price must be greater than 0' },
+        { status: 400 }
+      );
+    }
+
+    if (expiresAt && new Date(expiresAt) <= new Date()) {
+      return NextResponse.json(
+        { success: false, error: 'Expiry must be in the future' },
+        { status: 400 }
+      );
+    }
+
+    const offering = await prisma.offering.findUnique({
+      where: { id: offeringId },
+      select: { id: true, status: true },
+    });
+
+    if (!offering) {
+      return NextResponse.json(
+        { success: false, error: 'Offering not found' },
+        { status: 404 }
+      );
+    }
+
+    if (offering.status === 'CLOSED') {
+      return NextResponse.json(
+        { success: false, error: 'Offering has closed and its shares no longer trade' },
+        { status: 400 }
+      );
+    }
+
+    // Check buyer's wallet balance covers the full limit cost
+    const lockAmount = multiply(limitPrice, shares);
+    const buyerWallet = await prisma.wallet.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    if (!buyerWallet || buyerWallet.balance.lessThan(lockAmount)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Insufficient wallet balance. Required: ${formatINR(lockAmount)}, Available: ${formatINR(buyerWallet?.balance ?? 0)}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const transferCheck = await transferRulesService.checkBuyer(session.user.id, offeringId, shares, {
+      includeOpenBids: true,
+    });
+    if (!transferCheck.allowed) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: transferCheck.violations.map((v) => v.reason).join('; '),
+          code: 'TRANSFER_RESTRICTED',
+          violations: transferCheck.violations,
+        },
+        { status: 403 }
+      );
+    }
+
+    // The full locked amount counts against the tier limits, as do other open bids
+    const eligibility = await investorTierService.checkEligibility(session.user.id, lockAmount, {
+      includeOpenBids: true,
+    });
+    if (!eligibility.eligible) {
+      return NextResponse.json(
+        { success: false, error: eligibility.reason, code: eligibility.code },
+        { status: 403 }
+      );
+    }
+
+    const { buyOrder, fills } = await matchingEngine.placeBuyOrder(
+      session.user.id,
+      offeringId,
+      shares,
+      limitPrice,
+      expiresAt ? new Date(expiresAt) : null
+    );
+
+    const sharesFilled = fills.reduce((sum, f) => sum + f.shares, 0);
+
+    let message: string;
+    if (sharesFilled === 0) {
+      message = `Bid placed for ${shares} shares at ₹${limitPrice} per share`;
+    } else if (sharesFilled === shares) {
+      message = `Bought ${sharesFilled} shares`;
+    } else {
+      message = `Bought ${sharesFilled} shares, ${shares - sharesFilled} remaining on the book at ₹${limitPrice}`;
+    }
+
+    return NextResponse.json({
+      success: true,
+      buyOrder,
+      fills,
+      message,
+    });
+  } catch (error) {
+    console.error('Error placing buy order:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to place buy order' },
+      { status: 500 }
+    );
+  }
+}
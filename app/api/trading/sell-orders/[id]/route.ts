@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { matchingEngine } from '@/lib/services/matching-engine';
+import { marketDataService } from '@/lib/services/market-data';
 
 // GET - Get sell order details
 export async function GET(
@@ -141,9 +143,18 @@ export async function PATCH(
       },
     });
 
+    // A lower ask may now cross resting bids
+    let fills: Awaited<ReturnType<typeof matchingEngine.matchSellOrder>> = [];
+    if (updateData.pricePerShare) {
+      fills = await matchingEngine.matchSellOrder(params.id);
+    } else {
+      marketDataService.publish(updatedOrder.offeringId);
+    }
+
     return NextResponse.json({
       success: true,
       sellOrder: updatedOrder,
+      fills,
       message: 'Sell order updated successfully',
     });
   } catch (error) {
@@ -209,6 +220,8 @@ export async function DELETE(
       },
     });
 
+    marketDataService.publish(cancelledOrder.offeringId);
+
     return NextResponse.json({
       success: true,
       sellOrder: cancelledOrder,
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { matchingEngine } from '@/lib/services/matching-engine';
+import { transferRulesService } from '@/lib/services/transfer-rules';
 
 // GET - List all active sell orders (optionally filter by offering)
 export async function GET(req: NextRequest) {
@@ -148,6 +150,13 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    if (investment.offering.status === 'CLOSED') {
+      return NextResponse.json(
+        { success: false, error: 'Offering has closed and its shares no longer trade' },
+        { status: 400 }
+      );
+    }
+
     // Calculate available shares (shares owned - shares already listed for sale)
     const existingListings = await prisma.sellOrder.findMany({
       where: {
@@ -178,6 +187,20 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // Lock-up and other transfer rules
+    const transferCheck = await transferRulesService.checkSeller(investment, shares, sharesAlreadyListed);
+    if (!transferCheck.allowed) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: transferCheck.violations.map((v) => v.reason).join('; '),
+          code: 'TRANSFER_RESTRICTED',
+          violations: transferCheck.violations,
+        },
+        { status: 403 }
+      );
+    }
+
     // Create the sell order
     const sellOrder = await prisma.sellOrder.create({
       data: {
@@ -204,10 +227,17 @@ export async function POST(req: NextRequest) {
       },
     });
 
+    // Cross the new ask against any resting bids at or above its price
+    const fills = await matchingEngine.matchSellOrder(sellOrder.id);
+    const sharesFilled = fills.reduce((sum, f) => sum + f.shares, 0);
+
     return NextResponse.json({
       success: true,
       sellOrder,
-      message: `Successfully listed ${shares} shares for sale at ₹${pricePerShare} per share`,
+      fills,
+      message: sharesFilled > 0
+        ? `Listed ${shares} shares at ₹${pricePerShare} per share, ${sharesFilled} sold immediately to resting bids`
+        : `Successfully listed ${shares} shares for sale at ₹${pricePerShare} per share`,
     });
   } catch (error) {
     console.error('Error creating sell order:', error);
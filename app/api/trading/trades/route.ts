@@ -2,9 +2,11 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
-
-// Platform fee percentage (e.g., 2.5%)
-const PLATFORM_FEE_PERCENT = 2.5;
+import { OrderUnavailableError, matchingEngine } from '@/lib/services/matching-engine';
+import { TransferRestrictionError } from '@/lib/services/transfer-rules';
+import { investorTierService } from '@/lib/services/investor-tiers';
+import { marketDataService } from '@/lib/services/market-data';
+import { formatINR, multiply, sum } from '@/lib/utils/money';
 
 // GET - List trades (user's trade history or market trades for an offering)
 export async function GET(req: NextRequest) {
@@ -120,12 +122,12 @@ export async function GET(req: NextRequest) {
     const sellTrades = trades.filter((t) => t.sellerId === session.user.id);
 
     const summary = {
-      totalBought: buyTrades.reduce((sum, t) => sum + t.totalAmount, 0),
-      totalSold: sellTrades.reduce((sum, t) => sum + t.netAmount, 0),
+      totalBought: sum(buyTrades, (t) => t.totalAmount),
+      totalSold: sum(sellTrades, (t) => t.netAmount),
       totalBuyTrades: buyTrades.length,
       totalSellTrades: sellTrades.length,
-      sharesBought: buyTrades.reduce((sum, t) => sum + t.shares, 0),
-      sharesSold: sellTrades.reduce((sum, t) => sum + t.shares, 0),
+      sharesBought: buyTrades.reduce((total, t) => total + t.shares, 0),
+      sharesSold: sellTrades.reduce((total, t) => total + t.shares, 0),
     };
 
     return NextResponse.json({
@@ -142,7 +144,7 @@ export async function GET(req: NextRequest) {
   }
 }
 
-// POST - Execute a trade (buy from a sell order)
+// POST - Execute a trade (buy from a sell order, or a market order across the book)
 export async function POST(req: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
@@ -153,7 +155,12 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const { sellOrderId, shares } = await req.json();
+    const body = await req.json();
+    const { sellOrderId, shares } = body;
+
+    if (body.orderType === 'market') {
+      return await executeMarketOrder(session.user.id, body);
+    }
 
     if (!sellOrderId || !shares || shares < 1) {
       return NextResponse.json(
@@ -198,6 +205,7 @@ export async function POST(req: NextRequest) {
         where: { id: sellOrderId },
         data: { status: 'EXPIRED' },
       });
+      marketDataService.publish(sellOrder.offeringId);
       return NextResponse.json(
         { success: false, error: 'This sell order has expired' },
         { status: 400 }
@@ -229,239 +237,53 @@ export async function POST(req: NextRequest) {
     }
 
     // Calculate amounts
-    const totalAmount = shares * sellOrder.pricePerShare;
-    const platformFee = totalAmount * (PLATFORM_FEE_PERCENT / 100);
-    const netAmount = totalAmount - platformFee;
+    const totalAmount = multiply(sellOrder.pricePerShare, shares);
+
+    // Secondary buys count against the buyer's tier limits too
+    const eligibility = await investorTierService.checkEligibility(session.user.id, totalAmount);
+    if (!eligibility.eligible) {
+      return NextResponse.json(
+        { success: false, error: eligibility.reason, code: eligibility.code },
+        { status: 403 }
+      );
+    }
 
     // Check buyer's wallet balance
     const buyerWallet = await prisma.wallet.findUnique({
       where: { userId: session.user.id },
     });
 
-    if (!buyerWallet || buyerWallet.balance < totalAmount) {
+    if (!buyerWallet || buyerWallet.balance.lessThan(totalAmount)) {
       return NextResponse.json(
         {
           success: false,
-          error: `Insufficient wallet balance. Required: ₹${totalAmount.toLocaleString('en-IN')}, Available: ₹${(buyerWallet?.balance || 0).toLocaleString('en-IN')}`,
+          error: `Insufficient wallet balance. Required: ${formatINR(totalAmount)}, Available: ${formatINR(buyerWallet?.balance ?? 0)}`,
         },
         { status: 400 }
       );
     }
 
     // Execute trade in a transaction
-    const result = await prisma.$transaction(async (tx) => {
-      // 1. Create trade record
-      const trade = await tx.trade.create({
-        data: {
-          sellOrderId,
-          buyerId: session.user.id,
-          sellerId: sellOrder.sellerId,
-          offeringId: sellOrder.offeringId,
-          shares,
-          pricePerShare: sellOrder.pricePerShare,
-          totalAmount,
-          platformFee,
-          netAmount,
-          status: 'COMPLETED',
-          completedAt: new Date(),
-        },
-      });
-
-      // 2. Update sell order
-      const newSharesRemaining = sellOrder.sharesRemaining - shares;
-      const newStatus = newSharesRemaining === 0 ? 'FILLED' : 'PARTIALLY_FILLED';
-      
-      await tx.sellOrder.update({
-        where: { id: sellOrderId },
-        data: {
-          sharesRemaining: newSharesRemaining,
-          status: newStatus,
-        },
-      });
-
-      // 3. Update seller's investment (reduce shares)
-      await tx.investment.update({
-        where: { id: sellOrder.investmentId },
-        data: {
-          shares: { decrement: shares },
-        },
-      });
-
-      // 4. Create or update buyer's investment
-      const existingBuyerInvestment = await tx.investment.findFirst({
-        where: {
-          investorId: session.user.id,
-          offeringId: sellOrder.offeringId,
-          status: 'CONFIRMED',
-        },
-      });
-
-      let buyerInvestment;
-      if (existingBuyerInvestment) {
-        // Update existing investment
-        buyerInvestment = await tx.investment.update({
-          where: { id: existingBuyerInvestment.id },
-          data: {
-            shares: { increment: shares },
-            totalAmount: { increment: totalAmount },
-          },
-        });
-      } else {
-        // Create new investment for buyer
-        buyerInvestment = await tx.investment.create({
-          data: {
-            investorId: session.user.id,
-            offeringId: sellOrder.offeringId,
-            shares,
-            totalAmount,
-            status: 'CONFIRMED',
-          },
-        });
-      }
-
-      // Update trade with buyer investment ID
-      await tx.trade.update({
-        where: { id: trade.id },
-        data: { buyerInvestmentId: buyerInvestment.id },
-      });
-
-      // 5. Deduct from buyer's wallet
-      const updatedBuyerWallet = await tx.wallet.update({
-        where: { userId: session.user.id },
-        data: {
-          balance: { decrement: totalAmount },
-          totalInvested: { increment: totalAmount },
-          lastActivityAt: new Date(),
-        },
-      });
-
-      // 6. Add to seller's wallet (net amount after fees)
-      const sellerWallet = await tx.wallet.findUnique({
-        where: { userId: sellOrder.sellerId },
-      });
-
-      if (!sellerWallet) {
-        throw new Error('Seller wallet not found');
-      }
-
-      const updatedSellerWallet = await tx.wallet.update({
-        where: { userId: sellOrder.sellerId },
-        data: {
-          balance: { increment: netAmount },
-          totalEarnings: { increment: netAmount },
-          lastActivityAt: new Date(),
-        },
-      });
-
-      // 7. Create transaction records
-      // Buyer transaction
-      const buyerTransaction = await tx.transaction.create({
-        data: {
-          userId: session.user.id,
-          type: 'INVESTMENT',
-          amount: totalAmount,
-          fee: 0,
-          netAmount: totalAmount,
-          status: 'COMPLETED',
-          referenceType: 'trade',
-          referenceId: trade.id,
-          description: `Bought ${shares} shares of ${sellOrder.offering.channel.channelName} at ₹${sellOrder.pricePerShare}/share`,
-          completedAt: new Date(),
-          metadata: {
-            tradeId: trade.id,
-            sellOrderId,
-            shares,
-            pricePerShare: sellOrder.pricePerShare,
-            channelName: sellOrder.offering.channel.channelName,
-          },
-        },
-      });
-
-      // Seller transaction  
-      const sellerTransaction = await tx.transaction.create({
-        data: {
-          userId: sellOrder.sellerId,
-          type: 'EARNING',
-          amount: totalAmount,
-          fee: platformFee,
-          netAmount,
-          status: 'COMPLETED',
-          referenceType: 'trade',
-          referenceId: trade.id,
-          description: `Sold ${shares} shares of ${sellOrder.offering.channel.channelName} at ₹${sellOrder.pricePerShare}/share`,
-          completedAt: new Date(),
-          metadata: {
-            tradeId: trade.id,
-            sellOrderId,
-            shares,
-            pricePerShare: sellOrder.pricePerShare,
-            channelName: sellOrder.offering.channel.channelName,
-          },
-        },
-      });
-
-      // 8. Create ledger entries
-      // Buyer ledger
-      await tx.walletLedger.create({
-        data: {
-          walletId: buyerWallet.id,
-          transactionId: buyerTransaction.id,
-          entryType: 'TRADE_BUY',
-          debit: totalAmount,
-          credit: 0,
-          balance: updatedBuyerWallet.balance,
-          description: `Trade: Bought ${shares} shares of ${sellOrder.offering.channel.channelName}`,
-          referenceType: 'trade',
-          referenceId: trade.id,
-          metadata: {
-            shares,
-            pricePerShare: sellOrder.pricePerShare,
-          },
-        },
-      });
-
-      // Seller ledger
-      await tx.walletLedger.create({
-        data: {
-          walletId: sellerWallet.id,
-          transactionId: sellerTransaction.id,
-          entryType: 'TRADE_SELL',
-          debit: 0,
-          credit: netAmount,
-          balance: updatedSellerWallet.balance,
-          description: `Trade: Sold ${shares} shares of ${sellOrder.offering.channel.channelName}`,
-          referenceType: 'trade',
-          referenceId: trade.id,
-          metadata: {
-            shares,
-            pricePerShare: sellOrder.pricePerShare,
-            platformFee,
-          },
-        },
-      });
+    const result = await prisma.$transaction((tx) =>
+      matchingEngine.executeFill(tx, {
+        sellOrder,
+        buyerId: session.user.id,
+        shares,
+        pricePerShare: sellOrder.pricePerShare,
+        channelName: sellOrder.offering.channel.channelName,
+      })
+    );
 
-      // Fee ledger entry for seller
-      if (platformFee > 0) {
-        await tx.walletLedger.create({
-          data: {
-            walletId: sellerWallet.id,
-            entryType: 'FEE_CHARGED',
-            debit: platformFee,
-            credit: 0,
-            balance: updatedSellerWallet.balance,
-            description: `Platform fee (${PLATFORM_FEE_PERCENT}%) for trade`,
-            referenceType: 'trade',
-            referenceId: trade.id,
-          },
-        });
-      }
-
-      return {
-        trade,
-        buyerInvestment,
-        buyerWallet: updatedBuyerWallet,
-        sellerWallet: updatedSellerWallet,
-      };
+    marketDataService.publish(sellOrder.offeringId, {
+      fills: [{
+        tradeId: result.trade.id,
+        sellOrderId: result.trade.sellOrderId,
+        buyOrderId: null,
+        shares: result.trade.shares,
+        pricePerShare: result.trade.pricePerShare,
+        totalAmount: result.trade.totalAmount,
+      }],
+      takerSide: 'buy',
     });
 
     return NextResponse.json({
@@ -471,9 +293,23 @@ export async function POST(req: NextRequest) {
       wallet: {
         balance: result.buyerWallet.balance,
       },
-      message: `Successfully bought ${shares} shares for ₹${totalAmount.toLocaleString('en-IN')}`,
+      message: `Successfully bought ${shares} shares for ${formatINR(totalAmount)}`,
     });
   } catch (error) {
+    if (error instanceof OrderUnavailableError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: 'ORDER_UNAVAILABLE' },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof TransferRestrictionError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: 'TRANSFER_RESTRICTED', violations: error.violations },
+        { status: 403 }
+      );
+    }
+
     console.error('Error executing trade:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to execute trade' },
@@ -481,3 +317,78 @@ export async function POST(req: NextRequest) {
     );
   }
 }
+
+// Market buy - sweep the ask side cheapest first, all-or-nothing within the caller's limits
+async function executeMarketOrder(
+  buyerId: string,
+  body: { offeringId?: string; shares?: number; maxAveragePrice?: number; maxSlippagePercent?: number }
+) {
+  const { offeringId, shares, maxAveragePrice, maxSlippagePercent } = body;
+
+  if (!offeringId || !shares || !Number.isInteger(shares) || shares < 1) {
+    return NextResponse.json(
+      { success: false, error: 'Invalid parameters. Provide offeringId and a whole number of shares.' },
+      { status: 400 }
+    );
+  }
+
+  if (maxAveragePrice !== undefined && (typeof maxAveragePrice !== 'number' || maxAveragePrice <= 0)) {
+    return NextResponse.json(
+      { success: false, error: 'maxAveragePrice must be a positive number' },
+      { status: 400 }
+    );
+  }
+
+  if (maxSlippagePercent !== undefined && (typeof maxSlippagePercent !== 'number' || maxSlippagePercent < 0)) {
+    return NextResponse.json(
+      { success: false, error: 'maxSlippagePercent must be zero or a positive number' },
+      { status: 400 }
+    );
+  }
+
+  const offering = await prisma.offering.findUnique({
+    where: { id: offeringId },
+    select: { id: true },
+  });
+
+  if (!offering) {
+    return NextResponse.json(
+      { success: false, error: 'Offering not found' },
+      { status: 404 }
+    );
+  }
+
+  const result = await matchingEngine.executeMarketBuy(buyerId, offeringId, shares, {
+    maxAveragePrice,
+    maxSlippagePercent,
+  });
+
+  if (!result.filled) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: result.reason,
+        code: result.eligibilityCode ?? result.code,
+        violations: result.violations,
+      },
+      { status: result.code === 'TRANSFER_RESTRICTED' || result.code === 'INVESTOR_NOT_ELIGIBLE' ? 403 : 400 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    orderType: 'market',
+    fills: result.fills,
+    summary: {
+      sharesFilled: result.sharesFilled,
+      totalAmount: result.totalAmount,
+      averagePrice: result.averagePrice,
+      referencePrice: result.referencePrice,
+      slippagePercent: result.slippagePercent,
+    },
+    wallet: {
+      balance: result.walletBalance,
+    },
+    message: `Successfully bought ${result.sharesFilled} shares across ${result.fills.length} order${result.fills.length === 1 ? '' : 's'} for ${formatINR(result.totalAmount)} (avg ₹${result.averagePrice.toFixed(2)}/share)`,
+  });
+}
@@ -1,48 +1,63 @@
 import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
-import { writeFile } from "node:fs/promises";
-import { join } from "node:path";
+import { fileStorageService, sniffContentType } from "@/lib/services/storage";
+
+// KYCTab sends kyc_document_front, kyc_document_back and kyc_selfie, and
+// tier upgrade evidence is sent as tier_document; anything else is a
+// profile image
+const KYC_UPLOAD_TYPES = new Set(["kyc_document_front", "kyc_document_back", "kyc_selfie"]);
+const TIER_UPLOAD_TYPE = "tier_document";
+
+// Largest upload accepted for any purpose; per-type limits are enforced by the storage service
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
 
 export async function POST(request: Request) {
   try {
     const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.email) {
+
+    if (!session?.user?.id) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
     const formData = await request.formData();
-    const file = formData.get("file") as File;
+    const file = formData.get("file");
+    const type = formData.get("type");
 
-    if (!file) {
+    if (!(file instanceof File)) {
       return NextResponse.json({ error: "No file uploaded" }, { status: 400 });
     }
 
-    // Validate file type
-    if (!file.type.startsWith("image/")) {
-      return NextResponse.json({ error: "Only image files are allowed" }, { status: 400 });
-    }
-
-    // Validate file size (5MB max)
-    if (file.size > 5 * 1024 * 1024) {
-      return NextResponse.json({ error: "File size must be less than 5MB" }, { status: 400 });
+    if (file.size > MAX_UPLOAD_BYTES) {
+      return NextResponse.json({ error: "File size must be less than 10MB" }, { status: 400 });
     }
 
-    const bytes = await file.arrayBuffer();
-    const buffer = Buffer.from(bytes);
-
-    // Generate unique filename
-    const uniqueSuffix = `${Date.now()}-${Math.round(Math.random() * 1E9)}`;
-    const filename = `${uniqueSuffix}-${file.name.replaceAll(/[^a-zA-Z0-9.-]/g, '')}`;
-    const path = join(process.cwd(), "public/uploads", filename);
+    // Selfies must be photos; ID documents may also be PDFs
+    const purpose = typeof type === "string" && KYC_UPLOAD_TYPES.has(type)
+      ? "KYC_DOCUMENT"
+      : type === TIER_UPLOAD_TYPE ? "TIER_DOCUMENT" : "PROFILE_IMAGE";
+    const buffer = Buffer.from(await file.arrayBuffer());
 
-    // Write file to public/uploads
-    await writeFile(path, buffer);
+    if (type === "kyc_selfie" && sniffContentType(buffer) === "application/pdf") {
+      return NextResponse.json({ error: "Selfie must be an image" }, { status: 400 });
+    }
 
-    const url = `/uploads/${filename}`;
+    let stored;
+    try {
+      stored = await fileStorageService.store(session.user.id, purpose, buffer, file.name);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Invalid file";
+      if (message.startsWith("Unsupported file type") || message.startsWith("File size")) {
+        return NextResponse.json({ error: message }, { status: 400 });
+      }
+      throw error;
+    }
 
-    return NextResponse.json({ url }, { status: 200 });
+    return NextResponse.json({
+      url: fileStorageService.fileUrl(stored),
+      fileId: stored.id,
+      contentType: stored.contentType,
+    }, { status: 200 });
   } catch (error) {
     console.error("Error uploading file:", error);
     return NextResponse.json({ error: "Failed to upload file" }, { status: 500 });
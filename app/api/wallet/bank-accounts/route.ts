@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { fieldEncryptionService } from '@/lib/services/field-encryption';
 import crypto from 'crypto';
 
 // Helper to hash account number
@@ -105,14 +106,20 @@ export async function POST(req: NextRequest) {
 
     // Check for duplicate account
     const accountHash = hashAccountNumber(accountNumber);
-    const existingAccount = await prisma.bankAccount.findFirst({
+    const sameNumber = await prisma.bankAccount.findMany({
       where: {
         walletId: wallet.id,
         accountNumberHash: accountHash,
-        routingNumber,
-      }
+      },
+      select: { routingNumber: true }
     });
 
+    // IFSC codes are stored encrypted, so compare them decrypted
+    const routingNumbers = await Promise.all(
+      sameNumber.map((account) => fieldEncryptionService.decrypt(account.routingNumber))
+    );
+    const existingAccount = routingNumbers.includes(routingNumber);
+
     if (existingAccount) {
       return NextResponse.json({ 
         error: 'This bank account is already linked',
@@ -129,6 +136,7 @@ export async function POST(req: NextRequest) {
     }
 
     // Create bank account
+    const encryptedRoutingNumber = await fieldEncryptionService.encrypt(routingNumber);
     const isFirstAccount = !wallet.bankAccounts || wallet.bankAccounts.length === 0;
     
     const result = await prisma.$transaction(async (tx) => {
@@ -147,7 +155,7 @@ export async function POST(req: NextRequest) {
           accountHolderName: accountHolderName.trim(),
           accountType: accountType || 'SAVING',
           bankName: bankName.trim(),
-          routingNumber,
+          routingNumber: encryptedRoutingNumber,
           accountNumberLast4: accountNumber.slice(-4),
           accountNumberHash: accountHash,
           isDefault: setAsDefault || isFirstAccount,
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { LedgerAccounts, ledgerService } from '@/lib/services/ledger';
+import { formatINR, subtract } from '@/lib/utils/money';
 
 // Demo fund amounts available
 const DEMO_FUND_AMOUNTS = [1000, 5000, 10000, 50000, 100000];
@@ -81,8 +83,8 @@ export async function POST(req: NextRequest) {
       }
 
       // Check max balance limit
-      if (wallet.balance + amount > MAX_DEMO_BALANCE) {
-        throw new Error(`Demo balance cannot exceed ₹${MAX_DEMO_BALANCE.toLocaleString('en-IN')}. Current balance: ₹${wallet.balance.toLocaleString('en-IN')}`);
+      if (wallet.balance.plus(amount).greaterThan(MAX_DEMO_BALANCE)) {
+        throw new Error(`Demo balance cannot exceed ₹${MAX_DEMO_BALANCE.toLocaleString('en-IN')}. Current balance: ${formatINR(wallet.balance)}`);
       }
 
       // Create a demo transaction record
@@ -105,33 +107,29 @@ export async function POST(req: NextRequest) {
         },
       });
 
-      // Update wallet balance
-      const updatedWallet = await tx.wallet.update({
+      // Update wallet totals
+      await tx.wallet.update({
         where: { userId: user.id },
         data: {
-          balance: { increment: amount },
           totalDeposited: { increment: amount },
-          lastActivityAt: new Date(),
         },
       });
 
-      // Create ledger entry
-      await tx.walletLedger.create({
-        data: {
-          walletId: wallet.id,
-          transactionId: transaction.id,
-          entryType: 'DEPOSIT',
-          debit: 0,
-          credit: amount,
-          balance: updatedWallet.balance,
-          description: `Demo funds: +₹${amount.toLocaleString('en-IN')}`,
-          referenceType: 'demo_fund',
-          referenceId: transaction.id,
-          metadata: {
-            isDemoFund: true,
-          },
+      // Demo funds are a platform expense credited to the user
+      const { wallets } = await ledgerService.post(tx, {
+        description: `Demo funds: +₹${amount.toLocaleString('en-IN')}`,
+        referenceType: 'demo_fund',
+        referenceId: transaction.id,
+        transactionId: transaction.id,
+        metadata: {
+          isDemoFund: true,
         },
+        lines: [
+          { account: LedgerAccounts.DEMO_FUNDING, debit: amount },
+          { account: LedgerAccounts.wallet(wallet.id), credit: amount, entryType: 'DEPOSIT' },
+        ],
       });
+      const updatedWallet = wallets[wallet.id];
 
       return {
         wallet: updatedWallet,
@@ -200,13 +198,13 @@ export async function GET(req: NextRequest) {
       },
     });
 
-    const currentBalance = user?.wallet?.balance || 0;
-    const remainingCapacity = MAX_DEMO_BALANCE - currentBalance;
+    const currentBalance = user?.wallet?.balance ?? 0;
+    const remainingCapacity = subtract(MAX_DEMO_BALANCE, currentBalance);
 
     return NextResponse.json({
       success: true,
       enabled: true,
-      availableAmounts: DEMO_FUND_AMOUNTS.filter(amt => amt <= remainingCapacity),
+      availableAmounts: DEMO_FUND_AMOUNTS.filter(amt => remainingCapacity.greaterThanOrEqualTo(amt)),
       maxBalance: MAX_DEMO_BALANCE,
       currentBalance,
       remainingCapacity,
@@ -3,6 +3,8 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { PaymentService } from '@/lib/services/payment';
+import { investorTierService } from '@/lib/services/investor-tiers';
+import { multiply } from '@/lib/utils/money';
 
 const paymentService = new PaymentService();
 
@@ -28,6 +30,28 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Invalid investment parameters' }, { status: 400 });
     }
 
+    const offering = await prisma.offering.findUnique({
+      where: { id: offeringId },
+      select: { pricePerShare: true },
+    });
+
+    if (!offering) {
+      return NextResponse.json({ error: 'Offering not found' }, { status: 404 });
+    }
+
+    // Check KYC status and investment limits for the investor's tier
+    const eligibility = await investorTierService.checkEligibility(
+      user.id,
+      multiply(offering.pricePerShare, shares)
+    );
+
+    if (!eligibility.eligible) {
+      return NextResponse.json(
+        { error: eligibility.reason, code: eligibility.code },
+        { status: 403 }
+      );
+    }
+
     const investment = await paymentService.createInvestmentFromWallet(
       user.id,
       offeringId,
@@ -3,6 +3,8 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { headers } from 'next/headers';
+import { LedgerAccounts, ledgerService } from '@/lib/services/ledger';
+import { money, percentOf, subtract } from '@/lib/utils/money';
 
 // Withdrawal processing fee
 const WITHDRAWAL_FEE_PERCENT = 1.5;
@@ -45,14 +47,16 @@ export async function POST(req: NextRequest) {
       }, { status: 403 });
     }
 
-    const { amount, bankAccountId } = await req.json();
+    const { amount: requestedAmount, bankAccountId } = await req.json();
 
     // Validate amount
-    if (!amount || typeof amount !== 'number') {
+    if (!requestedAmount || typeof requestedAmount !== 'number') {
       return NextResponse.json({ error: 'Invalid amount' }, { status: 400 });
     }
 
-    if (amount < MIN_WITHDRAWAL) {
+    const amount = money(requestedAmount);
+
+    if (amount.lessThan(MIN_WITHDRAWAL)) {
       return NextResponse.json({ 
         error: `Minimum withdrawal is ₹${MIN_WITHDRAWAL.toLocaleString('en-IN')}`,
         code: 'MIN_AMOUNT'
@@ -64,8 +68,9 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Wallet not found' }, { status: 404 });
     }
 
-    const availableBalance = user.wallet.balance - user.wallet.lockedBalance;
-    if (availableBalance < amount) {
+    // Locked funds have already left the balance
+    const availableBalance = user.wallet.balance;
+    if (availableBalance.lessThan(amount)) {
       return NextResponse.json({ 
         error: 'Insufficient available balance',
         code: 'INSUFFICIENT_BALANCE',
@@ -90,8 +95,8 @@ export async function POST(req: NextRequest) {
     }
 
     // Calculate fee
-    const fee = Math.round(amount * WITHDRAWAL_FEE_PERCENT) / 100;
-    const netAmount = amount - fee;
+    const fee = percentOf(amount, WITHDRAWAL_FEE_PERCENT);
+    const netAmount = subtract(amount, fee);
 
     // Check for pending withdrawals (prevent duplicate requests)
     const pendingWithdrawal = await prisma.withdrawal.findFirst({
@@ -110,16 +115,6 @@ export async function POST(req: NextRequest) {
 
     // Create withdrawal with transaction
     const result = await prisma.$transaction(async (tx) => {
-      // Lock the funds
-      const updatedWallet = await tx.wallet.update({
-        where: { id: user.wallet!.id },
-        data: {
-          balance: { decrement: amount },
-          lockedBalance: { increment: amount },
-          lastActivityAt: new Date()
-        }
-      });
-
       // Create withdrawal record
       const withdrawal = await tx.withdrawal.create({
         data: {
@@ -154,20 +149,18 @@ export async function POST(req: NextRequest) {
         }
       });
 
-      // Create ledger entry for lock
-      await tx.walletLedger.create({
-        data: {
-          walletId: user.wallet!.id,
-          transactionId: transaction.id,
-          entryType: 'LOCK',
-          debit: amount,
-          credit: 0,
-          balance: updatedWallet.balance,
-          description: `Funds locked for withdrawal #${withdrawal.id.slice(-8)}`,
-          referenceType: 'withdrawal',
-          referenceId: withdrawal.id
-        }
+      // Lock the funds
+      const { wallets } = await ledgerService.post(tx, {
+        description: `Funds locked for withdrawal #${withdrawal.id.slice(-8)}`,
+        referenceType: 'withdrawal',
+        referenceId: withdrawal.id,
+        transactionId: transaction.id,
+        lines: [
+          { account: LedgerAccounts.wallet(user.wallet!.id), debit: amount, entryType: 'LOCK' },
+          { account: LedgerAccounts.walletLocked(user.wallet!.id), credit: amount }
+        ]
       });
+      const updatedWallet = wallets[user.wallet!.id];
 
       return { withdrawal, transaction, wallet: updatedWallet };
     });
@@ -185,7 +178,7 @@ export async function POST(req: NextRequest) {
       wallet: {
         balance: result.wallet.balance,
         lockedBalance: result.wallet.lockedBalance,
-        availableBalance: result.wallet.balance - result.wallet.lockedBalance
+        availableBalance: result.wallet.balance
       }
     });
   } catch (error) {
@@ -306,16 +299,6 @@ export async function DELETE(req: NextRequest) {
         data: { status: 'CANCELLED' }
       });
 
-      // Unlock funds
-      const updatedWallet = await tx.wallet.update({
-        where: { id: user.wallet!.id },
-        data: {
-          balance: { increment: withdrawal.amount },
-          lockedBalance: { decrement: withdrawal.amount },
-          lastActivityAt: new Date()
-        }
-      });
-
       // Update transaction
       await tx.transaction.updateMany({
         where: {
@@ -325,19 +308,17 @@ export async function DELETE(req: NextRequest) {
         data: { status: 'CANCELLED' }
       });
 
-      // Create ledger entry for unlock
-      await tx.walletLedger.create({
-        data: {
-          walletId: user.wallet!.id,
-          entryType: 'UNLOCK',
-          debit: 0,
-          credit: withdrawal.amount,
-          balance: updatedWallet.balance,
-          description: `Funds unlocked - withdrawal cancelled #${withdrawalId.slice(-8)}`,
-          referenceType: 'withdrawal',
-          referenceId: withdrawalId
-        }
+      // Unlock funds
+      const { wallets } = await ledgerService.post(tx, {
+        description: `Funds unlocked - withdrawal cancelled #${withdrawalId.slice(-8)}`,
+        referenceType: 'withdrawal',
+        referenceId: withdrawalId,
+        lines: [
+          { account: LedgerAccounts.walletLocked(user.wallet!.id), debit: withdrawal.amount },
+          { account: LedgerAccounts.wallet(user.wallet!.id), credit: withdrawal.amount, entryType: 'UNLOCK' }
+        ]
       });
+      const updatedWallet = wallets[user.wallet!.id];
 
       return { withdrawal: updatedWithdrawal, wallet: updatedWallet };
     });
@@ -348,7 +329,7 @@ export async function DELETE(req: NextRequest) {
       wallet: {
         balance: result.wallet.balance,
         lockedBalance: result.wallet.lockedBalance,
-        availableBalance: result.wallet.balance - result.wallet.lockedBalance
+        availableBalance: result.wallet.balance
       }
     });
   } catch (error) {
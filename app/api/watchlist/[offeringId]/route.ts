@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { priceAlertService } from '@/lib/services/price-alerts';
+
+// DELETE - Stop watching an offering; its active alerts are cancelled
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { offeringId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    await priceAlertService.removeFromWatchlist(session.user.id, params.offeringId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Watchlist remove error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to remove from watchlist' },
+      { status: 500 }
+    );
+  }
+}
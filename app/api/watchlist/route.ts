@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { priceAlertService } from '@/lib/services/price-alerts';
+
+// GET - Watched offerings with live ticker and active alerts
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const items = await priceAlertService.getWatchlist(session.user.id);
+
+    return NextResponse.json({ success: true, items });
+  } catch (error) {
+    console.error('Watchlist fetch error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch watchlist' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Add an offering to the watchlist: { offeringId }
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { offeringId } = await request.json();
+
+    if (typeof offeringId !== 'string' || !offeringId) {
+      return NextResponse.json(
+        { success: false, error: 'offeringId is required' },
+        { status: 400 }
+      );
+    }
+
+    const item = await priceAlertService.addToWatchlist(session.user.id, offeringId);
+
+    return NextResponse.json({ success: true, item });
+  } catch (error: unknown) {
+    console.error('Watchlist add error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to add to watchlist';
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { KYCService } from '@/lib/services/kyc';
+import { getKYCProvider } from '@/lib/services/kyc-providers';
+
+const provider = getKYCProvider();
+const kycService = new KYCService(provider);
+
+// POST - Verification result callback from the configured KYC provider
+export async function POST(
+  req: Request,
+  { params }: { params: { provider: string } }
+) {
+  if (params.provider !== provider.name) {
+    return NextResponse.json(
+      { error: `KYC provider ${params.provider} is not enabled` },
+      { status: 404 }
+    );
+  }
+
+  const body = await req.text();
+
+  try {
+    const verification = await kycService.handleProviderWebhook(body, req.headers);
+    console.log('KYC webhook processed:', verification.id, verification.status);
+    return NextResponse.json({ received: true, status: verification.status });
+  } catch (error: unknown) {
+    console.error('KYC webhook error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to process webhook';
+    return NextResponse.json(
+      { error: `Webhook Error: ${errorMessage}` },
+      { status: 400 }
+    );
+  }
+}
@@ -1,17 +1,378 @@
 'use client';
 
-import { useRouter } from 'next/navigation';
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { RevenueSourcePicker } from '@/components/dex';
+import { AlertCircle, CheckCircle, Clock, History, Loader2, MessageSquare, XCircle } from 'lucide-react';
 
+type ReviewDecision = 'APPROVED' | 'CHANGES_REQUESTED' | 'REJECTED';
+
+interface OfferingForm {
+  title: string;
+  description: string;
+  sharePercentage: number;
+  totalShares: number;
+  pricePerShare: number;
+  minInvestment: number;
+  maxInvestment: number;
+  duration: number;
+  buybackPricePerShare: number; // 0 = no buyback at maturity
+  returnCapMultiple: number; // 0 = no cap
+  minimumMonthlyPayment: number; // 0 = no floor
+  revenueSources: string[];
+}
+
+interface ReviewComment {
+  id: string;
+  field: string;
+  comment: string;
+  createdAt: string;
+}
+
+interface Revision {
+  id: string;
+  version: number;
+  submittedAt: string;
+  decision: ReviewDecision | null;
+  summary: string | null;
+  reviewedAt: string | null;
+  comments: ReviewComment[];
+  changedFields: string[];
+}
+
+interface OfferingDetails extends Record<Exclude<keyof OfferingForm, 'revenueSources'>, string | number | null> {
+  id: string;
+  revenueSources: string[];
+  status: string;
+  channel: { channelName: string };
+}
+
+const FIELD_LABELS: Record<keyof OfferingForm, string> = {
+  title: 'Offering Title',
+  description: 'Description',
+  sharePercentage: 'Revenue Share Percentage (1-50%)',
+  totalShares: 'Total Shares',
+  pricePerShare: 'Price per Share (₹)',
+  minInvestment: 'Minimum Investment (₹)',
+  maxInvestment: 'Maximum Investment (₹)',
+  duration: 'Duration (months)',
+  buybackPricePerShare: 'Buyback Price per Share (₹, 0 for none)',
+  returnCapMultiple: 'Return Cap (multiple of capital raised, 0 for none)',
+  minimumMonthlyPayment: 'Minimum Monthly Payment (₹, 0 for none)',
+  revenueSources: 'Revenue Sources',
+};
+
+const NUMBER_FIELDS: Array<keyof OfferingForm> = [
+  'sharePercentage',
+  'duration',
+  'totalShares',
+  'pricePerShare',
+  'minInvestment',
+  'maxInvestment',
+  'buybackPricePerShare',
+  'returnCapMultiple',
+  'minimumMonthlyPayment',
+];
+
+const DECISION_BADGES: Record<ReviewDecision, { label: string; className: string }> = {
+  APPROVED: { label: 'Approved', className: 'bg-green-600/20 text-green-400' },
+  CHANGES_REQUESTED: { label: 'Changes requested', className: 'bg-yellow-600/20 text-yellow-400' },
+  REJECTED: { label: 'Rejected', className: 'bg-red-600/20 text-red-400' },
+};
+
+const inputClassName = 'w-full px-4 py-2 bg-zinc-900 border border-zinc-800 rounded-lg text-white focus:border-red-600 focus:outline-none disabled:opacity-60';
+
+function toForm(offering: OfferingDetails): OfferingForm {
+  return {
+    title: String(offering.title),
+    description: String(offering.description),
+    sharePercentage: Number(offering.sharePercentage),
+    totalShares: Number(offering.totalShares),
+    pricePerShare: Number(offering.pricePerShare),
+    minInvestment: Number(offering.minInvestment),
+    maxInvestment: Number(offering.maxInvestment ?? 0),
+    duration: Number(offering.duration),
+    buybackPricePerShare: Number(offering.buybackPricePerShare ?? 0),
+    returnCapMultiple: Number(offering.returnCapMultiple ?? 0),
+    minimumMonthlyPayment: Number(offering.minimumMonthlyPayment ?? 0),
+    revenueSources: offering.revenueSources,
+  };
+}
+
+/**
+ * Revise an offering a reviewer sent back and resubmit it. New offerings
+ * are created through creator onboarding.
+ */
 export default function NewOfferingPage() {
   const router = useRouter();
-  
-  // Redirect to onboarding page which handles offering creation
-  router.push('/creator/onboard');
-  
+  const searchParams = useSearchParams();
+  const offeringId = searchParams.get('id');
+
+  const [offering, setOffering] = useState<OfferingDetails | null>(null);
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [form, setForm] = useState<OfferingForm | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const fetchOffering = useCallback(async () => {
+    if (!offeringId) return;
+    try {
+      const response = await fetch(`/api/creator/offering/${offeringId}`);
+      const data = await response.json();
+      if (data.success) {
+        setOffering(data.offering);
+        setRevisions(data.revisions);
+        setForm(toForm(data.offering));
+      } else {
+        setError(data.error || 'Failed to load offering');
+      }
+    } catch (err) {
+      console.error('Offering fetch error:', err);
+      setError('Failed to load offering');
+    } finally {
+      setLoading(false);
+    }
+  }, [offeringId]);
+
+  useEffect(() => {
+    if (!offeringId) {
+      // Redirect to onboarding page which handles offering creation
+      router.push('/creator/onboard');
+      return;
+    }
+    fetchOffering();
+  }, [offeringId, fetchOffering, router]);
+
+  const handleResubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    setSubmitting(true);
+    setError('');
+    setMessage('');
+    try {
+      const response = await fetch(`/api/creator/offering/${offeringId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...form,
+          maxInvestment: form.maxInvestment || null,
+          buybackPricePerShare: form.buybackPricePerShare || null,
+          returnCapMultiple: form.returnCapMultiple || null,
+          minimumMonthlyPayment: form.minimumMonthlyPayment || null,
+        }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        setMessage(data.message);
+        await fetchOffering();
+      } else {
+        setError(data.error || 'Failed to resubmit offering');
+      }
+    } catch (err) {
+      console.error('Offering resubmit error:', err);
+      setError('Failed to resubmit offering');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!offeringId || loading) {
+    return (
+      <div className="min-h-screen bg-zinc-950 py-16 px-4">
+        <div className="max-w-7xl mx-auto text-center">
+          {offeringId ? (
+            <Loader2 className="h-8 w-8 animate-spin text-red-600 mx-auto" />
+          ) : (
+            <p className="text-gray-400">Redirecting to onboarding...</p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const latest = revisions[revisions.length - 1];
+  const editable = offering?.status === 'CHANGES_REQUESTED' || offering?.status === 'DRAFT';
+  const commentsFor = (field: string) =>
+    latest?.decision === 'CHANGES_REQUESTED' ? latest.comments.filter((c) => c.field === field) : [];
+
+  const renderComments = (field: string) => commentsFor(field).map((c) => (
+    <div key={c.id} className="mt-2 flex items-start gap-2 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-sm text-yellow-300">
+      <MessageSquare className="h-4 w-4 mt-0.5 shrink-0" />
+      <span>{c.comment}</span>
+    </div>
+  ));
+
   return (
-    <div className="min-h-screen bg-zinc-950 py-16 px-4">
-      <div className="max-w-7xl mx-auto text-center">
-        <p className="text-gray-400">Redirecting to onboarding...</p>
+    <div className="min-h-screen bg-zinc-950 pt-24 pb-16 px-4">
+      <div className="max-w-4xl mx-auto space-y-8">
+        {offering && form && (
+          <div className="youtube-card">
+            <div className="p-8 border-b border-zinc-800">
+              <h2 className="text-2xl font-bold text-white">Revise Offering</h2>
+              <p className="text-gray-400 text-lg mt-2">{offering.channel.channelName}</p>
+            </div>
+
+            <form onSubmit={handleResubmit} className="p-8 space-y-6">
+              {offering.status === 'PENDING_APPROVAL' && (
+                <div className="flex items-center gap-2 p-4 bg-blue-500/10 border border-blue-500/30 rounded-lg text-blue-300">
+                  <Clock className="h-5 w-5" />
+                  Revision {latest?.version} is awaiting admin review.
+                </div>
+              )}
+              {offering.status === 'CLOSED' && latest?.decision === 'REJECTED' && (
+                <div className="flex items-start gap-2 p-4 bg-red-500/10 border border-red-500/30 rounded-lg text-red-300">
+                  <XCircle className="h-5 w-5 shrink-0" />
+                  This offering was rejected{latest.summary ? `: ${latest.summary}` : '.'}
+                </div>
+              )}
+              {['ACTIVE', 'FUNDED'].includes(offering.status) && (
+                <div className="flex items-center gap-2 p-4 bg-green-500/10 border border-green-500/30 rounded-lg text-green-300">
+                  <CheckCircle className="h-5 w-5" />
+                  This offering has been approved and is live.
+                </div>
+              )}
+              {offering.status === 'CHANGES_REQUESTED' && (
+                <div className="p-4 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-yellow-300">
+                  <p className="font-semibold">A reviewer asked for changes</p>
+                  {latest?.summary && <p className="text-sm mt-1">{latest.summary}</p>}
+                  {renderComments('general')}
+                </div>
+              )}
+
+              {error && (
+                <div className="flex items-center gap-2 p-4 bg-red-500/10 border border-red-500/50 rounded-lg text-red-400">
+                  <AlertCircle className="h-5 w-5" />
+                  {error}
+                </div>
+              )}
+              {message && (
+                <div className="flex items-center gap-2 p-4 bg-green-500/10 border border-green-500/50 rounded-lg text-green-400">
+                  <CheckCircle className="h-5 w-5" />
+                  {message}
+                </div>
+              )}
+
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">{FIELD_LABELS.title} *</label>
+                  <input
+                    type="text"
+                    required
+                    disabled={!editable}
+                    value={form.title}
+                    onChange={(e) => setForm({ ...form, title: e.target.value })}
+                    className={inputClassName}
+                  />
+                  {renderComments('title')}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">{FIELD_LABELS.description} *</label>
+                  <textarea
+                    required
+                    disabled={!editable}
+                    value={form.description}
+                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                    rows={4}
+                    className={inputClassName}
+                  />
+                  {renderComments('description')}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {NUMBER_FIELDS.map((field) => (
+                  <div key={field}>
+                    <label className="block text-sm font-medium text-gray-300 mb-2">{FIELD_LABELS[field]}</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="any"
+                      disabled={!editable}
+                      value={form[field]}
+                      onChange={(e) => setForm({ ...form, [field]: Number(e.target.value) })}
+                      className={inputClassName}
+                    />
+                    {renderComments(field)}
+                  </div>
+                ))}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">{FIELD_LABELS.revenueSources} *</label>
+                <RevenueSourcePicker
+                  value={form.revenueSources}
+                  onChange={(revenueSources) => setForm({ ...form, revenueSources })}
+                  disabled={!editable}
+                />
+                {renderComments('revenueSources')}
+              </div>
+
+              {editable && (
+                <Button type="submit" disabled={submitting} className="youtube-button w-full text-lg py-6">
+                  {submitting ? (
+                    <>
+                      <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                      Resubmitting...
+                    </>
+                  ) : (
+                    'Resubmit for Approval'
+                  )}
+                </Button>
+              )}
+            </form>
+          </div>
+        )}
+
+        {revisions.length > 0 && (
+          <div className="youtube-card p-8">
+            <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
+              <History className="h-5 w-5 text-red-600" />
+              Review History
+            </h3>
+            <div className="space-y-4">
+              {[...revisions].reverse().map((revision) => (
+                <div key={revision.id} className="bg-zinc-900 border border-zinc-800 rounded-lg p-4">
+                  <div className="flex items-center justify-between">
+                    <span className="font-semibold text-white">Revision {revision.version}</span>
+                    {revision.decision ? (
+                      <Badge className={DECISION_BADGES[revision.decision].className}>
+                        {DECISION_BADGES[revision.decision].label}
+                      </Badge>
+                    ) : (
+                      <Badge className="bg-blue-600/20 text-blue-400">Awaiting review</Badge>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-500 mt-1">
+                    Submitted {new Date(revision.submittedAt).toLocaleString('en-IN')}
+                  </p>
+                  {revision.changedFields.length > 0 && (
+                    <p className="text-sm text-gray-400 mt-2">
+                      Changed: {revision.changedFields.map((field) => FIELD_LABELS[field as keyof OfferingForm] ?? field).join(', ')}
+                    </p>
+                  )}
+                  {revision.summary && <p className="text-sm text-gray-300 mt-2">{revision.summary}</p>}
+                  {revision.comments.length > 0 && (
+                    <ul className="mt-2 space-y-1 text-sm text-gray-400">
+                      {revision.comments.map((c) => (
+                        <li key={c.id}>
+                          <span className="text-gray-300">
+                            {c.field === 'general' ? 'General' : FIELD_LABELS[c.field as keyof OfferingForm] ?? c.field}:
+                          </span>{' '}
+                          {c.comment}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
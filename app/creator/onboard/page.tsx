@@ -5,6 +5,7 @@ import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { RevenueSourcePicker, REVENUE_SOURCE_LABELS } from '@/components/dex';
 import { CheckCircle, Video, IndianRupee, Users, Shield, AlertCircle, Loader2 } from 'lucide-react';
 
 interface StepData {
@@ -32,6 +33,7 @@ export default function CreatorOnboardPage() {
     offeringCreated: false,
   });
   const [channelData, setChannelData] = useState<ChannelData | null>(null);
+  const [latestOffering, setLatestOffering] = useState<{ id: string; status: string } | null>(null);
   const [kycData, setKycData] = useState({
     firstName: '',
     lastName: '',
@@ -57,6 +59,10 @@ export default function CreatorOnboardPage() {
     minInvestment: 100,
     maxInvestment: 5000,
     duration: 24,
+    buybackPricePerShare: 0, // 0 = no buyback at maturity
+    returnCapMultiple: 0, // 0 = no cap
+    minimumMonthlyPayment: 0, // 0 = no floor
+    revenueSources: ['YOUTUBE_ADSENSE', 'YOUTUBE_PREMIUM'],
   });
 
   // Check existing progress on mount
@@ -125,6 +131,10 @@ export default function CreatorOnboardPage() {
         setChannelData(channelResult.channels[0]);
       }
 
+      if (progress.offeringCreated) {
+        setLatestOffering(offeringResult.offerings[0]);
+      }
+
       // Determine current step
       if (!progress.kycCompleted) {
         setCurrentStep(1);
@@ -229,12 +239,21 @@ export default function CreatorOnboardPage() {
       return;
     }
 
+    if (offeringData.revenueSources.length === 0) {
+      setError('Choose at least one revenue source');
+      setLoading(false);
+      return;
+    }
+
     try {
       const response = await fetch('/api/creator/offering', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           ...offeringData,
+          buybackPricePerShare: offeringData.buybackPricePerShare || null,
+          returnCapMultiple: offeringData.returnCapMultiple || null,
+          minimumMonthlyPayment: offeringData.minimumMonthlyPayment || null,
           channelId: channelData.id,
         }),
       });
@@ -689,7 +708,7 @@ export default function CreatorOnboardPage() {
                     className="w-full px-4 py-2 bg-zinc-900 border border-zinc-800 rounded-lg text-white focus:border-red-600 focus:outline-none"
                   />
                   <p className="text-sm text-gray-500 mt-1">
-                    Percentage of YouTube revenue to share with investors
+                    Percentage of the revenue sources below to share with investors
                   </p>
                 </div>
                 <div>
@@ -747,6 +766,52 @@ export default function CreatorOnboardPage() {
                     className="w-full px-4 py-2 bg-zinc-900 border border-zinc-800 rounded-lg text-white focus:border-red-600 focus:outline-none"
                   />
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Buyback Price Per Share (₹)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={offeringData.buybackPricePerShare}
+                    onChange={(e) => setOfferingData({ ...offeringData, buybackPricePerShare: Number(e.target.value) })}
+                    className="w-full px-4 py-2 bg-zinc-900 border border-zinc-800 rounded-lg text-white focus:border-red-600 focus:outline-none"
+                  />
+                  <p className="text-sm text-gray-500 mt-1">Optional. You buy investors&apos; shares back at this price when the term ends</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Return Cap (multiple of capital raised)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="10"
+                    step="0.05"
+                    value={offeringData.returnCapMultiple}
+                    onChange={(e) => setOfferingData({ ...offeringData, returnCapMultiple: Number(e.target.value) })}
+                    className="w-full px-4 py-2 bg-zinc-900 border border-zinc-800 rounded-lg text-white focus:border-red-600 focus:outline-none"
+                  />
+                  <p className="text-sm text-gray-500 mt-1">Optional, e.g. 1.5. Payments stop and the term ends once investors have received this multiple</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Minimum Monthly Payment (₹)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={offeringData.minimumMonthlyPayment}
+                    onChange={(e) => setOfferingData({ ...offeringData, minimumMonthlyPayment: Number(e.target.value) })}
+                    className="w-full px-4 py-2 bg-zinc-900 border border-zinc-800 rounded-lg text-white focus:border-red-600 focus:outline-none"
+                  />
+                  <p className="text-sm text-gray-500 mt-1">Optional. If a month pays investors less, you top it up from your wallet (scaled to the shares sold)</p>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Revenue Sources *</label>
+                <RevenueSourcePicker
+                  value={offeringData.revenueSources}
+                  onChange={(revenueSources) => setOfferingData({ ...offeringData, revenueSources })}
+                />
+                <p className="text-sm text-gray-500 mt-1">
+                  Investors share only in these sources. Your offerings together can promise at most 100% of each source.
+                </p>
               </div>
 
               <div className="bg-blue-950/20 border border-blue-600/50 rounded-lg p-6">
@@ -758,6 +823,24 @@ export default function CreatorOnboardPage() {
                   <p>Revenue Share: <span className="font-semibold text-white">
                     {offeringData.sharePercentage}% for {offeringData.duration} months
                   </span></p>
+                  <p>Covers: <span className="font-semibold text-white">
+                    {offeringData.revenueSources.map((source) => REVENUE_SOURCE_LABELS[source]).join(', ') || 'None'}
+                  </span></p>
+                  {offeringData.returnCapMultiple > 0 && (
+                    <p>Return Cap: <span className="font-semibold text-white">
+                      {offeringData.returnCapMultiple}x capital raised
+                    </span></p>
+                  )}
+                  {offeringData.minimumMonthlyPayment > 0 && (
+                    <p>Minimum Monthly Payment: <span className="font-semibold text-white">
+                      ₹{offeringData.minimumMonthlyPayment.toLocaleString('en-IN')}
+                    </span></p>
+                  )}
+                  {offeringData.buybackPricePerShare > 0 && (
+                    <p>Buyback at Maturity: <span className="font-semibold text-white">
+                      ₹{offeringData.buybackPricePerShare.toLocaleString('en-IN')}/share
+                    </span></p>
+                  )}
                   <p>Investment Range: <span className="font-semibold text-white">
                     ₹{offeringData.minInvestment.toLocaleString('en-IN')} - ₹{offeringData.maxInvestment.toLocaleString('en-IN')}
                   </span></p>
@@ -795,11 +878,26 @@ export default function CreatorOnboardPage() {
                 <CheckCircle className="h-10 w-10 text-green-400" />
               </div>
               <h2 className="text-3xl font-bold text-white">Onboarding Complete!</h2>
-              <p className="text-xl text-gray-400 max-w-2xl mx-auto">
-                Your offering has been submitted and is pending admin approval. 
-                You'll receive an email once it's approved and live on the marketplace.
-              </p>
+              {latestOffering?.status === 'CHANGES_REQUESTED' ? (
+                <p className="text-xl text-yellow-400 max-w-2xl mx-auto">
+                  A reviewer has asked for changes to your offering.
+                  Revise it and resubmit it for approval.
+                </p>
+              ) : (
+                <p className="text-xl text-gray-400 max-w-2xl mx-auto">
+                  Your offering has been submitted and is pending admin approval. 
+                  You'll receive an email once it's approved and live on the marketplace.
+                </p>
+              )}
               <div className="flex gap-4 justify-center pt-6">
+                {latestOffering?.status === 'CHANGES_REQUESTED' && (
+                  <Button
+                    onClick={() => router.push(`/creator/offering/new?id=${latestOffering.id}`)}
+                    className="youtube-button text-lg px-8 py-6"
+                  >
+                    Revise Offering
+                  </Button>
+                )}
                 <Button 
                   onClick={() => router.push('/dashboard/creator')}
                   className="youtube-button text-lg px-8 py-6"
@@ -1,16 +1,17 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { useSession } from 'next-auth/react';
+import { signIn, useSession } from 'next-auth/react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Youtube, IndianRupee, Users, TrendingUp, Plus, BarChart3, Video } from 'lucide-react';
+import { Youtube, IndianRupee, Users, TrendingUp, Plus, BarChart3, Video, KeyRound } from 'lucide-react';
 import Link from 'next/link';
 
 export default function CreatorDashboard() {
   const { data: session } = useSession();
   const [channels, setChannels] = useState<any[]>([]);
   const [offerings, setOfferings] = useState<any[]>([]);
+  const [revenueAccess, setRevenueAccess] = useState<{ required: boolean; granted: boolean; scope: string } | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -19,16 +20,19 @@ export default function CreatorDashboard() {
 
   const fetchData = async () => {
     try {
-      const [channelsRes, offeringsRes] = await Promise.all([
+      const [channelsRes, offeringsRes, accessRes] = await Promise.all([
         fetch('/api/creator/channel'),
         fetch('/api/creator/offering'),
+        fetch('/api/creator/revenue/access'),
       ]);
 
       const channelsData = await channelsRes.json();
       const offeringsData = await offeringsRes.json();
+      const accessData = await accessRes.json();
 
       if (channelsData.success) setChannels(channelsData.channels);
       if (offeringsData.success) setOfferings(offeringsData.offerings);
+      if (accessData.success) setRevenueAccess(accessData.access);
     } catch (error) {
       console.error('Failed to fetch data:', error);
     } finally {
@@ -36,6 +40,17 @@ export default function CreatorDashboard() {
     }
   };
 
+  // Sign in with Google again, adding read access to YouTube revenue
+  const grantRevenueAccess = () => {
+    if (!revenueAccess) return;
+    signIn('google', { callbackUrl: '/dashboard/creator' }, {
+      scope: revenueAccess.scope,
+      prompt: 'consent',
+      access_type: 'offline',
+      include_granted_scopes: 'true',
+    });
+  };
+
   const calculateTotalRaised = () => {
     return offerings.reduce((sum, offering) => {
       const soldShares = offering.totalShares - offering.availableShares;
@@ -112,6 +127,25 @@ export default function CreatorDashboard() {
           </div>
         </div>
 
+        {/* Revenue Access */}
+        {channels.length > 0 && revenueAccess?.required && !revenueAccess.granted && (
+          <div className="youtube-card p-6 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div className="flex items-start gap-4">
+              <KeyRound className="h-6 w-6 text-yellow-400 mt-1" />
+              <div>
+                <h2 className="text-lg font-semibold text-white">Grant YouTube revenue access</h2>
+                <p className="text-gray-400 text-sm">
+                  Your channel revenue is read from YouTube Analytics and deposited into your offerings&apos; escrow.
+                  Allow read-only access to your revenue reports so it can be pulled each month.
+                </p>
+              </div>
+            </div>
+            <Button className="youtube-button" onClick={grantRevenueAccess}>
+              Grant Access
+            </Button>
+          </div>
+        )}
+
         {/* Channels Section */}
         <div className="youtube-card p-6">
           <div className="flex items-center justify-between mb-6">
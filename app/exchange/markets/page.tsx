@@ -34,6 +34,7 @@ interface MarketData {
   totalShares: number;
   sharePercentage: number;
   analytics?: any;
+  chartData: { time: number; value: number }[];
 }
 
 export default function MarketsOverviewPage() {
@@ -100,21 +101,6 @@ export default function MarketsOverviewPage() {
     }
   };
 
-  // Generate mini chart data for each market
-  const generateChartData = (basePrice: number, positive: boolean) => {
-    const data = [];
-    let price = basePrice * 0.95;
-    for (let i = 0; i < 24; i++) {
-      const change = (Math.random() - (positive ? 0.4 : 0.6)) * 0.02;
-      price = price * (1 + change);
-      data.push({
-        time: Date.now() - (24 - i) * 3600000,
-        value: price,
-      });
-    }
-    return data;
-  };
-
   const filteredAndSortedMarkets = useMemo(() => {
     let filtered = markets.filter(market => {
       const matchesSearch = market.channelName.toLowerCase().includes(searchQuery.toLowerCase());
@@ -420,7 +406,7 @@ export default function MarketsOverviewPage() {
                     <td className="p-4 text-center hidden md:table-cell">
                       <div className="inline-block">
                         <MiniChart
-                          data={generateChartData(market.price, market.priceChangePercent >= 0)}
+                          data={market.chartData}
                           width={80}
                           height={32}
                           positive={market.priceChangePercent >= 0}
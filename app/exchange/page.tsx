@@ -29,7 +29,9 @@ import {
   OrderBook, 
   TradingPanel, 
   RecentTrades,
-  MarketDepth 
+  MarketDepth,
+  Watchlist,
+  useMarketStream
 } from '@/components/exchange';
 import { Time } from 'lightweight-charts';
 
@@ -65,15 +67,11 @@ interface SellOrder {
   };
 }
 
-interface Trade {
-  id: string;
+interface OrderBookLevel {
+  price: number;
   shares: number;
-  pricePerShare: number;
-  totalAmount: number;
-  status: string;
-  createdAt: string;
-  buyerId: string;
-  sellerId: string;
+  total: number;
+  orders: string[];
 }
 
 interface WalletData {
@@ -109,7 +107,6 @@ export default function ExchangePage() {
     searchParams.get('symbol') || null
   );
   const [sellOrders, setSellOrders] = useState<SellOrder[]>([]);
-  const [recentTrades, setRecentTrades] = useState<Trade[]>([]);
   const [wallet, setWallet] = useState<WalletData | null>(null);
   const [investments, setInvestments] = useState<Investment[]>([]);
   const [loading, setLoading] = useState(true);
@@ -122,6 +119,12 @@ export default function ExchangePage() {
   const [searchQuery, setSearchQuery] = useState('');
   const [showMarketList, setShowMarketList] = useState(false);
   const [favorites, setFavorites] = useState<string[]>([]);
+  const [watchlistVersion, setWatchlistVersion] = useState(0);
+  const [chartData, setChartData] = useState<ChartDataPoint[]>([]);
+  const [chartLoadedAt, setChartLoadedAt] = useState<number | null>(null);
+
+  // Live order book, trade prints and ticker for the selected offering
+  const { orderBook, trades: recentTrades, ticker, connected, reconnect } = useMarketStream(selectedOfferingId);
 
   // Fetch offerings
   const fetchOfferings = useCallback(async () => {
@@ -152,16 +155,17 @@ export default function ExchangePage() {
     }
   }, []);
 
-  // Fetch recent trades
-  const fetchRecentTrades = useCallback(async (offeringId: string) => {
+  // Fetch OHLCV candles for the chart
+  const fetchPriceHistory = useCallback(async (offeringId: string, tf: string) => {
     try {
-      const response = await fetch(`/api/trading/trades?offeringId=${offeringId}&market=true`);
+      const response = await fetch(`/api/exchange/price-history?offeringId=${offeringId}&timeframe=${tf}`);
       const data = await response.json();
       if (data.success) {
-        setRecentTrades(data.trades);
+        setChartData(data.priceHistory);
+        setChartLoadedAt(Date.now());
       }
     } catch (error) {
-      console.error('Failed to fetch trades:', error);
+      console.error('Failed to fetch price history:', error);
     }
   }, []);
 
@@ -206,12 +210,20 @@ export default function ExchangePage() {
   useEffect(() => {
     if (selectedOfferingId) {
       fetchSellOrders(selectedOfferingId);
-      fetchRecentTrades(selectedOfferingId);
       
       // Update URL
       router.replace(`/exchange?symbol=${selectedOfferingId}`, { scroll: false });
     }
-  }, [selectedOfferingId, fetchSellOrders, fetchRecentTrades, router]);
+  }, [selectedOfferingId, fetchSellOrders, router]);
+
+  // Reload candles when the offering or timeframe changes
+  useEffect(() => {
+    setChartData([]);
+    setChartLoadedAt(null);
+    if (selectedOfferingId) {
+      fetchPriceHistory(selectedOfferingId, timeframe);
+    }
+  }, [selectedOfferingId, timeframe, fetchPriceHistory]);
 
   // Selected offering data
   const selectedOffering = useMemo(() => 
@@ -225,122 +237,92 @@ export default function ExchangePage() {
     return investment?.shares || 0;
   }, [investments, selectedOfferingId]);
 
-  // Generate chart data (mock historical data based on current price)
-  const chartData = useMemo((): ChartDataPoint[] => {
-    if (!selectedOffering) return [];
-    
-    const basePrice = selectedOffering.pricePerShare;
-    const data: ChartDataPoint[] = [];
-    let price = basePrice * 0.85;
-    
-    const days = timeframe === '1H' ? 1 : timeframe === '4H' ? 2 : timeframe === '1D' ? 30 : timeframe === '1W' ? 90 : 365;
-    const interval = timeframe === '1H' ? 60 : timeframe === '4H' ? 240 : 1440; // minutes
-    
-    for (let i = days; i >= 0; i--) {
-      const date = new Date();
-      date.setMinutes(date.getMinutes() - (i * interval));
-      
-      const change = (Math.random() - 0.45) * 0.03;
-      const open = price;
-      price = price * (1 + change);
-      const close = price;
-      const high = Math.max(open, close) * (1 + Math.random() * 0.01);
-      const low = Math.min(open, close) * (1 - Math.random() * 0.01);
-      
-      data.push({
-        time: (date.getTime() / 1000) as Time,
-        open: Number(open.toFixed(2)),
-        high: Number(high.toFixed(2)),
-        low: Number(low.toFixed(2)),
-        close: Number(close.toFixed(2)),
-        volume: Math.floor(Math.random() * 10000) + 500,
-      });
-    }
-    
-    // Ensure last candle closes at current price
-    if (data.length > 0) {
-      data[data.length - 1].close = basePrice;
+  // Fold live trade prints that arrived after the history was loaded
+  const liveChartData = useMemo((): ChartDataPoint[] => {
+    if (chartData.length === 0 || !chartLoadedAt) return chartData;
+
+    const prints = recentTrades
+      .filter(trade => new Date(trade.timestamp).getTime() > chartLoadedAt)
+      .reverse(); // Oldest first
+    if (prints.length === 0) return chartData;
+
+    const data = [...chartData];
+    const step = data.length > 1
+      ? (data[data.length - 1].time as number) - (data[data.length - 2].time as number)
+      : 60;
+
+    for (const trade of prints) {
+      const tradeTime = Math.floor(new Date(trade.timestamp).getTime() / 1000);
+      const last = data[data.length - 1];
+      const lastTime = last.time as number;
+
+      if (tradeTime < lastTime + step) {
+        data[data.length - 1] = {
+          ...last,
+          close: trade.price,
+          high: Math.max(last.high, trade.price),
+          low: Math.min(last.low, trade.price),
+          volume: (last.volume || 0) + trade.shares,
+        };
+      } else {
+        const time = lastTime + Math.floor((tradeTime - lastTime) / step) * step;
+        data.push({
+          time: time as Time,
+          open: last.close,
+          high: Math.max(last.close, trade.price),
+          low: Math.min(last.close, trade.price),
+          close: trade.price,
+          volume: trade.shares,
+        });
+      }
     }
-    
+
     return data;
-  }, [selectedOffering, timeframe]);
+  }, [chartData, chartLoadedAt, recentTrades]);
 
   // Calculate price change
   const priceChange = useMemo(() => {
-    if (chartData.length < 2) return { change: 0, percent: 0 };
-    const firstPrice = chartData[0].open;
-    const lastPrice = chartData[chartData.length - 1].close;
+    if (liveChartData.length < 2) return { change: 0, percent: 0 };
+    const firstPrice = liveChartData[0].open;
+    const lastPrice = liveChartData[liveChartData.length - 1].close;
     const change = lastPrice - firstPrice;
     const percent = (change / firstPrice) * 100;
     return { change, percent };
-  }, [chartData]);
+  }, [liveChartData]);
 
   // Order book data
   const orderBookData = useMemo(() => {
-    const buyOrders: { price: number; shares: number; total: number; orderId?: string }[] = [];
-    const sellOrdersFormatted: { price: number; shares: number; total: number; orderId?: string }[] = [];
-    
-    // Convert sell orders to order book format
-    sellOrders.forEach(order => {
-      sellOrdersFormatted.push({
-        price: order.pricePerShare,
-        shares: order.sharesRemaining,
-        total: order.pricePerShare * order.sharesRemaining,
-        orderId: order.id,
-      });
-    });
-    
-    // Generate mock buy orders (bids) based on current price
-    if (selectedOffering) {
-      const currentPrice = selectedOffering.pricePerShare;
-      for (let i = 1; i <= 10; i++) {
-        const bidPrice = currentPrice * (1 - i * 0.005);
-        buyOrders.push({
-          price: Number(bidPrice.toFixed(2)),
-          shares: Math.floor(Math.random() * 500) + 50,
-          total: 0,
-        });
-        buyOrders[buyOrders.length - 1].total = buyOrders[buyOrders.length - 1].price * buyOrders[buyOrders.length - 1].shares;
-      }
-    }
-    
-    return { buyOrders, sellOrders: sellOrdersFormatted };
-  }, [sellOrders, selectedOffering]);
+    const toRows = (levels: OrderBookLevel[]) => levels.map(level => ({
+      price: level.price,
+      shares: level.shares,
+      total: level.total,
+      orderId: level.orders[0],
+    }));
+
+    return {
+      buyOrders: toRows(orderBook?.bids || []),
+      sellOrders: toRows(orderBook?.asks || []),
+    };
+  }, [orderBook]);
 
   // Market depth data
   const marketDepthData = useMemo(() => {
-    if (!selectedOffering) return [];
-    
-    const currentPrice = selectedOffering.pricePerShare;
-    const data = [];
-    
-    for (let i = -5; i <= 5; i++) {
-      const price = currentPrice * (1 + i * 0.01);
-      data.push({
-        price: Number(price.toFixed(2)),
-        bidVolume: i <= 0 ? Math.floor(Math.random() * 1000) + 100 : 0,
-        askVolume: i >= 0 ? Math.floor(Math.random() * 1000) + 100 : 0,
-      });
-    }
-    
-    return data;
-  }, [selectedOffering]);
-
-  // Recent trades formatted
-  const formattedTrades = useMemo(() => {
-    return recentTrades.map(trade => ({
-      id: trade.id,
-      price: trade.pricePerShare,
-      shares: trade.shares,
-      total: trade.totalAmount,
-      // For market view, all trades are buys (taker buying from maker's sell order)
-      // For user's own trades, show their perspective
-      side: session?.user?.id 
-        ? (trade.buyerId === session.user.id ? 'buy' : 'sell') as 'buy' | 'sell'
-        : 'buy' as 'buy' | 'sell',
-      timestamp: trade.createdAt,
-    }));
-  }, [recentTrades, session?.user?.id]);
+    const depthByPrice = new Map<number, { price: number; bidVolume: number; askVolume: number }>();
+
+    orderBook?.bids.forEach(level => {
+      depthByPrice.set(level.price, { price: level.price, bidVolume: level.shares, askVolume: 0 });
+    });
+    orderBook?.asks.forEach(level => {
+      const existing = depthByPrice.get(level.price);
+      if (existing) {
+        existing.askVolume = level.shares;
+      } else {
+        depthByPrice.set(level.price, { price: level.price, bidVolume: 0, askVolume: level.shares });
+      }
+    });
+
+    return Array.from(depthByPrice.values()).sort((a, b) => a.price - b.price);
+  }, [orderBook]);
 
   // Handle order placement
   const handlePlaceOrder = async (order: {
@@ -349,6 +331,7 @@ export default function ExchangePage() {
     price: number;
     shares: number;
     total: number;
+    maxSlippagePercent?: number;
   }) => {
     if (!session?.user) {
       setMessage({ type: 'error', text: 'Please sign in to trade' });
@@ -363,40 +346,46 @@ export default function ExchangePage() {
     setProcessing(true);
 
     try {
-      if (order.type === 'buy') {
-        // For buying, we need to match with existing sell orders
-        // Find best matching sell order
-        const matchingOrder = sellOrders
-          .filter(o => o.pricePerShare <= order.price && o.sharesRemaining >= order.shares)
-          .sort((a, b) => a.pricePerShare - b.pricePerShare)[0];
-
-        if (!matchingOrder) {
-          // If no exact match, create a buy limit order (or handle market order differently)
-          setMessage({ 
-            type: 'error', 
-            text: 'No matching sell orders available at this price. Try a higher price or market order.' 
-          });
-          setProcessing(false);
-          return;
-        }
+      if (order.type === 'buy' && order.orderType === 'limit') {
+        // Limit buys rest on the book until matched by the engine
+        const response = await fetch('/api/trading/buy-orders', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            offeringId: selectedOfferingId,
+            shares: order.shares,
+            limitPrice: order.price,
+          }),
+        });
+
+        const data = await response.json();
 
-        // Execute trade
+        if (data.success) {
+          setMessage({ type: 'success', text: data.message });
+          fetchSellOrders(selectedOfferingId);
+          fetchUserData();
+        } else {
+          setMessage({ type: 'error', text: data.error || 'Failed to place buy order' });
+        }
+      } else if (order.type === 'buy') {
+        // Market buys sweep the ask side, failing if the fill would breach the slippage limit
         const response = await fetch('/api/trading/trades', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
-            sellOrderId: matchingOrder.id,
+            orderType: 'market',
+            offeringId: selectedOfferingId,
             shares: order.shares,
+            maxSlippagePercent: order.maxSlippagePercent,
           }),
         });
 
         const data = await response.json();
 
         if (data.success) {
-          setMessage({ type: 'success', text: `Successfully bought ${order.shares} shares!` });
+          setMessage({ type: 'success', text: data.message });
           // Refresh data
           fetchSellOrders(selectedOfferingId);
-          fetchRecentTrades(selectedOfferingId);
           fetchUserData();
         } else {
           setMessage({ type: 'error', text: data.error || 'Trade failed' });
@@ -424,7 +413,7 @@ export default function ExchangePage() {
         const data = await response.json();
 
         if (data.success) {
-          setMessage({ type: 'success', text: `Sell order placed for ${order.shares} shares!` });
+          setMessage({ type: 'success', text: data.message || `Sell order placed for ${order.shares} shares!` });
           fetchSellOrders(selectedOfferingId);
           fetchUserData();
         } else {
@@ -445,13 +434,28 @@ export default function ExchangePage() {
     console.log(`Clicked ${type} at price ${price}`);
   };
 
-  // Toggle favorite
-  const toggleFavorite = (offeringId: string) => {
-    setFavorites(prev => 
-      prev.includes(offeringId) 
-        ? prev.filter(id => id !== offeringId)
-        : [...prev, offeringId]
-    );
+  // Toggle favorite - favorites are the user's server-side watchlist
+  const toggleFavorite = async (offeringId: string) => {
+    if (!session?.user) {
+      setMessage({ type: 'error', text: 'Please sign in to use the watchlist' });
+      return;
+    }
+
+    const remove = favorites.includes(offeringId);
+    try {
+      const response = await fetch(remove ? `/api/watchlist/${offeringId}` : '/api/watchlist', {
+        method: remove ? 'DELETE' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: remove ? undefined : JSON.stringify({ offeringId }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        setMessage({ type: 'error', text: data.error || 'Failed to update watchlist' });
+      }
+    } catch (error) {
+      console.error('Failed to update watchlist:', error);
+    }
+    setWatchlistVersion(version => version + 1);
   };
 
   // Filter offerings by search
@@ -462,16 +466,10 @@ export default function ExchangePage() {
     );
   }, [offerings, searchQuery]);
 
-  // Best bid and ask
-  const bestBid = useMemo(() => {
-    if (orderBookData.buyOrders.length === 0) return selectedOffering?.pricePerShare || 0;
-    return Math.max(...orderBookData.buyOrders.map(o => o.price));
-  }, [orderBookData.buyOrders, selectedOffering]);
-
-  const bestAsk = useMemo(() => {
-    if (orderBookData.sellOrders.length === 0) return selectedOffering?.pricePerShare || 0;
-    return Math.min(...orderBookData.sellOrders.map(o => o.price));
-  }, [orderBookData.sellOrders, selectedOffering]);
+  // Best bid and ask (fall back to the offering price when a side of the book is empty)
+  const bestBid = orderBook?.bids[0]?.price ?? selectedOffering?.pricePerShare ?? 0;
+  const bestAsk = orderBook?.asks[0]?.price ?? selectedOffering?.pricePerShare ?? 0;
+  const lastPrice = ticker?.lastPrice ?? selectedOffering?.pricePerShare ?? 0;
 
   if (loading) {
     return (
@@ -602,7 +600,7 @@ export default function ExchangePage() {
             <div className="flex items-center gap-2 sm:gap-6 flex-wrap">
               <div>
                 <span className="text-lg sm:text-2xl font-bold text-white">
-                  ₹{selectedOffering.pricePerShare.toLocaleString('en-IN', { minimumFractionDigits: 2 })}
+                  ₹{lastPrice.toLocaleString('en-IN', { minimumFractionDigits: 2 })}
                 </span>
                 <span className={`ml-1 sm:ml-3 text-xs sm:text-sm font-medium ${
                   priceChange.percent >= 0 ? 'text-green-400' : 'text-red-400'
@@ -614,19 +612,19 @@ export default function ExchangePage() {
                 <div>
                   <span className="text-gray-400">24h High</span>
                   <span className="ml-2 text-white">
-                    ₹{(selectedOffering.pricePerShare * 1.05).toFixed(2)}
+                    ₹{(ticker?.high24h ?? lastPrice).toFixed(2)}
                   </span>
                 </div>
                 <div>
                   <span className="text-gray-400">24h Low</span>
                   <span className="ml-2 text-white">
-                    ₹{(selectedOffering.pricePerShare * 0.95).toFixed(2)}
+                    ₹{(ticker?.low24h ?? lastPrice).toFixed(2)}
                   </span>
                 </div>
                 <div>
                   <span className="text-gray-400">24h Vol</span>
                   <span className="ml-2 text-white">
-                    {Math.floor(Math.random() * 100000).toLocaleString()}
+                    {(ticker?.volume24h ?? 0).toLocaleString()}
                   </span>
                 </div>
               </div>
@@ -657,11 +655,16 @@ export default function ExchangePage() {
             <Button 
               onClick={() => {
                 fetchSellOrders(selectedOfferingId!);
-                fetchRecentTrades(selectedOfferingId!);
+                fetchPriceHistory(selectedOfferingId!, timeframe);
+                reconnect();
               }}
-              className="p-2 bg-zinc-800 rounded-lg hover:bg-zinc-700"
+              className="p-2 bg-zinc-800 rounded-lg hover:bg-zinc-700 relative"
+              title={connected ? 'Live' : 'Reconnecting...'}
             >
               <RefreshCw className="w-4 h-4 text-gray-400" />
+              <span className={`absolute top-1 right-1 w-1.5 h-1.5 rounded-full ${
+                connected ? 'bg-green-400' : 'bg-zinc-500'
+              }`} />
             </Button>
           </div>
         </div>
@@ -696,11 +699,11 @@ export default function ExchangePage() {
             </div>
 
             {/* TradingView Chart */}
-            {selectedOffering && chartData.length > 0 && (
+            {selectedOffering && (
               <TradingViewChart
-                data={chartData}
+                data={liveChartData}
                 symbol={selectedOffering.channel.channelName}
-                currentPrice={selectedOffering.pricePerShare}
+                currentPrice={lastPrice}
                 priceChange={priceChange.change}
                 priceChangePercent={priceChange.percent}
                 height={500}
@@ -754,10 +757,10 @@ export default function ExchangePage() {
               <OrderBook
                 buyOrders={orderBookData.buyOrders}
                 sellOrders={orderBookData.sellOrders}
-                currentPrice={selectedOffering?.pricePerShare || 0}
+                currentPrice={lastPrice}
                 onOrderClick={handleOrderBookClick}
                 maxRows={8}
-                trades={formattedTrades}
+                trades={recentTrades}
               />
 
               {/* Trading Panel */}
@@ -776,7 +779,12 @@ export default function ExchangePage() {
             </div>
 
             {/* Recent Trades */}
-            <RecentTrades trades={formattedTrades} maxRows={15} />
+            <RecentTrades trades={recentTrades} maxRows={15} />
+
+            {/* Watchlist */}
+            {session?.user && (
+              <Watchlist refreshKey={watchlistVersion} onItemsChange={setFavorites} />
+            )}
           </div>
         </div>
       </div>
@@ -389,6 +389,33 @@ export default function OfferingDetailPage() {
               </div>
             </div>
 
+            {/* Return Cap Progress */}
+            {offering.returnProgress?.capAmount != null && (
+              <div className="youtube-card p-6">
+                <div className="space-y-4">
+                  <div className="flex justify-between items-center">
+                    <h3 className="text-lg font-semibold text-white">Return Cap Progress</h3>
+                    <span className="text-2xl font-bold text-white">{offering.returnProgress.progressPercent ?? 0}%</span>
+                  </div>
+                  <div className="w-full bg-zinc-700 rounded-full h-3">
+                    <div
+                      className="bg-green-600 h-3 rounded-full transition-all duration-300"
+                      style={{ width: `${offering.returnProgress.progressPercent ?? 0}%` }}
+                    ></div>
+                  </div>
+                  <div className="flex justify-between text-sm text-gray-400">
+                    <span>₹{offering.returnProgress.returned.toLocaleString('en-IN')} paid to investors</span>
+                    <span>Cap ₹{offering.returnProgress.capAmount.toLocaleString('en-IN')} ({offering.returnProgress.returnCapMultiple}x raised)</span>
+                  </div>
+                  {offering.returnProgress.capReachedAt && (
+                    <p className="text-sm text-green-400">
+                      Investors have received the full cap; the revenue share has ended.
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+
             {/* Channel Stats */}
             <div className="grid grid-cols-2 gap-4">
               <div className="youtube-card p-6">
@@ -435,8 +462,31 @@ export default function OfferingDetailPage() {
                   <p className="text-sm text-gray-400 mb-1">Min Investment</p>
                   <p className="text-xl font-semibold text-white">₹{offering.minInvestment}</p>
                 </div>
+                <div>
+                  <p className="text-sm text-gray-400 mb-1">Return Cap</p>
+                  <p className="text-xl font-semibold text-white">
+                    {offering.returnProgress?.returnCapMultiple ? `${offering.returnProgress.returnCapMultiple}x capital raised` : 'None'}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-400 mb-1">Minimum Monthly Payment</p>
+                  <p className="text-xl font-semibold text-white">
+                    {offering.returnProgress?.minimumMonthlyPayment
+                      ? `₹${offering.returnProgress.minimumMonthlyPayment.toLocaleString('en-IN')}`
+                      : 'None'}
+                  </p>
+                </div>
               </div>
 
+              {(offering.returnProgress?.returnCapMultiple || offering.returnProgress?.minimumMonthlyPayment) && (
+                <p className="text-sm text-gray-400 mb-6">
+                  {offering.returnProgress.returnCapMultiple &&
+                    `Payments stop once investors have received ${offering.returnProgress.returnCapMultiple}x the capital raised. `}
+                  {offering.returnProgress.minimumMonthlyPayment &&
+                    'If a month pays investors less than the minimum (in proportion to the shares sold), the creator tops it up from their wallet.'}
+                </p>
+              )}
+
               <div className="p-4 bg-blue-600/10 border border-blue-600/30 rounded-lg">
                 <div className="flex items-start gap-3">
                   <Shield className="h-5 w-5 text-blue-400 mt-0.5 shrink-0" />
@@ -604,6 +654,7 @@ export default function OfferingDetailPage() {
                       <p className="flex items-center gap-2">
                         <IndianRupee className="h-3 w-3" />
                         {offering.sharePercentage}% of channel revenue for {offering.duration} months
+                        {offering.returnProgress?.returnCapMultiple && `, up to ${offering.returnProgress.returnCapMultiple}x`}
                       </p>
                     </div>
                   </div>
@@ -9,7 +9,8 @@ import {
   ArrowUpRight,
   CheckCircle2,
   Clock,
-  AlertTriangle
+  AlertTriangle,
+  Link2
 } from 'lucide-react';
 
 interface AuditLogEntry {
@@ -19,6 +20,15 @@ interface AuditLogEntry {
   amount: number | null;
   createdAt: string;
   signature: string | null;
+  sequence: number | null;
+  entryHash: string | null;
+}
+
+interface ChainVerification {
+  valid: boolean;
+  entriesChecked: number;
+  head: { sequence: number; entryHash: string } | null;
+  brokenAt: { sequence: number; reason: string } | null;
 }
 
 interface Props {
@@ -29,6 +39,7 @@ export default function EscrowAuditLog({ offeringId }: Props) {
   const [logs, setLogs] = useState<AuditLogEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [chain, setChain] = useState<ChainVerification | null>(null);
 
   useEffect(() => {
     fetchLogs();
@@ -37,14 +48,22 @@ export default function EscrowAuditLog({ offeringId }: Props) {
   const fetchLogs = async () => {
     try {
       setLoading(true);
-      const res = await fetch(`/api/dex/audit?offeringId=${offeringId}&limit=20`);
+      const [res, verifyRes] = await Promise.all([
+        fetch(`/api/dex/audit?offeringId=${offeringId}&limit=20`),
+        fetch(`/api/dex/audit/verify?offeringId=${offeringId}`),
+      ]);
       const data = await res.json();
+      const verifyData = await verifyRes.json();
       
       if (data.success) {
         setLogs(data.logs);
       } else {
         setError(data.error);
       }
+
+      if (verifyData.success) {
+        setChain(verifyData.verification);
+      }
     } catch (err) {
       console.error('Failed to fetch audit logs:', err);
       setError('Failed to fetch audit logs');
@@ -123,8 +142,33 @@ export default function EscrowAuditLog({ offeringId }: Props) {
           Escrow Audit Trail
         </CardTitle>
         <CardDescription>
-          Immutable record of all escrow operations. Each entry is cryptographically signed.
+          Tamper-evident record of all escrow operations. Each entry is signed and linked to the one before it.
         </CardDescription>
+        {chain && (
+          chain.valid ? (
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Badge className="bg-green-100 text-green-800 text-xs">
+                <CheckCircle2 className="h-3 w-3 mr-1" />
+                Chain verified
+              </Badge>
+              {chain.head && (
+                <span className="font-mono" title={chain.head.entryHash}>
+                  head #{chain.head.sequence} {chain.head.entryHash.slice(0, 12)}...
+                </span>
+              )}
+            </div>
+          ) : (
+            <div className="flex items-center gap-2 text-xs text-red-700">
+              <Badge className="bg-red-100 text-red-800 text-xs">
+                <AlertTriangle className="h-3 w-3 mr-1" />
+                Chain broken
+              </Badge>
+              {chain.brokenAt && (
+                <span>at entry #{chain.brokenAt.sequence}: {chain.brokenAt.reason}</span>
+              )}
+            </div>
+          )
+        )}
       </CardHeader>
       <CardContent>
         {error && (
@@ -159,7 +203,21 @@ export default function EscrowAuditLog({ offeringId }: Props) {
                   <div className="flex items-center gap-2 text-xs text-muted-foreground mt-1">
                     <Clock className="h-3 w-3" />
                     {new Date(log.createdAt).toLocaleString()}
-                    {log.signature && (
+                    {log.sequence && (
+                      <>
+                        <span className="mx-1">•</span>
+                        <Link2 className="h-3 w-3" />
+                        <span className="font-mono">#{log.sequence}</span>
+                      </>
+                    )}
+                    {log.entryHash ? (
+                      <>
+                        <span className="mx-1">•</span>
+                        <span className="font-mono truncate max-w-[120px]" title={log.entryHash}>
+                          hash: {log.entryHash.slice(0, 8)}...
+                        </span>
+                      </>
+                    ) : log.signature && (
                       <>
                         <span className="mx-1">•</span>
                         <span className="font-mono truncate max-w-[120px]" title={log.signature}>
@@ -24,6 +24,11 @@ interface Claim {
   status: 'AVAILABLE' | 'CLAIMED' | 'EXPIRED';
   createdAt: string;
   expiresAt: string | null;
+  reinvestment: {
+    route: 'PRIMARY' | 'SECONDARY';
+    shares: number;
+    amount: number;
+  } | null;
   vault: {
     offering: {
       channel: {
@@ -33,6 +38,19 @@ interface Claim {
   };
 }
 
+type ClaimMode = 'MANUAL' | 'AUTO_CLAIM' | 'REINVEST';
+
+interface ClaimPreference {
+  mode: ClaimMode;
+  maxPremiumPercent: number;
+}
+
+const CLAIM_MODE_LABELS: Record<ClaimMode, string> = {
+  MANUAL: 'Claim manually',
+  AUTO_CLAIM: 'Sweep to wallet',
+  REINVEST: 'Reinvest',
+};
+
 interface ClaimsSummary {
   totalAvailable: number;
   totalClaimed: number;
@@ -46,11 +64,49 @@ export default function EscrowClaimsCard() {
   const [loading, setLoading] = useState(true);
   const [processing, setProcessing] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [preference, setPreference] = useState<ClaimPreference | null>(null);
+  const [savingPreference, setSavingPreference] = useState(false);
 
   useEffect(() => {
     fetchClaims();
+    fetchPreference();
   }, []);
 
+  const fetchPreference = async () => {
+    try {
+      const res = await fetch('/api/dex/claims/preferences');
+      const data = await res.json();
+
+      if (data.success) {
+        setPreference(data.preference);
+      }
+    } catch (err) {
+      console.error('Failed to fetch claim preference:', err);
+    }
+  };
+
+  const updatePreference = async (update: Partial<ClaimPreference>) => {
+    try {
+      setSavingPreference(true);
+      const res = await fetch('/api/dex/claims/preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update),
+      });
+      const data = await res.json();
+
+      if (data.success) {
+        setPreference(data.preference);
+      } else {
+        setError(data.error);
+      }
+    } catch (err) {
+      setError('Failed to update claim preference');
+    } finally {
+      setSavingPreference(false);
+    }
+  };
+
   const fetchClaims = async () => {
     try {
       setLoading(true);
@@ -179,6 +235,53 @@ export default function EscrowClaimsCard() {
           </div>
         )}
 
+        {/* Claim preference */}
+        {preference && (
+          <div className="mb-6 p-4 border rounded-lg">
+            <div className="text-sm font-medium mb-2">After each distribution</div>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(CLAIM_MODE_LABELS) as ClaimMode[]).map((mode) => (
+                <Button
+                  key={mode}
+                  size="sm"
+                  variant={preference.mode === mode ? 'default' : 'outline'}
+                  onClick={() => updatePreference({ mode })}
+                  disabled={savingPreference}
+                >
+                  {CLAIM_MODE_LABELS[mode]}
+                </Button>
+              ))}
+            </div>
+            {preference.mode === 'REINVEST' && (
+              <div className="mt-3 text-sm text-muted-foreground">
+                <p>
+                  Buys more of the same offering: unsold shares at the offering price, otherwise a bid on
+                  the order book. Whatever is left over stays in your wallet.
+                </p>
+                <label className="flex items-center gap-2 mt-2">
+                  Pay at most
+                  <input
+                    type="number"
+                    min={0}
+                    max={50}
+                    step={0.5}
+                    defaultValue={preference.maxPremiumPercent}
+                    onBlur={(e) => {
+                      const maxPremiumPercent = parseFloat(e.target.value);
+                      if (!isNaN(maxPremiumPercent) && maxPremiumPercent !== preference.maxPremiumPercent) {
+                        updatePreference({ maxPremiumPercent });
+                      }
+                    }}
+                    disabled={savingPreference}
+                    className="w-20 px-2 py-1 border rounded bg-background"
+                  />
+                  % above the best ask
+                </label>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Summary Cards */}
         {summary && (
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
@@ -292,8 +395,15 @@ export default function EscrowClaimsCard() {
                     <span className="font-medium">{claim.vault.offering.channel.channelName}</span>
                     <span className="text-muted-foreground"> • {claim.ownershipPercent.toFixed(2)}%</span>
                   </div>
-                  <div className="text-sm font-medium text-green-600">
-                    +{formatCurrency(claim.amount)}
+                  <div className="text-right">
+                    <div className="text-sm font-medium text-green-600">
+                      +{formatCurrency(claim.amount)}
+                    </div>
+                    {claim.reinvestment && (
+                      <div className="text-xs text-muted-foreground">
+                        {claim.reinvestment.route === 'PRIMARY' ? 'Reinvested in' : 'Bid for'} {claim.reinvestment.shares} shares
+                      </div>
+                    )}
                   </div>
                 </div>
               ))}
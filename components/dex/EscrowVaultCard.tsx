@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -15,7 +16,9 @@ import {
   Users,
   DollarSign,
   Shield,
-  Clock
+  Clock,
+  Wallet,
+  CreditCard
 } from 'lucide-react';
 
 interface VaultDetails {
@@ -55,6 +58,17 @@ interface VaultDetails {
   };
 }
 
+interface PendingDeposit {
+  id: string;
+  amount: number;
+  revenueMonth: string;
+  origin: string;
+  status: string;
+  fundingMethod: string | null;
+}
+
+type FundingMethod = 'WALLET' | 'STRIPE';
+
 interface Props {
   offeringId: string;
   isCreator?: boolean;
@@ -69,6 +83,10 @@ export default function EscrowVaultCard({ offeringId, isCreator = false }: Props
     new Date().toISOString().slice(0, 7) // YYYY-MM format
   );
   const [depositing, setDepositing] = useState(false);
+  const [funding, setFunding] = useState<FundingMethod>('WALLET');
+  const [awaitingFunds, setAwaitingFunds] = useState<PendingDeposit[]>([]);
+  const [fundingDepositId, setFundingDepositId] = useState<string | null>(null);
+  const router = useRouter();
 
   useEffect(() => {
     fetchVault();
@@ -82,6 +100,9 @@ export default function EscrowVaultCard({ offeringId, isCreator = false }: Props
       
       if (data.success) {
         setVault(data);
+        if (isCreator) {
+          fetchAwaitingFunds();
+        }
       } else {
         setError(data.error);
       }
@@ -93,6 +114,49 @@ export default function EscrowVaultCard({ offeringId, isCreator = false }: Props
     }
   };
 
+  const fetchAwaitingFunds = async () => {
+    try {
+      const res = await fetch(`/api/dex/deposit?offeringId=${offeringId}`);
+      const data = await res.json();
+
+      if (data.success) {
+        setAwaitingFunds(
+          data.deposits.filter((d: PendingDeposit) => d.status === 'PENDING' && !d.fundingMethod)
+        );
+      }
+    } catch (err) {
+      console.error('Failed to fetch deposits:', err);
+    }
+  };
+
+  const fundDeposit = async (depositId: string, method: FundingMethod) => {
+    try {
+      setFundingDepositId(depositId);
+      setError(null);
+
+      const res = await fetch(`/api/dex/deposit/${depositId}/fund`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ method }),
+      });
+
+      const data = await res.json();
+
+      if (!data.success) {
+        setError(data.error);
+      } else if (data.payment) {
+        router.push(`/payment?clientSecret=${data.payment.clientSecret}`);
+      } else {
+        fetchVault();
+      }
+    } catch (err) {
+      console.error('Failed to fund deposit:', err);
+      setError('Failed to fund deposit');
+    } finally {
+      setFundingDepositId(null);
+    }
+  };
+
   const depositRevenue = async () => {
     if (!depositAmount || parseFloat(depositAmount) <= 0) {
       setError('Please enter a valid amount');
@@ -110,17 +174,20 @@ export default function EscrowVaultCard({ offeringId, isCreator = false }: Props
           offeringId,
           amount: parseFloat(depositAmount),
           revenueMonth,
+          funding,
           autoDistribute: true,
         }),
       });
       
       const data = await res.json();
       
-      if (data.success) {
+      if (!data.success) {
+        setError(data.error);
+      } else if (data.payment) {
+        router.push(`/payment?clientSecret=${data.payment.clientSecret}`);
+      } else {
         setDepositAmount('');
         fetchVault();
-      } else {
-        setError(data.error);
       }
     } catch (err) {
       console.error('Failed to deposit:', err);
@@ -306,7 +373,7 @@ export default function EscrowVaultCard({ offeringId, isCreator = false }: Props
               Deposit Revenue
             </h4>
             <p className="text-sm text-muted-foreground mb-4">
-              Deposit YouTube revenue into escrow. Funds will be automatically distributed to all stakeholders based on their ownership percentage.
+              Pay YouTube revenue into escrow from your wallet or by card. Once the payment settles it is automatically distributed to all stakeholders based on their ownership percentage.
             </p>
             <div className="flex gap-3">
               <Input
@@ -322,18 +389,71 @@ export default function EscrowVaultCard({ offeringId, isCreator = false }: Props
                 onChange={(e) => setRevenueMonth(e.target.value)}
                 className="w-40"
               />
+              <select
+                value={funding}
+                onChange={(e) => setFunding(e.target.value as FundingMethod)}
+                className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+              >
+                <option value="WALLET">Wallet</option>
+                <option value="STRIPE">Card</option>
+              </select>
               <Button
                 onClick={depositRevenue}
                 disabled={depositing || !depositAmount}
                 className="bg-green-600 hover:bg-green-700"
               >
-                {depositing ? 'Depositing...' : 'Deposit & Distribute'}
+                {depositing ? 'Depositing...' : funding === 'WALLET' ? 'Deposit & Distribute' : 'Continue to Payment'}
                 <ArrowRight className="h-4 w-4 ml-2" />
               </Button>
             </div>
           </div>
         )}
 
+        {/* Deposits Awaiting Funds (Creator Only) */}
+        {isCreator && awaitingFunds.length > 0 && (
+          <div className="border-t pt-6">
+            <h4 className="font-medium mb-3 flex items-center gap-2">
+              <AlertCircle className="h-4 w-4 text-yellow-600" />
+              Awaiting Funds
+            </h4>
+            <p className="text-sm text-muted-foreground mb-4">
+              These deposits are not distributed until you pay them in.
+            </p>
+            <div className="space-y-2">
+              {awaitingFunds.map((deposit) => (
+                <div key={deposit.id} className="flex items-center justify-between p-3 bg-muted/30 rounded-lg">
+                  <div>
+                    <p className="font-medium">{formatCurrency(deposit.amount)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {deposit.revenueMonth} • {deposit.origin === 'PLATFORM_FETCHED' ? 'Fetched from YouTube' : 'Reported by you'}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => fundDeposit(deposit.id, 'WALLET')}
+                      disabled={fundingDepositId === deposit.id}
+                    >
+                      <Wallet className="h-4 w-4 mr-1" />
+                      Pay from Wallet
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => fundDeposit(deposit.id, 'STRIPE')}
+                      disabled={fundingDepositId === deposit.id}
+                    >
+                      <CreditCard className="h-4 w-4 mr-1" />
+                      Pay by Card
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Last Activity */}
         {(vault.vault.lastRevenueAt || vault.vault.lastDistributionAt) && (
           <div className="border-t pt-4 mt-6 flex items-center gap-4 text-sm text-muted-foreground">
@@ -0,0 +1,45 @@
+'use client';
+
+export const REVENUE_SOURCE_LABELS: Record<string, string> = {
+  YOUTUBE_ADSENSE: 'AdSense',
+  YOUTUBE_PREMIUM: 'YouTube Premium',
+  YOUTUBE_MEMBERSHIPS: 'Channel Memberships',
+  YOUTUBE_SUPER_CHAT: 'Super Chat',
+  SPONSORSHIP: 'Sponsorships',
+  MERCHANDISE: 'Merchandise',
+  OTHER: 'Other',
+};
+
+interface RevenueSourcePickerProps {
+  value: string[];
+  onChange: (sources: string[]) => void;
+  disabled?: boolean;
+}
+
+export default function RevenueSourcePicker({ value, onChange, disabled }: RevenueSourcePickerProps) {
+  const toggle = (source: string) => {
+    onChange(value.includes(source) ? value.filter((s) => s !== source) : [...value, source]);
+  };
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+      {Object.entries(REVENUE_SOURCE_LABELS).map(([source, label]) => (
+        <label
+          key={source}
+          className={`flex items-center gap-2 px-3 py-2 rounded-lg border text-sm cursor-pointer ${
+            value.includes(source) ? 'border-red-600 bg-red-950/20 text-white' : 'border-zinc-800 bg-zinc-900 text-gray-400'
+          }`}
+        >
+          <input
+            type="checkbox"
+            checked={value.includes(source)}
+            onChange={() => toggle(source)}
+            disabled={disabled}
+            className="accent-red-600"
+          />
+          {label}
+        </label>
+      ))}
+    </div>
+  );
+}
@@ -1,3 +1,4 @@
 export { default as EscrowClaimsCard } from './EscrowClaimsCard';
 export { default as EscrowVaultCard } from './EscrowVaultCard';
 export { default as EscrowAuditLog } from './EscrowAuditLog';
+export { default as RevenueSourcePicker, REVENUE_SOURCE_LABELS } from './RevenueSourcePicker';
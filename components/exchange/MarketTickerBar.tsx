@@ -4,6 +4,7 @@ import { useState, useMemo } from 'react';
 import Link from 'next/link';
 import { ArrowUpRight, ArrowDownRight, TrendingUp, ChevronRight } from 'lucide-react';
 import MiniChart from './MiniChart';
+import { useMarketTickers } from './hooks';
 
 interface MarketTicker {
   id: string;
@@ -19,8 +20,22 @@ interface MarketTickerBarProps {
   markets: MarketTicker[];
 }
 
-export default function MarketTickerBar({ markets }: MarketTickerBarProps) {
+export default function MarketTickerBar({ markets: initialMarkets }: MarketTickerBarProps) {
   const [hoveredMarket, setHoveredMarket] = useState<string | null>(null);
+  const liveTickers = useMarketTickers(initialMarkets.map(market => market.id));
+
+  // Overlay live prices on the markets passed in
+  const markets = useMemo(() => initialMarkets.map(market => {
+    const ticker = liveTickers[market.id];
+    if (!ticker) return market;
+    return {
+      ...market,
+      price: ticker.lastPrice,
+      change: ticker.change24h,
+      changePercent: ticker.changePercent24h,
+      volume: ticker.volume24h,
+    };
+  }), [initialMarkets, liveTickers]);
 
   const formatPrice = (price: number) => {
     return `₹${price.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
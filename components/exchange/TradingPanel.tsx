@@ -17,6 +17,7 @@ interface TradingPanelProps {
     price: number;
     shares: number;
     total: number;
+    maxSlippagePercent?: number;
   }) => Promise<void>;
   processing?: boolean;
 }
@@ -36,6 +37,7 @@ export default function TradingPanel({
   const [price, setPrice] = useState(currentPrice.toFixed(2));
   const [shares, setShares] = useState('1');
   const [total, setTotal] = useState((currentPrice * 1).toFixed(2));
+  const [maxSlippage, setMaxSlippage] = useState('1');
 
   // Update total when price or shares change
   const handlePriceChange = (value: string) => {
@@ -88,6 +90,9 @@ export default function TradingPanel({
       price: orderPrice,
       shares: Number.parseInt(shares),
       total: Number.parseFloat(total),
+      maxSlippagePercent: orderType === 'market' && activeTab === 'buy'
+        ? Number.parseFloat(maxSlippage) || 0
+        : undefined,
     });
   };
 
@@ -224,6 +229,34 @@ export default function TradingPanel({
           </div>
         )}
 
+        {/* Slippage Tolerance (for market buys) */}
+        {orderType === 'market' && activeTab === 'buy' && (
+          <div>
+            <label className="text-[10px] sm:text-xs text-gray-400 mb-1 block">Max Slippage (%)</label>
+            <div className="relative">
+              <input
+                type="number"
+                value={maxSlippage}
+                onChange={(e) => setMaxSlippage(e.target.value)}
+                step="0.1"
+                min="0"
+                className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-2 sm:px-4 py-2 sm:py-3 text-sm sm:text-base text-white font-medium focus:outline-none focus:border-red-600"
+              />
+              <div className="absolute right-1 sm:right-3 top-1/2 -translate-y-1/2 flex gap-0.5 sm:gap-1">
+                {['0.5', '1', '3'].map((value) => (
+                  <button
+                    key={value}
+                    onClick={() => setMaxSlippage(value)}
+                    className="text-[10px] sm:text-xs px-1 sm:px-2 py-0.5 sm:py-1 bg-zinc-700 rounded text-gray-400 hover:text-white"
+                  >
+                    {value}%
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Shares Input */}
         <div>
           <label className="text-[10px] sm:text-xs text-gray-400 mb-1 block">Shares</label>
@@ -279,6 +312,14 @@ export default function TradingPanel({
             <span className="text-gray-400">Shares</span>
             <span className="text-white">{Number.parseInt(shares).toLocaleString()}</span>
           </div>
+          {orderType === 'market' && activeTab === 'buy' && (
+            <div className="flex justify-between">
+              <span className="text-gray-400">Max Avg. Price</span>
+              <span className="text-white">
+                ₹{(executionPrice * (1 + (Number.parseFloat(maxSlippage) || 0) / 100)).toLocaleString('en-IN', { minimumFractionDigits: 2 })}
+              </span>
+            </div>
+          )}
           <div className="flex justify-between border-t border-zinc-700 pt-1 sm:pt-2">
             <span className="text-gray-400">Total</span>
             <span className={`font-semibold ${activeTab === 'buy' ? 'text-green-400' : 'text-red-400'}`}>
@@ -19,6 +19,7 @@ interface ChartDataPoint {
   low: number;
   close: number;
   volume?: number;
+  vwap?: number | null; // Volume-weighted average price of the bucket
 }
 
 interface TradingViewChartProps {
@@ -141,6 +142,22 @@ export default function TradingViewChart({
       mainSeries.setData(areaData);
     }
 
+    // VWAP overlay for buckets that traded
+    const vwapData = data
+      .filter(d => d.vwap !== undefined && d.vwap !== null)
+      .map(d => ({ time: d.time, value: d.vwap as number }));
+
+    if (vwapData.length > 0) {
+      const vwapSeries = chart.addSeries(LineSeries, {
+        color: '#f59e0b',
+        lineWidth: 1,
+        lineStyle: 2,
+        priceLineVisible: false,
+        lastValueVisible: false,
+      });
+      vwapSeries.setData(vwapData);
+    }
+
     // Add volume series if enabled
     if (showVolume && data.some(d => d.volume !== undefined)) {
       const volumeSeries = chart.addSeries(HistogramSeries, {
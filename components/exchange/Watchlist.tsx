@@ -1,48 +1,120 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import Link from 'next/link';
-import { 
-  Star, 
-  ArrowUpRight, 
-  ArrowDownRight, 
-  X, 
-  Plus,
-  Search,
+import {
+  Star,
+  ArrowUpRight,
+  ArrowDownRight,
+  X,
   Bell,
   BellOff
 } from 'lucide-react';
-import { Button } from '@/components/ui/button';
+import type { Ticker } from '@/lib/services/market-data';
+import { useMarketTickers } from './hooks';
 
-interface WatchlistItem {
+type AlertSource = 'LAST_TRADE' | 'BEST_ASK';
+
+interface PriceAlert {
   id: string;
-  symbol: string;
-  price: number;
-  change: number;
-  changePercent: number;
-  alertPrice?: number;
-  alertEnabled?: boolean;
+  source: AlertSource;
+  direction: 'ABOVE' | 'BELOW';
+  threshold: string;
+}
+
+interface WatchlistItem {
+  offeringId: string;
+  title: string;
+  channelName: string;
+  ticker: Ticker;
+  alerts: PriceAlert[];
 }
 
 interface WatchlistProps {
-  items: WatchlistItem[];
-  onRemove: (id: string) => void;
-  onAlertToggle?: (id: string, price?: number) => void;
   maxItems?: number;
+  refreshKey?: number; // Bump to reload after the watchlist changes elsewhere
+  onItemsChange?: (offeringIds: string[]) => void;
+}
+
+const SOURCE_LABELS: Record<AlertSource, string> = {
+  LAST_TRADE: 'Last trade',
+  BEST_ASK: 'Best ask',
+};
+
+function formatPrice(value: number | string): string {
+  return Number(value).toLocaleString('en-IN', { minimumFractionDigits: 2 });
 }
 
-export default function Watchlist({ 
-  items, 
-  onRemove, 
-  onAlertToggle,
-  maxItems = 10 
+/**
+ * The signed-in user's watchlist with live prices and server-side price alerts
+ */
+export default function Watchlist({
+  maxItems = 10,
+  refreshKey = 0,
+  onItemsChange
 }: WatchlistProps) {
+  const [items, setItems] = useState<WatchlistItem[]>([]);
   const [editingAlert, setEditingAlert] = useState<string | null>(null);
   const [alertPrice, setAlertPrice] = useState<string>('');
+  const [alertSource, setAlertSource] = useState<AlertSource>('LAST_TRADE');
+  const [error, setError] = useState('');
+
+  const liveTickers = useMarketTickers(items.map(item => item.offeringId));
+
+  const fetchWatchlist = useCallback(async () => {
+    try {
+      const response = await fetch('/api/watchlist');
+      const data = await response.json();
+      if (data.success) {
+        setItems(data.items);
+        onItemsChange?.(data.items.map((item: WatchlistItem) => item.offeringId));
+      }
+    } catch (err) {
+      console.error('Error fetching watchlist:', err);
+    }
+  }, [onItemsChange]);
 
-  const handleSetAlert = (id: string) => {
-    if (alertPrice && onAlertToggle) {
-      onAlertToggle(id, Number.parseFloat(alertPrice));
+  useEffect(() => {
+    fetchWatchlist();
+  }, [fetchWatchlist, refreshKey]);
+
+  const request = async (url: string, init: RequestInit) => {
+    setError('');
+    try {
+      const response = await fetch(url, init);
+      const data = await response.json();
+      if (!data.success) {
+        setError(data.error || 'Something went wrong');
+        return false;
+      }
+      await fetchWatchlist();
+      return true;
+    } catch (err) {
+      console.error('Watchlist request failed:', err);
+      setError('Something went wrong');
+      return false;
+    }
+  };
+
+  const handleRemove = (offeringId: string) =>
+    request(`/api/watchlist/${offeringId}`, { method: 'DELETE' });
+
+  const handleCancelAlert = (alertId: string) =>
+    request(`/api/price-alerts/${alertId}`, { method: 'DELETE' });
+
+  const handleSetAlert = async (offeringId: string) => {
+    const threshold = Number.parseFloat(alertPrice);
+    if (!(threshold > 0)) {
+      setError('Enter a price above zero');
+      return;
+    }
+
+    const created = await request('/api/price-alerts', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ offeringId, threshold, source: alertSource }),
+    });
+    if (created) {
       setEditingAlert(null);
       setAlertPrice('');
     }
@@ -59,6 +131,12 @@ export default function Watchlist({
         <span className="text-xs text-gray-400">{items.length}/{maxItems}</span>
       </div>
 
+      {error && (
+        <div className="px-3 py-2 text-xs text-red-400 bg-red-500/10 border-b border-zinc-800">
+          {error}
+        </div>
+      )}
+
       {/* Watchlist Items */}
       <div className="divide-y divide-zinc-800 max-h-80 overflow-y-auto">
         {items.length === 0 ? (
@@ -68,107 +146,124 @@ export default function Watchlist({
             <p className="text-xs text-gray-500 mt-1">Click the star icon on any market to add it</p>
           </div>
         ) : (
-          items.map(item => (
-            <div key={item.id} className="p-3 hover:bg-zinc-800/50 transition-colors">
-              <div className="flex items-center justify-between">
-                <Link 
-                  href={`/exchange?symbol=${item.id}`}
-                  className="flex-1 group"
-                >
-                  <p className="text-sm font-medium text-white group-hover:text-red-400 transition-colors">
-                    {item.symbol}
-                  </p>
-                  <div className="flex items-center gap-2 mt-1">
-                    <span className="text-sm text-gray-300">
-                      ₹{item.price.toLocaleString('en-IN', { minimumFractionDigits: 2 })}
-                    </span>
-                    <span className={`text-xs flex items-center ${
-                      item.changePercent >= 0 ? 'text-green-400' : 'text-red-400'
-                    }`}>
-                      {item.changePercent >= 0 ? (
-                        <ArrowUpRight className="w-3 h-3" />
-                      ) : (
-                        <ArrowDownRight className="w-3 h-3" />
-                      )}
-                      {Math.abs(item.changePercent).toFixed(2)}%
-                    </span>
-                  </div>
-                </Link>
+          items.map(item => {
+            const ticker = liveTickers[item.offeringId] ?? item.ticker;
+
+            return (
+              <div key={item.offeringId} className="p-3 hover:bg-zinc-800/50 transition-colors">
+                <div className="flex items-center justify-between">
+                  <Link
+                    href={`/exchange?symbol=${item.offeringId}`}
+                    className="flex-1 group"
+                  >
+                    <p className="text-sm font-medium text-white group-hover:text-red-400 transition-colors">
+                      {item.channelName}
+                    </p>
+                    <div className="flex items-center gap-2 mt-1">
+                      <span className="text-sm text-gray-300">
+                        ₹{formatPrice(ticker.lastPrice)}
+                      </span>
+                      <span className={`text-xs flex items-center ${
+                        ticker.changePercent24h >= 0 ? 'text-green-400' : 'text-red-400'
+                      }`}>
+                        {ticker.changePercent24h >= 0 ? (
+                          <ArrowUpRight className="w-3 h-3" />
+                        ) : (
+                          <ArrowDownRight className="w-3 h-3" />
+                        )}
+                        {Math.abs(ticker.changePercent24h).toFixed(2)}%
+                      </span>
+                    </div>
+                  </Link>
 
-                <div className="flex items-center gap-1">
-                  {/* Alert Button */}
-                  {onAlertToggle && (
+                  <div className="flex items-center gap-1">
+                    {/* Alert Button */}
                     <button
                       onClick={() => {
-                        if (item.alertEnabled) {
-                          onAlertToggle(item.id);
-                        } else {
-                          setEditingAlert(item.id);
-                          setAlertPrice(item.price.toFixed(2));
-                        }
+                        setEditingAlert(item.offeringId);
+                        setAlertPrice(ticker.lastPrice.toFixed(2));
+                        setAlertSource('LAST_TRADE');
                       }}
                       className={`p-1.5 rounded transition-colors ${
-                        item.alertEnabled 
-                          ? 'text-yellow-400 hover:text-yellow-300' 
+                        item.alerts.length > 0
+                          ? 'text-yellow-400 hover:text-yellow-300'
                           : 'text-gray-500 hover:text-gray-400'
                       }`}
-                      title={item.alertEnabled ? 'Alert enabled' : 'Set price alert'}
+                      title="Set price alert"
                     >
-                      {item.alertEnabled ? (
+                      {item.alerts.length > 0 ? (
                         <Bell className="w-4 h-4 fill-yellow-400" />
                       ) : (
                         <BellOff className="w-4 h-4" />
                       )}
                     </button>
-                  )}
-                  
-                  {/* Remove Button */}
-                  <button
-                    onClick={() => onRemove(item.id)}
-                    className="p-1.5 text-gray-500 hover:text-red-400 rounded transition-colors"
-                    title="Remove from watchlist"
-                  >
-                    <X className="w-4 h-4" />
-                  </button>
-                </div>
-              </div>
 
-              {/* Alert Price Input */}
-              {editingAlert === item.id && (
-                <div className="mt-2 flex items-center gap-2">
-                  <input
-                    type="number"
-                    value={alertPrice}
-                    onChange={(e) => setAlertPrice(e.target.value)}
-                    placeholder="Alert price"
-                    className="flex-1 px-2 py-1 text-sm bg-zinc-800 border border-zinc-700 rounded text-white focus:outline-none focus:border-red-600"
-                  />
-                  <button
-                    onClick={() => handleSetAlert(item.id)}
-                    className="px-2 py-1 text-xs bg-yellow-600 text-white rounded hover:bg-yellow-700"
-                  >
-                    Set
-                  </button>
-                  <button
-                    onClick={() => {
-                      setEditingAlert(null);
-                      setAlertPrice('');
-                    }}
-                    className="px-2 py-1 text-xs text-gray-400 hover:text-white"
-                  >
-                    Cancel
-                  </button>
+                    {/* Remove Button */}
+                    <button
+                      onClick={() => handleRemove(item.offeringId)}
+                      className="p-1.5 text-gray-500 hover:text-red-400 rounded transition-colors"
+                      title="Remove from watchlist"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
                 </div>
-              )}
 
-              {/* Show Alert Price if enabled */}
-              {item.alertEnabled && item.alertPrice && editingAlert !== item.id && (
-                <div className="mt-1 text-xs text-yellow-400">
-                  Alert at ₹{item.alertPrice.toLocaleString('en-IN', { minimumFractionDigits: 2 })}
-                </div>
-              )}
-            </div>
-          ))
+                {/* Alert Price Input */}
+                {editingAlert === item.offeringId && (
+                  <div className="mt-2 flex items-center gap-2">
+                    <input
+                      type="number"
+                      value={alertPrice}
+                      onChange={(e) => setAlertPrice(e.target.value)}
+                      placeholder="Alert price"
+                      className="flex-1 min-w-0 px-2 py-1 text-sm bg-zinc-800 border border-zinc-700 rounded text-white focus:outline-none focus:border-red-600"
+                    />
+                    <select
+                      value={alertSource}
+                      onChange={(e) => setAlertSource(e.target.value as AlertSource)}
+                      className="px-1 py-1 text-xs bg-zinc-800 border border-zinc-700 rounded text-white focus:outline-none focus:border-red-600"
+                    >
+                      {Object.entries(SOURCE_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => handleSetAlert(item.offeringId)}
+                      className="px-2 py-1 text-xs bg-yellow-600 text-white rounded hover:bg-yellow-700"
+                    >
+                      Set
+                    </button>
+                    <button
+                      onClick={() => {
+                        setEditingAlert(null);
+                        setAlertPrice('');
+                      }}
+                      className="px-2 py-1 text-xs text-gray-400 hover:text-white"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                )}
+
+                {/* Active alerts */}
+                {item.alerts.map(alert => (
+                  <div key={alert.id} className="mt-1 flex items-center justify-between text-xs text-yellow-400">
+                    <span>
+                      {SOURCE_LABELS[alert.source]} {alert.direction === 'ABOVE' ? '≥' : '≤'} ₹{formatPrice(alert.threshold)}
+                    </span>
+                    <button
+                      onClick={() => handleCancelAlert(alert.id)}
+                      className="text-gray-500 hover:text-red-400 transition-colors"
+                      title="Cancel alert"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            );
+          })
         )}
       </div>
     </div>
@@ -0,0 +1,147 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type {
+  BookLevel,
+  BookLevelChange,
+  MarketEvent,
+  OrderBookLevels,
+  Ticker,
+  TradePrint,
+} from '@/lib/services/market-data';
+
+const MAX_TRADES = 50;
+
+function applyBookChanges(book: OrderBookLevels, changes: BookLevelChange[]): OrderBookLevels {
+  let bids = book.bids;
+  let asks = book.asks;
+
+  for (const { side, ...level } of changes) {
+    const levels = (side === 'bid' ? bids : asks).filter((existing) => existing.price !== level.price);
+    if (level.shares > 0) levels.push(level as BookLevel);
+
+    if (side === 'bid') {
+      bids = levels.sort((a, b) => b.price - a.price);
+    } else {
+      asks = levels.sort((a, b) => a.price - b.price);
+    }
+  }
+
+  return { bids, asks };
+}
+
+function parseEvent(event: MessageEvent): MarketEvent | null {
+  try {
+    return JSON.parse(event.data) as MarketEvent;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Hook to follow an offering's live order book, trade prints and ticker
+ * over the exchange stream. Reconnects for a fresh snapshot if an update
+ * is missed.
+ */
+export function useMarketStream(offeringId: string | null) {
+  const [orderBook, setOrderBook] = useState<OrderBookLevels | null>(null);
+  const [trades, setTrades] = useState<TradePrint[]>([]);
+  const [ticker, setTicker] = useState<Ticker | null>(null);
+  const [connected, setConnected] = useState(false);
+  const [connection, setConnection] = useState(0);
+
+  const reconnect = useCallback(() => setConnection((n) => n + 1), []);
+
+  useEffect(() => {
+    setOrderBook(null);
+    setTrades([]);
+    setTicker(null);
+    setConnected(false);
+
+    if (!offeringId) return;
+
+    const source = new EventSource(`/api/exchange/stream?offeringId=${encodeURIComponent(offeringId)}`);
+    let lastSeq: number | null = null;
+
+    // Returns false (and reconnects) when an update was skipped
+    const inSequence = (event: MarketEvent) => {
+      if (lastSeq !== null && event.seq !== lastSeq + 1) {
+        source.close();
+        setConnected(false);
+        reconnect();
+        return false;
+      }
+      lastSeq = event.seq;
+      return true;
+    };
+
+    source.onopen = () => setConnected(true);
+    source.onerror = () => {
+      // EventSource retries on its own and the server resends a snapshot
+      setConnected(false);
+      lastSeq = null;
+    };
+
+    source.addEventListener('snapshot', (message) => {
+      const event = parseEvent(message as MessageEvent);
+      if (event?.type !== 'snapshot') return;
+      lastSeq = event.seq;
+      setOrderBook(event.book);
+      setTrades(event.trades);
+      setTicker(event.ticker);
+      setConnected(true);
+    });
+
+    source.addEventListener('book', (message) => {
+      const event = parseEvent(message as MessageEvent);
+      if (event?.type !== 'book' || !inSequence(event)) return;
+      setOrderBook((book) => (book ? applyBookChanges(book, event.changes) : book));
+    });
+
+    source.addEventListener('trade', (message) => {
+      const event = parseEvent(message as MessageEvent);
+      if (event?.type !== 'trade' || !inSequence(event)) return;
+      setTrades((previous) => [event.trade, ...previous.filter((t) => t.id !== event.trade.id)].slice(0, MAX_TRADES));
+    });
+
+    source.addEventListener('ticker', (message) => {
+      const event = parseEvent(message as MessageEvent);
+      if (event?.type !== 'ticker' || !inSequence(event)) return;
+      setTicker(event.ticker);
+    });
+
+    return () => source.close();
+  }, [offeringId, connection, reconnect]);
+
+  return {
+    orderBook,
+    trades,
+    ticker,
+    connected,
+    reconnect,
+  };
+}
+
+/**
+ * Hook to follow live tickers for several offerings at once
+ */
+export function useMarketTickers(offeringIds: string[]) {
+  const [tickers, setTickers] = useState<Record<string, Ticker>>({});
+  const key = offeringIds.slice().sort().join(',');
+
+  useEffect(() => {
+    if (!key) return;
+
+    const source = new EventSource(`/api/exchange/stream?offeringId=${encodeURIComponent(key)}&channels=ticker`);
+
+    source.addEventListener('ticker', (message) => {
+      const event = parseEvent(message as MessageEvent);
+      if (event?.type !== 'ticker') return;
+      setTickers((previous) => ({ ...previous, [event.offeringId]: event.ticker }));
+    });
+
+    return () => source.close();
+  }, [key]);
+
+  return tickers;
+}
@@ -7,3 +7,4 @@ export { default as MiniChart } from './MiniChart';
 export { default as MarketTickerBar } from './MarketTickerBar';
 export { default as Watchlist } from './Watchlist';
 export { default as PositionTracker } from './PositionTracker';
+export { useMarketStream, useMarketTickers } from './hooks';
@@ -11,13 +11,15 @@ import {
   FileText, Upload, Camera
 } from 'lucide-react';
 import { useKYC, useFileUpload } from './hooks';
-import { INDIAN_STATES, MAX_FILE_SIZE } from './constants';
+import { INDIAN_STATES, MAX_FILE_SIZE, MAX_PDF_SIZE } from './constants';
 import { 
   validatePan, validateAadhaar, validatePhoneNumber, 
   validatePincode, calculateAge, getStatusColor, getKycStatusLabel 
 } from './utils';
 import type { KYCFormData, KYCStatus } from './types';
 
+const PDF_PREVIEW = 'pdf';
+
 interface KYCTabProps {
   readonly onStatusChange?: (status: KYCStatus) => void;
 }
@@ -91,35 +93,36 @@ export function KYCTab({ onStatusChange }: KYCTabProps) {
     onStatusChange?.(kycStatus);
   }, [kycStatus, onStatusChange]);
 
+  // Identity documents may be PDFs; those get a placeholder instead of an image preview
+  const readDocument = (file: File, setPreview: (preview: string) => void): boolean => {
+    const isPdf = file.type === 'application/pdf';
+    if (file.size > (isPdf ? MAX_PDF_SIZE : MAX_FILE_SIZE)) {
+      setKycError(isPdf ? 'Document PDF must be less than 10MB' : 'Document image must be less than 5MB');
+      return false;
+    }
+    if (isPdf) {
+      setPreview(PDF_PREVIEW);
+      return true;
+    }
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      setPreview(reader.result as string);
+    };
+    reader.readAsDataURL(file);
+    return true;
+  };
+
   const handleDocumentFrontChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      if (file.size > MAX_FILE_SIZE) {
-        setKycError('Document image must be less than 5MB');
-        return;
-      }
+    if (file && readDocument(file, setDocumentFrontPreview)) {
       setKycFormData(prev => ({ ...prev, documentFrontImage: file }));
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setDocumentFrontPreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
     }
   };
 
   const handleDocumentBackChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      if (file.size > MAX_FILE_SIZE) {
-        setKycError('Document image must be less than 5MB');
-        return;
-      }
+    if (file && readDocument(file, setDocumentBackPreview)) {
       setKycFormData(prev => ({ ...prev, documentBackImage: file }));
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setDocumentBackPreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
     }
   };
 
@@ -240,18 +243,20 @@ export function KYCTab({ onStatusChange }: KYCTabProps) {
         aadhaarNumber: kycFormData.aadhaarNumber.replaceAll(/\s/g, ''),
         documentType: kycFormData.documentType,
         documentNumber: kycFormData.documentNumber || kycFormData.aadhaarNumber,
-        documents: {
-          front: documentFrontUrl,
-          back: documentBackUrl,
-          selfie: selfieUrl,
-        },
+        documentFrontUrl,
+        documentBackUrl,
+        selfieUrl,
       });
 
       const data = await response.json();
 
-      if (response.ok && data.success) {
-        setKycSuccess('KYC verification submitted successfully! We will review your documents within 24-48 hours.');
-        setKycStatus('PENDING');
+      if (response.ok && data.success && data.status === 'REJECTED') {
+        setKycError(data.message);
+        setKycStatus('REJECTED');
+        fetchKycStatus();
+      } else if (response.ok && data.success) {
+        setKycSuccess(data.message || 'KYC verification submitted successfully! We will review your documents within 24-48 hours.');
+        setKycStatus(data.status || 'PENDING');
         fetchKycStatus();
       } else {
         setKycError(data.error || 'Failed to submit KYC verification');
@@ -677,7 +682,7 @@ export function KYCTab({ onStatusChange }: KYCTabProps) {
                 Document Upload
               </h4>
               <p className="text-sm text-gray-400 mb-4">
-                Please upload clear images of your documents. Accepted formats: JPG, PNG (max 5MB each)
+                Please upload clear images or PDFs of your documents. Accepted formats: JPG, PNG, PDF for documents (max 5MB per image, 10MB per PDF); JPG, PNG for the selfie
               </p>
               <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                 {/* Document Front */}
@@ -690,11 +695,18 @@ export function KYCTab({ onStatusChange }: KYCTabProps) {
                   }`}>
                     {documentFrontPreview ? (
                       <div className="relative">
-                        <img 
-                          src={documentFrontPreview} 
-                          alt="Document Front" 
-                          className="w-full h-32 object-cover rounded-lg"
-                        />
+                        {documentFrontPreview === PDF_PREVIEW ? (
+                          <div className="w-full h-32 rounded-lg bg-zinc-800 flex flex-col items-center justify-center gap-2">
+                            <FileText className="w-8 h-8 text-gray-400" />
+                            <span className="text-xs text-gray-400 truncate max-w-full px-2">{kycFormData.documentFrontImage?.name}</span>
+                          </div>
+                        ) : (
+                          <img 
+                            src={documentFrontPreview} 
+                            alt="Document Front" 
+                            className="w-full h-32 object-cover rounded-lg"
+                          />
+                        )}
                         <button
                           type="button"
                           onClick={() => {
@@ -712,7 +724,7 @@ export function KYCTab({ onStatusChange }: KYCTabProps) {
                         <span className="text-sm text-gray-400">Click to upload</span>
                         <input
                           type="file"
-                          accept="image/jpeg,image/png,image/jpg"
+                          accept="image/jpeg,image/png,image/jpg,application/pdf"
                           onChange={handleDocumentFrontChange}
                           className="hidden"
                         />
@@ -732,11 +744,18 @@ export function KYCTab({ onStatusChange }: KYCTabProps) {
                     }`}>
                       {documentBackPreview ? (
                         <div className="relative">
-                          <img 
-                            src={documentBackPreview} 
-                            alt="Document Back" 
-                            className="w-full h-32 object-cover rounded-lg"
-                          />
+                          {documentBackPreview === PDF_PREVIEW ? (
+                            <div className="w-full h-32 rounded-lg bg-zinc-800 flex flex-col items-center justify-center gap-2">
+                              <FileText className="w-8 h-8 text-gray-400" />
+                              <span className="text-xs text-gray-400 truncate max-w-full px-2">{kycFormData.documentBackImage?.name}</span>
+                            </div>
+                          ) : (
+                            <img 
+                              src={documentBackPreview} 
+                              alt="Document Back" 
+                              className="w-full h-32 object-cover rounded-lg"
+                            />
+                          )}
                           <button
                             type="button"
                             onClick={() => {
@@ -754,7 +773,7 @@ export function KYCTab({ onStatusChange }: KYCTabProps) {
                           <span className="text-sm text-gray-400">Click to upload</span>
                           <input
                             type="file"
-                            accept="image/jpeg,image/png,image/jpg"
+                            accept="image/jpeg,image/png,image/jpg,application/pdf"
                             onChange={handleDocumentBackChange}
                             className="hidden"
                           />
@@ -0,0 +1,102 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Bell, Loader2, Mail } from 'lucide-react';
+import { useNotificationPreferences } from './hooks';
+import type { NotificationPreference } from './types';
+
+/**
+ * Notification preferences tab: in-app and email on/off per notification type
+ */
+export function NotificationsTab() {
+  const { preferences, isLoading, fetchPreferences, updatePreference } = useNotificationPreferences();
+  const [saving, setSaving] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchPreferences();
+  }, [fetchPreferences]);
+
+  const handleToggle = async (preference: NotificationPreference, channel: 'inApp' | 'email') => {
+    setError('');
+    setSaving(`${preference.type}:${channel}`);
+    try {
+      const response = await updatePreference(preference.type, channel, !preference[channel]);
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error || 'Failed to update preference');
+      }
+    } catch (err) {
+      console.error('Error updating notification preference:', err);
+      setError('Failed to update preference');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const renderToggle = (preference: NotificationPreference, channel: 'inApp' | 'email') => {
+    const enabled = preference[channel];
+    const isSaving = saving === `${preference.type}:${channel}`;
+
+    return (
+      <button
+        type="button"
+        role="switch"
+        aria-checked={enabled}
+        aria-label={`${preference.label} ${channel === 'inApp' ? 'in-app' : 'email'}`}
+        disabled={isSaving}
+        onClick={() => handleToggle(preference, channel)}
+        className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors disabled:opacity-50 ${
+          enabled ? 'bg-red-600' : 'bg-zinc-700'
+        }`}
+      >
+        <span
+          className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+            enabled ? 'translate-x-6' : 'translate-x-1'
+          }`}
+        />
+      </button>
+    );
+  };
+
+  return (
+    <Card className="bg-zinc-900 border-zinc-800 p-6">
+      <h3 className="text-lg font-bold text-white mb-1 flex items-center">
+        <Bell className="w-5 h-5 mr-2 text-red-600" />
+        Notification Preferences
+      </h3>
+      <p className="text-sm text-gray-400 mb-6">
+        Choose how you hear about activity on your account.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-500/10 border border-red-500/50 rounded-lg text-sm text-red-400">
+          {error}
+        </div>
+      )}
+
+      {isLoading && preferences.length === 0 ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-red-600" />
+        </div>
+      ) : (
+        <div className="divide-y divide-zinc-800">
+          <div className="flex items-center justify-end gap-8 pb-3 text-xs font-medium text-gray-400 uppercase">
+            <span className="flex items-center gap-1 w-11 justify-center"><Bell className="w-3.5 h-3.5" />App</span>
+            <span className="flex items-center gap-1 w-11 justify-center"><Mail className="w-3.5 h-3.5" />Email</span>
+          </div>
+          {preferences.map((preference) => (
+            <div key={preference.type} className="flex items-center justify-between py-3">
+              <span className="text-sm text-white">{preference.label}</span>
+              <div className="flex items-center gap-8">
+                {renderToggle(preference, 'inApp')}
+                {renderToggle(preference, 'email')}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
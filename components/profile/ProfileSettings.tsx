@@ -2,12 +2,13 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useSearchParams } from 'next/navigation';
-import { User, Shield, Wallet, Building, Clock } from 'lucide-react';
+import { User, Shield, Wallet, Building, Clock, Bell } from 'lucide-react';
 import { ProfileTab } from './ProfileTab';
 import { KYCTab } from './KYCTab';
 import { WalletTab } from './WalletTab';
 import { BankAccountsTab } from './BankAccountsTab';
 import { HistoryTab } from './HistoryTab';
+import { NotificationsTab } from './NotificationsTab';
 import type { ProfileTab as TabType, KYCStatus } from './types';
 
 /**
@@ -23,7 +24,7 @@ export default function ProfileSettings() {
   // Check for tab query parameter
   useEffect(() => {
     const tab = searchParams.get('tab');
-    if (tab && ['profile', 'kyc', 'wallet', 'bank', 'history'].includes(tab)) {
+    if (tab && ['profile', 'kyc', 'wallet', 'bank', 'history', 'notifications'].includes(tab)) {
       setActiveTab(tab as TabType);
     }
   }, [searchParams]);
@@ -67,6 +68,7 @@ export default function ProfileSettings() {
     { id: 'wallet' as const, label: 'Wallet', icon: Wallet },
     { id: 'bank' as const, label: 'Bank Accounts', icon: Building },
     { id: 'history' as const, label: 'History', icon: Clock },
+    { id: 'notifications' as const, label: 'Notifications', icon: Bell },
   ];
 
   return (
@@ -112,6 +114,8 @@ export default function ProfileSettings() {
       )}
       
       {activeTab === 'history' && <HistoryTab />}
+
+      {activeTab === 'notifications' && <NotificationsTab />}
     </div>
   );
 }
@@ -190,7 +190,7 @@ export function WalletTab({ onTabChange, paymentSuccessMessage, onDismissMessage
       return;
     }
 
-    const availableBalance = (walletData?.balance || 0) - (walletData?.lockedBalance || 0);
+    const availableBalance = walletData?.balance || 0;
     if (amount > availableBalance) {
       setWithdrawError(`Insufficient balance. Available: ${formatCurrency(availableBalance)}`);
       return;
@@ -227,7 +227,7 @@ export function WalletTab({ onTabChange, paymentSuccessMessage, onDismissMessage
   };
 
   const verifiedBankAccounts = bankAccounts.filter((b: BankAccount) => b.isVerified && b.status === 'VERIFIED');
-  const availableBalance = (walletData?.balance || 0) - (walletData?.lockedBalance || 0);
+  const availableBalance = walletData?.balance || 0;
   const withdrawalFee = Number.parseFloat(withdrawAmount || '0') * WITHDRAWAL_FEE_PERCENT;
 
   if (isLoadingWallet) {
@@ -46,3 +46,4 @@ export const WITHDRAW_MIN = 60;
 export const WITHDRAWAL_FEE_PERCENT = 0.015;
 export const MAX_BANK_ACCOUNTS = 5;
 export const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+export const MAX_PDF_SIZE = 10 * 1024 * 1024; // 10MB, identity documents only
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useCallback } from 'react';
-import type { WalletData, Transaction, BankAccount, Withdrawal, KYCData, KYCStatus } from './types';
+import type { WalletData, Transaction, BankAccount, Withdrawal, KYCData, KYCStatus, NotificationPreference } from './types';
 
 /**
  * Hook to manage wallet data fetching
@@ -215,11 +215,12 @@ export function useFileUpload() {
       body: formData,
     });
 
+    const data = await response.json().catch(() => ({}));
+
     if (!response.ok) {
-      throw new Error(`Failed to upload ${type || 'file'}`);
+      throw new Error(data.error || `Failed to upload ${type || 'file'}`);
     }
 
-    const data = await response.json();
     return data.url;
   }, []);
 
@@ -248,3 +249,41 @@ export function useDeposit() {
 
   return { isLoading, createDeposit };
 }
+
+/**
+ * Hook to manage notification channel preferences
+ */
+export function useNotificationPreferences() {
+  const [preferences, setPreferences] = useState<NotificationPreference[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchPreferences = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/notifications/preferences');
+      if (response.ok) {
+        const data = await response.json();
+        setPreferences(data.preferences || []);
+      }
+    } catch (error) {
+      console.error('Error fetching notification preferences:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const updatePreference = useCallback(async (type: string, channel: 'inApp' | 'email', enabled: boolean) => {
+    const response = await fetch('/api/notifications/preferences', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ preferences: [{ type, [channel]: enabled }] }),
+    });
+    if (response.ok) {
+      const data = await response.json();
+      setPreferences(data.preferences || []);
+    }
+    return response;
+  }, []);
+
+  return { preferences, isLoading, fetchPreferences, updatePreference };
+}
@@ -8,6 +8,7 @@ export { KYCTab } from './KYCTab';
 export { WalletTab } from './WalletTab';
 export { BankAccountsTab } from './BankAccountsTab';
 export { HistoryTab } from './HistoryTab';
+export { NotificationsTab } from './NotificationsTab';
 
 // UI Components
 export { StatusBadge } from './StatusBadge';
@@ -19,7 +20,8 @@ export {
   useWithdrawals, 
   useKYC, 
   useFileUpload, 
-  useDeposit 
+  useDeposit,
+  useNotificationPreferences
 } from './hooks';
 
 // Types
@@ -32,7 +34,8 @@ export type {
   KYCFormData, 
   NewBankData, 
   ProfileTab as ProfileTabType,
-  KYCStatus 
+  KYCStatus,
+  NotificationPreference
 } from './types';
 
 // Utils
@@ -104,5 +104,12 @@ export interface NewBankData {
   setAsDefault: boolean;
 }
 
-export type ProfileTab = 'profile' | 'kyc' | 'wallet' | 'bank' | 'history';
+export interface NotificationPreference {
+  type: string;
+  label: string;
+  inApp: boolean;
+  email: boolean;
+}
+
+export type ProfileTab = 'profile' | 'kyc' | 'wallet' | 'bank' | 'history' | 'notifications';
 export type KYCStatus = 'PENDING' | 'VERIFIED' | 'REJECTED' | 'NOT_SUBMITTED';
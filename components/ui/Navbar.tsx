@@ -4,8 +4,9 @@ import { useState } from 'react';
 import Link from 'next/link';
 import { useSession, signOut } from 'next-auth/react';
 import { Button } from '@/components/ui/button';
-import { Menu, Video, Bell, User, Search, Shield, TrendingUp } from 'lucide-react';
+import { Menu, Video, User, Search, Shield, TrendingUp } from 'lucide-react';
 import { useRouter } from 'next/navigation';
+import NotificationInbox from '@/components/ui/NotificationInbox';
 
 export default function Navbar() {
   const { data: session, status } = useSession();
@@ -91,9 +92,7 @@ export default function Navbar() {
             if (session) {
               return (
                 <div className="flex items-center space-x-3">
-                  <button className="p-2 hover:bg-zinc-800/50 rounded-full transition-colors text-gray-300 hover:text-white">
-                    <Bell className="w-5 h-5" />
-                  </button>
+                  <NotificationInbox />
                   <div className="relative group">
                     <button 
                       onClick={() => router.push('/profile')}
@@ -0,0 +1,163 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Bell, CheckCheck, Settings } from 'lucide-react';
+
+interface InboxNotification {
+  id: string;
+  type: string;
+  title: string;
+  body: string;
+  link: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+// How often the unread count is refreshed while the page is open
+const POLL_INTERVAL_MS = 60 * 1000;
+
+function timeAgo(date: string): string {
+  const seconds = Math.floor((Date.now() - new Date(date).getTime()) / 1000);
+  if (seconds < 60) return 'just now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  return `${Math.floor(seconds / 86400)}d ago`;
+}
+
+/**
+ * Bell icon with unread count and a dropdown of recent notifications
+ */
+export default function NotificationInbox() {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [notifications, setNotifications] = useState<InboxNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const response = await fetch('/api/notifications?limit=15');
+      const data = await response.json();
+      if (data.success) {
+        setNotifications(data.notifications);
+        setUnreadCount(data.unreadCount);
+      }
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchNotifications();
+    const interval = setInterval(fetchNotifications, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchNotifications]);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const markRead = async (body: { ids: string[] } | { all: true }) => {
+    await fetch('/api/notifications', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    fetchNotifications();
+  };
+
+  const handleOpenNotification = async (notification: InboxNotification) => {
+    setIsOpen(false);
+    if (!notification.readAt) {
+      await markRead({ ids: [notification.id] });
+    }
+    if (notification.link) {
+      router.push(notification.link);
+    }
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => {
+          setIsOpen(!isOpen);
+          if (!isOpen) fetchNotifications();
+        }}
+        className="relative p-2 hover:bg-zinc-800/50 rounded-full transition-colors text-gray-300 hover:text-white"
+        aria-label="Notifications"
+      >
+        <Bell className="w-5 h-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 bg-red-600 rounded-full text-[10px] font-semibold text-white flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-80 bg-zinc-900 border border-zinc-700/50 rounded-lg shadow-xl z-50">
+          <div className="flex items-center justify-between p-3 border-b border-zinc-700/50">
+            <span className="text-sm font-medium text-white">Notifications</span>
+            <div className="flex items-center gap-2">
+              {unreadCount > 0 && (
+                <button
+                  onClick={() => markRead({ all: true })}
+                  className="flex items-center gap-1 text-xs text-gray-400 hover:text-white transition-colors"
+                >
+                  <CheckCheck className="w-3.5 h-3.5" />
+                  Mark all read
+                </button>
+              )}
+              <button
+                onClick={() => {
+                  setIsOpen(false);
+                  router.push('/profile?tab=notifications');
+                }}
+                className="p-1 text-gray-400 hover:text-white transition-colors"
+                aria-label="Notification settings"
+              >
+                <Settings className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.length === 0 ? (
+              <div className="p-6 text-center text-sm text-gray-400">No notifications yet</div>
+            ) : (
+              notifications.map((notification) => (
+                <button
+                  key={notification.id}
+                  onClick={() => handleOpenNotification(notification)}
+                  className={`w-full text-left px-3 py-3 border-b border-zinc-800 last:border-b-0 hover:bg-zinc-800/50 transition-colors ${
+                    notification.readAt ? '' : 'bg-red-600/5'
+                  }`}
+                >
+                  <div className="flex items-start gap-2">
+                    {!notification.readAt && (
+                      <span className="mt-1.5 w-2 h-2 bg-red-600 rounded-full shrink-0" />
+                    )}
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium text-white">{notification.title}</div>
+                      <div className="text-xs text-gray-400 mt-0.5 line-clamp-2">{notification.body}</div>
+                      <div className="text-[11px] text-gray-500 mt-1">{timeAgo(notification.createdAt)}</div>
+                    </div>
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+/**
+ * Next.js instrumentation hook - runs once when a server instance boots.
+ * Starts the background job scheduler (set JOB_SCHEDULER_ENABLED=false to
+ * run an instance without it).
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+  if (process.env.JOB_SCHEDULER_ENABLED === 'false') return;
+
+  const { jobScheduler } = await import('@/lib/jobs');
+  jobScheduler.start();
+}
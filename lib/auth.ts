@@ -61,9 +61,11 @@ export const authOptions: NextAuthOptions = {
           prompt: "consent",
           access_type: "offline",
           response_type: "code",
-          // Basic OAuth scopes - additional scopes (like YouTube) should be requested
-          // separately when specific features require them
-          scope: "openid email profile"
+          // Basic OAuth scopes - additional scopes (like YouTube revenue access) are
+          // requested separately when specific features require them. Keep scopes
+          // granted earlier, so signing in again does not drop them.
+          scope: "openid email profile",
+          include_granted_scopes: "true"
         }
       }
     }),
@@ -119,6 +121,21 @@ export const authOptions: NextAuthOptions = {
             where: { email: user.email }
           });
 
+          // The adapter saves tokens only when an account is first linked. Keep
+          // them current so scopes granted later (revenue access) are stored.
+          if (account.access_token) {
+            await prisma.account.updateMany({
+              where: { provider: account.provider, providerAccountId: account.providerAccountId },
+              data: {
+                access_token: account.access_token,
+                expires_at: account.expires_at,
+                scope: account.scope,
+                id_token: account.id_token,
+                ...(account.refresh_token && { refresh_token: account.refresh_token }),
+              },
+            });
+          }
+
           if (existingUser) {
             // Update existing user's profile with latest OAuth data
             // Preserve existing values if OAuth doesn't provide new ones
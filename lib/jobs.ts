@@ -0,0 +1,151 @@
+/**
+ * Background jobs
+ *
+ * Every periodic task the platform runs is registered here. Import
+ * `jobScheduler` from this module (not from the service) so the job
+ * registry is always populated.
+ */
+
+import { dexEscrowService } from '@/lib/services/dex-escrow';
+import { emailService } from '@/lib/services/email';
+import { jobScheduler } from '@/lib/services/job-scheduler';
+import { KYCService } from '@/lib/services/kyc';
+import { matchingEngine } from '@/lib/services/matching-engine';
+import { notificationService } from '@/lib/services/notifications';
+import { offeringLifecycleService } from '@/lib/services/offering-lifecycle';
+import { priceAlertService } from '@/lib/services/price-alerts';
+import { revenueIngestionService } from '@/lib/services/revenue-ingestion';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const kycService = new KYCService();
+
+jobScheduler.register({
+  name: 'escrow-distributions',
+  description: 'Distribute verified escrow deposits to creators and investors',
+  intervalMs: 15 * MINUTE,
+  maxAttempts: 5,
+  handler: async () => {
+    const { distributed, failed } = await dexEscrowService.processAllPendingDistributions();
+
+    // Fail the run so the remaining deposits are retried with backoff
+    if (failed.length > 0) {
+      throw new Error(`Distributed ${distributed} deposit(s); failed: ${failed.join(', ')}`);
+    }
+
+    return { distributed };
+  },
+});
+
+jobScheduler.register({
+  name: 'claim-expiry',
+  description: 'Expire escrow claims left unclaimed past their expiry date',
+  intervalMs: HOUR,
+  handler: async () => {
+    const expired = await dexEscrowService.expireOldClaims();
+    return { expired };
+  },
+});
+
+jobScheduler.register({
+  name: 'order-expiry',
+  description: 'Expire sell and buy orders past their expiresAt and release locked funds',
+  intervalMs: 5 * MINUTE,
+  handler: async () => {
+    const { sellOrdersExpired, buyOrdersExpired } = await matchingEngine.expireStaleOrders();
+    return { sellOrdersExpired, buyOrdersExpired };
+  },
+});
+
+jobScheduler.register({
+  name: 'revenue-ingestion',
+  description: 'Pull monthly channel revenue from YouTube Analytics into escrow deposits',
+  intervalMs: 24 * HOUR,
+  maxAttempts: 3,
+  handler: async () => {
+    const { results, failed } = await revenueIngestionService.ingestAll();
+    const deposits = results.reduce(
+      (total, channel) => total + channel.months.reduce((n, month) => n + month.deposits.length, 0),
+      0
+    );
+
+    if (failed.length > 0) {
+      throw new Error(
+        `Ingested ${deposits} deposit(s); failed channels: ${failed.map(f => `${f.channelId} (${f.error})`).join(', ')}`
+      );
+    }
+
+    return { channels: results.length, deposits };
+  },
+});
+
+jobScheduler.register({
+  name: 'offering-maturity',
+  description: 'Wind down offerings at the end of their term: final distribution, buyback and token burn',
+  intervalMs: HOUR,
+  maxAttempts: 3,
+  handler: async () => {
+    const { matured, deferred, failed } = await offeringLifecycleService.matureDueOfferings();
+
+    if (failed.length > 0) {
+      throw new Error(
+        `Matured ${matured.length} offering(s); failed: ${failed.map(f => `${f.offeringId} (${f.error})`).join(', ')}`
+      );
+    }
+
+    return {
+      matured: matured.length,
+      deferred: deferred.map(d => `${d.offeringId}: ${d.reason}`),
+    };
+  },
+});
+
+jobScheduler.register({
+  name: 'kyc-verification-poll',
+  description: 'Fetch decisions for KYC verifications still waiting on the provider',
+  intervalMs: 10 * MINUTE,
+  handler: async () => {
+    const { polled, decided, failed } = await kycService.pollPendingVerifications();
+
+    if (failed.length > 0) {
+      throw new Error(
+        `Polled ${polled} verification(s); failed: ${failed.map(f => `${f.verificationId} (${f.error})`).join(', ')}`
+      );
+    }
+
+    return { polled, decided };
+  },
+});
+
+jobScheduler.register({
+  name: 'email-outbox',
+  description: 'Send queued notification emails, retrying failed deliveries with backoff',
+  intervalMs: MINUTE,
+  handler: async () => {
+    const { sent, retrying, failed } = await emailService.processOutbox();
+    return { sent, retrying, failed };
+  },
+});
+
+jobScheduler.register({
+  name: 'claim-expiry-reminders',
+  description: 'Remind users of unclaimed escrow claims that expire within a week',
+  intervalMs: 6 * HOUR,
+  handler: async () => {
+    const reminded = await notificationService.sendClaimExpiryReminders();
+    return { reminded };
+  },
+});
+
+jobScheduler.register({
+  name: 'price-alerts',
+  description: 'Fire price alerts whose last trade or best ask has crossed the threshold',
+  intervalMs: MINUTE,
+  handler: async () => {
+    const { evaluated, triggered } = await priceAlertService.evaluateAlerts();
+    return { evaluated, triggered };
+  },
+});
+
+export { jobScheduler };
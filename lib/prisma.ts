@@ -1,4 +1,4 @@
-import { PrismaClient } from '@prisma/client'
+import { Prisma, PrismaClient } from '@prisma/client'
 
 const globalForPrisma = globalThis as unknown as {
   prisma: PrismaClient | undefined
@@ -10,4 +10,12 @@ export const prisma =
     log: ['query'],
   })
 
-if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = prisma
\ No newline at end of file
+if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = prisma
+
+// Money columns are Decimal. API responses keep sending them as JSON numbers
+// (already rounded to the paisa) so clients can format them directly.
+Object.defineProperty(Prisma.Decimal.prototype, 'toJSON', {
+  value: function (this: Prisma.Decimal) {
+    return this.toNumber()
+  },
+})
@@ -0,0 +1,344 @@
+/**
+ * Candle Service
+ *
+ * Maintains OHLCV candles per offering at every resolution, so price
+ * charts never have to scan the trade table.
+ *
+ * - The matching engine calls `recordTrade()` inside the transaction that
+ *   completes a trade. One upsert folds the trade into the bucket of each
+ *   resolution; open and close are decided by trade time, so concurrent
+ *   fills in the same bucket cannot overwrite each other.
+ * - `backfill()` rebuilds candles from the trade history
+ *   (`npm run candles:backfill`). Use it after adding a resolution or to
+ *   repair an offering's candles.
+ * - Buckets are aligned to UTC. Weeks start on Monday; months on the 1st.
+ * - VWAP is turnover / volume for the bucket.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { CandleResolution, Prisma, Trade } from '@prisma/client';
+import { Money, money, toNumber } from '@/lib/utils/money';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Fixed-width resolutions; WEEK_1 and MONTH_1 follow the calendar
+const BUCKET_MS: Partial<Record<CandleResolution, number>> = {
+  MINUTE_1: MINUTE,
+  MINUTE_5: 5 * MINUTE,
+  MINUTE_15: 15 * MINUTE,
+  HOUR_1: HOUR,
+  HOUR_4: 4 * HOUR,
+  DAY_1: DAY,
+};
+
+export const CANDLE_RESOLUTIONS: CandleResolution[] = [
+  'MINUTE_1',
+  'MINUTE_5',
+  'MINUTE_15',
+  'HOUR_1',
+  'HOUR_4',
+  'DAY_1',
+  'WEEK_1',
+  'MONTH_1',
+];
+
+// Chart timeframes: how far back to look and at which resolution
+export const CHART_TIMEFRAMES: Record<string, { resolution: CandleResolution; rangeMs: number }> = {
+  '1H': { resolution: 'MINUTE_1', rangeMs: HOUR },
+  '4H': { resolution: 'MINUTE_5', rangeMs: 4 * HOUR },
+  '1D': { resolution: 'MINUTE_15', rangeMs: DAY },
+  '1W': { resolution: 'HOUR_4', rangeMs: 7 * DAY },
+  '1M': { resolution: 'DAY_1', rangeMs: 30 * DAY },
+  '1Y': { resolution: 'WEEK_1', rangeMs: 365 * DAY },
+};
+
+// Upper bound on buckets returned by one query
+const MAX_CANDLES = 1500;
+const BACKFILL_BATCH_SIZE = 1000;
+
+export interface CandlePoint {
+  time: number; // Bucket start, unix seconds
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  vwap: number | null; // null for buckets without trades
+  trades: number;
+}
+
+export interface CandleQuery {
+  from: Date;
+  to?: Date;
+}
+
+type CandleTrade = Pick<Trade, 'offeringId' | 'shares' | 'pricePerShare' | 'totalAmount' | 'createdAt' | 'completedAt'>;
+
+interface CandleAccumulator {
+  bucketStart: Date;
+  open: Money;
+  high: Money;
+  low: Money;
+  close: Money;
+  volume: number;
+  turnover: Money;
+  tradeCount: number;
+  firstTradeAt: Date;
+  lastTradeAt: Date;
+}
+
+/**
+ * UTC start of the bucket containing `date`
+ */
+export function bucketStart(date: Date, resolution: CandleResolution): Date {
+  const width = BUCKET_MS[resolution];
+  if (width) {
+    return new Date(Math.floor(date.getTime() / width) * width);
+  }
+
+  if (resolution === 'WEEK_1') {
+    const day = new Date(Math.floor(date.getTime() / DAY) * DAY);
+    const daysSinceMonday = (day.getUTCDay() + 6) % 7;
+    return new Date(day.getTime() - daysSinceMonday * DAY);
+  }
+
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+/**
+ * Start of the bucket after the one starting at `start`
+ */
+export function nextBucket(start: Date, resolution: CandleResolution): Date {
+  const width = BUCKET_MS[resolution];
+  if (width) return new Date(start.getTime() + width);
+  if (resolution === 'WEEK_1') return new Date(start.getTime() + 7 * DAY);
+  return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+}
+
+/**
+ * Start of the oldest of the MAX_CANDLES buckets ending with the one
+ * starting at `last`
+ */
+function windowStart(last: Date, resolution: CandleResolution): Date {
+  const width = BUCKET_MS[resolution] ?? (resolution === 'WEEK_1' ? 7 * DAY : undefined);
+  if (width) return new Date(last.getTime() - (MAX_CANDLES - 1) * width);
+  return new Date(Date.UTC(last.getUTCFullYear(), last.getUTCMonth() - (MAX_CANDLES - 1), 1));
+}
+
+function tradeTime(trade: CandleTrade): Date {
+  return trade.completedAt ?? trade.createdAt;
+}
+
+export class CandleService {
+  /**
+   * Fold a completed trade into its candles. Call inside the transaction
+   * that completes the trade.
+   */
+  async recordTrade(tx: Prisma.TransactionClient, trade: CandleTrade): Promise<void> {
+    const at = tradeTime(trade);
+    const price = money(trade.pricePerShare);
+    const turnover = money(trade.totalAmount);
+
+    const rows = CANDLE_RESOLUTIONS.map((resolution) => Prisma.sql`(
+      ${trade.offeringId}, ${resolution}::"CandleResolution", ${bucketStart(at, resolution)},
+      ${price}, ${price}, ${price}, ${price}, ${trade.shares}, ${turnover}, 1, ${at}, ${at}, NOW()
+    )`);
+
+    await tx.$executeRaw`
+      INSERT INTO "candles" (
+        "offeringId", "resolution", "bucketStart",
+        "open", "high", "low", "close", "volume", "turnover", "tradeCount",
+        "firstTradeAt", "lastTradeAt", "updatedAt"
+      )
+      VALUES ${Prisma.join(rows)}
+      ON CONFLICT ("offeringId", "resolution", "bucketStart") DO UPDATE SET
+        "open" = CASE WHEN EXCLUDED."firstTradeAt" < "candles"."firstTradeAt" THEN EXCLUDED."open" ELSE "candles"."open" END,
+        "close" = CASE WHEN EXCLUDED."lastTradeAt" >= "candles"."lastTradeAt" THEN EXCLUDED."close" ELSE "candles"."close" END,
+        "high" = GREATEST("candles"."high", EXCLUDED."high"),
+        "low" = LEAST("candles"."low", EXCLUDED."low"),
+        "volume" = "candles"."volume" + EXCLUDED."volume",
+        "turnover" = "candles"."turnover" + EXCLUDED."turnover",
+        "tradeCount" = "candles"."tradeCount" + 1,
+        "firstTradeAt" = LEAST("candles"."firstTradeAt", EXCLUDED."firstTradeAt"),
+        "lastTradeAt" = GREATEST("candles"."lastTradeAt", EXCLUDED."lastTradeAt"),
+        "updatedAt" = NOW()
+    `;
+  }
+
+  /**
+   * Candles for a time range, oldest first. Buckets without trades are
+   * filled flat at the previous close, starting from the first bucket
+   * that has a price. A range longer than MAX_CANDLES buckets is cut to
+   * its latest MAX_CANDLES.
+   */
+  async getCandles(offeringId: string, resolution: CandleResolution, query: CandleQuery): Promise<CandlePoint[]> {
+    const to = query.to ?? new Date();
+    const lastBucket = bucketStart(to, resolution);
+    const requestedFirst = bucketStart(query.from, resolution);
+    const earliest = windowStart(lastBucket, resolution);
+    const firstBucket = requestedFirst > earliest ? requestedFirst : earliest;
+
+    const [previous, candles] = await Promise.all([
+      prisma.candle.findFirst({
+        where: { offeringId, resolution, bucketStart: { lt: firstBucket } },
+        select: { close: true },
+        orderBy: { bucketStart: 'desc' },
+      }),
+      prisma.candle.findMany({
+        where: { offeringId, resolution, bucketStart: { gte: firstBucket, lte: lastBucket } },
+        orderBy: { bucketStart: 'asc' },
+        take: MAX_CANDLES,
+      }),
+    ]);
+
+    if (!previous && candles.length === 0) return [];
+
+    const byBucket = new Map(candles.map((candle) => [candle.bucketStart.getTime(), candle]));
+    const points: CandlePoint[] = [];
+    let lastClose = previous ? toNumber(previous.close) : null;
+    let bucket = previous ? firstBucket : candles[0].bucketStart;
+
+    while (bucket <= lastBucket && points.length < MAX_CANDLES) {
+      const candle = byBucket.get(bucket.getTime());
+
+      if (candle) {
+        points.push({
+          time: Math.floor(bucket.getTime() / 1000),
+          open: toNumber(candle.open),
+          high: toNumber(candle.high),
+          low: toNumber(candle.low),
+          close: toNumber(candle.close),
+          volume: candle.volume,
+          vwap: candle.volume > 0 ? toNumber(candle.turnover.dividedBy(candle.volume)) : null,
+          trades: candle.tradeCount,
+        });
+        lastClose = toNumber(candle.close);
+      } else if (lastClose !== null) {
+        points.push({
+          time: Math.floor(bucket.getTime() / 1000),
+          open: lastClose,
+          high: lastClose,
+          low: lastClose,
+          close: lastClose,
+          volume: 0,
+          vwap: null,
+          trades: 0,
+        });
+      }
+
+      bucket = nextBucket(bucket, resolution);
+    }
+
+    return points;
+  }
+
+  /**
+   * Rebuild candles from completed trades. Replaces the existing candles
+   * of each offering processed. Run while the offering is not trading, or
+   * trades that complete mid-rebuild may be missed.
+   */
+  async backfill(offeringId?: string): Promise<{ offerings: number; trades: number; candles: number }> {
+    const offerings = await prisma.offering.findMany({
+      where: offeringId ? { id: offeringId } : undefined,
+      select: { id: true },
+    });
+
+    let tradesProcessed = 0;
+    let candlesWritten = 0;
+
+    for (const offering of offerings) {
+      const buckets = new Map<CandleResolution, Map<number, CandleAccumulator>>(
+        CANDLE_RESOLUTIONS.map((resolution) => [resolution, new Map()])
+      );
+
+      let cursor: string | undefined;
+      for (;;) {
+        const trades = await prisma.trade.findMany({
+          where: { offeringId: offering.id, status: 'COMPLETED' },
+          select: {
+            id: true,
+            offeringId: true,
+            shares: true,
+            pricePerShare: true,
+            totalAmount: true,
+            createdAt: true,
+            completedAt: true,
+          },
+          orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+          take: BACKFILL_BATCH_SIZE,
+          ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+        });
+
+        for (const trade of trades) {
+          for (const resolution of CANDLE_RESOLUTIONS) {
+            this.accumulate(buckets.get(resolution)!, resolution, trade);
+          }
+        }
+
+        tradesProcessed += trades.length;
+        if (trades.length < BACKFILL_BATCH_SIZE) break;
+        cursor = trades[trades.length - 1].id;
+      }
+
+      const data: Prisma.CandleCreateManyInput[] = [];
+      for (const [resolution, candles] of buckets) {
+        for (const candle of candles.values()) {
+          data.push({ offeringId: offering.id, resolution, ...candle });
+        }
+      }
+
+      await prisma.$transaction(async (tx) => {
+        await tx.candle.deleteMany({ where: { offeringId: offering.id } });
+        for (let i = 0; i < data.length; i += BACKFILL_BATCH_SIZE) {
+          await tx.candle.createMany({ data: data.slice(i, i + BACKFILL_BATCH_SIZE) });
+        }
+      }, { timeout: 60 * 1000 });
+
+      candlesWritten += data.length;
+    }
+
+    return { offerings: offerings.length, trades: tradesProcessed, candles: candlesWritten };
+  }
+
+  private accumulate(candles: Map<number, CandleAccumulator>, resolution: CandleResolution, trade: CandleTrade) {
+    const at = tradeTime(trade);
+    const start = bucketStart(at, resolution);
+    const price = money(trade.pricePerShare);
+    const candle = candles.get(start.getTime());
+
+    if (!candle) {
+      candles.set(start.getTime(), {
+        bucketStart: start,
+        open: price,
+        high: price,
+        low: price,
+        close: price,
+        volume: trade.shares,
+        turnover: money(trade.totalAmount),
+        tradeCount: 1,
+        firstTradeAt: at,
+        lastTradeAt: at,
+      });
+      return;
+    }
+
+    if (at < candle.firstTradeAt) {
+      candle.open = price;
+      candle.firstTradeAt = at;
+    }
+    if (at >= candle.lastTradeAt) {
+      candle.close = price;
+      candle.lastTradeAt = at;
+    }
+    if (price.greaterThan(candle.high)) candle.high = price;
+    if (price.lessThan(candle.low)) candle.low = price;
+    candle.volume += trade.shares;
+    candle.turnover = candle.turnover.plus(trade.totalAmount);
+    candle.tradeCount += 1;
+  }
+}
+
+// Singleton instance
+export const candleService = new CandleService();
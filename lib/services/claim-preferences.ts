@@ -0,0 +1,311 @@
+/**
+ * Claim Preference Service
+ *
+ * Each user chooses what happens to their escrow claims right after a
+ * distribution (see DEXEscrowService.applyClaimPreferences):
+ * - MANUAL: nothing; claim by hand before CLAIM_EXPIRY_DAYS run out
+ * - AUTO_CLAIM: swept into the wallet
+ * - REINVEST: swept into the wallet, then put back into the same offering
+ *
+ * Reinvestment buys unsold primary shares at the offering price while the
+ * offering is still raising; otherwise it places a limit bid on the order
+ * book at no more than the user's premium over the best ask. Only whole
+ * shares are bought, so what is left over stays in the wallet. Creator
+ * claims are swept but never reinvested in the creator's own offering.
+ *
+ * Reinvestments go through the same tier limits and transfer rules as a
+ * purchase the user makes themselves, and primary purchases stay within
+ * the offering's maximum investment. The offering's minimum investment
+ * does not apply, as distributions rarely reach it. Each is recorded as a
+ * ClaimReinvestment and posted to the ledger: a primary purchase as its
+ * own journal entry, a bid as the lock on the buyer's wallet (fills then
+ * post as trades).
+ */
+
+import { prisma } from '@/lib/prisma';
+import { ClaimMode, ClaimReinvestment, Prisma } from '@prisma/client';
+import { LedgerAccounts, ledgerService } from '@/lib/services/ledger';
+import { Money, MoneyInput, formatINR, min, money, multiply, percentOf } from '@/lib/utils/money';
+import { matchingEngine } from '@/lib/services/matching-engine';
+import { transferRulesService } from '@/lib/services/transfer-rules';
+import { investorTierService } from '@/lib/services/investor-tiers';
+
+const MAX_PREMIUM_PERCENT = 50;
+const REINVEST_BID_DAYS = 7; // Unfilled reinvestment bids expire and unlock after this
+
+export interface ClaimPreferenceSettings {
+  mode: ClaimMode;
+  maxPremiumPercent: number;
+}
+
+export const DEFAULT_CLAIM_PREFERENCE: ClaimPreferenceSettings = {
+  mode: 'MANUAL',
+  maxPremiumPercent: 5,
+};
+
+export type ReinvestmentOutcome =
+  | { reinvested: true; reinvestment: ClaimReinvestment }
+  | { reinvested: false; reason: string };
+
+// The claim whose proceeds, already in the wallet, are being reinvested
+export interface ReinvestableClaim {
+  id: string;
+  userId: string;
+  offeringId: string;
+  amount: MoneyInput;
+}
+
+export class ClaimPreferenceService {
+  async getPreference(userId: string): Promise<ClaimPreferenceSettings> {
+    const saved = await prisma.claimPreference.findUnique({ where: { userId } });
+    return saved
+      ? { mode: saved.mode, maxPremiumPercent: saved.maxPremiumPercent }
+      : DEFAULT_CLAIM_PREFERENCE;
+  }
+
+  async updatePreference(
+    userId: string,
+    update: Partial<ClaimPreferenceSettings>
+  ): Promise<ClaimPreferenceSettings> {
+    if (update.mode !== undefined && !Object.values(ClaimMode).includes(update.mode)) {
+      throw new Error(`Unknown claim mode ${update.mode}`);
+    }
+    if (
+      update.maxPremiumPercent !== undefined &&
+      !(update.maxPremiumPercent >= 0 && update.maxPremiumPercent <= MAX_PREMIUM_PERCENT)
+    ) {
+      throw new Error(`Maximum premium must be between 0% and ${MAX_PREMIUM_PERCENT}%`);
+    }
+
+    const settings = { ...(await this.getPreference(userId)), ...update };
+    await prisma.claimPreference.upsert({
+      where: { userId },
+      create: { userId, ...settings },
+      update: settings,
+    });
+    return settings;
+  }
+
+  /**
+   * Preferences of the given users who have chosen something other than
+   * MANUAL, keyed by user ID
+   */
+  async getAutomatic(
+    userIds: string[],
+    client: Prisma.TransactionClient = prisma
+  ): Promise<Map<string, ClaimPreferenceSettings>> {
+    const saved = await client.claimPreference.findMany({
+      where: { userId: { in: userIds }, mode: { not: 'MANUAL' } },
+    });
+    return new Map(saved.map((p) => [p.userId, { mode: p.mode, maxPremiumPercent: p.maxPremiumPercent }]));
+  }
+
+  /**
+   * Put a claimed amount back into its offering: primary shares while any
+   * are unsold, a bid on the order book otherwise
+   */
+  async reinvest(claim: ReinvestableClaim, settings: ClaimPreferenceSettings): Promise<ReinvestmentOutcome> {
+    const offering = await prisma.offering.findUnique({
+      where: { id: claim.offeringId },
+      include: { channel: true },
+    });
+
+    if (!offering || offering.status === 'CLOSED') {
+      return { reinvested: false, reason: 'the offering no longer trades' };
+    }
+
+    if (offering.status === 'ACTIVE' && offering.availableShares > 0) {
+      // Whole shares the claim pays for, within the offering's maximum investment
+      const budget = offering.maxInvestment ? min(claim.amount, offering.maxInvestment) : money(claim.amount);
+      const shares = Math.min(
+        Math.floor(budget.dividedBy(offering.pricePerShare).toNumber()),
+        offering.availableShares
+      );
+      if (shares > 0) {
+        return this.buyPrimary(claim, offering, shares);
+      }
+    }
+
+    return this.bidSecondary(claim, offering.pricePerShare, settings.maxPremiumPercent);
+  }
+
+  private async buyPrimary(
+    claim: ReinvestableClaim,
+    offering: Prisma.OfferingGetPayload<{ include: { channel: true } }>,
+    shares: number
+  ): Promise<ReinvestmentOutcome> {
+    const totalAmount = multiply(offering.pricePerShare, shares);
+
+    const transferCheck = await transferRulesService.checkBuyer(claim.userId, offering.id, shares, {
+      includeOpenBids: true,
+    });
+    if (!transferCheck.allowed) {
+      return { reinvested: false, reason: transferCheck.violations.map((v) => v.reason).join('; ') };
+    }
+
+    const eligibility = await investorTierService.checkEligibility(claim.userId, totalAmount);
+    if (!eligibility.eligible) {
+      return { reinvested: false, reason: eligibility.reason };
+    }
+
+    const reinvestment = await prisma.$transaction(async (tx) => {
+      const wallet = await tx.wallet.findUnique({ where: { userId: claim.userId } });
+      if (!wallet || wallet.balance.lessThan(totalAmount)) {
+        throw new Error(`Insufficient wallet balance. Required: ${formatINR(totalAmount)}`);
+      }
+
+      // Guarded so concurrent buyers cannot oversell
+      const { count } = await tx.offering.updateMany({
+        where: { id: offering.id, status: 'ACTIVE', availableShares: { gte: shares } },
+        data: { availableShares: { decrement: shares } },
+      });
+      if (count === 0) {
+        throw new Error('Not enough shares available');
+      }
+
+      const investment = await tx.investment.create({
+        data: {
+          investorId: claim.userId,
+          offeringId: offering.id,
+          shares,
+          totalAmount,
+          status: 'CONFIRMED',
+        },
+      });
+
+      await tx.wallet.update({
+        where: { userId: claim.userId },
+        data: { totalInvested: { increment: totalAmount } },
+      });
+
+      const created = await tx.claimReinvestment.create({
+        data: {
+          claimId: claim.id,
+          userId: claim.userId,
+          offeringId: offering.id,
+          route: 'PRIMARY',
+          shares,
+          pricePerShare: offering.pricePerShare,
+          amount: totalAmount,
+          investmentId: investment.id,
+        },
+      });
+
+      const transaction = await tx.transaction.create({
+        data: {
+          userId: claim.userId,
+          type: 'INVESTMENT',
+          amount: totalAmount,
+          fee: 0,
+          netAmount: totalAmount,
+          status: 'COMPLETED',
+          referenceType: 'claim_reinvestment',
+          referenceId: created.id,
+          description: `Reinvestment in ${offering.channel.channelName} - ${shares} shares`,
+          completedAt: new Date(),
+          metadata: {
+            claimId: claim.id,
+            investmentId: investment.id,
+            offeringId: offering.id,
+            shares,
+            pricePerShare: offering.pricePerShare,
+          },
+        },
+      });
+
+      const { wallets } = await ledgerService.post(tx, {
+        description: `Reinvestment: ${offering.channel.channelName} (${shares} shares @ ₹${offering.pricePerShare})`,
+        referenceType: 'claim_reinvestment',
+        referenceId: created.id,
+        transactionId: transaction.id,
+        metadata: { claimId: claim.id, investmentId: investment.id, offeringId: offering.id, shares },
+        lines: [
+          { account: LedgerAccounts.wallet(wallet.id), debit: totalAmount, entryType: 'INVESTMENT' },
+          { account: LedgerAccounts.offeringProceeds(offering.id), credit: totalAmount },
+        ],
+      });
+
+      // The wallet was read unlocked; a withdrawal or bid since may have
+      // spent the same balance
+      if (wallets[wallet.id].balance.lessThan(0)) {
+        throw new Error(
+          `Insufficient wallet balance. Required: ${formatINR(totalAmount)}, Available: ${formatINR(wallets[wallet.id].balance.plus(totalAmount))}`
+        );
+      }
+
+      return created;
+    });
+
+    return { reinvested: true, reinvestment };
+  }
+
+  private async bidSecondary(
+    claim: ReinvestableClaim,
+    offeringPrice: Money,
+    maxPremiumPercent: number
+  ): Promise<ReinvestmentOutcome> {
+    const bestAsk = await prisma.sellOrder.findFirst({
+      where: {
+        offeringId: claim.offeringId,
+        status: { in: ['ACTIVE', 'PARTIALLY_FILLED'] },
+        sharesRemaining: { gt: 0 },
+        sellerId: { not: claim.userId },
+        OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+      },
+      orderBy: { pricePerShare: 'asc' },
+      select: { pricePerShare: true },
+    });
+
+    // With no asks the bid rests on the book, priced off the offering
+    const limitPrice = percentOf(bestAsk?.pricePerShare ?? offeringPrice, 100 + maxPremiumPercent);
+    const shares = Math.floor(money(claim.amount).dividedBy(limitPrice).toNumber());
+    if (shares === 0) {
+      return { reinvested: false, reason: `it is less than one share at ${formatINR(limitPrice)}` };
+    }
+    const lockAmount = multiply(limitPrice, shares);
+
+    const transferCheck = await transferRulesService.checkBuyer(claim.userId, claim.offeringId, shares, {
+      includeOpenBids: true,
+    });
+    if (!transferCheck.allowed) {
+      return { reinvested: false, reason: transferCheck.violations.map((v) => v.reason).join('; ') };
+    }
+
+    const eligibility = await investorTierService.checkEligibility(claim.userId, lockAmount, {
+      includeOpenBids: true,
+    });
+    if (!eligibility.eligible) {
+      return { reinvested: false, reason: eligibility.reason };
+    }
+
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + REINVEST_BID_DAYS);
+
+    const { buyOrder } = await matchingEngine.placeBuyOrder(
+      claim.userId,
+      claim.offeringId,
+      shares,
+      limitPrice,
+      expiresAt,
+      { reinvestedClaimId: claim.id }
+    );
+
+    const reinvestment = await prisma.claimReinvestment.create({
+      data: {
+        claimId: claim.id,
+        userId: claim.userId,
+        offeringId: claim.offeringId,
+        route: 'SECONDARY',
+        shares,
+        pricePerShare: limitPrice,
+        amount: lockAmount,
+        buyOrderId: buyOrder.id,
+      },
+    });
+
+    return { reinvested: true, reinvestment };
+  }
+}
+
+// Singleton instance
+export const claimPreferenceService = new ClaimPreferenceService();
@@ -8,33 +8,131 @@
  * Key Principles:
  * 1. Funds are held in escrow, not controlled by any party
  * 2. Distribution is automatic based on ownership percentages
- * 3. All actions are logged immutably for transparency
+ * 3. All actions are logged to a per-vault hash chain for transparency
+ *    (see lib/services/escrow-audit.ts)
  * 4. Claims are time-bound and follow strict rules
  */
 
 import { prisma } from '@/lib/prisma';
 import { 
+  ClaimAdjustment,
+  ClaimReinvestment,
   ClaimantType,
+  DepositOrigin,
+  DisputeResolution,
+  EscrowDeposit,
+  Offering,
+  Prisma,
   RevenueSource
 } from '@prisma/client';
-import crypto from 'node:crypto';
+import { JournalLine, LedgerAccounts, ledgerService } from '@/lib/services/ledger';
+import { Money, MoneyInput, ZERO, add, allocate, formatINR, min, money, multiply, percentOf, subtract, sum } from '@/lib/utils/money';
+import { notificationService } from '@/lib/services/notifications';
+import { AuditEvent, escrowAuditService } from '@/lib/services/escrow-audit';
+import { claimPreferenceService } from '@/lib/services/claim-preferences';
+
+export type { AuditEvent } from '@/lib/services/escrow-audit';
 
 // Platform configuration
 const PLATFORM_FEE_PERCENT = 5; // 5% platform fee
 const CLAIM_EXPIRY_DAYS = 90; // Claims expire after 90 days
 
-export interface DistributionResult {
+export interface DistributionClaim {
+  userId: string;
+  type: ClaimantType;
+  amount: Money; // After adjustments withheld
+  ownershipPercent: number;
+  shares?: number;
+  adjustmentRecovered: Money;
+}
+
+export interface DistributionPreview {
+  totalAmount: Money;
+  revenueMonth: string;
+  creatorAmount: Money;
+  investorAmount: Money;
+  platformFee: Money;
+  roundingResidue: Money;
+  floorTopUp: Money; // From the creator's wallet, towards the minimum monthly payment
+  cappedAmount: Money; // Investor share above the return cap, paid to the creator
+  capReached: boolean;
+  adjustmentsRecovered: Money; // Withheld from claims towards earlier corrections
+  ownership: RecordDateOwnership;
+  claims: DistributionClaim[];
+}
+
+export interface DistributionResult extends DistributionPreview {
   distributionId: string;
-  totalAmount: number;
-  creatorAmount: number;
-  investorAmount: number;
-  platformFee: number;
-  claims: Array<{
-    userId: string;
-    type: ClaimantType;
-    amount: number;
-    ownershipPercent: number;
-  }>;
+}
+
+export interface CorrectionResult {
+  correctionId: string;
+  distributionId: string;
+  depositId: string;
+  returnedAmount: Money; // Back to the deposit's payer now
+  cancelledAmount: Money; // Claims cancelled before they were taken
+  clawbackAmount: Money; // Recovered from future distributions
+  adjustments: Array<{ adjustmentId: string; userId: string; claimId: string; amount: Money }>;
+}
+
+type DistributableVault = Prisma.EscrowVaultGetPayload<{ include: { offering: { include: { channel: true } } } }>;
+
+interface AdjustmentRecovery {
+  adjustment: ClaimAdjustment;
+  amount: Money;
+}
+
+interface DistributionPlan {
+  preview: DistributionPreview;
+  terms: FinancingTermsOutcome | null;
+  recoveries: AdjustmentRecovery[];
+}
+
+// What an offering's financing terms make of investors' share of a distribution
+interface FinancingTermsOutcome {
+  investorAmount: Money;
+  cappedAmount: Money;
+  floorTopUp: Money;
+  floorShortfall: Money; // Part of the minimum the creator's wallet could not cover
+  returned: Money; // Paid to investors including this distribution
+  capReached: boolean;
+}
+
+export interface ReturnProgress {
+  returnCapMultiple: Money | null;
+  minimumMonthlyPayment: Money | null;
+  principal: Money; // Capital raised from investors
+  capAmount: Money | null;
+  returned: Money;
+  progressPercent: number | null; // Of the cap
+  capReachedAt: Date | null;
+}
+
+export interface DepositOptions {
+  externalRef?: string;
+  origin?: DepositOrigin;
+  evidence?: Prisma.InputJsonObject; // e.g. the revenue report the amount came from
+  fundFromWallet?: string; // User whose wallet pays the deposit in as it is made
+}
+
+export type StripeFundingOutcome =
+  | 'FUNDED'              // The payment funded the deposit
+  | 'CREDITED_TO_WALLET'  // The deposit no longer needed it; the payer's wallet got the money
+  | 'ALREADY_PROCESSED';
+
+interface DepositFunding {
+  method: 'WALLET' | 'STRIPE';
+  payerId: string;
+  paymentIntentId?: string;
+}
+
+export interface DisputeResolutionResult {
+  disputeId: string;
+  resolution: DisputeResolution;
+  refundedDeposits: string[];
+  // Deposits on the rejected side that were already paid out
+  alreadyDistributed: string[];
+  vaultReactivated: boolean;
 }
 
 export interface OwnershipSnapshot {
@@ -51,17 +149,253 @@ export interface OwnershipSnapshot {
   soldShares: number;
 }
 
+export interface RecordDateOwnership {
+  method: 'TIME_WEIGHTED';
+  revenueMonth: string;
+  periodStart: string;
+  periodEnd: string;
+  sharePercentage: number;
+  creator: {
+    userId: string;
+    ownershipPercent: number;
+  };
+  investors: Array<{
+    userId: string;
+    shares: number; // Held at the end of the period
+    averageShares: number; // Time-weighted over the period
+    ownershipPercent: number;
+  }>;
+  totalShares: number;
+  soldShares: number; // Time-weighted shares held by investors
+}
+
+/**
+ * UTC bounds of a YYYY-MM revenue month. A month still in progress ends now.
+ */
+function revenueMonthPeriod(revenueMonth: string): { start: Date; end: Date } {
+  const match = /^(\d{4})-(\d{2})$/.exec(revenueMonth);
+  if (!match) {
+    throw new Error('revenueMonth must be in YYYY-MM format');
+  }
+
+  const year = Number(match[1]);
+  const month = Number(match[2]) - 1;
+  const start = new Date(Date.UTC(year, month, 1));
+  const monthEnd = new Date(Date.UTC(year, month + 1, 1));
+  const now = new Date();
+
+  if (start >= now) {
+    throw new Error(`Revenue month ${revenueMonth} has not started yet`);
+  }
+
+  return { start, end: monthEnd < now ? monthEnd : now };
+}
+
+/**
+ * Capital investors put in: the offering price of every share sold
+ */
+function investorPrincipal(offering: Pick<Offering, 'pricePerShare' | 'totalShares' | 'availableShares'>): Money {
+  return multiply(offering.pricePerShare, offering.totalShares - offering.availableShares);
+}
+
+/**
+ * Throw unless the deposit belongs to the vault and its money is in it:
+ * funded (from a wallet or a settled Stripe payment) and verified
+ */
+function assertDistributable(deposit: EscrowDeposit | null, vaultId: string): asserts deposit is EscrowDeposit {
+  if (!deposit || deposit.vaultId !== vaultId || deposit.status === 'DISTRIBUTED' || deposit.status === 'REFUNDED') {
+    throw new Error('Invalid or already distributed deposit');
+  }
+  if (deposit.status !== 'VERIFIED' || !deposit.fundingMethod) {
+    throw new Error('Deposit has not been funded and verified');
+  }
+}
+
 export class DEXEscrowService {
   
+  private async refundDepositInTx(tx: Prisma.TransactionClient, deposit: EscrowDeposit, reason: string): Promise<void> {
+    if (deposit.status !== 'PENDING' && deposit.status !== 'VERIFIED') {
+      throw new Error('Only deposits still held in escrow can be refunded');
+    }
+
+    // Guarded so a deposit funded meanwhile is not refunded without its money
+    const { count } = await tx.escrowDeposit.updateMany({
+      where: { id: deposit.id, status: deposit.status, fundingMethod: deposit.fundingMethod },
+      data: { status: 'REFUNDED' },
+    });
+    if (count === 0) {
+      throw new Error('Deposit changed while it was being refunded');
+    }
+
+    // Nothing was paid in yet, so there is nothing to return
+    if (deposit.fundingMethod) {
+      await tx.escrowVault.update({
+        where: { id: deposit.vaultId },
+        data: {
+          totalBalance: { decrement: deposit.amount },
+          pendingRelease: { decrement: deposit.amount },
+        },
+      });
+
+      await ledgerService.post(tx, {
+        description: `Revenue deposit refunded for ${deposit.revenueMonth}: ${reason}`,
+        referenceType: 'escrow_deposit',
+        referenceId: deposit.id,
+        lines: [
+          { account: LedgerAccounts.escrow(deposit.vaultId), debit: deposit.amount },
+          await this.refundDestination(tx, deposit),
+        ],
+      });
+    }
+
+    await escrowAuditService.append(tx, {
+      vaultId: deposit.vaultId,
+      action: 'DEPOSIT_REFUNDED',
+      actorType: 'SYSTEM',
+      amount: deposit.fundingMethod ? deposit.amount : undefined,
+      newState: { depositId: deposit.id, reason, funded: deposit.fundingMethod !== null },
+    });
+  }
+
+  // Money paid in by a wallet or Stripe goes back to the payer's wallet;
+  // deposits booked from revenue clearing go back there
+  private async refundDestination(
+    tx: Prisma.TransactionClient,
+    deposit: EscrowDeposit,
+    amount: Money = deposit.amount
+  ): Promise<JournalLine> {
+    if (deposit.fundingMethod === 'REVENUE_CLEARING' || !deposit.fundedBy) {
+      return { account: LedgerAccounts.CHANNEL_REVENUE_CLEARING, credit: amount };
+    }
+
+    const wallet = await tx.wallet.upsert({
+      where: { userId: deposit.fundedBy },
+      create: { userId: deposit.fundedBy },
+      update: {},
+    });
+
+    return {
+      account: LedgerAccounts.wallet(wallet.id),
+      credit: amount,
+      entryType: 'REFUND',
+      description: `Revenue deposit for ${deposit.revenueMonth} refunded`,
+    };
+  }
+
+  /**
+   * Pay a pending deposit into its vault and verify it, inside the
+   * caller's transaction. The money comes from the payer's wallet, or
+   * from Stripe clearing once a payment has settled.
+   */
+  private async fundDepositInTx(
+    tx: Prisma.TransactionClient,
+    deposit: EscrowDeposit,
+    funding: DepositFunding
+  ): Promise<EscrowDeposit> {
+    const now = new Date();
+
+    // Guarded on status so a deposit is only ever funded once
+    const { count } = await tx.escrowDeposit.updateMany({
+      where: { id: deposit.id, status: 'PENDING', fundingMethod: null },
+      data: {
+        status: 'VERIFIED',
+        verifiedAt: now,
+        fundingMethod: funding.method,
+        fundedBy: funding.payerId,
+        fundedAt: now,
+      },
+    });
+    if (count === 0) {
+      throw new Error('Deposit is not awaiting funds');
+    }
+
+    let source: JournalLine;
+    let walletId: string | null = null;
+    let transactionId: string | undefined;
+
+    if (funding.method === 'WALLET') {
+      const wallet = await tx.wallet.findUnique({ where: { userId: funding.payerId } });
+      if (!wallet) {
+        throw new Error('Wallet not found');
+      }
+      walletId = wallet.id;
+
+      const transaction = await tx.transaction.create({
+        data: {
+          userId: funding.payerId,
+          type: 'TRANSFER',
+          amount: deposit.amount,
+          fee: 0,
+          netAmount: deposit.amount,
+          status: 'COMPLETED',
+          referenceType: 'escrow_deposit',
+          referenceId: deposit.id,
+          description: `Revenue deposit for ${deposit.revenueMonth} paid into escrow`,
+          completedAt: now,
+          metadata: { depositId: deposit.id, vaultId: deposit.vaultId },
+        },
+      });
+      transactionId = transaction.id;
+
+      source = { account: LedgerAccounts.wallet(wallet.id), debit: deposit.amount, entryType: 'ESCROW_DEPOSIT' };
+    } else {
+      source = { account: LedgerAccounts.STRIPE_CLEARING, debit: deposit.amount };
+    }
+
+    const vault = await tx.escrowVault.update({
+      where: { id: deposit.vaultId },
+      data: {
+        totalBalance: { increment: deposit.amount },
+        pendingRelease: { increment: deposit.amount },
+      },
+    });
+
+    const { wallets } = await ledgerService.post(tx, {
+      description: `Revenue deposit for ${deposit.revenueMonth} (${deposit.source}) funded`,
+      referenceType: 'escrow_deposit',
+      referenceId: deposit.id,
+      transactionId,
+      metadata: funding.paymentIntentId ? { stripePaymentIntentId: funding.paymentIntentId } : undefined,
+      lines: [
+        source,
+        { account: LedgerAccounts.escrow(deposit.vaultId), credit: deposit.amount },
+      ],
+    });
+
+    if (walletId && wallets[walletId].balance.lessThan(0)) {
+      throw new Error(
+        `Insufficient wallet balance. Required: ${formatINR(deposit.amount)}, Available: ${formatINR(wallets[walletId].balance.plus(deposit.amount))}`
+      );
+    }
+
+    await escrowAuditService.append(tx, {
+      vaultId: deposit.vaultId,
+      action: 'DEPOSIT_FUNDED',
+      actorId: funding.payerId,
+      actorType: 'CREATOR',
+      amount: deposit.amount,
+      previousState: { totalBalance: vault.totalBalance.minus(deposit.amount) },
+      newState: { totalBalance: vault.totalBalance, depositId: deposit.id, fundingMethod: funding.method },
+    });
+
+    await escrowAuditService.append(tx, {
+      vaultId: deposit.vaultId,
+      action: 'DEPOSIT_VERIFIED',
+      actorType: 'SYSTEM',
+      amount: deposit.amount,
+      newState: { depositId: deposit.id },
+    });
+
+    return tx.escrowDeposit.findUniqueOrThrow({ where: { id: deposit.id } });
+  }
+
   /**
-   * Generate cryptographic signature for audit integrity
+   * Append an entry to a vault's audit chain, inside the caller's
+   * transaction. For services that act on a vault from outside the escrow
+   * service (e.g. the offering lifecycle).
    */
-  private generateSignature(data: object): string {
-    const payload = JSON.stringify(data);
-    return crypto
-      .createHmac('sha256', process.env.ESCROW_SECRET_KEY || 'escrow-secret')
-      .update(payload)
-      .digest('hex');
+  async recordAuditEvent(tx: Prisma.TransactionClient, event: AuditEvent): Promise<void> {
+    await escrowAuditService.append(tx, event);
   }
 
   /**
@@ -101,18 +435,15 @@ export class DEXEscrowService {
       });
 
       // Create audit log
-      await tx.escrowAuditLog.create({
-        data: {
-          vaultId: newVault.id,
-          action: 'VAULT_CREATED',
-          actorType: 'SYSTEM',
-          newState: {
-            offeringId,
-            channelName: offering.channel.channelName,
-            totalShares: offering.totalShares,
-            sharePercentage: offering.sharePercentage,
-          },
-          signature: this.generateSignature({ vaultId: newVault.id, action: 'VAULT_CREATED' }),
+      await escrowAuditService.append(tx, {
+        vaultId: newVault.id,
+        action: 'VAULT_CREATED',
+        actorType: 'SYSTEM',
+        newState: {
+          offeringId,
+          channelName: offering.channel.channelName,
+          totalShares: offering.totalShares,
+          sharePercentage: offering.sharePercentage,
         },
       });
 
@@ -169,187 +500,1068 @@ export class DEXEscrowService {
         userId: offering.channel.ownerId,
         ownershipPercent: creatorOwnershipPercent,
       },
-      investors,
-      totalShares,
-      soldShares,
-    };
+      investors,
+      totalShares,
+      soldShares,
+    };
+  }
+
+  /**
+   * Time-weighted ownership over a revenue month (the record period)
+   *
+   * Share holdings are rebuilt from Investment and Trade history, and each
+   * investor is weighted by how long they held their shares during the
+   * month - so buying the day before a payout earns about one day's worth.
+   * Every share carries sharePercentage / totalShares of the revenue; the
+   * creator keeps the rest, including the share of anything unsold.
+   */
+  async getRecordDateOwnership(offeringId: string, revenueMonth: string): Promise<RecordDateOwnership> {
+    const { start, end } = revenueMonthPeriod(revenueMonth);
+
+    const offering = await prisma.offering.findUnique({
+      where: { id: offeringId },
+      include: { channel: true },
+    });
+
+    if (!offering) {
+      throw new Error('Offering not found');
+    }
+
+    const [investments, trades] = await Promise.all([
+      prisma.investment.findMany({
+        where: { offeringId, status: 'CONFIRMED' },
+        select: { id: true, investorId: true, shares: true, createdAt: true },
+      }),
+      prisma.trade.findMany({
+        where: { offeringId, status: 'COMPLETED' },
+        select: {
+          shares: true,
+          buyerId: true,
+          sellerId: true,
+          buyerInvestmentId: true,
+          createdAt: true,
+          completedAt: true,
+          sellOrder: { select: { investmentId: true } },
+        },
+      }),
+    ]);
+
+    // Trades move shares between investment rows after they are created, so
+    // an investment's primary purchase is its current shares with those
+    // trades undone. Rows opened by a trade come out at zero.
+    const tradedShares = new Map<string, number>();
+    for (const trade of trades) {
+      if (trade.buyerInvestmentId) {
+        tradedShares.set(trade.buyerInvestmentId, (tradedShares.get(trade.buyerInvestmentId) ?? 0) + trade.shares);
+      }
+      const sellerInvestmentId = trade.sellOrder.investmentId;
+      tradedShares.set(sellerInvestmentId, (tradedShares.get(sellerInvestmentId) ?? 0) - trade.shares);
+    }
+
+    const events: Array<{ at: Date; userId: string; delta: number }> = [];
+
+    for (const investment of investments) {
+      const primaryShares = investment.shares - (tradedShares.get(investment.id) ?? 0);
+      if (primaryShares > 0) {
+        events.push({ at: investment.createdAt, userId: investment.investorId, delta: primaryShares });
+      }
+    }
+
+    for (const trade of trades) {
+      const at = trade.completedAt ?? trade.createdAt;
+      events.push({ at, userId: trade.buyerId, delta: trade.shares });
+      events.push({ at, userId: trade.sellerId, delta: -trade.shares });
+    }
+
+    events.sort((a, b) => a.at.getTime() - b.at.getTime());
+
+    // Replay holdings, accumulating share-milliseconds inside the period
+    const holdings = new Map<string, number>();
+    const shareMs = new Map<string, number>();
+    const lastChange = new Map<string, number>();
+
+    const accrue = (userId: string, until: number) => {
+      const from = Math.max(lastChange.get(userId) ?? start.getTime(), start.getTime());
+      if (until > from) {
+        shareMs.set(userId, (shareMs.get(userId) ?? 0) + (holdings.get(userId) ?? 0) * (until - from));
+      }
+      lastChange.set(userId, until);
+    };
+
+    for (const event of events) {
+      if (event.at >= end) break;
+
+      accrue(event.userId, event.at.getTime());
+      holdings.set(event.userId, (holdings.get(event.userId) ?? 0) + event.delta);
+    }
+
+    for (const userId of holdings.keys()) {
+      accrue(userId, end.getTime());
+    }
+
+    const periodMs = end.getTime() - start.getTime();
+    const percentPerShare = offering.sharePercentage / offering.totalShares;
+
+    const investors = Array.from(holdings.keys())
+      .map((userId) => {
+        const averageShares = (shareMs.get(userId) ?? 0) / periodMs;
+
+        return {
+          userId,
+          shares: holdings.get(userId) ?? 0,
+          averageShares,
+          ownershipPercent: averageShares * percentPerShare,
+        };
+      })
+      .filter((investor) => investor.averageShares > 0 || investor.shares > 0);
+
+    const totalInvestorPercent = investors.reduce((sum, inv) => sum + inv.ownershipPercent, 0);
+
+    return {
+      method: 'TIME_WEIGHTED',
+      revenueMonth,
+      periodStart: start.toISOString(),
+      periodEnd: end.toISOString(),
+      sharePercentage: offering.sharePercentage,
+      creator: {
+        userId: offering.channel.ownerId,
+        ownershipPercent: 100 - totalInvestorPercent,
+      },
+      investors,
+      totalShares: offering.totalShares,
+      soldShares: investors.reduce((sum, inv) => sum + inv.averageShares, 0),
+    };
+  }
+
+  /**
+   * Record revenue owed into escrow
+   * The deposit stays PENDING, and nothing is distributed from it, until
+   * the money is paid in from the creator's wallet (fundDepositFromWallet,
+   * or fundFromWallet here) or by a settled Stripe payment. The offering
+   * must cover the revenue source, and each origin can deposit a source's
+   * revenue month once per offering. A disputed vault still accepts
+   * deposits; they are held until the dispute is resolved.
+   */
+  async depositRevenue(
+    offeringId: string,
+    amountInput: MoneyInput,
+    revenueMonth: string,
+    source: RevenueSource = 'YOUTUBE_ADSENSE',
+    options: DepositOptions = {}
+  ): Promise<string> {
+    const { externalRef, origin = 'CREATOR_REPORTED', evidence, fundFromWallet } = options;
+    const amount = money(amountInput);
+
+    const vault = await prisma.escrowVault.findUnique({
+      where: { offeringId },
+      include: { offering: { select: { revenueSources: true, capReachedAt: true } } },
+    });
+
+    if (!vault) {
+      throw new Error('Escrow vault not found. Create vault first.');
+    }
+
+    if (vault.status !== 'ACTIVE' && vault.status !== 'DISPUTED') {
+      throw new Error('Escrow vault is not active');
+    }
+
+    if (vault.offering.capReachedAt) {
+      throw new Error('Investors in this offering have received its return cap; it takes no more revenue');
+    }
+
+    if (!vault.offering.revenueSources.includes(source)) {
+      throw new Error(`This offering does not cover ${source} revenue`);
+    }
+
+    if (amount.lessThanOrEqualTo(0)) {
+      throw new Error('Deposit amount must be positive');
+    }
+
+    const deposit = await prisma.$transaction(async (tx) => {
+      // Updating the vault first locks it, so two deposits for the same
+      // source and month cannot both pass the check below
+      await tx.escrowVault.update({
+        where: { id: vault.id },
+        data: { lastRevenueAt: new Date() },
+      });
+
+      const existing = await tx.escrowDeposit.findFirst({
+        where: {
+          vaultId: vault.id,
+          revenueMonth,
+          source,
+          origin,
+          status: { notIn: ['FAILED', 'REFUNDED'] },
+        },
+        select: { id: true },
+      });
+
+      if (existing) {
+        throw new Error(`${source} revenue for ${revenueMonth} has already been deposited for this offering`);
+      }
+
+      // Create deposit record; the money is booked when it is paid in
+      const newDeposit = await tx.escrowDeposit.create({
+        data: {
+          vaultId: vault.id,
+          amount,
+          source,
+          origin,
+          externalRef,
+          revenueMonth,
+          status: 'PENDING',
+          fundingMethod: null,
+          metadata: {
+            depositedAt: new Date().toISOString(),
+            ...(evidence && { evidence }),
+          },
+        },
+      });
+
+      // Audit log
+      await escrowAuditService.append(tx, {
+        vaultId: vault.id,
+        action: 'DEPOSIT_RECEIVED',
+        actorType: 'SYSTEM',
+        amount,
+        newState: { depositId: newDeposit.id, revenueMonth, origin },
+      });
+
+      if (fundFromWallet) {
+        return this.fundDepositInTx(tx, newDeposit, { method: 'WALLET', payerId: fundFromWallet });
+      }
+
+      return newDeposit;
+    });
+
+    return deposit.id;
+  }
+
+  /**
+   * Pay a pending deposit in from a user's wallet. It is verified once
+   * the money is in the vault.
+   */
+  async fundDepositFromWallet(depositId: string, userId: string): Promise<EscrowDeposit> {
+    return prisma.$transaction(async (tx) => {
+      const deposit = await tx.escrowDeposit.findUnique({
+        where: { id: depositId },
+      });
+
+      if (!deposit) {
+        throw new Error('Deposit not found');
+      }
+
+      return this.fundDepositInTx(tx, deposit, { method: 'WALLET', payerId: userId });
+    });
+  }
+
+  /**
+   * Apply a settled Stripe payment to the deposit it was taken for. If the
+   * deposit no longer needs it (funded another way, refunded, or the amount
+   * differs), the money is credited to the payer's wallet instead. Safe to
+   * call again for the same payment.
+   */
+  async fundDepositFromStripe(
+    depositId: string,
+    payerId: string,
+    paymentIntentId: string,
+    amountInput: MoneyInput
+  ): Promise<StripeFundingOutcome> {
+    const amount = money(amountInput);
+
+    return prisma.$transaction(async (tx) => {
+      // The payment's pending transaction is completed once, by whichever
+      // call gets here first
+      const { count } = await tx.transaction.updateMany({
+        where: { stripeId: paymentIntentId, status: 'PENDING' },
+        data: { status: 'COMPLETED', completedAt: new Date() },
+      });
+      if (count === 0) {
+        return 'ALREADY_PROCESSED';
+      }
+
+      const deposit = await tx.escrowDeposit.findUnique({
+        where: { id: depositId },
+      });
+
+      if (deposit?.status === 'PENDING' && !deposit.fundingMethod && deposit.amount.equals(amount)) {
+        await this.fundDepositInTx(tx, deposit, { method: 'STRIPE', payerId, paymentIntentId });
+        return 'FUNDED';
+      }
+
+      const wallet = await tx.wallet.upsert({
+        where: { userId: payerId },
+        create: { userId: payerId },
+        update: {},
+      });
+
+      await ledgerService.post(tx, {
+        description: 'Payment for a revenue deposit that no longer needed it',
+        referenceType: 'escrow_deposit',
+        referenceId: depositId,
+        metadata: { stripePaymentIntentId: paymentIntentId },
+        lines: [
+          { account: LedgerAccounts.STRIPE_CLEARING, debit: amount },
+          { account: LedgerAccounts.wallet(wallet.id), credit: amount, entryType: 'REFUND' },
+        ],
+      });
+
+      return 'CREDITED_TO_WALLET';
+    });
+  }
+
+  /**
+   * Verify a deposit whose money is already in the vault. Deposits paid
+   * in from a wallet or Stripe are verified as they are funded; this is
+   * for deposits booked from revenue clearing before funding was required.
+   */
+  async verifyDeposit(depositId: string): Promise<void> {
+    const deposit = await prisma.escrowDeposit.findUnique({
+      where: { id: depositId },
+      include: { vault: true },
+    });
+
+    if (!deposit) {
+      throw new Error('Deposit not found');
+    }
+
+    if (deposit.status !== 'PENDING') {
+      throw new Error('Deposit is not pending');
+    }
+
+    if (!deposit.fundingMethod) {
+      throw new Error('Deposit has not been funded');
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.escrowDeposit.update({
+        where: { id: depositId },
+        data: {
+          status: 'VERIFIED',
+          verifiedAt: new Date(),
+        },
+      });
+
+      await escrowAuditService.append(tx, {
+        vaultId: deposit.vaultId,
+        action: 'DEPOSIT_VERIFIED',
+        actorType: 'SYSTEM',
+        amount: deposit.amount,
+        newState: { depositId },
+      });
+    });
+  }
+
+  /**
+   * Return an undistributed deposit: it leaves the vault and is reversed
+   * out of the ledger
+   */
+  async refundDeposit(depositId: string, reason: string): Promise<void> {
+    await prisma.$transaction(async (tx) => {
+      const deposit = await tx.escrowDeposit.findUnique({
+        where: { id: depositId },
+      });
+
+      if (!deposit) {
+        throw new Error('Deposit not found');
+      }
+
+      await this.refundDepositInTx(tx, deposit, reason);
+    });
+  }
+
+  /**
+   * Cancel every deposit in the vault still waiting to be paid in, inside
+   * the caller's transaction. No money moves; each is marked REFUNDED, so
+   * a payment that settles later goes to the payer's wallet. Returns the
+   * IDs of the deposits cancelled.
+   */
+  async refundUnfundedDeposits(tx: Prisma.TransactionClient, vaultId: string, reason: string): Promise<string[]> {
+    const unfunded = await tx.escrowDeposit.findMany({
+      where: { vaultId, status: 'PENDING', fundingMethod: null },
+    });
+
+    for (const deposit of unfunded) {
+      await this.refundDepositInTx(tx, deposit, reason);
+    }
+
+    return unfunded.map((deposit) => deposit.id);
+  }
+
+  /**
+   * Put a vault into DISPUTED over a revenue month whose creator-reported
+   * and platform-fetched figures disagree. Distribution is held until
+   * an admin resolves the dispute.
+   */
+  async raiseDispute(
+    vaultId: string,
+    revenueMonth: string,
+    reportedAmount: Money,
+    verifiedAmount: Money
+  ): Promise<string> {
+    const difference = reportedAmount.minus(verifiedAmount);
+    const differencePercent = verifiedAmount.greaterThan(0)
+      ? difference.dividedBy(verifiedAmount).times(100).toNumber()
+      : 100;
+
+    return prisma.$transaction(async (tx) => {
+      // Waits for a distribution in progress, which re-reads the status
+      // under the same lock
+      await tx.$queryRaw`SELECT id FROM escrow_vaults WHERE id = ${vaultId} FOR UPDATE`;
+
+      const vault = await tx.escrowVault.findUnique({
+        where: { id: vaultId },
+      });
+
+      if (!vault) {
+        throw new Error('Escrow vault not found');
+      }
+
+      const dispute = await tx.revenueDispute.create({
+        data: {
+          vaultId,
+          revenueMonth,
+          reportedAmount,
+          verifiedAmount,
+          difference,
+          differencePercent,
+        },
+      });
+
+      await tx.escrowVault.update({
+        where: { id: vaultId },
+        data: { status: 'DISPUTED' },
+      });
+
+      await escrowAuditService.append(tx, {
+        vaultId,
+        action: 'DISPUTE_RAISED',
+        actorType: 'SYSTEM',
+        amount: difference.abs(),
+        previousState: { status: vault.status },
+        newState: {
+          status: 'DISPUTED',
+          disputeId: dispute.id,
+          revenueMonth,
+          reportedAmount: reportedAmount.toString(),
+          verifiedAmount: verifiedAmount.toString(),
+        },
+      });
+
+      return dispute.id;
+    });
+  }
+
+  /**
+   * Settle a revenue dispute. The rejected side's deposits for the month
+   * are refunded if they are still in escrow, and the vault goes back to
+   * ACTIVE once it has no other open disputes.
+   */
+  async resolveDispute(
+    disputeId: string,
+    adminId: string,
+    resolution: DisputeResolution,
+    note?: string
+  ): Promise<DisputeResolutionResult> {
+    return prisma.$transaction(async (tx) => {
+      const dispute = await tx.revenueDispute.findUnique({
+        where: { id: disputeId },
+        include: { vault: true },
+      });
+
+      if (!dispute) {
+        throw new Error('Dispute not found');
+      }
+
+      if (dispute.status !== 'OPEN') {
+        throw new Error('Dispute is already resolved');
+      }
+
+      const rejectedOrigin: DepositOrigin = resolution === 'ACCEPT_VERIFIED' ? 'CREATOR_REPORTED' : 'PLATFORM_FETCHED';
+      const rejected = await tx.escrowDeposit.findMany({
+        where: {
+          vaultId: dispute.vaultId,
+          revenueMonth: dispute.revenueMonth,
+          origin: rejectedOrigin,
+          status: { in: ['PENDING', 'VERIFIED', 'DISTRIBUTED'] },
+        },
+      });
+
+      const refundedDeposits: string[] = [];
+      const alreadyDistributed: string[] = [];
+
+      for (const deposit of rejected) {
+        if (deposit.status === 'DISTRIBUTED') {
+          alreadyDistributed.push(deposit.id);
+          continue;
+        }
+        await this.refundDepositInTx(tx, deposit, `Rejected in revenue dispute #${disputeId.slice(-8)}`);
+        refundedDeposits.push(deposit.id);
+      }
+
+      await tx.revenueDispute.update({
+        where: { id: disputeId },
+        data: {
+          status: 'RESOLVED',
+          resolution,
+          resolutionNote: note,
+          resolvedBy: adminId,
+          resolvedAt: new Date(),
+        },
+      });
+
+      const otherOpenDisputes = await tx.revenueDispute.count({
+        where: { vaultId: dispute.vaultId, status: 'OPEN' },
+      });
+      const vaultReactivated = otherOpenDisputes === 0 && dispute.vault.status === 'DISPUTED';
+
+      if (vaultReactivated) {
+        await tx.escrowVault.update({
+          where: { id: dispute.vaultId },
+          data: { status: 'ACTIVE' },
+        });
+      }
+
+      await escrowAuditService.append(tx, {
+        vaultId: dispute.vaultId,
+        action: 'DISPUTE_RESOLVED',
+        actorId: adminId,
+        actorType: 'ADMIN',
+        previousState: { status: dispute.vault.status },
+        newState: {
+          status: vaultReactivated ? 'ACTIVE' : dispute.vault.status,
+          disputeId,
+          resolution,
+          refundedDeposits,
+          alreadyDistributed,
+        },
+      });
+
+      return { disputeId, resolution, refundedDeposits, alreadyDistributed, vaultReactivated };
+    });
+  }
+
+  /**
+   * Work out a distribution without making it: the platform fee, each
+   * stakeholder's claim, and what financing terms and outstanding
+   * adjustments change. Uses the same calculation as distributeRevenue,
+   * so the claims match unless the vault changes in between.
+   */
+  async previewDistribution(offeringId: string, depositId: string): Promise<DistributionPreview> {
+    const { vault, amount, revenueMonth } = await this.resolveDistribution(offeringId, depositId);
+    const { preview } = await this.planDistribution(prisma, vault, amount, revenueMonth);
+    return preview;
+  }
+
+  /**
+   * Distribute a verified deposit from escrow to all stakeholders
+   * This is the core "smart contract" logic
+   */
+  async distributeRevenue(
+    offeringId: string,
+    depositId: string
+  ): Promise<DistributionResult> {
+    const result = await prisma.$transaction((tx) => this.distributeRevenueInTx(tx, offeringId, depositId));
+
+    await this.applyClaimPreferences(result.distributionId);
+
+    return result;
+  }
+
+  /**
+   * distributeRevenue inside the caller's transaction, e.g. the final
+   * distributions at maturity. The caller runs applyClaimPreferences for
+   * the distribution once the transaction commits.
+   */
+  async distributeRevenueInTx(
+    tx: Prisma.TransactionClient,
+    offeringId: string,
+    depositId: string
+  ): Promise<DistributionResult> {
+    const { vault, amount: amountToDistribute, revenueMonth } = await this.resolveDistribution(offeringId, depositId, tx);
+
+    // One distribution per vault at a time, so the return cap, the
+    // minimum payment and adjustments account for every earlier payout
+    await tx.$queryRaw`SELECT id FROM escrow_vaults WHERE id = ${vault.id} FOR UPDATE`;
+
+    // A dispute or pause since resolveDistribution holds the deposit back
+    const { status: vaultStatus } = await tx.escrowVault.findUniqueOrThrow({
+      where: { id: vault.id },
+      select: { status: true },
+    });
+    if (vaultStatus === 'DISPUTED') {
+      throw new Error('Escrow vault has an open revenue dispute; distribution is on hold');
+    }
+    if (vaultStatus !== 'ACTIVE') {
+      throw new Error('Escrow vault is not active');
+    }
+
+    // The deposit may have been refunded or distributed since it was
+    // checked. Guarded so a deposit is only ever paid out once.
+    assertDistributable(await tx.escrowDeposit.findUnique({ where: { id: depositId } }), vault.id);
+    const { count } = await tx.escrowDeposit.updateMany({
+      where: { id: depositId, status: 'VERIFIED' },
+      data: { status: 'DISTRIBUTED' },
+    });
+    if (count === 0) {
+      throw new Error('Invalid or already distributed deposit');
+    }
+
+    const { preview, terms, recoveries } = await this.planDistribution(tx, vault, amountToDistribute, revenueMonth);
+    const { platformFee, roundingResidue, floorTopUp, cappedAmount, adjustmentsRecovered, claims } = preview;
+
+    // Create distribution record
+    const distribution = await tx.escrowDistribution.create({
+      data: {
+        vaultId: vault.id,
+        depositId,
+        revenueMonth,
+        totalAmount: amountToDistribute,
+        creatorAmount: preview.creatorAmount,
+        investorAmount: preview.investorAmount,
+        platformFee,
+        roundingResidue,
+        floorTopUp,
+        cappedAmount,
+        adjustmentsRecovered,
+        distributionRatio: preview.ownership as object,
+        status: 'PROCESSING',
+      },
+    });
+
+    if (terms && floorTopUp.greaterThan(0)) {
+      await this.payFloorTopUp(tx, vault.id, vault.offering.channel.ownerId, distribution.id, revenueMonth, floorTopUp);
+    }
+
+    // Create claims for each stakeholder
+    const claimExpiresAt = new Date();
+    claimExpiresAt.setDate(claimExpiresAt.getDate() + CLAIM_EXPIRY_DAYS);
+
+    // Claimants who claim automatically hear about it once it is done
+    const automatic = await claimPreferenceService.getAutomatic(claims.map((c) => c.userId), tx);
+
+    for (const claim of claims) {
+      // A claim fully withheld for adjustments has nothing left to take
+      const withheld = claim.amount.isZero();
+      const created = await tx.escrowClaim.create({
+        data: {
+          vaultId: vault.id,
+          distributionId: distribution.id,
+          userId: claim.userId,
+          claimantType: claim.type,
+          amount: claim.amount,
+          shares: claim.shares,
+          ownershipPercent: claim.ownershipPercent,
+          adjustmentRecovered: claim.adjustmentRecovered,
+          status: withheld ? 'CLAIMED' : 'AVAILABLE',
+          claimedAt: withheld ? new Date() : undefined,
+          expiresAt: claimExpiresAt,
+        },
+      });
+
+      if (!withheld && !automatic.has(claim.userId)) {
+        await notificationService.notify(claim.userId, {
+          type: 'CLAIM_AVAILABLE',
+          claimId: created.id,
+          amount: claim.amount,
+          channelName: vault.offering.channel.channelName,
+          expiresAt: claimExpiresAt,
+        }, { client: tx });
+      }
+    }
+
+    if (recoveries.length > 0) {
+      await this.recoverAdjustments(tx, vault.id, distribution.id, recoveries);
+    }
+
+    // Update vault
+    await tx.escrowVault.update({
+      where: { id: vault.id },
+      data: {
+        totalBalance: { decrement: subtract(add(platformFee, roundingResidue, adjustmentsRecovered), floorTopUp) },
+        pendingRelease: { decrement: amountToDistribute },
+        totalDistributed: { increment: add(amountToDistribute, floorTopUp) },
+        creatorShare: { increment: sum(claims.filter((c) => c.type === 'CREATOR'), (c) => c.amount) },
+        investorPool: { increment: sum(claims.filter((c) => c.type === 'INVESTOR'), (c) => c.amount) },
+        lastDistributionAt: new Date(),
+      },
+    });
+
+    // Platform fee and rounding residue leave the vault
+    await ledgerService.post(tx, {
+      description: `Platform fee (${PLATFORM_FEE_PERCENT}%) on distribution`,
+      referenceType: 'escrow_distribution',
+      referenceId: distribution.id,
+      lines: [
+        { account: LedgerAccounts.escrow(vault.id), debit: add(platformFee, roundingResidue) },
+        { account: LedgerAccounts.PLATFORM_REVENUE, credit: platformFee },
+        { account: LedgerAccounts.ROUNDING, credit: roundingResidue },
+      ],
+    });
+
+    // Mark distribution as completed
+    await tx.escrowDistribution.update({
+      where: { id: distribution.id },
+      data: {
+        status: 'COMPLETED',
+        executedAt: new Date(),
+      },
+    });
+
+    // Audit log
+    await escrowAuditService.append(tx, {
+      vaultId: vault.id,
+      action: 'DISTRIBUTION_COMPLETED',
+      actorType: 'SYSTEM',
+      amount: amountToDistribute,
+      newState: {
+        distributionId: distribution.id,
+        claims: claims.map(c => ({ userId: c.userId, amount: c.amount })),
+        ...(floorTopUp.greaterThan(0) && { floorTopUp }),
+        ...(cappedAmount.greaterThan(0) && { cappedAmount }),
+        ...(terms?.floorShortfall.greaterThan(0) && { floorShortfall: terms.floorShortfall }),
+        ...(adjustmentsRecovered.greaterThan(0) && { adjustmentsRecovered }),
+      },
+    });
+
+    if (terms?.capReached) {
+      await this.endTermAtCap(tx, vault.id, vault.offering, terms);
+    }
+
+    return { distributionId: distribution.id, ...preview };
   }
 
   /**
-   * Deposit revenue into escrow
-   * This is called when YouTube revenue is received
+   * Claim, and reinvest, a distribution's claims whose owners chose to
+   * (see lib/services/claim-preferences.ts). Runs after the distribution
+   * commits; a claim that cannot be taken stays AVAILABLE and its owner
+   * is told to claim it by hand, and proceeds that cannot be reinvested
+   * stay in the wallet.
    */
-  async depositRevenue(
-    offeringId: string,
-    amount: number,
-    revenueMonth: string,
-    source: RevenueSource = 'YOUTUBE_ADSENSE',
-    externalRef?: string
-  ): Promise<string> {
-    const vault = await prisma.escrowVault.findUnique({
-      where: { offeringId },
+  async applyClaimPreferences(distributionId: string): Promise<void> {
+    const claims = await prisma.escrowClaim.findMany({
+      where: { distributionId, status: 'AVAILABLE' },
+      include: { vault: { include: { offering: { include: { channel: true } } } } },
     });
+    const preferences = await claimPreferenceService.getAutomatic(claims.map((c) => c.userId));
 
-    if (!vault) {
-      throw new Error('Escrow vault not found. Create vault first.');
-    }
+    for (const claim of claims) {
+      const preference = preferences.get(claim.userId);
+      if (!preference) continue;
 
-    if (vault.status !== 'ACTIVE') {
-      throw new Error('Escrow vault is not active');
+      const channelName = claim.vault.offering.channel.channelName;
+
+      try {
+        await this.processClaim(claim.id, claim.userId, { automatic: true });
+      } catch (error) {
+        console.error(`Failed to auto-claim ${claim.id}:`, error);
+        const current = await prisma.escrowClaim.findUnique({ where: { id: claim.id }, select: { status: true } });
+        if (current?.status !== 'AVAILABLE') continue;
+
+        await notificationService.notify(claim.userId, {
+          type: 'CLAIM_AVAILABLE',
+          claimId: claim.id,
+          amount: claim.amount,
+          channelName,
+          expiresAt: claim.expiresAt!,
+        });
+        continue;
+      }
+
+      let reinvestment: ClaimReinvestment | null = null;
+      let notReinvestedReason: string | undefined;
+
+      if (preference.mode === 'REINVEST' && claim.claimantType === 'INVESTOR') {
+        try {
+          const outcome = await claimPreferenceService.reinvest(
+            { id: claim.id, userId: claim.userId, offeringId: claim.vault.offeringId, amount: claim.amount },
+            preference
+          );
+          if (outcome.reinvested) {
+            reinvestment = outcome.reinvestment;
+          } else {
+            notReinvestedReason = outcome.reason;
+          }
+        } catch (error) {
+          console.error(`Failed to reinvest claim ${claim.id}:`, error);
+          notReinvestedReason = error instanceof Error ? error.message : 'reinvestment failed';
+        }
+      }
+
+      await notificationService.notify(claim.userId, {
+        type: 'CLAIM_AUTO_PROCESSED',
+        claimId: claim.id,
+        amount: claim.amount,
+        channelName,
+        reinvestment: reinvestment && {
+          route: reinvestment.route,
+          shares: reinvestment.shares,
+          amount: reinvestment.amount,
+        },
+        notReinvestedReason,
+      });
     }
+  }
 
-    if (amount <= 0) {
-      throw new Error('Deposit amount must be positive');
+  /**
+   * Reverse the distribution made from a wrong deposit. Claims not yet
+   * taken (or expired) are cancelled; claims already paid become
+   * adjustments withheld from the same claimants' future distributions
+   * from this vault. The cancelled claims and the platform fee go back
+   * to whoever paid the deposit in now, recovered adjustments as they
+   * come in. The deposit is marked REFUNDED, so the right amount can be
+   * deposited again.
+   */
+  async correctDistribution(depositId: string, reason: string, actorId?: string): Promise<CorrectionResult> {
+    if (!reason?.trim()) {
+      throw new Error('A reason is required to correct a distribution');
     }
 
-    const deposit = await prisma.$transaction(async (tx) => {
-      // Create deposit record
-      const newDeposit = await tx.escrowDeposit.create({
-        data: {
-          vaultId: vault.id,
-          amount,
-          source,
-          externalRef,
-          revenueMonth,
-          status: 'PENDING',
-          metadata: {
-            depositedAt: new Date().toISOString(),
-          },
-        },
+    return prisma.$transaction(async (tx) => {
+      const deposit = await tx.escrowDeposit.findUnique({ where: { id: depositId } });
+      if (!deposit) {
+        throw new Error('Deposit not found');
+      }
+      if (deposit.status !== 'DISTRIBUTED') {
+        throw new Error('Only distributed deposits can be corrected; refund the deposit instead');
+      }
+
+      // Serialises with distributions, so no adjustment is recovered
+      // against a distribution while it is being reversed
+      await tx.$queryRaw`SELECT id FROM escrow_vaults WHERE id = ${deposit.vaultId} FOR UPDATE`;
+
+      const distribution = await tx.escrowDistribution.findFirst({
+        where: { depositId, status: 'COMPLETED' },
+        include: { claims: true, vault: { select: { status: true } } },
       });
+      if (!distribution) {
+        throw new Error('This deposit has no completed distribution to correct');
+      }
+      if (distribution.vault.status === 'CLOSED') {
+        throw new Error('Escrow vault is closed; its distributions can no longer be corrected');
+      }
 
-      // Update vault balance
-      await tx.escrowVault.update({
-        where: { id: vault.id },
-        data: {
-          totalBalance: { increment: amount },
-          pendingRelease: { increment: amount },
-          lastRevenueAt: new Date(),
-        },
+      const { count } = await tx.escrowDistribution.updateMany({
+        where: { id: distribution.id, status: 'COMPLETED' },
+        data: { status: 'REVERSED' },
       });
+      if (count === 0) {
+        throw new Error('Distribution has already been corrected');
+      }
 
-      // Audit log
-      await tx.escrowAuditLog.create({
+      const correction = await tx.distributionCorrection.create({
         data: {
-          vaultId: vault.id,
-          action: 'DEPOSIT_RECEIVED',
-          actorType: 'SYSTEM',
-          amount,
-          previousState: { totalBalance: vault.totalBalance },
-          newState: { totalBalance: vault.totalBalance + amount },
-          signature: this.generateSignature({ 
-            depositId: newDeposit.id, 
-            amount, 
-            revenueMonth 
-          }),
+          vaultId: deposit.vaultId,
+          distributionId: distribution.id,
+          depositId,
+          reason: reason.trim(),
+          correctedBy: actorId,
+          returnedAmount: 0,
+          clawbackAmount: 0,
         },
       });
 
-      return newDeposit;
-    });
+      let cancelledCreator = ZERO;
+      let cancelledInvestor = ZERO;
+      const adjustments: CorrectionResult['adjustments'] = [];
 
-    return deposit.id;
-  }
+      for (const claim of distribution.claims) {
+        // Guarded so a claim taken meanwhile is clawed back, not cancelled
+        const cancelled = await tx.escrowClaim.updateMany({
+          where: { id: claim.id, status: { in: ['AVAILABLE', 'EXPIRED'] } },
+          data: { status: 'CANCELLED' },
+        });
 
-  /**
-   * Verify a deposit (e.g., after YouTube payment confirmation)
-   */
-  async verifyDeposit(depositId: string): Promise<void> {
-    const deposit = await prisma.escrowDeposit.findUnique({
-      where: { id: depositId },
-      include: { vault: true },
-    });
+        let paid = claim.adjustmentRecovered; // Went to earlier corrections on the claimant's behalf
+        if (cancelled.count > 0) {
+          if (claim.claimantType === 'CREATOR') {
+            cancelledCreator = add(cancelledCreator, claim.amount);
+          } else {
+            cancelledInvestor = add(cancelledInvestor, claim.amount);
+          }
+        } else {
+          const { status } = await tx.escrowClaim.findUniqueOrThrow({ where: { id: claim.id }, select: { status: true } });
+          if (status === 'CLAIMED') {
+            paid = add(paid, claim.amount);
+          }
+        }
+
+        if (paid.greaterThan(0)) {
+          const adjustment = await tx.claimAdjustment.create({
+            data: {
+              vaultId: deposit.vaultId,
+              correctionId: correction.id,
+              userId: claim.userId,
+              claimId: claim.id,
+              amount: paid,
+            },
+          });
+          adjustments.push({ adjustmentId: adjustment.id, userId: claim.userId, claimId: claim.id, amount: paid });
+        }
+      }
 
-    if (!deposit) {
-      throw new Error('Deposit not found');
-    }
+      const cancelledAmount = add(cancelledCreator, cancelledInvestor);
+      const returnedAmount = add(distribution.platformFee, distribution.roundingResidue, cancelledAmount);
+      const clawbackAmount = sum(adjustments, (a) => a.amount);
 
-    if (deposit.status !== 'PENDING') {
-      throw new Error('Deposit is not pending');
-    }
+      await tx.distributionCorrection.update({
+        where: { id: correction.id },
+        data: { returnedAmount, clawbackAmount },
+      });
 
-    await prisma.$transaction(async (tx) => {
-      await tx.escrowDeposit.update({
-        where: { id: depositId },
+      await tx.escrowVault.update({
+        where: { id: deposit.vaultId },
         data: {
-          status: 'VERIFIED',
-          verifiedAt: new Date(),
+          totalBalance: { decrement: cancelledAmount },
+          totalDistributed: { decrement: add(distribution.totalAmount, distribution.floorTopUp) },
+          creatorShare: { decrement: cancelledCreator },
+          investorPool: { decrement: cancelledInvestor },
         },
       });
 
-      await tx.escrowAuditLog.create({
-        data: {
-          vaultId: deposit.vaultId,
-          action: 'DEPOSIT_VERIFIED',
-          actorType: 'SYSTEM',
-          amount: deposit.amount,
-          signature: this.generateSignature({ depositId, action: 'DEPOSIT_VERIFIED' }),
+      // The fee and rounding come back from the platform's accounts,
+      // the cancelled claims from the vault
+      if (returnedAmount.greaterThan(0)) {
+        await ledgerService.post(tx, {
+          description: `Distribution for ${deposit.revenueMonth} corrected: ${correction.reason}`,
+          referenceType: 'distribution_correction',
+          referenceId: correction.id,
+          lines: [
+            { account: LedgerAccounts.PLATFORM_REVENUE, debit: distribution.platformFee },
+            { account: LedgerAccounts.ROUNDING, debit: distribution.roundingResidue },
+            { account: LedgerAccounts.escrow(deposit.vaultId), debit: cancelledAmount },
+            await this.refundDestination(tx, deposit, returnedAmount),
+          ],
+        });
+      }
+
+      await tx.escrowDeposit.update({
+        where: { id: depositId },
+        data: { status: 'REFUNDED' },
+      });
+
+      await escrowAuditService.append(tx, {
+        vaultId: deposit.vaultId,
+        action: 'DISTRIBUTION_CORRECTED',
+        actorId,
+        actorType: actorId ? 'ADMIN' : 'SYSTEM',
+        amount: distribution.totalAmount,
+        previousState: { distributionId: distribution.id, status: 'COMPLETED', depositStatus: 'DISTRIBUTED' },
+        newState: {
+          correctionId: correction.id,
+          distributionId: distribution.id,
+          depositId,
+          reason: correction.reason,
+          returnedAmount,
+          clawbackAmount,
+          adjustments: adjustments.map((a) => ({ adjustmentId: a.adjustmentId, userId: a.userId, amount: a.amount })),
         },
       });
+
+      await this.reopenTermBelowCap(tx, deposit.vaultId, actorId);
+
+      return {
+        correctionId: correction.id,
+        distributionId: distribution.id,
+        depositId,
+        returnedAmount,
+        cancelledAmount,
+        clawbackAmount,
+        adjustments,
+      };
     });
   }
 
-  /**
-   * Distribute funds from escrow to all stakeholders
-   * This is the core "smart contract" logic
-   */
-  async distributeRevenue(
+  // The vault, amount and revenue month a distribution would be made
+  // for, after checking it can be made
+  private async resolveDistribution(
     offeringId: string,
-    depositId?: string
-  ): Promise<DistributionResult> {
-    const vault = await prisma.escrowVault.findUnique({
+    depositId: string,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<{ vault: DistributableVault; amount: Money; revenueMonth: string }> {
+    const vault = await client.escrowVault.findUnique({
       where: { offeringId },
+      include: { offering: { include: { channel: true } } },
     });
 
     if (!vault) {
       throw new Error('Escrow vault not found');
     }
 
+    if (vault.status === 'DISPUTED') {
+      throw new Error('Escrow vault has an open revenue dispute; distribution is on hold');
+    }
+
     if (vault.status !== 'ACTIVE') {
       throw new Error('Escrow vault is not active');
     }
 
-    // Get amount to distribute
-    let amountToDistribute = vault.pendingRelease;
-    
-    if (depositId) {
-      const deposit = await prisma.escrowDeposit.findUnique({
-        where: { id: depositId },
-      });
-      if (!deposit || deposit.status === 'DISTRIBUTED') {
-        throw new Error('Invalid or already distributed deposit');
-      }
-      amountToDistribute = deposit.amount;
-    }
+    // The amount to distribute and the revenue month it was earned in
+    const deposit = await client.escrowDeposit.findUnique({
+      where: { id: depositId },
+    });
+    assertDistributable(deposit, vault.id);
 
-    if (amountToDistribute <= 0) {
+    if (deposit.amount.lessThanOrEqualTo(0)) {
       throw new Error('No funds available for distribution');
     }
 
-    // Get ownership snapshot
-    const ownership = await this.getOwnershipSnapshot(offeringId);
-
-    // Calculate platform fee
-    const platformFee = amountToDistribute * (PLATFORM_FEE_PERCENT / 100);
-    const distributableAmount = amountToDistribute - platformFee;
+    return { vault, amount: deposit.amount, revenueMonth: deposit.revenueMonth };
+  }
 
-    // Calculate creator's share
-    const creatorAmount = distributableAmount * (ownership.creator.ownershipPercent / 100);
+  /**
+   * The distribution of `amount`: platform fee, pro-rata split, financing
+   * terms and adjustments withheld from claims. Reads only; with a
+   * transaction client the vault must be locked.
+   */
+  private async planDistribution(
+    client: Prisma.TransactionClient,
+    vault: DistributableVault,
+    amount: Money,
+    revenueMonth: string
+  ): Promise<DistributionPlan> {
+    // Split by who held the shares over the revenue month, not who holds them now
+    const ownership = await this.getRecordDateOwnership(vault.offeringId, revenueMonth);
 
-    // Calculate investor shares
-    const investorAmount = distributableAmount - creatorAmount;
+    // Calculate platform fee
+    const platformFee = percentOf(amount, PLATFORM_FEE_PERCENT);
+    const distributableAmount = subtract(amount, platformFee);
+
+    // Split pro rata by ownership. Each claim is rounded down to the paisa and
+    // the leftover paise are booked to the platform's rounding account, so the
+    // claims always add up to exactly what left the vault for stakeholders.
+    const eligibleInvestors = ownership.investors.filter((investor) => investor.ownershipPercent > 0);
+    const investorWeights = eligibleInvestors.map((investor) => investor.ownershipPercent);
+    const split = allocate(distributableAmount, [ownership.creator.ownershipPercent, ...investorWeights]);
+
+    let [creatorAmount, ...investorShares] = split.shares;
+    let roundingResidue = split.residue;
+    const splitInvestorAmount = add(...investorShares);
+
+    const terms = eligibleInvestors.length > 0
+      ? await this.applyFinancingTerms(client, {
+          offering: vault.offering,
+          vaultId: vault.id,
+          revenueMonth,
+          investorAmount: splitInvestorAmount,
+          investorFraction: ownership.soldShares / ownership.totalShares,
+        })
+      : null;
+
+    // The cap or the floor changed what investors get: re-split their
+    // total, and pay anything above the cap to the creator
+    if (terms && !terms.investorAmount.equals(splitInvestorAmount)) {
+      const resplit = allocate(terms.investorAmount, investorWeights);
+      investorShares = resplit.shares;
+      creatorAmount = add(creatorAmount, terms.cappedAmount);
+      roundingResidue = add(roundingResidue, resplit.residue);
+    }
 
-    const claims: Array<{
-      userId: string;
-      type: ClaimantType;
-      amount: number;
-      ownershipPercent: number;
-      shares?: number;
-    }> = [];
+    const grossClaims: Array<Omit<DistributionClaim, 'adjustmentRecovered'>> = [];
 
     // Creator claim
-    if (creatorAmount > 0) {
-      claims.push({
+    if (creatorAmount.greaterThan(0)) {
+      grossClaims.push({
         userId: ownership.creator.userId,
         type: 'CREATOR' as ClaimantType,
         amount: creatorAmount,
@@ -358,120 +1570,336 @@ export class DEXEscrowService {
     }
 
     // Investor claims
-    for (const investor of ownership.investors) {
-      if (investor.ownershipPercent > 0) {
-        const investorShare = distributableAmount * (investor.ownershipPercent / 100);
-        claims.push({
+    eligibleInvestors.forEach((investor, index) => {
+      if (investorShares[index].greaterThan(0)) {
+        grossClaims.push({
           userId: investor.userId,
           type: 'INVESTOR' as ClaimantType,
-          amount: investorShare,
+          amount: investorShares[index],
           ownershipPercent: investor.ownershipPercent,
           shares: investor.shares,
         });
       }
-    }
+    });
 
-    // Execute distribution in transaction
-    const result = await prisma.$transaction(async (tx) => {
-      // Create distribution record
-      const distribution = await tx.escrowDistribution.create({
-        data: {
-          vaultId: vault.id,
-          depositId,
-          totalAmount: amountToDistribute,
-          creatorAmount,
-          investorAmount,
-          platformFee,
-          distributionRatio: ownership as object,
-          status: 'PROCESSING',
-        },
-      });
+    // Withhold outstanding adjustments from each claimant's claim, oldest first
+    const outstanding = await client.claimAdjustment.findMany({
+      where: { vaultId: vault.id, status: 'OUTSTANDING', userId: { in: grossClaims.map((c) => c.userId) } },
+      orderBy: { createdAt: 'asc' },
+    });
+    const recoveries: AdjustmentRecovery[] = [];
+
+    const claims = grossClaims.map((claim) => {
+      let remaining = claim.amount;
+      for (const adjustment of outstanding.filter((a) => a.userId === claim.userId)) {
+        if (remaining.isZero()) break;
+        const recovered = min(remaining, subtract(adjustment.amount, adjustment.recovered));
+        if (recovered.greaterThan(0)) {
+          recoveries.push({ adjustment, amount: recovered });
+          remaining = subtract(remaining, recovered);
+        }
+      }
+      return { ...claim, amount: remaining, adjustmentRecovered: subtract(claim.amount, remaining) };
+    });
 
-      // Create claims for each stakeholder
-      const claimExpiresAt = new Date();
-      claimExpiresAt.setDate(claimExpiresAt.getDate() + CLAIM_EXPIRY_DAYS);
+    return {
+      preview: {
+        totalAmount: amount,
+        revenueMonth,
+        creatorAmount,
+        investorAmount: add(...investorShares),
+        platformFee,
+        roundingResidue,
+        floorTopUp: terms?.floorTopUp ?? ZERO,
+        cappedAmount: terms?.cappedAmount ?? ZERO,
+        capReached: terms?.capReached ?? false,
+        adjustmentsRecovered: sum(recoveries, (r) => r.amount),
+        ownership,
+        claims,
+      },
+      terms,
+      recoveries,
+    };
+  }
 
-      for (const claim of claims) {
-        await tx.escrowClaim.create({
-          data: {
-            vaultId: vault.id,
-            distributionId: distribution.id,
-            userId: claim.userId,
-            claimantType: claim.type,
-            amount: claim.amount,
-            shares: claim.shares,
-            ownershipPercent: claim.ownershipPercent,
-            status: 'AVAILABLE',
-            expiresAt: claimExpiresAt,
-          },
-        });
-      }
+  // Pays withheld claim money to whoever paid in each corrected deposit
+  private async recoverAdjustments(
+    tx: Prisma.TransactionClient,
+    vaultId: string,
+    distributionId: string,
+    recoveries: AdjustmentRecovery[]
+  ): Promise<void> {
+    const byCorrection = new Map<string, AdjustmentRecovery[]>();
+    for (const recovery of recoveries) {
+      const group = byCorrection.get(recovery.adjustment.correctionId) ?? [];
+      group.push(recovery);
+      byCorrection.set(recovery.adjustment.correctionId, group);
+    }
 
-      // Update vault
-      await tx.escrowVault.update({
-        where: { id: vault.id },
-        data: {
-          pendingRelease: { decrement: amountToDistribute },
-          totalDistributed: { increment: amountToDistribute },
-          creatorShare: { increment: creatorAmount },
-          investorPool: { increment: investorAmount },
-          lastDistributionAt: new Date(),
-        },
+    for (const recovery of recoveries) {
+      const recovered = add(recovery.adjustment.recovered, recovery.amount);
+      const settled = recovered.greaterThanOrEqualTo(recovery.adjustment.amount);
+      await tx.claimAdjustment.update({
+        where: { id: recovery.adjustment.id },
+        data: { recovered, status: settled ? 'SETTLED' : 'OUTSTANDING', settledAt: settled ? new Date() : undefined },
       });
+    }
 
-      // Update deposit if specified
-      if (depositId) {
-        await tx.escrowDeposit.update({
-          where: { id: depositId },
-          data: { status: 'DISTRIBUTED' },
-        });
-      }
+    for (const [correctionId, group] of byCorrection) {
+      const correction = await tx.distributionCorrection.findUniqueOrThrow({ where: { id: correctionId } });
+      const deposit = await tx.escrowDeposit.findUniqueOrThrow({ where: { id: correction.depositId } });
+      const amount = sum(group, (r) => r.amount);
+
+      await ledgerService.post(tx, {
+        description: `Recovered towards the correction of the ${deposit.revenueMonth} distribution`,
+        referenceType: 'distribution_correction',
+        referenceId: correctionId,
+        lines: [
+          { account: LedgerAccounts.escrow(vaultId), debit: amount },
+          await this.refundDestination(tx, deposit, amount),
+        ],
+      });
 
-      // Mark distribution as completed
-      await tx.escrowDistribution.update({
-        where: { id: distribution.id },
-        data: {
-          status: 'COMPLETED',
-          executedAt: new Date(),
+      await escrowAuditService.append(tx, {
+        vaultId,
+        action: 'ADJUSTMENT_RECOVERED',
+        actorType: 'SYSTEM',
+        amount,
+        newState: {
+          correctionId,
+          correctedDistributionId: correction.distributionId,
+          distributionId,
+          adjustments: group.map((r) => ({ adjustmentId: r.adjustment.id, userId: r.adjustment.userId, amount: r.amount })),
         },
       });
+    }
+  }
 
-      // Audit log
-      await tx.escrowAuditLog.create({
-        data: {
-          vaultId: vault.id,
-          action: 'DISTRIBUTION_COMPLETED',
-          actorType: 'SYSTEM',
-          amount: amountToDistribute,
-          newState: {
-            distributionId: distribution.id,
-            claims: claims.map(c => ({ userId: c.userId, amount: c.amount })),
-          },
-          signature: this.generateSignature({
-            distributionId: distribution.id,
-            totalAmount: amountToDistribute,
-            claims,
-          }),
-        },
+  /**
+   * Apply the offering's financing terms to what investors would get from
+   * a distribution:
+   * - Return cap: investors stop at `returnCapMultiple` times the capital
+   *   raised; anything above it goes to the creator.
+   * - Minimum monthly payment: if investors would get less than the
+   *   floor for the revenue month (scaled to the shares they held, less
+   *   what earlier distributions for that month paid), the creator's
+   *   wallet tops it up, as far as its balance allows.
+   * The vault must be locked.
+   */
+  private async applyFinancingTerms(
+    tx: Prisma.TransactionClient,
+    params: {
+      offering: Offering & { channel: { ownerId: string } };
+      vaultId: string;
+      revenueMonth: string;
+      investorAmount: Money;
+      investorFraction: number; // Time-weighted share of the offering investors held
+    }
+  ): Promise<FinancingTermsOutcome> {
+    const { offering, vaultId, revenueMonth } = params;
+    let investorAmount = params.investorAmount;
+    let cappedAmount = ZERO;
+    let headroom: Money | null = null;
+    let returnedBefore = ZERO;
+
+    if (offering.returnCapMultiple) {
+      returnedBefore = await this.investorReturns(tx, vaultId);
+      const capAmount = multiply(investorPrincipal(offering), offering.returnCapMultiple);
+      headroom = Prisma.Decimal.max(ZERO, subtract(capAmount, returnedBefore));
+
+      if (investorAmount.greaterThan(headroom)) {
+        cappedAmount = subtract(investorAmount, headroom);
+        investorAmount = headroom;
+      }
+    }
+
+    let floorTopUp = ZERO;
+    let floorShortfall = ZERO;
+    if (offering.minimumMonthlyPayment && params.investorFraction > 0) {
+      const { _sum } = await tx.escrowDistribution.aggregate({
+        where: { vaultId, revenueMonth, status: 'COMPLETED' },
+        _sum: { investorAmount: true },
       });
+      const floor = multiply(offering.minimumMonthlyPayment, params.investorFraction).toDecimalPlaces(2);
+      let needed = subtract(floor, _sum.investorAmount ?? ZERO, investorAmount);
+      if (headroom) {
+        needed = min(needed, subtract(headroom, investorAmount));
+      }
 
-      return distribution;
-    });
+      if (needed.greaterThan(0)) {
+        const wallet = await tx.wallet.findUnique({ where: { userId: offering.channel.ownerId } });
+        floorTopUp = Prisma.Decimal.max(ZERO, min(needed, wallet?.balance ?? ZERO));
+        floorShortfall = subtract(needed, floorTopUp);
+        investorAmount = add(investorAmount, floorTopUp);
+      }
+    }
 
     return {
-      distributionId: result.id,
-      totalAmount: amountToDistribute,
-      creatorAmount,
       investorAmount,
-      platformFee,
-      claims,
+      cappedAmount,
+      floorTopUp,
+      floorShortfall,
+      returned: add(returnedBefore, investorAmount),
+      capReached: headroom !== null && offering.capReachedAt === null && investorAmount.greaterThanOrEqualTo(headroom),
     };
   }
 
+  // Moves a floor top-up from the creator's wallet into the vault
+  private async payFloorTopUp(
+    tx: Prisma.TransactionClient,
+    vaultId: string,
+    creatorId: string,
+    distributionId: string,
+    revenueMonth: string,
+    amount: Money
+  ): Promise<void> {
+    const wallet = await tx.wallet.findUniqueOrThrow({ where: { userId: creatorId } });
+
+    const transaction = await tx.transaction.create({
+      data: {
+        userId: creatorId,
+        type: 'TRANSFER',
+        amount,
+        fee: 0,
+        netAmount: amount,
+        status: 'COMPLETED',
+        referenceType: 'escrow_distribution',
+        referenceId: distributionId,
+        description: `Minimum payment top-up for ${revenueMonth} paid into escrow`,
+        completedAt: new Date(),
+        metadata: { distributionId, vaultId },
+      },
+    });
+
+    const { wallets } = await ledgerService.post(tx, {
+      description: `Minimum payment top-up for ${revenueMonth}`,
+      referenceType: 'escrow_distribution',
+      referenceId: distributionId,
+      transactionId: transaction.id,
+      lines: [
+        { account: LedgerAccounts.wallet(wallet.id), debit: amount, entryType: 'ESCROW_DEPOSIT' },
+        { account: LedgerAccounts.escrow(vaultId), credit: amount },
+      ],
+    });
+
+    if (wallets[wallet.id].balance.lessThan(0)) {
+      throw new Error(
+        `Insufficient wallet balance for the minimum payment top-up. Required: ${formatINR(amount)}, Available: ${formatINR(wallets[wallet.id].balance.plus(amount))}`
+      );
+    }
+
+    await escrowAuditService.append(tx, {
+      vaultId,
+      action: 'FLOOR_TOPPED_UP',
+      actorId: creatorId,
+      actorType: 'CREATOR',
+      amount,
+      newState: { distributionId, revenueMonth },
+    });
+  }
+
+  // Investors have received the cap: the term ends now and the hourly
+  // maturity job winds the offering down
+  private async endTermAtCap(
+    tx: Prisma.TransactionClient,
+    vaultId: string,
+    offering: Offering,
+    terms: FinancingTermsOutcome
+  ): Promise<void> {
+    const now = new Date();
+
+    // Guarded so the cap is only recorded once
+    const { count } = await tx.offering.updateMany({
+      where: { id: offering.id, capReachedAt: null },
+      data: {
+        capReachedAt: now,
+        maturesAt: offering.maturesAt && offering.maturesAt < now ? offering.maturesAt : now,
+      },
+    });
+    if (count === 0) return;
+
+    await escrowAuditService.append(tx, {
+      vaultId,
+      action: 'RETURN_CAP_REACHED',
+      actorType: 'SYSTEM',
+      amount: terms.returned,
+      previousState: { maturesAt: offering.maturesAt?.toISOString() ?? null },
+      newState: {
+        returnCapMultiple: offering.returnCapMultiple!.toString(),
+        capAmount: multiply(investorPrincipal(offering), offering.returnCapMultiple!),
+        maturesAt: now.toISOString(),
+      },
+    });
+  }
+
+  /**
+   * Undo endTermAtCap when a correction takes investors back below the
+   * return cap before the offering has matured: the cap is cleared and
+   * the offering matures when it did before the cap was reached.
+   */
+  private async reopenTermBelowCap(
+    tx: Prisma.TransactionClient,
+    vaultId: string,
+    actorId?: string
+  ): Promise<void> {
+    const { offering } = await tx.escrowVault.findUniqueOrThrow({
+      where: { id: vaultId },
+      include: { offering: true },
+    });
+    if (!offering.capReachedAt || offering.maturedAt || !offering.returnCapMultiple) return;
+
+    const capAmount = multiply(investorPrincipal(offering), offering.returnCapMultiple);
+    const returned = await this.investorReturns(tx, vaultId);
+    if (returned.greaterThanOrEqualTo(capAmount)) return;
+
+    // endTermAtCap recorded the maturity date it brought forward
+    const capReached = await tx.escrowAuditLog.findFirst({
+      where: { vaultId, action: 'RETURN_CAP_REACHED' },
+      orderBy: { createdAt: 'desc' },
+    });
+    const previous = capReached?.previousState as { maturesAt?: string | null } | null;
+    const maturesAt = previous?.maturesAt ? new Date(previous.maturesAt) : null;
+
+    // Guarded so a maturity run that got here first is not undone
+    const { count } = await tx.offering.updateMany({
+      where: { id: offering.id, capReachedAt: offering.capReachedAt, maturedAt: null },
+      data: { capReachedAt: null, maturesAt },
+    });
+    if (count === 0) return;
+
+    await escrowAuditService.append(tx, {
+      vaultId,
+      action: 'RETURN_CAP_CLEARED',
+      actorId,
+      actorType: actorId ? 'ADMIN' : 'SYSTEM',
+      amount: returned,
+      previousState: {
+        capReachedAt: offering.capReachedAt.toISOString(),
+        maturesAt: offering.maturesAt?.toISOString() ?? null,
+      },
+      newState: {
+        capAmount,
+        returned,
+        // Null until the maturity job sets it from the offering's term
+        maturesAt: maturesAt?.toISOString() ?? null,
+      },
+    });
+  }
+
+  // Everything distributions have paid investors so far
+  private async investorReturns(client: Prisma.TransactionClient, vaultId: string): Promise<Money> {
+    const { _sum } = await client.escrowDistribution.aggregate({
+      where: { vaultId, status: 'COMPLETED' },
+      _sum: { investorAmount: true },
+    });
+    return _sum.investorAmount ?? ZERO;
+  }
+
   /**
-   * Process a claim - transfer funds from escrow to user's wallet
+   * Process a claim - transfer funds from escrow to user's wallet.
+   * Automatic claims are made by the system under the user's claim preference.
    */
-  async processClaim(claimId: string, userId: string): Promise<void> {
+  async processClaim(claimId: string, userId: string, options: { automatic?: boolean } = {}): Promise<void> {
     const claim = await prisma.escrowClaim.findUnique({
       where: { id: claimId },
       include: {
@@ -506,6 +1934,18 @@ export class DEXEscrowService {
     }
 
     await prisma.$transaction(async (tx) => {
+      // Guarded so a claim is paid once, and never after a correction cancelled it
+      const { count } = await tx.escrowClaim.updateMany({
+        where: { id: claimId, status: 'AVAILABLE' },
+        data: {
+          status: 'CLAIMED',
+          claimedAt: new Date(),
+        },
+      });
+      if (count === 0) {
+        throw new Error('Claim is no longer available');
+      }
+
       // Get or create user's wallet
       let wallet = await tx.wallet.findUnique({
         where: { userId },
@@ -522,14 +1962,11 @@ export class DEXEscrowService {
         },
       });
 
-      // Update wallet balance
-      const newBalance = wallet.balance + claim.amount;
+      // Update wallet totals
       await tx.wallet.update({
         where: { userId },
         data: {
-          balance: newBalance,
           totalEarnings: { increment: claim.amount },
-          lastActivityAt: new Date(),
         },
       });
 
@@ -555,19 +1992,16 @@ export class DEXEscrowService {
         },
       });
 
-      // Create ledger entry
-      await tx.walletLedger.create({
-        data: {
-          walletId: wallet.id,
-          transactionId: transaction.id,
-          entryType: 'PAYOUT_RECEIVED',
-          debit: 0,
-          credit: claim.amount,
-          balance: newBalance,
-          description: `Revenue claim: ${claim.vault.offering.channel.channelName} (${claim.ownershipPercent.toFixed(2)}% ownership)`,
-          referenceType: 'escrow_claim',
-          referenceId: claimId,
-        },
+      // Move the claim out of the vault into the user's wallet
+      await ledgerService.post(tx, {
+        description: `Revenue claim: ${claim.vault.offering.channel.channelName} (${claim.ownershipPercent.toFixed(2)}% ownership)`,
+        referenceType: 'escrow_claim',
+        referenceId: claimId,
+        transactionId: transaction.id,
+        lines: [
+          { account: LedgerAccounts.escrow(claim.vaultId), debit: claim.amount },
+          { account: LedgerAccounts.wallet(wallet.id), credit: claim.amount, entryType: 'PAYOUT_RECEIVED' },
+        ],
       });
 
       // Update vault balances
@@ -589,29 +2023,14 @@ export class DEXEscrowService {
         });
       }
 
-      // Mark claim as processed
-      await tx.escrowClaim.update({
-        where: { id: claimId },
-        data: {
-          status: 'CLAIMED',
-          claimedAt: new Date(),
-        },
-      });
-
       // Audit log
-      await tx.escrowAuditLog.create({
-        data: {
-          vaultId: claim.vaultId,
-          action: 'CLAIM_PROCESSED',
-          actorId: userId,
-          actorType: claim.claimantType,
-          amount: claim.amount,
-          signature: this.generateSignature({
-            claimId,
-            userId,
-            amount: claim.amount,
-          }),
-        },
+      await escrowAuditService.append(tx, {
+        vaultId: claim.vaultId,
+        action: 'CLAIM_PROCESSED',
+        actorId: options.automatic ? undefined : userId,
+        actorType: options.automatic ? 'SYSTEM' : claim.claimantType,
+        amount: claim.amount,
+        newState: { claimId, ...(options.automatic && { automatic: true }) },
       });
     });
   }
@@ -650,6 +2069,35 @@ export class DEXEscrowService {
     });
   }
 
+  /**
+   * How far investors are towards the offering's return cap
+   */
+  async getReturnProgress(offeringId: string): Promise<ReturnProgress> {
+    const offering = await prisma.offering.findUnique({
+      where: { id: offeringId },
+      include: { escrowVault: { select: { id: true } } },
+    });
+    if (!offering) {
+      throw new Error('Offering not found');
+    }
+
+    const principal = investorPrincipal(offering);
+    const returned = offering.escrowVault ? await this.investorReturns(prisma, offering.escrowVault.id) : ZERO;
+    const capAmount = offering.returnCapMultiple ? multiply(principal, offering.returnCapMultiple) : null;
+
+    return {
+      returnCapMultiple: offering.returnCapMultiple,
+      minimumMonthlyPayment: offering.minimumMonthlyPayment,
+      principal,
+      capAmount,
+      returned,
+      progressPercent: capAmount && capAmount.greaterThan(0)
+        ? Math.min(100, returned.dividedBy(capAmount).times(100).toDecimalPlaces(2).toNumber())
+        : null,
+      capReachedAt: offering.capReachedAt,
+    };
+  }
+
   /**
    * Get vault details and statistics
    */
@@ -698,25 +2146,34 @@ export class DEXEscrowService {
 
   /**
    * Batch process all pending distributions
-   * This can be run by a cron job
+   * Run periodically by the job scheduler (lib/jobs.ts)
    */
-  async processAllPendingDistributions(): Promise<void> {
+  async processAllPendingDistributions(): Promise<{ distributed: number; failed: string[] }> {
+    // Deposits in disputed or paused vaults are held, not failed
     const pendingDeposits = await prisma.escrowDeposit.findMany({
       where: {
         status: 'VERIFIED',
+        vault: { status: 'ACTIVE' },
       },
       include: {
         vault: true,
       },
     });
 
+    let distributed = 0;
+    const failed: string[] = [];
+
     for (const deposit of pendingDeposits) {
       try {
         await this.distributeRevenue(deposit.vault.offeringId, deposit.id);
+        distributed++;
       } catch (error) {
         console.error(`Failed to distribute deposit ${deposit.id}:`, error);
+        failed.push(deposit.id);
       }
     }
+
+    return { distributed, failed };
   }
 
   /**
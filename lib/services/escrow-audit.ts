@@ -0,0 +1,323 @@
+/**
+ * Escrow Audit Chain
+ *
+ * Each vault's audit log is a hash chain. Every entry stores:
+ * - sequence: its position in the vault's chain, from 1
+ * - previousHash: the entryHash of the entry before it (GENESIS_HASH first)
+ * - entryHash: SHA-256 of the entry's content and previousHash
+ * - signature: HMAC-SHA256 of entryHash with ESCROW_SECRET_KEY
+ *
+ * Editing, deleting or reordering an entry breaks the chain from that
+ * point on. Entry hashes are plain SHA-256, so anyone holding the log can
+ * check the chain; the signature shows the server wrote it. The chain
+ * head (sequence and hash) can be exported and kept as a checkpoint:
+ * verifying against it later shows that the history up to it is unchanged,
+ * including that no entries were dropped from the end.
+ *
+ * Entries are appended while holding a lock on the vault row, so
+ * concurrent writers get consecutive sequences. Entries written before
+ * the chain existed are chained, oldest first, on the next write to
+ * their vault or by `npm run audit:verify -- --backfill`.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { EscrowAction, EscrowAuditLog, EscrowVault, Prisma } from '@prisma/client';
+import crypto from 'node:crypto';
+import { MoneyInput, money } from '@/lib/utils/money';
+
+// previousHash of the first entry in every chain
+export const GENESIS_HASH = '0'.repeat(64);
+
+const VERIFY_BATCH_SIZE = 500;
+
+export interface AuditEvent {
+  vaultId: string;
+  action: EscrowAction;
+  actorId?: string;
+  actorType: 'SYSTEM' | 'CREATOR' | 'INVESTOR' | 'ADMIN';
+  amount?: MoneyInput;
+  previousState?: Prisma.InputJsonObject;
+  newState?: Prisma.InputJsonObject;
+}
+
+export interface ChainHead {
+  vaultId: string;
+  sequence: number;
+  entryHash: string;
+  signature: string | null;
+  createdAt: Date;
+}
+
+export interface ChainCheckpoint {
+  sequence: number;
+  entryHash: string;
+}
+
+export interface ChainBreak {
+  sequence: number;
+  entryId: string | null; // null when the entry is missing
+  reason: string;
+}
+
+export interface ChainVerification {
+  vaultId: string;
+  valid: boolean;
+  entriesChecked: number;
+  head: ChainHead | null; // Last entry that verified
+  brokenAt: ChainBreak | null; // First broken link
+  unchainedEntries: number; // Written before the chain, not yet chained
+  signaturesChecked: boolean; // false when the server key is not configured
+  checkpoint?: ChainCheckpoint & { matches: boolean };
+}
+
+type ChainedContent = Pick<
+  EscrowAuditLog,
+  'vaultId' | 'action' | 'actorId' | 'actorType' | 'amount' | 'previousState' | 'newState' | 'ipAddress' | 'createdAt'
+> & { sequence: number; previousHash: string };
+
+// JSON with object keys sorted, so equal content always hashes the same
+// (Postgres jsonb does not keep key order)
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value).sort().map((key) => [key, canonicalize((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+// The JSON value as it will read back from the database
+function toStoredJson(value: Prisma.InputJsonObject | undefined): Prisma.JsonObject | null {
+  return value === undefined ? null : JSON.parse(JSON.stringify(value));
+}
+
+export function hashEntry(entry: ChainedContent): string {
+  const payload = JSON.stringify(canonicalize({
+    vaultId: entry.vaultId,
+    sequence: entry.sequence,
+    action: entry.action,
+    actorId: entry.actorId ?? null,
+    actorType: entry.actorType,
+    amount: entry.amount === null ? null : money(entry.amount).toFixed(2),
+    previousState: entry.previousState ?? null,
+    newState: entry.newState ?? null,
+    ipAddress: entry.ipAddress ?? null,
+    createdAt: entry.createdAt.toISOString(),
+    previousHash: entry.previousHash,
+  }));
+  return crypto.createHash('sha256').update(payload).digest('hex');
+}
+
+function signingKey(): string | null {
+  return process.env.ESCROW_SECRET_KEY || process.env.NEXTAUTH_SECRET || null;
+}
+
+function sign(entryHash: string): string {
+  const key = signingKey();
+  if (!key) {
+    throw new Error('ESCROW_SECRET_KEY is not set');
+  }
+  return crypto.createHmac('sha256', key).update(entryHash).digest('hex');
+}
+
+function toHead(entry: EscrowAuditLog): ChainHead {
+  return {
+    vaultId: entry.vaultId,
+    sequence: entry.sequence!,
+    entryHash: entry.entryHash!,
+    signature: entry.signature,
+    createdAt: entry.createdAt,
+  };
+}
+
+export class EscrowAuditService {
+  /**
+   * Append an entry to the vault's chain, inside the caller's transaction
+   */
+  async append(tx: Prisma.TransactionClient, event: AuditEvent): Promise<EscrowAuditLog> {
+    await this.lockVault(tx, event.vaultId);
+    const head = await this.chainUnchainedEntries(tx, event.vaultId);
+
+    const content: ChainedContent = {
+      vaultId: event.vaultId,
+      sequence: (head?.sequence ?? 0) + 1,
+      action: event.action,
+      actorId: event.actorId ?? null,
+      actorType: event.actorType,
+      amount: event.amount === undefined ? null : money(event.amount),
+      previousState: toStoredJson(event.previousState),
+      newState: toStoredJson(event.newState),
+      ipAddress: null,
+      createdAt: new Date(),
+      previousHash: head?.entryHash ?? GENESIS_HASH,
+    };
+    const entryHash = hashEntry(content);
+
+    return tx.escrowAuditLog.create({
+      data: {
+        ...content,
+        previousState: content.previousState ?? undefined,
+        newState: content.newState ?? undefined,
+        entryHash,
+        signature: sign(entryHash),
+      },
+    });
+  }
+
+  /**
+   * Chain a vault's pre-chain entries now rather than on its next write
+   */
+  async backfill(vaultId: string): Promise<number> {
+    return prisma.$transaction(async (tx) => {
+      await this.lockVault(tx, vaultId);
+      const unchained = await tx.escrowAuditLog.count({ where: { vaultId, sequence: null } });
+      await this.chainUnchainedEntries(tx, vaultId);
+      return unchained;
+    });
+  }
+
+  /**
+   * The latest entry of a vault's chain; null if nothing is chained yet
+   */
+  async getHead(vaultId: string): Promise<ChainHead | null> {
+    const head = await prisma.escrowAuditLog.findFirst({
+      where: { vaultId, sequence: { not: null } },
+      orderBy: { sequence: 'desc' },
+    });
+    return head ? toHead(head) : null;
+  }
+
+  /**
+   * Walk a vault's chain from the start and report the first broken link.
+   * With a checkpoint, also check the chain still contains it.
+   */
+  async verifyChain(vaultId: string, checkpoint?: ChainCheckpoint): Promise<ChainVerification> {
+    const signaturesChecked = signingKey() !== null;
+    let previousHash = GENESIS_HASH;
+    let expected = 1;
+    let head: ChainHead | null = null;
+    let brokenAt: ChainBreak | null = null;
+    let checkpointMatches: boolean | null = null;
+
+    while (!brokenAt) {
+      const entries = await prisma.escrowAuditLog.findMany({
+        where: { vaultId, sequence: { gte: expected } },
+        orderBy: { sequence: 'asc' },
+        take: VERIFY_BATCH_SIZE,
+      });
+      if (entries.length === 0) break;
+
+      for (const entry of entries) {
+        brokenAt = this.checkEntry(entry, expected, previousHash, signaturesChecked);
+        if (brokenAt) break;
+
+        if (checkpoint && entry.sequence === checkpoint.sequence) {
+          checkpointMatches = entry.entryHash === checkpoint.entryHash;
+        }
+        previousHash = entry.entryHash!;
+        head = toHead(entry);
+        expected++;
+      }
+    }
+
+    if (checkpoint && checkpointMatches === null && !brokenAt) {
+      // The chain ends before the checkpoint: entries were removed from the end
+      checkpointMatches = false;
+      brokenAt = {
+        sequence: (head?.sequence ?? 0) + 1,
+        entryId: null,
+        reason: `Chain ends at entry ${head?.sequence ?? 0}, before checkpoint ${checkpoint.sequence}`,
+      };
+    }
+
+    const unchainedEntries = await prisma.escrowAuditLog.count({ where: { vaultId, sequence: null } });
+
+    return {
+      vaultId,
+      valid: !brokenAt && checkpointMatches !== false,
+      entriesChecked: head?.sequence ?? 0,
+      head,
+      brokenAt,
+      unchainedEntries,
+      signaturesChecked,
+      ...(checkpoint && { checkpoint: { ...checkpoint, matches: checkpointMatches === true } }),
+    };
+  }
+
+  /**
+   * Whether a user may read a vault's audit log: its creator, its
+   * investors and admins
+   */
+  async canView(userId: string, vault: EscrowVault & { offering: { channel: { ownerId: string } } }): Promise<boolean> {
+    if (vault.offering.channel.ownerId === userId) return true;
+
+    const [investment, user] = await Promise.all([
+      prisma.investment.findFirst({
+        where: { investorId: userId, offeringId: vault.offeringId, status: 'CONFIRMED' },
+        select: { id: true },
+      }),
+      prisma.user.findUnique({ where: { id: userId }, select: { role: true } }),
+    ]);
+
+    return Boolean(investment) || user?.role === 'ADMIN';
+  }
+
+  private checkEntry(
+    entry: EscrowAuditLog,
+    expected: number,
+    previousHash: string,
+    checkSignature: boolean
+  ): ChainBreak | null {
+    if (entry.sequence !== expected) {
+      return { sequence: expected, entryId: null, reason: `Entry ${expected} is missing` };
+    }
+    if (entry.previousHash !== previousHash) {
+      return { sequence: expected, entryId: entry.id, reason: 'Does not link to the previous entry' };
+    }
+    if (hashEntry({ ...entry, sequence: expected, previousHash }) !== entry.entryHash) {
+      return { sequence: expected, entryId: entry.id, reason: 'Content does not match its hash' };
+    }
+    if (checkSignature && entry.signature !== sign(entry.entryHash!)) {
+      return { sequence: expected, entryId: entry.id, reason: 'Signature is invalid' };
+    }
+    return null;
+  }
+
+  // Serialises writers to one vault's chain until the transaction ends
+  private async lockVault(tx: Prisma.TransactionClient, vaultId: string): Promise<void> {
+    await tx.$queryRaw`SELECT id FROM escrow_vaults WHERE id = ${vaultId} FOR UPDATE`;
+  }
+
+  // Chain entries written before the chain, oldest first; returns the head.
+  // The vault must be locked.
+  private async chainUnchainedEntries(tx: Prisma.TransactionClient, vaultId: string): Promise<ChainHead | null> {
+    const latest = await tx.escrowAuditLog.findFirst({
+      where: { vaultId, sequence: { not: null } },
+      orderBy: { sequence: 'desc' },
+    });
+    let head = latest ? toHead(latest) : null;
+
+    const unchained = await tx.escrowAuditLog.findMany({
+      where: { vaultId, sequence: null },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+
+    for (const entry of unchained) {
+      const sequence = (head?.sequence ?? 0) + 1;
+      const previousHash = head?.entryHash ?? GENESIS_HASH;
+      const entryHash = hashEntry({ ...entry, sequence, previousHash });
+
+      const chained = await tx.escrowAuditLog.update({
+        where: { id: entry.id },
+        data: { sequence, previousHash, entryHash, signature: sign(entryHash) },
+      });
+      head = toHead(chained);
+    }
+
+    return head;
+  }
+}
+
+// Singleton instance
+export const escrowAuditService = new EscrowAuditService();
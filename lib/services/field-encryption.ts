@@ -0,0 +1,416 @@
+/**
+ * Field Encryption Service
+ *
+ * Envelope encryption for sensitive columns: KYC identity numbers and
+ * document links in User.kycData, and BankAccount.routingNumber.
+ *
+ * - Values are encrypted with AES-256-GCM under a versioned data key
+ * - Data keys are stored wrapped under the master key
+ *   (FIELD_ENCRYPTION_MASTER_KEY), which never touches the database
+ * - Ciphertexts carry their key version: enc:v<version>:<iv>:<tag>:<data>
+ * - Rotation adds a new data key, re-wraps old keys under the current
+ *   master and re-encrypts every stored value with the new key. Retired
+ *   master keys go in FIELD_ENCRYPTION_PREVIOUS_MASTER_KEYS until then.
+ *
+ * Values written before encryption existed are read back as-is and get
+ * encrypted by the next rotation.
+ */
+
+import crypto from 'crypto';
+import { prisma } from '@/lib/prisma';
+import { DataKey, Prisma } from '@prisma/client';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const PREFIX = 'enc:v';
+const BATCH_SIZE = 100;
+
+// kycData fields that are stored encrypted
+export const ENCRYPTED_KYC_FIELDS = [
+  'panNumber',
+  'aadhaarNumber',
+  'documentNumber',
+  'documentFrontUrl',
+  'documentBackUrl',
+  'selfieUrl',
+] as const;
+
+export type EncryptedKycField = (typeof ENCRYPTED_KYC_FIELDS)[number];
+
+type KycRecord = Record<string, unknown>;
+
+export interface RotationResult {
+  keyVersion: number;
+  rewrappedKeys: number;
+  kycRecords: number;
+  bankAccounts: number;
+}
+
+export interface AccessContext {
+  actorId: string;
+  subjectUserId: string;
+  resourceType: 'KYC' | 'BANK_ACCOUNT' | 'KYC_DOCUMENT' | 'TIER_DOCUMENT';
+  resourceId: string;
+  ipAddress?: string | null;
+}
+
+function parseKey(value: string, name: string): Buffer {
+  const key = /^[0-9a-f]{64}$/i.test(value) ? Buffer.from(value, 'hex') : Buffer.from(value, 'base64');
+  if (key.length !== 32) {
+    throw new Error(`${name} must be a 32-byte key, base64 or hex encoded`);
+  }
+  return key;
+}
+
+function seal(key: Buffer, plaintext: Buffer): string[] {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [iv, cipher.getAuthTag(), data].map((part) => part.toString('base64'));
+}
+
+function open(key: Buffer, [iv, tag, data]: string[]): Buffer {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]);
+}
+
+/**
+ * Show only the last four characters
+ */
+export function mask(value: string): string {
+  return value.length <= 4 ? '•'.repeat(value.length) : '•'.repeat(value.length - 4) + value.slice(-4);
+}
+
+export class FieldEncryptionService {
+  // Unwrapped data keys by version. Versions never change once created.
+  private keys = new Map<number, Buffer>();
+
+  isEncrypted(value: string): boolean {
+    return value.startsWith(PREFIX);
+  }
+
+  keyVersionOf(value: string): number | null {
+    return this.isEncrypted(value) ? Number.parseInt(value.slice(PREFIX.length).split(':')[0]) : null;
+  }
+
+  async encrypt(plaintext: string): Promise<string> {
+    const { version, key } = await this.getActiveKey();
+    return `${PREFIX}${version}:${seal(key, Buffer.from(plaintext, 'utf8')).join(':')}`;
+  }
+
+  /**
+   * Decrypt a value. Plaintext (not yet encrypted) values are returned as-is.
+   */
+  async decrypt(value: string): Promise<string> {
+    if (!this.isEncrypted(value)) {
+      return value;
+    }
+
+    const [version, ...parts] = value.slice(PREFIX.length).split(':');
+    const key = await this.getKey(Number.parseInt(version));
+    return open(key, parts).toString('utf8');
+  }
+
+  /**
+   * Encrypt the sensitive fields of a kycData object, leaving the rest
+   */
+  async encryptKycData<T extends KycRecord>(data: T): Promise<T> {
+    const result: KycRecord = { ...data };
+    for (const field of ENCRYPTED_KYC_FIELDS) {
+      const value = data[field];
+      if (typeof value === 'string' && value && !this.isEncrypted(value)) {
+        result[field] = await this.encrypt(value);
+      }
+    }
+    return result as T;
+  }
+
+  async decryptKycData<T extends KycRecord>(data: T): Promise<T> {
+    const result: KycRecord = { ...data };
+    for (const field of ENCRYPTED_KYC_FIELDS) {
+      const value = data[field];
+      if (typeof value === 'string' && value) {
+        result[field] = await this.decrypt(value);
+      }
+    }
+    return result as T;
+  }
+
+  /**
+   * kycData safe to show without an audited read: identity numbers are
+   * masked to their last four characters and document links dropped.
+   */
+  async maskKycData<T extends KycRecord>(data: T): Promise<T> {
+    const decrypted = await this.decryptKycData(data);
+    const result: KycRecord = { ...decrypted };
+    for (const field of ENCRYPTED_KYC_FIELDS) {
+      const value = decrypted[field];
+      if (typeof value !== 'string' || !value) continue;
+      result[field] = field.endsWith('Url') ? null : mask(value);
+    }
+    return result as T;
+  }
+
+  /**
+   * Decrypt kycData for an admin and record the read
+   */
+  async revealKycData<T extends KycRecord>(data: T, context: Omit<AccessContext, 'resourceType'>): Promise<T> {
+    const decrypted = await this.decryptKycData(data);
+    const fields = ENCRYPTED_KYC_FIELDS.filter((field) => typeof data[field] === 'string' && data[field]);
+
+    await this.logAccess({ ...context, resourceType: 'KYC' }, fields);
+
+    return decrypted;
+  }
+
+  async logAccess(context: AccessContext, fields: readonly string[]): Promise<void> {
+    await prisma.sensitiveDataAccessLog.create({
+      data: {
+        actorId: context.actorId,
+        subjectUserId: context.subjectUserId,
+        resourceType: context.resourceType,
+        resourceId: context.resourceId,
+        fields: [...fields],
+        ipAddress: context.ipAddress ?? null,
+      },
+    });
+  }
+
+  /**
+   * Rotate to a new data key and re-encrypt every stored value with it.
+   * Safe to re-run: values already on the newest key are skipped.
+   */
+  async rotate(): Promise<RotationResult> {
+    const rewrappedKeys = await this.rewrapKeys();
+
+    const latest = await prisma.dataKey.findFirst({ orderBy: { version: 'desc' } });
+    const newKey = await prisma.$transaction(async (tx) => {
+      await tx.dataKey.updateMany({
+        where: { status: 'ACTIVE' },
+        data: { status: 'RETIRED', retiredAt: new Date() },
+      });
+      return this.createKey(tx, (latest?.version ?? 0) + 1);
+    });
+
+    const kycRecords = await this.reencryptKycData(newKey.version);
+    const bankAccounts = await this.reencryptBankAccounts(newKey.version);
+
+    return {
+      keyVersion: newKey.version,
+      rewrappedKeys,
+      kycRecords,
+      bankAccounts,
+    };
+  }
+
+  private masterKey(): Buffer {
+    const value = process.env.FIELD_ENCRYPTION_MASTER_KEY;
+    if (!value) {
+      throw new Error('FIELD_ENCRYPTION_MASTER_KEY is not set');
+    }
+    return parseKey(value, 'FIELD_ENCRYPTION_MASTER_KEY');
+  }
+
+  private previousMasterKeys(): Buffer[] {
+    return (process.env.FIELD_ENCRYPTION_PREVIOUS_MASTER_KEYS ?? '')
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean)
+      .map((value) => parseKey(value, 'FIELD_ENCRYPTION_PREVIOUS_MASTER_KEYS'));
+  }
+
+  /**
+   * Unwrap a data key, trying the current master key first. `current`
+   * says whether the current one worked.
+   */
+  private unwrap(dataKey: DataKey): { key: Buffer; current: boolean } {
+    const parts = dataKey.wrappedKey.split(':');
+    const masters = [this.masterKey(), ...this.previousMasterKeys()];
+
+    for (const [i, master] of masters.entries()) {
+      try {
+        return { key: open(master, parts), current: i === 0 };
+      } catch {
+        // Wrapped under a different master key
+      }
+    }
+
+    throw new Error(`Data key v${dataKey.version} cannot be unwrapped with the configured master keys`);
+  }
+
+  private async getKey(version: number): Promise<Buffer> {
+    const cached = this.keys.get(version);
+    if (cached) return cached;
+
+    const dataKey = await prisma.dataKey.findUnique({ where: { version } });
+    if (!dataKey) {
+      throw new Error(`Data key v${version} not found`);
+    }
+
+    const { key } = this.unwrap(dataKey);
+    this.keys.set(version, key);
+    return key;
+  }
+
+  /**
+   * Newest active key, creating the first one on first use. Looked up on
+   * every call so other processes pick up a rotation straight away.
+   */
+  private async getActiveKey(): Promise<{ version: number; key: Buffer }> {
+    const active = await prisma.dataKey.findFirst({
+      where: { status: 'ACTIVE' },
+      orderBy: { version: 'desc' },
+    });
+
+    if (active) {
+      return { version: active.version, key: await this.getKey(active.version) };
+    }
+
+    try {
+      const created = await this.createKey(prisma, 1);
+      return { version: created.version, key: await this.getKey(created.version) };
+    } catch (error) {
+      // Another process created the first key at the same time
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return this.getActiveKey();
+      }
+      throw error;
+    }
+  }
+
+  private async createKey(client: Prisma.TransactionClient, version: number): Promise<DataKey> {
+    const key = crypto.randomBytes(32);
+    const dataKey = await client.dataKey.create({
+      data: {
+        version,
+        wrappedKey: seal(this.masterKey(), key).join(':'),
+      },
+    });
+    this.keys.set(version, key);
+    return dataKey;
+  }
+
+  /**
+   * Re-wrap data keys still under a previous master key
+   */
+  private async rewrapKeys(): Promise<number> {
+    const dataKeys = await prisma.dataKey.findMany();
+    let rewrapped = 0;
+
+    for (const dataKey of dataKeys) {
+      const { key, current } = this.unwrap(dataKey);
+      if (current) continue;
+
+      await prisma.dataKey.update({
+        where: { id: dataKey.id },
+        data: { wrappedKey: seal(this.masterKey(), key).join(':') },
+      });
+      rewrapped++;
+    }
+
+    return rewrapped;
+  }
+
+  private needsReencryption(value: unknown, version: number): value is string {
+    return typeof value === 'string' && value !== '' && this.keyVersionOf(value) !== version;
+  }
+
+  private async reencryptKycData(version: number): Promise<number> {
+    let updated = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      const users = await prisma.user.findMany({
+        where: { NOT: { kycData: { equals: Prisma.DbNull } } },
+        select: { id: true, kycData: true },
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE,
+        ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+      });
+
+      if (users.length === 0) break;
+      cursor = users[users.length - 1].id;
+
+      for (const user of users) {
+        if (!this.kycNeedsReencryption(user.kycData, version)) continue;
+        if (await this.reencryptUserKyc(user.id, version)) updated++;
+      }
+    }
+
+    return updated;
+  }
+
+  private kycNeedsReencryption(kycData: unknown, version: number): kycData is KycRecord {
+    const data = kycData as KycRecord | null;
+    return !!data && typeof data === 'object'
+      && ENCRYPTED_KYC_FIELDS.some((field) => this.needsReencryption(data[field], version));
+  }
+
+  // Re-reads and writes under a row lock, so an approval or resubmission
+  // landing meanwhile is not overwritten with the data read by the scan
+  private async reencryptUserKyc(userId: string, version: number): Promise<boolean> {
+    return prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM users WHERE id = ${userId} FOR UPDATE`;
+      const { kycData } = await tx.user.findUniqueOrThrow({ where: { id: userId }, select: { kycData: true } });
+      if (!this.kycNeedsReencryption(kycData, version)) return false;
+
+      const result: KycRecord = { ...kycData };
+      for (const field of ENCRYPTED_KYC_FIELDS) {
+        const value = kycData[field];
+        if (this.needsReencryption(value, version)) {
+          result[field] = await this.encrypt(await this.decrypt(value));
+        }
+      }
+
+      await tx.user.update({
+        where: { id: userId },
+        data: { kycData: result as Prisma.InputJsonObject },
+      });
+      return true;
+    });
+  }
+
+  private async reencryptBankAccounts(version: number): Promise<number> {
+    let updated = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      const accounts = await prisma.bankAccount.findMany({
+        select: { id: true, routingNumber: true },
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE,
+        ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+      });
+
+      if (accounts.length === 0) break;
+      cursor = accounts[accounts.length - 1].id;
+
+      for (const account of accounts) {
+        if (!this.needsReencryption(account.routingNumber, version)) continue;
+
+        // Re-read under a row lock, as for KYC data
+        const rotated = await prisma.$transaction(async (tx) => {
+          await tx.$queryRaw`SELECT id FROM bank_accounts WHERE id = ${account.id} FOR UPDATE`;
+          const current = await tx.bankAccount.findUnique({
+            where: { id: account.id },
+            select: { routingNumber: true },
+          });
+          if (!current || !this.needsReencryption(current.routingNumber, version)) return false;
+
+          await tx.bankAccount.update({
+            where: { id: account.id },
+            data: { routingNumber: await this.encrypt(await this.decrypt(current.routingNumber)) },
+          });
+          return true;
+        });
+        if (rotated) updated++;
+      }
+    }
+
+    return updated;
+  }
+}
+
+// Singleton instance
+export const fieldEncryptionService = new FieldEncryptionService();
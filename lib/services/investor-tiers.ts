@@ -0,0 +1,337 @@
+/**
+ * Investor Tier Service
+ *
+ * Investment limits by investor tier, and the admin-reviewed flow for
+ * moving up a tier.
+ *
+ * Tiers:
+ * - RETAIL: every investor starts here
+ * - VERIFIED_INCOME: income evidenced with ITR or a CA certificate
+ * - ACCREDITED: accredited investor by income or net worth
+ *
+ * Each tier has a per-investment limit and a limit on purchases over a
+ * rolling 12 months. Both primary investments and secondary-market buys
+ * count, as do funds reserved by open bids when a new bid is placed.
+ * Limits are stored per tier (InvestorTierLimit); tiers without a row
+ * use DEFAULT_TIER_LIMITS.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { InvestorTier, InvestorTierLimit, Prisma, TierUpgradeRequest } from '@prisma/client';
+import { Money, MoneyInput, ZERO, add, formatINR, money, subtract } from '@/lib/utils/money';
+
+const WINDOW_MONTHS = 12;
+
+const TIER_RANK: Record<InvestorTier, number> = {
+  RETAIL: 0,
+  VERIFIED_INCOME: 1,
+  ACCREDITED: 2,
+};
+
+export interface TierLimits {
+  maxSingleInvestment: Money | null;
+  maxAnnualInvestment: Money | null;
+}
+
+// Amounts in INR. null means no limit.
+export const DEFAULT_TIER_LIMITS: Record<InvestorTier, TierLimits> = {
+  RETAIL: {
+    maxSingleInvestment: money(250000),    // ₹2,50,000
+    maxAnnualInvestment: money(1000000),   // ₹10,00,000
+  },
+  VERIFIED_INCOME: {
+    maxSingleInvestment: money(1000000),   // ₹10,00,000
+    maxAnnualInvestment: money(5000000),   // ₹50,00,000
+  },
+  ACCREDITED: {
+    maxSingleInvestment: null,
+    maxAnnualInvestment: null,
+  },
+};
+
+export type EligibilityCode = 'KYC_REQUIRED' | 'SINGLE_LIMIT_EXCEEDED' | 'ANNUAL_LIMIT_EXCEEDED';
+
+export interface InvestmentUsage {
+  invested: Money;    // Purchases completed in the window
+  reserved: Money;    // Held by open bids (only when asked for)
+  windowStart: Date;
+}
+
+export type EligibilityResult =
+  | { eligible: true; tier: InvestorTier; limits: TierLimits; usage: InvestmentUsage }
+  | {
+      eligible: false;
+      code: EligibilityCode;
+      reason: string;
+      tier?: InvestorTier;
+      limits?: TierLimits;
+      usage?: InvestmentUsage;
+    };
+
+export interface UpgradeEvidence {
+  requestedTier: InvestorTier;
+  annualIncome?: MoneyInput;
+  netWorth?: MoneyInput;
+  documentUrls: string[];
+}
+
+/**
+ * Start of the rolling window ending at `now`
+ */
+export function windowStart(now: Date = new Date()): Date {
+  const start = new Date(now);
+  start.setUTCMonth(start.getUTCMonth() - WINDOW_MONTHS);
+  return start;
+}
+
+function toLimits(row: InvestorTierLimit): TierLimits {
+  return {
+    maxSingleInvestment: row.maxSingleInvestment,
+    maxAnnualInvestment: row.maxAnnualInvestment,
+  };
+}
+
+export class InvestorTierService {
+  async getLimits(tier: InvestorTier, client: Prisma.TransactionClient = prisma): Promise<TierLimits> {
+    const row = await client.investorTierLimit.findUnique({
+      where: { tier },
+    });
+
+    return row ? toLimits(row) : DEFAULT_TIER_LIMITS[tier];
+  }
+
+  /**
+   * Limits for every tier, with whether each is still the default
+   */
+  async getAllLimits(): Promise<Array<TierLimits & { tier: InvestorTier; isDefault: boolean }>> {
+    const rows = await prisma.investorTierLimit.findMany();
+
+    return Object.values(InvestorTier).map((tier) => {
+      const row = rows.find((r) => r.tier === tier);
+      return {
+        tier,
+        ...(row ? toLimits(row) : DEFAULT_TIER_LIMITS[tier]),
+        isDefault: !row,
+      };
+    });
+  }
+
+  async updateLimits(
+    tier: InvestorTier,
+    changes: Partial<TierLimits>,
+    adminId: string
+  ): Promise<InvestorTierLimit> {
+    const data = { ...changes, updatedBy: adminId };
+
+    return prisma.investorTierLimit.upsert({
+      where: { tier },
+      create: { tier, ...DEFAULT_TIER_LIMITS[tier], ...data },
+      update: data,
+    });
+  }
+
+  /**
+   * What a user has put in over the rolling window: completed primary
+   * investments and secondary buys (both are INVESTMENT transactions).
+   * With `includeOpenBids`, funds locked by their open bids are added.
+   */
+  async getUsage(
+    userId: string,
+    options: { includeOpenBids?: boolean; client?: Prisma.TransactionClient; now?: Date } = {}
+  ): Promise<InvestmentUsage> {
+    const client = options.client ?? prisma;
+    const start = windowStart(options.now);
+
+    const [purchases, bids] = await Promise.all([
+      client.transaction.aggregate({
+        where: {
+          userId,
+          type: 'INVESTMENT',
+          status: 'COMPLETED',
+          createdAt: { gte: start },
+        },
+        _sum: { amount: true },
+      }),
+      options.includeOpenBids
+        ? client.buyOrder.aggregate({
+            where: { buyerId: userId, status: { in: ['ACTIVE', 'PARTIALLY_FILLED'] } },
+            _sum: { lockedAmount: true },
+          })
+        : null,
+    ]);
+
+    return {
+      invested: purchases._sum.amount ?? ZERO,
+      reserved: bids?._sum.lockedAmount ?? ZERO,
+      windowStart: start,
+    };
+  }
+
+  /**
+   * Can this user put `amount` into one purchase now? Requires verified
+   * KYC, then checks the tier's per-investment and 12-month limits.
+   */
+  async checkEligibility(
+    userId: string,
+    amount: MoneyInput,
+    options: { includeOpenBids?: boolean; client?: Prisma.TransactionClient } = {}
+  ): Promise<EligibilityResult> {
+    const client = options.client ?? prisma;
+
+    const user = await client.user.findUnique({
+      where: { id: userId },
+      select: { kycStatus: true, investorTier: true },
+    });
+
+    if (!user || user.kycStatus !== 'VERIFIED') {
+      return {
+        eligible: false,
+        code: 'KYC_REQUIRED',
+        reason: 'KYC verification required',
+      };
+    }
+
+    const tier = user.investorTier;
+    const [limits, usage] = await Promise.all([
+      this.getLimits(tier, client),
+      this.getUsage(userId, { includeOpenBids: options.includeOpenBids, client }),
+    ]);
+
+    if (limits.maxSingleInvestment && add(amount).greaterThan(limits.maxSingleInvestment)) {
+      return {
+        eligible: false,
+        code: 'SINGLE_LIMIT_EXCEEDED',
+        reason: `Single investment limit for your tier is ${formatINR(limits.maxSingleInvestment)}`,
+        tier,
+        limits,
+        usage,
+      };
+    }
+
+    if (limits.maxAnnualInvestment
+      && add(usage.invested, usage.reserved, amount).greaterThan(limits.maxAnnualInvestment)) {
+      const remaining = subtract(limits.maxAnnualInvestment, usage.invested, usage.reserved);
+      return {
+        eligible: false,
+        code: 'ANNUAL_LIMIT_EXCEEDED',
+        reason: `12-month investment limit of ${formatINR(limits.maxAnnualInvestment)} would be exceeded. You can invest up to ${formatINR(remaining.isNegative() ? ZERO : remaining)} more.`,
+        tier,
+        limits,
+        usage,
+      };
+    }
+
+    return { eligible: true, tier, limits, usage };
+  }
+
+  /**
+   * Ask to move up a tier. One request may be pending at a time.
+   */
+  async requestUpgrade(userId: string, evidence: UpgradeEvidence): Promise<TierUpgradeRequest> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { kycStatus: true, investorTier: true },
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (user.kycStatus !== 'VERIFIED') {
+      throw new Error('Complete KYC verification before requesting a tier upgrade');
+    }
+
+    if (TIER_RANK[evidence.requestedTier] <= TIER_RANK[user.investorTier]) {
+      throw new Error(`You are already in the ${user.investorTier} tier`);
+    }
+
+    if (evidence.requestedTier === 'VERIFIED_INCOME' && evidence.annualIncome === undefined) {
+      throw new Error('Annual income is required for the verified-income tier');
+    }
+
+    if (evidence.requestedTier === 'ACCREDITED'
+      && evidence.annualIncome === undefined && evidence.netWorth === undefined) {
+      throw new Error('Annual income or net worth is required for the accredited tier');
+    }
+
+    if (evidence.documentUrls.length === 0) {
+      throw new Error('At least one supporting document is required');
+    }
+
+    const pending = await prisma.tierUpgradeRequest.findFirst({
+      where: { userId, status: 'PENDING' },
+      select: { id: true },
+    });
+
+    if (pending) {
+      throw new Error('You already have a tier upgrade request under review');
+    }
+
+    return prisma.tierUpgradeRequest.create({
+      data: {
+        userId,
+        currentTier: user.investorTier,
+        requestedTier: evidence.requestedTier,
+        annualIncome: evidence.annualIncome !== undefined ? money(evidence.annualIncome) : null,
+        netWorth: evidence.netWorth !== undefined ? money(evidence.netWorth) : null,
+        documentUrls: evidence.documentUrls,
+      },
+    });
+  }
+
+  async approveRequest(requestId: string, adminId: string, note?: string): Promise<TierUpgradeRequest> {
+    return prisma.$transaction(async (tx) => {
+      const request = await this.getPendingRequest(tx, requestId);
+
+      await tx.user.update({
+        where: { id: request.userId },
+        data: { investorTier: request.requestedTier },
+      });
+
+      return tx.tierUpgradeRequest.update({
+        where: { id: requestId },
+        data: {
+          status: 'APPROVED',
+          reviewNote: note,
+          reviewedBy: adminId,
+          reviewedAt: new Date(),
+        },
+      });
+    });
+  }
+
+  async rejectRequest(requestId: string, adminId: string, note: string): Promise<TierUpgradeRequest> {
+    return prisma.$transaction(async (tx) => {
+      await this.getPendingRequest(tx, requestId);
+
+      return tx.tierUpgradeRequest.update({
+        where: { id: requestId },
+        data: {
+          status: 'REJECTED',
+          reviewNote: note,
+          reviewedBy: adminId,
+          reviewedAt: new Date(),
+        },
+      });
+    });
+  }
+
+  private async getPendingRequest(tx: Prisma.TransactionClient, requestId: string): Promise<TierUpgradeRequest> {
+    const request = await tx.tierUpgradeRequest.findUnique({
+      where: { id: requestId },
+    });
+
+    if (!request) {
+      throw new Error('Tier upgrade request not found');
+    }
+
+    if (request.status !== 'PENDING') {
+      throw new Error(`Request has already been ${request.status.toLowerCase()}`);
+    }
+
+    return request;
+  }
+}
+
+// Singleton instance
+export const investorTierService = new InvestorTierService();
@@ -0,0 +1,340 @@
+/**
+ * Job Scheduler
+ *
+ * Runs periodic background jobs (escrow distributions, claim expiry,
+ * order expiry, ...) inside the app process. Jobs are registered in
+ * lib/jobs.ts and the scheduler is started from instrumentation.ts.
+ *
+ * - Each job has a ScheduledJob row holding its next run time and a lease.
+ *   An instance must win the lease with a conditional update before it runs
+ *   the job, so two app instances never run the same job at once. If the
+ *   lease holder dies, the lease lapses after the job's timeout.
+ * - Every execution is recorded as a JobRun.
+ * - A failed run is retried with exponential backoff until maxAttempts is
+ *   reached, after which the job waits for its next regular interval.
+ */
+
+import crypto from 'node:crypto';
+import os from 'node:os';
+import { prisma } from '@/lib/prisma';
+import { JobRun, JobRunStatus, JobTrigger, Prisma, ScheduledJob } from '@prisma/client';
+
+// How often each instance checks for due jobs
+const TICK_INTERVAL_MS = 30 * 1000;
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_RETRY_BACKOFF_MS = 60 * 1000;
+const MAX_RETRY_BACKOFF_MS = 60 * 60 * 1000;
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  intervalMs: number;
+  maxAttempts?: number; // Including the first run
+  retryBackoffMs?: number; // Delay before the first retry, doubled for each further retry
+  timeoutMs?: number; // Lease length - the longest a run may take
+  handler: () => Promise<Prisma.InputJsonObject | void>;
+}
+
+export interface JobSummary {
+  name: string;
+  description: string;
+  intervalMs: number;
+  maxAttempts: number;
+  running: boolean;
+  lockedBy: string | null;
+  nextRunAt: Date | null;
+  consecutiveFailures: number;
+  lastRunAt: Date | null;
+  lastSuccessAt: Date | null;
+  lastError: string | null;
+}
+
+export interface JobRunFilters {
+  jobName?: string;
+  status?: JobRunStatus;
+  page?: number;
+  limit?: number;
+}
+
+export class JobScheduler {
+  private readonly jobs = new Map<string, JobDefinition>();
+  private readonly instanceId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(3).toString('hex')}`;
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  /**
+   * Add a job to the schedule
+   */
+  register(definition: JobDefinition): void {
+    if (this.jobs.has(definition.name)) {
+      throw new Error(`Job ${definition.name} is already registered`);
+    }
+
+    this.jobs.set(definition.name, definition);
+  }
+
+  /**
+   * Start checking for due jobs on this instance
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, TICK_INTERVAL_MS);
+    this.timer.unref();
+
+    void this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run every job that is due and not leased by another instance
+   */
+  async tick(): Promise<void> {
+    // A slow job must not cause overlapping ticks on the same instance
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      await this.ensureJobRows();
+
+      for (const definition of this.jobs.values()) {
+        try {
+          const job = await this.acquireLease(definition, true);
+          if (job) {
+            await this.execute(definition, job, 'SCHEDULE');
+          }
+        } catch (error) {
+          console.error(`Job scheduler failed to run ${definition.name}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('Job scheduler tick failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Run a job immediately, regardless of its schedule (admin trigger)
+   */
+  async runNow(name: string): Promise<JobRun> {
+    const definition = this.jobs.get(name);
+    if (!definition) {
+      throw new Error(`Unknown job: ${name}`);
+    }
+
+    await this.ensureJobRows();
+
+    const job = await this.acquireLease(definition, false);
+    if (!job) {
+      throw new Error(`Job ${name} is already running`);
+    }
+
+    return this.execute(definition, job, 'MANUAL');
+  }
+
+  /**
+   * Registered jobs with their current schedule state
+   */
+  async getJobs(): Promise<JobSummary[]> {
+    await this.ensureJobRows();
+
+    const rows = await prisma.scheduledJob.findMany({
+      where: { name: { in: Array.from(this.jobs.keys()) } },
+    });
+    const rowsByName = new Map(rows.map((row) => [row.name, row]));
+    const now = new Date();
+
+    return Array.from(this.jobs.values()).map((definition) => {
+      const row = rowsByName.get(definition.name);
+
+      return {
+        name: definition.name,
+        description: definition.description,
+        intervalMs: definition.intervalMs,
+        maxAttempts: definition.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+        running: !!row?.lockedUntil && row.lockedUntil > now,
+        lockedBy: row?.lockedBy ?? null,
+        nextRunAt: row?.nextRunAt ?? null,
+        consecutiveFailures: row?.consecutiveFailures ?? 0,
+        lastRunAt: row?.lastRunAt ?? null,
+        lastSuccessAt: row?.lastSuccessAt ?? null,
+        lastError: row?.lastError ?? null,
+      };
+    });
+  }
+
+  /**
+   * Job run history, newest first
+   */
+  async getRuns(filters: JobRunFilters = {}) {
+    const page = filters.page ?? 1;
+    const limit = filters.limit ?? 20;
+
+    const where: Prisma.JobRunWhereInput = {
+      ...(filters.jobName ? { jobName: filters.jobName } : {}),
+      ...(filters.status ? { status: filters.status } : {}),
+    };
+
+    const [runs, total] = await Promise.all([
+      prisma.jobRun.findMany({
+        where,
+        orderBy: { startedAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.jobRun.count({ where }),
+    ]);
+
+    return {
+      runs,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Create the schedule row for any newly registered job
+   */
+  private async ensureJobRows(): Promise<void> {
+    await prisma.scheduledJob.createMany({
+      data: Array.from(this.jobs.keys()).map((name) => ({ name })),
+      skipDuplicates: true,
+    });
+  }
+
+  /**
+   * Take the job's lease. The update only matches when no live lease
+   * exists, so exactly one instance wins.
+   */
+  private async acquireLease(definition: JobDefinition, onlyIfDue: boolean): Promise<ScheduledJob | null> {
+    const now = new Date();
+    const timeoutMs = definition.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+    const { count } = await prisma.scheduledJob.updateMany({
+      where: {
+        name: definition.name,
+        OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+        ...(onlyIfDue ? { nextRunAt: { lte: now } } : {}),
+      },
+      data: {
+        lockedBy: this.instanceId,
+        lockedUntil: new Date(now.getTime() + timeoutMs),
+      },
+    });
+
+    if (count === 0) return null;
+
+    // Runs left RUNNING by an instance whose lease lapsed will never finish
+    await prisma.jobRun.updateMany({
+      where: { jobName: definition.name, status: 'RUNNING' },
+      data: {
+        status: 'FAILED',
+        finishedAt: now,
+        error: 'Lease expired before the run finished',
+      },
+    });
+
+    return prisma.scheduledJob.findUnique({
+      where: { name: definition.name },
+    });
+  }
+
+  /**
+   * Run the job's handler, record the run and schedule the next one
+   */
+  private async execute(definition: JobDefinition, job: ScheduledJob, trigger: JobTrigger): Promise<JobRun> {
+    const maxAttempts = definition.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    const attempt = job.consecutiveFailures + 1;
+
+    const run = await prisma.jobRun.create({
+      data: {
+        jobName: definition.name,
+        trigger,
+        attempt,
+        instanceId: this.instanceId,
+      },
+    });
+
+    try {
+      const result = await definition.handler();
+      const finishedAt = new Date();
+
+      await prisma.scheduledJob.updateMany({
+        where: { name: definition.name, lockedBy: this.instanceId },
+        data: {
+          nextRunAt: new Date(finishedAt.getTime() + definition.intervalMs),
+          consecutiveFailures: 0,
+          lastRunAt: run.startedAt,
+          lastSuccessAt: finishedAt,
+          lastError: null,
+          lockedBy: null,
+          lockedUntil: null,
+        },
+      });
+
+      return prisma.jobRun.update({
+        where: { id: run.id },
+        data: {
+          status: 'SUCCEEDED',
+          finishedAt,
+          durationMs: finishedAt.getTime() - run.startedAt.getTime(),
+          result: result ?? Prisma.JsonNull,
+        },
+      });
+    } catch (error) {
+      const finishedAt = new Date();
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      const willRetry = attempt < maxAttempts;
+
+      const backoffMs = Math.min(
+        (definition.retryBackoffMs ?? DEFAULT_RETRY_BACKOFF_MS) * 2 ** (attempt - 1),
+        MAX_RETRY_BACKOFF_MS
+      );
+      const nextRunAt = new Date(finishedAt.getTime() + (willRetry ? backoffMs : definition.intervalMs));
+
+      console.error(`Job ${definition.name} failed (attempt ${attempt}/${maxAttempts}):`, error);
+
+      await prisma.scheduledJob.updateMany({
+        where: { name: definition.name, lockedBy: this.instanceId },
+        data: {
+          nextRunAt,
+          // Out of retries - start counting afresh at the next regular run
+          consecutiveFailures: willRetry ? attempt : 0,
+          lastRunAt: run.startedAt,
+          lastError: errorMessage,
+          lockedBy: null,
+          lockedUntil: null,
+        },
+      });
+
+      return prisma.jobRun.update({
+        where: { id: run.id },
+        data: {
+          status: 'FAILED',
+          finishedAt,
+          durationMs: finishedAt.getTime() - run.startedAt.getTime(),
+          error: errorMessage,
+          nextRetryAt: willRetry ? nextRunAt : null,
+        },
+      });
+    }
+  }
+}
+
+// Singleton instance
+export const jobScheduler = new JobScheduler();
@@ -0,0 +1,120 @@
+/**
+ * Automated KYC Checks
+ *
+ * Run on every KYC submission before it goes to the provider or the
+ * admin queue:
+ * - PAN_FORMAT: a valid individual PAN (AAAPA9999A, 4th letter P)
+ * - MINIMUM_AGE: at least 18 on the date of submission
+ * - NAME_MATCH: the submitted name matches the name the provider read
+ *   from the document (run once the provider returns it)
+ *
+ * A FAIL rejects the submission outright. A REVIEW sends it to an admin.
+ */
+
+export type KYCCheckCode = 'PAN_FORMAT' | 'MINIMUM_AGE' | 'NAME_MATCH';
+
+export type KYCCheckOutcome = 'PASS' | 'REVIEW' | 'FAIL';
+
+export interface KYCCheckResult {
+  code: KYCCheckCode;
+  outcome: KYCCheckOutcome;
+  detail: string;
+}
+
+export const MINIMUM_AGE = 18;
+
+const PAN_PATTERN = /^[A-Z]{3}P[A-Z]\d{4}[A-Z]$/;
+
+export function checkPanFormat(panNumber: string): KYCCheckResult {
+  const pan = panNumber.trim().toUpperCase();
+
+  if (!/^[A-Z]{5}\d{4}[A-Z]$/.test(pan)) {
+    return { code: 'PAN_FORMAT', outcome: 'FAIL', detail: 'PAN must be 5 letters, 4 digits and a letter' };
+  }
+
+  if (!PAN_PATTERN.test(pan)) {
+    return { code: 'PAN_FORMAT', outcome: 'FAIL', detail: 'PAN is not an individual\'s PAN (4th character must be P)' };
+  }
+
+  return { code: 'PAN_FORMAT', outcome: 'PASS', detail: 'Valid individual PAN' };
+}
+
+export function checkMinimumAge(dateOfBirth: string, now: Date = new Date()): KYCCheckResult {
+  const dob = new Date(dateOfBirth);
+
+  if (Number.isNaN(dob.getTime()) || dob > now) {
+    return { code: 'MINIMUM_AGE', outcome: 'FAIL', detail: 'Date of birth is not a valid past date' };
+  }
+
+  let age = now.getUTCFullYear() - dob.getUTCFullYear();
+  const birthdayPassed = now.getUTCMonth() > dob.getUTCMonth()
+    || (now.getUTCMonth() === dob.getUTCMonth() && now.getUTCDate() >= dob.getUTCDate());
+  if (!birthdayPassed) age--;
+
+  return age >= MINIMUM_AGE
+    ? { code: 'MINIMUM_AGE', outcome: 'PASS', detail: `Age ${age}` }
+    : { code: 'MINIMUM_AGE', outcome: 'FAIL', detail: `Investors must be at least ${MINIMUM_AGE} (age ${age})` };
+}
+
+function nameTokens(name: string): string[] {
+  return name
+    .toUpperCase()
+    .replaceAll(/[^A-Z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+// "R" matches "RAHUL"; otherwise tokens must be equal
+function tokensMatch(a: string, b: string): boolean {
+  if (a.length === 1 || b.length === 1) return a[0] === b[0];
+  return a === b;
+}
+
+/**
+ * Submitted first/last name against the name on the document. Every
+ * token matching either way is a PASS; the same surname and first
+ * initial (e.g. a missing middle name) is a REVIEW; anything else FAILs.
+ */
+export function checkNameMatch(firstName: string, lastName: string, documentName: string): KYCCheckResult {
+  const submitted = nameTokens(`${firstName} ${lastName}`);
+  const onDocument = nameTokens(documentName);
+
+  const covered = (from: string[], to: string[]) => from.every((a) => to.some((b) => tokensMatch(a, b)));
+
+  if (submitted.length > 0 && covered(submitted, onDocument) && covered(onDocument, submitted)) {
+    return { code: 'NAME_MATCH', outcome: 'PASS', detail: 'Name matches the document' };
+  }
+
+  const surname = submitted[submitted.length - 1];
+  if (surname && onDocument.includes(surname) && tokensMatch(submitted[0], onDocument[0])) {
+    return { code: 'NAME_MATCH', outcome: 'REVIEW', detail: `Partial match with "${documentName}"` };
+  }
+
+  return { code: 'NAME_MATCH', outcome: 'FAIL', detail: `Name does not match the document ("${documentName}")` };
+}
+
+/**
+ * Checks that need only the submitted form
+ */
+export function runSubmissionChecks(
+  data: { panNumber: string; dateOfBirth: string },
+  now: Date = new Date()
+): KYCCheckResult[] {
+  return [checkPanFormat(data.panNumber), checkMinimumAge(data.dateOfBirth, now)];
+}
+
+/**
+ * Worst outcome across the checks
+ */
+export function overallOutcome(checks: KYCCheckResult[]): KYCCheckOutcome {
+  if (checks.some((check) => check.outcome === 'FAIL')) return 'FAIL';
+  if (checks.some((check) => check.outcome === 'REVIEW')) return 'REVIEW';
+  return 'PASS';
+}
+
+export function failureReason(checks: KYCCheckResult[]): string {
+  return checks
+    .filter((check) => check.outcome === 'FAIL')
+    .map((check) => check.detail)
+    .join('; ');
+}
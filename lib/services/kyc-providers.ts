@@ -0,0 +1,181 @@
+/**
+ * KYC Providers
+ *
+ * Who verifies an investor's identity documents. KYCService
+ * (lib/services/kyc.ts) submits each submission that passes the
+ * automated checks, then learns the provider's decision from the
+ * submit response, a webhook (/api/webhooks/kyc/<provider>) or the
+ * kyc-verification-poll job.
+ *
+ * - manual: no external provider; every submission goes to the admin
+ *   queue. This is the default.
+ * - mock: fully local provider for development and tests. It decides
+ *   by MOCK_KYC_OUTCOME (approve, reject or review; default approve),
+ *   immediately or - with MOCK_KYC_ASYNC=true - on the next poll or
+ *   webhook. Webhooks are signed with KYC_WEBHOOK_SECRET.
+ *
+ * Select with KYC_PROVIDER (default: manual).
+ */
+
+import crypto from 'crypto';
+
+export type KYCProviderDecision = 'IN_PROGRESS' | 'APPROVED' | 'REJECTED' | 'MANUAL_REVIEW';
+
+export interface KYCVerificationRequest {
+  userId: string;
+  firstName: string;
+  lastName: string;
+  dateOfBirth: string;
+  panNumber: string;
+  documentType: string;
+  documentNumber?: string;
+  aadhaarNumber?: string;
+  documentFrontUrl?: string;
+  documentBackUrl?: string;
+  selfieUrl?: string;
+}
+
+export interface KYCProviderResult {
+  provider: string;
+  reference: string;
+  decision: KYCProviderDecision;
+  reason?: string;
+  documentName?: string; // Name read from the document, for the name-match check
+  raw: Record<string, unknown>; // Kept as evidence
+}
+
+export interface KYCProvider {
+  readonly name: string;
+  submit(request: KYCVerificationRequest): Promise<KYCProviderResult>;
+  poll(reference: string): Promise<KYCProviderResult>;
+  /**
+   * Verify and parse a webhook callback. Throws if the signature is invalid.
+   */
+  parseWebhook(body: string, headers: Headers): KYCProviderResult;
+}
+
+export class ManualKYCProvider implements KYCProvider {
+  readonly name = 'manual';
+
+  async submit(request: KYCVerificationRequest): Promise<KYCProviderResult> {
+    const reference = `manual_${request.userId}_${Date.now()}`;
+    return { provider: this.name, reference, decision: 'MANUAL_REVIEW', raw: {} };
+  }
+
+  async poll(reference: string): Promise<KYCProviderResult> {
+    return { provider: this.name, reference, decision: 'MANUAL_REVIEW', raw: {} };
+  }
+
+  parseWebhook(): KYCProviderResult {
+    throw new Error('The manual KYC provider does not send webhooks');
+  }
+}
+
+export interface MockKYCOptions {
+  outcome?: 'APPROVED' | 'REJECTED' | 'MANUAL_REVIEW';
+  async?: boolean;
+  documentName?: string; // Name the mock "reads" from the document (default: the submitted name)
+  webhookSecret?: string;
+}
+
+const MOCK_OUTCOMES: Record<string, MockKYCOptions['outcome']> = {
+  approve: 'APPROVED',
+  reject: 'REJECTED',
+  review: 'MANUAL_REVIEW',
+};
+
+/**
+ * Decides locally. The decision and document name are carried in the
+ * reference, so polling needs no stored state.
+ */
+export class MockKYCProvider implements KYCProvider {
+  readonly name = 'mock';
+
+  constructor(private readonly options: MockKYCOptions = {}) {}
+
+  async submit(request: KYCVerificationRequest): Promise<KYCProviderResult> {
+    const outcome = this.options.outcome ?? 'APPROVED';
+    const documentName = this.options.documentName ?? `${request.firstName} ${request.lastName}`;
+    const reference = [
+      'mock',
+      outcome,
+      Buffer.from(documentName).toString('base64url'),
+      crypto.randomBytes(6).toString('hex'),
+    ].join('.');
+
+    if (this.options.async) {
+      return { provider: this.name, reference, decision: 'IN_PROGRESS', raw: { reference } };
+    }
+
+    return this.poll(reference);
+  }
+
+  async poll(reference: string): Promise<KYCProviderResult> {
+    const [, outcome, encodedName] = reference.split('.');
+
+    if (!outcome || !Object.values(MOCK_OUTCOMES).includes(outcome as MockKYCOptions['outcome'])) {
+      throw new Error(`Unknown mock KYC reference ${reference}`);
+    }
+
+    const documentName = Buffer.from(encodedName, 'base64url').toString('utf8');
+
+    return {
+      provider: this.name,
+      reference,
+      decision: outcome as KYCProviderDecision,
+      reason: outcome === 'REJECTED' ? 'Document could not be verified (mock)' : undefined,
+      documentName,
+      raw: { reference, outcome, documentName },
+    };
+  }
+
+  parseWebhook(body: string, headers: Headers): KYCProviderResult {
+    const signature = headers.get('x-mock-signature') ?? '';
+    const expected = this.signWebhook(body);
+
+    if (signature.length !== expected.length
+      || !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+      throw new Error('Invalid webhook signature');
+    }
+
+    const event = JSON.parse(body) as {
+      reference: string;
+      decision: KYCProviderDecision;
+      reason?: string;
+      documentName?: string;
+    };
+
+    return {
+      provider: this.name,
+      reference: event.reference,
+      decision: event.decision,
+      reason: event.reason,
+      documentName: event.documentName,
+      raw: event,
+    };
+  }
+
+  /**
+   * Signature for a webhook body, for sending mock webhooks in tests
+   */
+  signWebhook(body: string): string {
+    const secret = this.options.webhookSecret ?? process.env.KYC_WEBHOOK_SECRET;
+    if (!secret) {
+      throw new Error('KYC_WEBHOOK_SECRET is not set');
+    }
+    return crypto.createHmac('sha256', secret).update(body).digest('hex');
+  }
+}
+
+/**
+ * Provider selected by KYC_PROVIDER
+ */
+export function getKYCProvider(): KYCProvider {
+  if (process.env.KYC_PROVIDER === 'mock') {
+    return new MockKYCProvider({
+      outcome: MOCK_OUTCOMES[process.env.MOCK_KYC_OUTCOME ?? 'approve'],
+      async: process.env.MOCK_KYC_ASYNC === 'true',
+    });
+  }
+  return new ManualKYCProvider();
+}
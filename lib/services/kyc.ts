@@ -1,4 +1,17 @@
 import { prisma } from '@/lib/prisma';
+import { KycVerification, KycVerificationStatus, Prisma } from '@prisma/client';
+import { MoneyInput } from '@/lib/utils/money';
+import { investorTierService } from '@/lib/services/investor-tiers';
+import { fieldEncryptionService } from '@/lib/services/field-encryption';
+import { KYCProvider, KYCProviderResult, getKYCProvider } from '@/lib/services/kyc-providers';
+import { notificationService } from '@/lib/services/notifications';
+import {
+  KYCCheckResult,
+  checkNameMatch,
+  failureReason,
+  overallOutcome,
+  runSubmissionChecks,
+} from '@/lib/services/kyc-checks';
 
 interface KYCData {
   firstName: string;
@@ -22,14 +35,44 @@ interface KYCData {
   selfieUrl?: string;
 }
 
+export interface PollResult {
+  polled: number;
+  decided: number;
+  failed: Array<{ verificationId: string; error: string }>;
+}
+
+const OPEN_VERIFICATION_STATUSES: KycVerificationStatus[] = ['IN_PROGRESS', 'MANUAL_REVIEW'];
+
+/**
+ * KYC lifecycle: automated checks, then the KYC provider (see
+ * kyc-providers.ts), then - only if the provider asks for it or a check
+ * needs a human - the admin queue.
+ */
 export class KYCService {
+  constructor(private readonly provider: KYCProvider = getKYCProvider()) {}
+
   async initiateKYC(userId: string, kycData: KYCData) {
     try {
-      // In production, integrate with services like Aadhaar eKYC, DigiLocker, or Karza
-      const verificationId = `kyc_${Date.now()}_${userId}`;
-      
-      // Prepare sanitized data for storage (sensitive data should be encrypted in production)
-      const sanitizedData = {
+      // A resubmission replaces whatever was still being verified
+      await this.closeOpenVerifications(userId, 'REJECTED', 'system', 'Superseded by a new submission');
+
+      const checks = runSubmissionChecks(kycData);
+      const passed = overallOutcome(checks) !== 'FAIL';
+
+      const verification = await prisma.kycVerification.create({
+        data: {
+          userId,
+          provider: this.provider.name,
+          status: passed ? 'IN_PROGRESS' : 'REJECTED',
+          checks: checks as unknown as Prisma.InputJsonArray,
+          decisionReason: passed ? null : failureReason(checks),
+          decidedBy: passed ? null : 'system',
+          decidedAt: passed ? null : new Date(),
+        },
+      });
+
+      // Prepare sanitized data for storage. Identity numbers and document links are encrypted.
+      const sanitizedData = await fieldEncryptionService.encryptKycData({
         firstName: kycData.firstName,
         lastName: kycData.lastName,
         dateOfBirth: kycData.dateOfBirth,
@@ -43,11 +86,10 @@ export class KYCService {
         documentFrontUrl: kycData.documentFrontUrl,
         documentBackUrl: kycData.documentBackUrl,
         selfieUrl: kycData.selfieUrl,
-        verificationId,
+        verificationId: verification.id,
         submittedAt: new Date().toISOString(),
-      };
+      });
 
-      // Store KYC data (encrypted in production)
       await prisma.user.update({
         where: { id: userId },
         data: {
@@ -56,18 +98,182 @@ export class KYCService {
         },
       });
 
-      // Simulate KYC process - in production, this would be handled by the KYC provider
-      return {
-        verificationId,
-        status: 'PENDING',
-        message: 'KYC verification initiated. You will receive an update within 24-48 hours.',
-      };
+      if (!passed) {
+        await this.rejectKYC(userId, verification.decisionReason!, 'system');
+        return {
+          verificationId: verification.id,
+          status: 'REJECTED',
+          message: `KYC rejected: ${verification.decisionReason}`,
+          checks,
+        };
+      }
+
+      let result: KYCProviderResult;
+      try {
+        result = await this.provider.submit({ userId, ...kycData });
+      } catch (error) {
+        // Provider unavailable: an admin decides instead
+        console.error('KYC provider submission error:', error);
+        await prisma.kycVerification.update({
+          where: { id: verification.id },
+          data: {
+            status: 'MANUAL_REVIEW',
+            decisionReason: `Provider unavailable: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        });
+        return this.initiationResponse(verification.id, 'MANUAL_REVIEW', checks);
+      }
+
+      const updated = await this.applyProviderResult(verification.id, result);
+      return this.initiationResponse(verification.id, updated.status, updated.checks as unknown as KYCCheckResult[]);
     } catch (error) {
       console.error('KYC initiation error:', error);
       throw error;
     }
   }
 
+  /**
+   * Record a provider response and act on it. Decided verifications are
+   * left alone, so repeated webhooks and polls are harmless.
+   *
+   * Rejected by the provider or a failed name match -> REJECTED
+   * Approved with the name matching -> APPROVED (KYC verified)
+   * Asked for review, or a partial name match -> MANUAL_REVIEW (admin queue)
+   */
+  async applyProviderResult(verificationId: string, result: KYCProviderResult): Promise<KycVerification> {
+    const verification = await prisma.kycVerification.findUnique({
+      where: { id: verificationId },
+      include: { user: { select: { kycData: true } } },
+    });
+
+    if (!verification) {
+      throw new Error('KYC verification not found');
+    }
+
+    if (!OPEN_VERIFICATION_STATUSES.includes(verification.status)) {
+      return verification;
+    }
+
+    let checks = verification.checks as unknown as KYCCheckResult[];
+    if (result.documentName) {
+      const kycData = verification.user.kycData as { firstName?: string; lastName?: string } | null;
+      checks = [
+        ...checks.filter((check) => check.code !== 'NAME_MATCH'),
+        checkNameMatch(kycData?.firstName ?? '', kycData?.lastName ?? '', result.documentName),
+      ];
+    }
+
+    let status: KycVerificationStatus;
+    let reason: string | null = null;
+
+    if (result.decision === 'REJECTED') {
+      status = 'REJECTED';
+      reason = result.reason ?? 'Rejected by the KYC provider';
+    } else if (overallOutcome(checks) === 'FAIL') {
+      status = 'REJECTED';
+      reason = failureReason(checks);
+    } else if (result.decision === 'IN_PROGRESS') {
+      status = 'IN_PROGRESS';
+    } else if (result.decision === 'APPROVED' && overallOutcome(checks) === 'PASS') {
+      status = 'APPROVED';
+    } else {
+      status = 'MANUAL_REVIEW';
+      reason = result.reason ?? null;
+    }
+
+    const decided = status === 'APPROVED' || status === 'REJECTED';
+    // Guarded so a webhook and a poll arriving together decide only once
+    const { count } = await prisma.kycVerification.updateMany({
+      where: { id: verificationId, status: { in: OPEN_VERIFICATION_STATUSES } },
+      data: {
+        providerReference: result.reference,
+        providerResult: result.raw as Prisma.InputJsonObject,
+        checks: checks as unknown as Prisma.InputJsonArray,
+        status,
+        decisionReason: reason,
+        decidedBy: decided ? `provider:${result.provider}` : null,
+        decidedAt: decided ? new Date() : null,
+      },
+    });
+
+    const updated = await prisma.kycVerification.findUniqueOrThrow({ where: { id: verificationId } });
+    if (count === 0) {
+      return updated;
+    }
+
+    if (status === 'APPROVED') {
+      await this.approveKYC(verification.userId, `provider:${result.provider}`);
+    } else if (status === 'REJECTED') {
+      await this.rejectKYC(verification.userId, reason!, `provider:${result.provider}`);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Webhook callback from the provider
+   */
+  async handleProviderWebhook(body: string, headers: Headers): Promise<KycVerification> {
+    const result = this.provider.parseWebhook(body, headers);
+
+    const verification = await prisma.kycVerification.findUnique({
+      where: { provider_providerReference: { provider: this.provider.name, providerReference: result.reference } },
+    });
+
+    if (!verification) {
+      throw new Error(`No KYC verification for reference ${result.reference}`);
+    }
+
+    return this.applyProviderResult(verification.id, result);
+  }
+
+  /**
+   * Ask the provider about every verification still waiting on it
+   */
+  async pollPendingVerifications(): Promise<PollResult> {
+    const pending = await prisma.kycVerification.findMany({
+      where: {
+        status: 'IN_PROGRESS',
+        provider: this.provider.name,
+        providerReference: { not: null },
+      },
+      orderBy: { lastPolledAt: { sort: 'asc', nulls: 'first' } },
+    });
+
+    let decided = 0;
+    const failed: PollResult['failed'] = [];
+
+    for (const verification of pending) {
+      try {
+        const result = await this.provider.poll(verification.providerReference!);
+        const updated = await this.applyProviderResult(verification.id, result);
+        await prisma.kycVerification.update({
+          where: { id: verification.id },
+          data: { lastPolledAt: new Date() },
+        });
+        if (updated.status !== 'IN_PROGRESS') decided++;
+      } catch (error) {
+        failed.push({
+          verificationId: verification.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return { polled: pending.length, decided, failed };
+  }
+
+  private initiationResponse(verificationId: string, status: KycVerificationStatus, checks: KYCCheckResult[]) {
+    const responses: Record<KycVerificationStatus, { status: string; message: string }> = {
+      APPROVED: { status: 'VERIFIED', message: 'KYC verified successfully.' },
+      REJECTED: { status: 'REJECTED', message: 'KYC could not be verified. Check the reason and resubmit.' },
+      IN_PROGRESS: { status: 'PENDING', message: 'KYC verification initiated. You will receive an update shortly.' },
+      MANUAL_REVIEW: { status: 'PENDING', message: 'KYC verification initiated. You will receive an update within 24-48 hours.' },
+    };
+
+    return { verificationId, ...responses[status], checks };
+  }
+
   async checkKYCStatus(userId: string) {
     try {
       const user = await prisma.user.findUnique({
@@ -101,7 +307,7 @@ export class KYCService {
 
       return {
         status,
-        data: hasSubmittedKyc ? user.kycData : null,
+        data: hasSubmittedKyc ? await fieldEncryptionService.maskKycData(kycData) : null,
       };
     } catch (error) {
       console.error('KYC status check error:', error);
@@ -129,7 +335,10 @@ export class KYCService {
         },
       });
 
-      // Send notification email (implement email service)
+      await this.closeOpenVerifications(userId, 'APPROVED', adminId);
+
+      await notificationService.notify(userId, { type: 'KYC_APPROVED' });
+
       return { success: true, message: 'KYC approved successfully' };
     } catch (error) {
       console.error('KYC approval error:', error);
@@ -157,6 +366,10 @@ export class KYCService {
         },
       });
 
+      await this.closeOpenVerifications(userId, 'REJECTED', adminId, reason);
+
+      await notificationService.notify(userId, { type: 'KYC_REJECTED', reason });
+
       return { success: true, message: 'KYC rejected' };
     } catch (error) {
       console.error('KYC rejection error:', error);
@@ -164,50 +377,28 @@ export class KYCService {
     }
   }
 
-  // Compliance check for investment limits
-  async checkInvestmentEligibility(userId: string, investmentAmount: number) {
-    try {
-      const user = await prisma.user.findUnique({
-        where: { id: userId },
-        include: {
-          investments: {
-            where: { status: 'CONFIRMED' },
-          },
-        },
-      });
-
-      if (!user || user.kycStatus !== 'VERIFIED') {
-        return {
-          eligible: false,
-          reason: 'KYC verification required',
-        };
-      }
-
-      // Calculate total invested amount
-      const totalInvested = user.investments.reduce(
-        (sum, investment) => sum + investment.totalAmount,
-        0
-      );
-
-      // Set investment limits based on KYC tier (amounts in INR)
-      const maxInvestmentLimit = 1000000; // ₹10,00,000 for basic KYC
-      const maxSingleInvestment = 250000; // ₹2,50,000 per investment
-
-      if (investmentAmount > maxSingleInvestment) {
-        return {
-          eligible: false,
-          reason: `Single investment limit is ₹${maxSingleInvestment.toLocaleString('en-IN')}`,
-        };
-      }
-
-      if (totalInvested + investmentAmount > maxInvestmentLimit) {
-        return {
-          eligible: false,
-          reason: `Total investment limit of ₹${maxInvestmentLimit.toLocaleString('en-IN')} would be exceeded`,
-        };
-      }
+  // A decision made outside the provider flow (e.g. by an admin) settles any open verification
+  private async closeOpenVerifications(
+    userId: string,
+    status: 'APPROVED' | 'REJECTED',
+    decidedBy: string,
+    reason?: string
+  ) {
+    await prisma.kycVerification.updateMany({
+      where: { userId, status: { in: OPEN_VERIFICATION_STATUSES } },
+      data: {
+        status,
+        decisionReason: reason ?? null,
+        decidedBy,
+        decidedAt: new Date(),
+      },
+    });
+  }
 
-      return { eligible: true };
+  // Compliance check for investment limits (see investor-tiers.ts)
+  async checkInvestmentEligibility(userId: string, investmentAmount: MoneyInput) {
+    try {
+      return await investorTierService.checkEligibility(userId, investmentAmount);
     } catch (error) {
       console.error('Investment eligibility check error:', error);
       throw error;
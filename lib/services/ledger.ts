@@ -0,0 +1,411 @@
+/**
+ * Double-Entry Ledger Service
+ *
+ * Every movement of money on the platform is recorded as a journal entry
+ * whose postings debit and credit named accounts. Each entry must balance,
+ * so across all accounts total debits always equal total credits.
+ *
+ * Accounts:
+ * - wallet:<walletId>          User's available wallet funds (liability)
+ * - wallet:<walletId>:locked   Funds reserved for bids and withdrawals (liability)
+ * - escrow:<vaultId>           Revenue held in an escrow vault (liability)
+ * - offering:<id>:proceeds     Primary sale proceeds owed to the creator (liability)
+ * - platform:revenue           Trading, withdrawal and distribution fees (revenue)
+ * - platform:rounding          Paise left over from pro-rata distributions (revenue)
+ * - processor:stripe           Cash cleared through Stripe (asset)
+ * - clearing:channel-revenue   Channel revenue received from YouTube et al. (asset)
+ * - platform:demo-funding      Demo funds granted for testing (expense)
+ * - equity:opening-balances    Balances that existed before the ledger (equity)
+ *
+ * Wallet balances are moved only by posting to wallet accounts, and each
+ * wallet posting flagged with an entry type is mirrored to the user's
+ * WalletLedger statement.
+ */
+
+import { prisma } from '@/lib/prisma';
+import {
+  JournalEntry,
+  LedgerAccountType,
+  LedgerEntryType,
+  Prisma,
+  Wallet,
+} from '@prisma/client';
+import { Money, MoneyInput, ZERO, money, sum } from '@/lib/utils/money';
+
+export const LedgerAccounts = {
+  PLATFORM_REVENUE: 'platform:revenue',
+  ROUNDING: 'platform:rounding',
+  STRIPE_CLEARING: 'processor:stripe',
+  CHANNEL_REVENUE_CLEARING: 'clearing:channel-revenue',
+  DEMO_FUNDING: 'platform:demo-funding',
+  OPENING_BALANCES: 'equity:opening-balances',
+  wallet: (walletId: string) => `wallet:${walletId}`,
+  walletLocked: (walletId: string) => `wallet:${walletId}:locked`,
+  escrow: (vaultId: string) => `escrow:${vaultId}`,
+  offeringProceeds: (offeringId: string) => `offering:${offeringId}:proceeds`,
+};
+
+export interface JournalLine {
+  account: string;
+  debit?: MoneyInput;
+  credit?: MoneyInput;
+  // Set on wallet lines that should appear on the user's statement
+  entryType?: LedgerEntryType;
+  description?: string;
+  transactionId?: string; // Statement row's transaction, when it differs from the entry's
+}
+
+export interface PostJournalParams {
+  description: string;
+  referenceType?: string;
+  referenceId?: string;
+  transactionId?: string;
+  metadata?: Prisma.InputJsonValue;
+  lines: JournalLine[];
+}
+
+export interface PostJournalResult {
+  journalEntry: JournalEntry;
+  wallets: Record<string, Wallet>; // Updated wallets keyed by wallet ID
+}
+
+export interface TrialBalanceRow {
+  code: string;
+  name: string;
+  type: LedgerAccountType;
+  debit: Money;
+  credit: Money;
+  balance: Money; // In the account's normal direction
+}
+
+export interface TrialBalance {
+  accounts: TrialBalanceRow[];
+  totalDebit: Money;
+  totalCredit: Money;
+  balanced: boolean;
+  walletMismatches: Array<{
+    walletId: string;
+    field: 'balance' | 'lockedBalance';
+    wallet: Money;
+    ledger: Money;
+  }>;
+}
+
+interface WalletBalances {
+  balance: Money;
+  lockedBalance: Money;
+}
+
+// A journal line with its amounts rounded to the paisa
+interface NormalizedLine extends JournalLine {
+  debit: Money;
+  credit: Money;
+}
+
+interface AccountDefinition {
+  name: string;
+  type: LedgerAccountType;
+  walletId?: string;
+  vaultId?: string;
+  walletField?: 'balance' | 'lockedBalance';
+}
+
+const FIXED_ACCOUNTS: Record<string, AccountDefinition> = {
+  [LedgerAccounts.PLATFORM_REVENUE]: { name: 'Platform fee revenue', type: 'REVENUE' },
+  [LedgerAccounts.ROUNDING]: { name: 'Rounding residue', type: 'REVENUE' },
+  [LedgerAccounts.STRIPE_CLEARING]: { name: 'Stripe clearing', type: 'ASSET' },
+  [LedgerAccounts.CHANNEL_REVENUE_CLEARING]: { name: 'Channel revenue clearing', type: 'ASSET' },
+  [LedgerAccounts.DEMO_FUNDING]: { name: 'Demo funding', type: 'EXPENSE' },
+  [LedgerAccounts.OPENING_BALANCES]: { name: 'Opening balances', type: 'EQUITY' },
+};
+
+export class LedgerService {
+
+  /**
+   * Work out an account's name, type and owner from its code
+   */
+  private describeAccount(code: string): AccountDefinition {
+    const fixed = FIXED_ACCOUNTS[code];
+    if (fixed) return fixed;
+
+    const [kind, id, suffix] = code.split(':');
+
+    if (kind === 'wallet' && id && !suffix) {
+      return { name: `Wallet ${id}`, type: 'LIABILITY', walletId: id, walletField: 'balance' };
+    }
+
+    if (kind === 'wallet' && id && suffix === 'locked') {
+      return { name: `Wallet ${id} (locked)`, type: 'LIABILITY', walletId: id, walletField: 'lockedBalance' };
+    }
+
+    if (kind === 'escrow' && id && !suffix) {
+      return { name: `Escrow vault ${id}`, type: 'LIABILITY', vaultId: id };
+    }
+
+    if (kind === 'offering' && id && suffix === 'proceeds') {
+      return { name: `Offering ${id} proceeds`, type: 'LIABILITY' };
+    }
+
+    throw new Error(`Unknown ledger account: ${code}`);
+  }
+
+  /**
+   * Debit-normal accounts grow with debits, everything else with credits
+   */
+  private isDebitNormal(type: LedgerAccountType): boolean {
+    return type === 'ASSET' || type === 'EXPENSE';
+  }
+
+  private async getOrCreateAccount(tx: Prisma.TransactionClient, code: string) {
+    const definition = this.describeAccount(code);
+
+    return tx.ledgerAccount.upsert({
+      where: { code },
+      update: {},
+      create: {
+        code,
+        name: definition.name,
+        type: definition.type,
+        walletId: definition.walletId,
+        vaultId: definition.vaultId,
+      },
+    });
+  }
+
+  /**
+   * Write the journal entry and its postings without touching wallets
+   */
+  private async writeJournal(tx: Prisma.TransactionClient, params: PostJournalParams) {
+    const lines: NormalizedLine[] = params.lines
+      .map((line) => ({ ...line, debit: money(line.debit ?? 0), credit: money(line.credit ?? 0) }))
+      .filter((line) => !line.debit.isZero() || !line.credit.isZero());
+
+    if (lines.length < 2) {
+      throw new Error('A journal entry needs at least two postings');
+    }
+
+    for (const line of lines) {
+      if (line.debit.isNegative() || line.credit.isNegative()) {
+        throw new Error(`Negative amount posted to ${line.account}`);
+      }
+    }
+
+    const totalDebit = sum(lines, (line) => line.debit);
+    const totalCredit = sum(lines, (line) => line.credit);
+
+    if (!totalDebit.equals(totalCredit)) {
+      throw new Error(`Unbalanced journal entry "${params.description}": debits ${totalDebit} != credits ${totalCredit}`);
+    }
+
+    const journalEntry = await tx.journalEntry.create({
+      data: {
+        description: params.description,
+        referenceType: params.referenceType,
+        referenceId: params.referenceId,
+        transactionId: params.transactionId,
+        metadata: params.metadata,
+      },
+    });
+
+    for (const line of lines) {
+      const account = await this.getOrCreateAccount(tx, line.account);
+      await tx.journalPosting.create({
+        data: {
+          journalEntryId: journalEntry.id,
+          accountId: account.id,
+          debit: line.debit,
+          credit: line.credit,
+        },
+      });
+    }
+
+    return { journalEntry, lines };
+  }
+
+  /**
+   * Post a balanced journal entry.
+   * Applies the net effect of wallet postings to the wallets and records
+   * statement rows for wallet lines that carry an entry type.
+   * Must be called inside a transaction.
+   */
+  async post(tx: Prisma.TransactionClient, params: PostJournalParams): Promise<PostJournalResult> {
+    const { journalEntry, lines } = await this.writeJournal(tx, params);
+
+    // Net wallet movements (wallet accounts are liabilities, so credits add funds)
+    const walletDeltas = new Map<string, WalletBalances>();
+    for (const line of lines) {
+      const { walletId, walletField } = this.describeAccount(line.account);
+      if (!walletId || !walletField) continue;
+
+      const delta = walletDeltas.get(walletId) ?? { balance: ZERO, lockedBalance: ZERO };
+      delta[walletField] = delta[walletField].plus(line.credit).minus(line.debit);
+      walletDeltas.set(walletId, delta);
+    }
+
+    const wallets: Record<string, Wallet> = {};
+    for (const [walletId, delta] of walletDeltas) {
+      wallets[walletId] = await tx.wallet.update({
+        where: { id: walletId },
+        data: {
+          balance: { increment: delta.balance },
+          lockedBalance: { increment: delta.lockedBalance },
+          lastActivityAt: new Date(),
+        },
+      });
+    }
+
+    // Mirror flagged wallet lines to the user's statement
+    for (const line of lines) {
+      const { walletId } = this.describeAccount(line.account);
+      if (!walletId || !line.entryType) continue;
+
+      await tx.walletLedger.create({
+        data: {
+          walletId,
+          transactionId: line.transactionId ?? params.transactionId,
+          entryType: line.entryType,
+          debit: line.debit,
+          credit: line.credit,
+          balance: wallets[walletId].balance,
+          description: line.description ?? params.description,
+          referenceType: params.referenceType,
+          referenceId: params.referenceId,
+          metadata: params.metadata,
+        },
+      });
+    }
+
+    return { journalEntry, wallets };
+  }
+
+  /**
+   * Bring wallets that predate the ledger onto the books.
+   * Posts the difference between each wallet's stored balances and its
+   * ledger accounts against opening-balance equity. Wallets are not changed.
+   */
+  async postOpeningBalances(): Promise<number> {
+    const wallets = await prisma.wallet.findMany();
+    let posted = 0;
+
+    for (const wallet of wallets) {
+      const ledger = await this.getWalletLedgerBalances(wallet.id);
+      const lines: JournalLine[] = [];
+
+      const balanceGap = wallet.balance.minus(ledger.balance);
+      const lockedGap = wallet.lockedBalance.minus(ledger.lockedBalance);
+
+      for (const [account, gap] of [
+        [LedgerAccounts.wallet(wallet.id), balanceGap],
+        [LedgerAccounts.walletLocked(wallet.id), lockedGap],
+      ] as const) {
+        if (gap.isZero()) continue;
+        lines.push(gap.isPositive() ? { account, credit: gap } : { account, debit: gap.negated() });
+        lines.push(gap.isPositive()
+          ? { account: LedgerAccounts.OPENING_BALANCES, debit: gap }
+          : { account: LedgerAccounts.OPENING_BALANCES, credit: gap.negated() });
+      }
+
+      if (lines.length === 0) continue;
+
+      await prisma.$transaction((tx) =>
+        this.writeJournal(tx, {
+          description: 'Opening balance',
+          referenceType: 'opening_balance',
+          referenceId: wallet.id,
+          lines,
+        })
+      );
+      posted++;
+    }
+
+    return posted;
+  }
+
+  /**
+   * Ledger view of a wallet's available and locked funds
+   */
+  async getWalletLedgerBalances(walletId: string): Promise<WalletBalances> {
+    const accounts = await prisma.ledgerAccount.findMany({
+      where: { walletId },
+      include: {
+        postings: { select: { debit: true, credit: true } },
+      },
+    });
+
+    const result: WalletBalances = { balance: ZERO, lockedBalance: ZERO };
+    for (const account of accounts) {
+      const { walletField } = this.describeAccount(account.code);
+      if (!walletField) continue;
+      result[walletField] = result[walletField]
+        .plus(sum(account.postings, (p) => p.credit))
+        .minus(sum(account.postings, (p) => p.debit));
+    }
+
+    return result;
+  }
+
+  /**
+   * Sum every account and check the books balance to zero.
+   * Also reports wallets whose stored balances disagree with the ledger.
+   */
+  async getTrialBalance(): Promise<TrialBalance> {
+    const [accounts, totals, wallets] = await Promise.all([
+      prisma.ledgerAccount.findMany({ orderBy: { code: 'asc' } }),
+      prisma.journalPosting.groupBy({
+        by: ['accountId'],
+        _sum: { debit: true, credit: true },
+      }),
+      prisma.wallet.findMany({
+        select: { id: true, balance: true, lockedBalance: true },
+      }),
+    ]);
+
+    const totalsByAccount = new Map(totals.map((t) => [t.accountId, t._sum]));
+
+    const rows: TrialBalanceRow[] = accounts.map((account) => {
+      const debit = totalsByAccount.get(account.id)?.debit ?? ZERO;
+      const credit = totalsByAccount.get(account.id)?.credit ?? ZERO;
+      return {
+        code: account.code,
+        name: account.name,
+        type: account.type,
+        debit,
+        credit,
+        balance: this.isDebitNormal(account.type) ? debit.minus(credit) : credit.minus(debit),
+      };
+    });
+
+    const totalDebit = sum(rows, (row) => row.debit);
+    const totalCredit = sum(rows, (row) => row.credit);
+
+    const ledgerByWallet = new Map<string, WalletBalances>();
+    for (const row of rows) {
+      const { walletId, walletField } = this.describeAccount(row.code);
+      if (!walletId || !walletField) continue;
+      const entry = ledgerByWallet.get(walletId) ?? { balance: ZERO, lockedBalance: ZERO };
+      entry[walletField] = entry[walletField].plus(row.balance);
+      ledgerByWallet.set(walletId, entry);
+    }
+
+    const walletMismatches: TrialBalance['walletMismatches'] = [];
+    for (const wallet of wallets) {
+      const ledger = ledgerByWallet.get(wallet.id) ?? { balance: ZERO, lockedBalance: ZERO };
+      for (const field of ['balance', 'lockedBalance'] as const) {
+        if (!wallet[field].equals(ledger[field])) {
+          walletMismatches.push({ walletId: wallet.id, field, wallet: wallet[field], ledger: ledger[field] });
+        }
+      }
+    }
+
+    return {
+      accounts: rows,
+      totalDebit,
+      totalCredit,
+      balanced: totalDebit.equals(totalCredit),
+      walletMismatches,
+    };
+  }
+}
+
+// Singleton instance
+export const ledgerService = new LedgerService();
@@ -0,0 +1,339 @@
+/**
+ * Market Data Service
+ *
+ * Builds the public market view of an offering (aggregated order book,
+ * ticker) and pushes live updates to subscribers of the exchange stream
+ * (app/api/exchange/stream).
+ *
+ * - Writers call `publish()` after a transaction that changes trades or
+ *   resting orders commits. The service re-reads the book and sends only
+ *   the price levels that changed, plus any trade prints and a new ticker.
+ * - Each offering's events carry an increasing `seq`. A client that sees
+ *   a gap should reconnect to get a fresh snapshot.
+ * - Work for an offering is queued, so a subscriber's snapshot and the
+ *   updates that follow it are always delivered in order.
+ *
+ * Fan-out is in-process: a subscriber only hears about changes made by the
+ * app instance it is connected to.
+ */
+
+import { prisma } from '@/lib/prisma';
+import type { Fill } from '@/lib/services/matching-engine';
+import { toNumber } from '@/lib/utils/money';
+
+const RECENT_TRADES_LIMIT = 50;
+
+export interface BookLevel {
+  price: number;
+  shares: number;
+  total: number;
+  orders: string[];
+}
+
+export interface OrderBookLevels {
+  bids: BookLevel[]; // Highest first
+  asks: BookLevel[]; // Lowest first
+}
+
+// A price level's new state. `shares: 0` means the level was removed.
+export interface BookLevelChange extends BookLevel {
+  side: 'bid' | 'ask';
+}
+
+export interface TradePrint {
+  id: string;
+  price: number;
+  shares: number;
+  total: number;
+  side: 'buy' | 'sell'; // Taker side
+  timestamp: string;
+}
+
+export interface Ticker {
+  lastPrice: number;
+  change24h: number;
+  changePercent24h: number;
+  high24h: number;
+  low24h: number;
+  volume24h: number; // Shares traded
+  bestBid: number | null;
+  bestAsk: number | null;
+  updatedAt: string;
+}
+
+export type MarketEvent =
+  | { type: 'snapshot'; offeringId: string; seq: number; book: OrderBookLevels; trades: TradePrint[]; ticker: Ticker }
+  | { type: 'book'; offeringId: string; seq: number; changes: BookLevelChange[] }
+  | { type: 'trade'; offeringId: string; seq: number; trade: TradePrint }
+  | { type: 'ticker'; offeringId: string; seq: number; ticker: Ticker };
+
+export type MarketListener = (event: MarketEvent) => void;
+
+export interface MarketUpdate {
+  fills?: Fill[];
+  takerSide?: 'buy' | 'sell';
+}
+
+interface OfferingChannel {
+  seq: number;
+  book: OrderBookLevels | null; // Last book sent to subscribers
+  listeners: Set<MarketListener>;
+  queue: Promise<void>;
+}
+
+export class MarketDataService {
+  private readonly channels = new Map<string, OfferingChannel>();
+
+  /**
+   * Aggregated resting orders by price level. Expired orders are left out
+   * even if the expiry job has not retired them yet.
+   */
+  async getOrderBook(offeringId: string): Promise<OrderBookLevels> {
+    const now = new Date();
+    const live = {
+      status: { in: ['ACTIVE' as const, 'PARTIALLY_FILLED' as const] },
+      sharesRemaining: { gt: 0 },
+      OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+    };
+
+    const [sellOrders, buyOrders] = await Promise.all([
+      prisma.sellOrder.findMany({
+        where: { offeringId, ...live },
+        select: { id: true, pricePerShare: true, sharesRemaining: true },
+        orderBy: [{ pricePerShare: 'asc' }, { createdAt: 'asc' }],
+      }),
+      prisma.buyOrder.findMany({
+        where: { offeringId, ...live },
+        select: { id: true, limitPrice: true, sharesRemaining: true },
+        orderBy: [{ limitPrice: 'desc' }, { createdAt: 'asc' }],
+      }),
+    ]);
+
+    return {
+      asks: this.aggregateLevels(
+        sellOrders.map((order) => ({ id: order.id, price: toNumber(order.pricePerShare), shares: order.sharesRemaining }))
+      ),
+      bids: this.aggregateLevels(
+        buyOrders.map((order) => ({ id: order.id, price: toNumber(order.limitPrice), shares: order.sharesRemaining }))
+      ),
+    };
+  }
+
+  /**
+   * Most recent completed trades, newest first
+   */
+  async getRecentTrades(offeringId: string): Promise<TradePrint[]> {
+    const trades = await prisma.trade.findMany({
+      where: { offeringId, status: 'COMPLETED' },
+      select: {
+        id: true,
+        shares: true,
+        pricePerShare: true,
+        totalAmount: true,
+        createdAt: true,
+        sellOrder: { select: { createdAt: true } },
+        buyOrder: { select: { createdAt: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: RECENT_TRADES_LIMIT,
+    });
+
+    return trades.map((trade) => ({
+      id: trade.id,
+      price: toNumber(trade.pricePerShare),
+      shares: trade.shares,
+      total: toNumber(trade.totalAmount),
+      // The taker is whichever order arrived last; fills without a bid were buys
+      side: trade.buyOrder && trade.buyOrder.createdAt < trade.sellOrder.createdAt ? 'sell' : 'buy',
+      timestamp: trade.createdAt.toISOString(),
+    }));
+  }
+
+  /**
+   * Last price and 24h statistics
+   */
+  async getTicker(offeringId: string, book?: OrderBookLevels): Promise<Ticker> {
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+
+    const [offering, lastTrade, dayTrades, currentBook] = await Promise.all([
+      prisma.offering.findUnique({
+        where: { id: offeringId },
+        select: { pricePerShare: true },
+      }),
+      prisma.trade.findFirst({
+        where: { offeringId, status: 'COMPLETED' },
+        select: { pricePerShare: true },
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.trade.findMany({
+        where: { offeringId, status: 'COMPLETED', createdAt: { gte: since } },
+        select: { pricePerShare: true, shares: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+      book ?? this.getOrderBook(offeringId),
+    ]);
+
+    const lastPrice = toNumber(lastTrade?.pricePerShare ?? offering?.pricePerShare);
+    const prices = dayTrades.map((trade) => toNumber(trade.pricePerShare));
+    const openPrice = prices[0] ?? lastPrice;
+    const change24h = lastPrice - openPrice;
+
+    return {
+      lastPrice,
+      change24h,
+      changePercent24h: openPrice > 0 ? (change24h / openPrice) * 100 : 0,
+      high24h: prices.length > 0 ? Math.max(...prices) : lastPrice,
+      low24h: prices.length > 0 ? Math.min(...prices) : lastPrice,
+      volume24h: dayTrades.reduce((sum, trade) => sum + trade.shares, 0),
+      bestBid: currentBook.bids[0]?.price ?? null,
+      bestAsk: currentBook.asks[0]?.price ?? null,
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Listen to an offering's market events. The listener first receives a
+   * snapshot, then every update in order. Returns an unsubscribe function.
+   */
+  subscribe(offeringId: string, listener: MarketListener): () => void {
+    const channel = this.getChannel(offeringId);
+    channel.listeners.add(listener);
+
+    this.enqueue(offeringId, async () => {
+      if (!channel.listeners.has(listener)) return;
+
+      const [book, trades] = await Promise.all([
+        channel.book ?? this.getOrderBook(offeringId),
+        this.getRecentTrades(offeringId),
+      ]);
+      const ticker = await this.getTicker(offeringId, book);
+
+      channel.book = book;
+      listener({ type: 'snapshot', offeringId, seq: channel.seq, book, trades, ticker });
+    });
+
+    return () => {
+      channel.listeners.delete(listener);
+      if (channel.listeners.size === 0) {
+        this.channels.delete(offeringId);
+      }
+    };
+  }
+
+  /**
+   * Push an offering's changes to its subscribers. Call after the
+   * transaction that changed its trades or resting orders has committed.
+   */
+  publish(offeringId: string, update: MarketUpdate = {}): void {
+    if (!this.channels.has(offeringId)) return;
+
+    this.enqueue(offeringId, async () => {
+      const channel = this.channels.get(offeringId);
+      if (!channel) return;
+
+      const timestamp = new Date().toISOString();
+      for (const fill of update.fills ?? []) {
+        this.emit(offeringId, (seq) => ({
+          type: 'trade',
+          offeringId,
+          seq,
+          trade: {
+            id: fill.tradeId,
+            price: toNumber(fill.pricePerShare),
+            shares: fill.shares,
+            total: toNumber(fill.totalAmount),
+            side: update.takerSide ?? 'buy',
+            timestamp,
+          },
+        }));
+      }
+
+      const book = await this.getOrderBook(offeringId);
+      const changes = channel.book ? this.diffBooks(channel.book, book) : [];
+      channel.book = book;
+
+      if (changes.length > 0) {
+        this.emit(offeringId, (seq) => ({ type: 'book', offeringId, seq, changes }));
+      }
+
+      const ticker = await this.getTicker(offeringId, book);
+      this.emit(offeringId, (seq) => ({ type: 'ticker', offeringId, seq, ticker }));
+    });
+  }
+
+  private getChannel(offeringId: string): OfferingChannel {
+    let channel = this.channels.get(offeringId);
+    if (!channel) {
+      channel = { seq: 0, book: null, listeners: new Set(), queue: Promise.resolve() };
+      this.channels.set(offeringId, channel);
+    }
+    return channel;
+  }
+
+  private enqueue(offeringId: string, task: () => Promise<void>): void {
+    const channel = this.getChannel(offeringId);
+    channel.queue = channel.queue.then(task).catch((error) => {
+      console.error(`Market data update failed for offering ${offeringId}:`, error);
+    });
+  }
+
+  private emit(offeringId: string, build: (seq: number) => MarketEvent): void {
+    const channel = this.channels.get(offeringId);
+    if (!channel) return;
+
+    channel.seq += 1;
+    const event = build(channel.seq);
+
+    for (const listener of channel.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Market data listener failed:', error);
+      }
+    }
+  }
+
+  private aggregateLevels(orders: Array<{ id: string; price: number; shares: number }>): BookLevel[] {
+    const levels = new Map<number, BookLevel>();
+
+    for (const order of orders) {
+      const level = levels.get(order.price) ?? { price: order.price, shares: 0, total: 0, orders: [] };
+      level.shares += order.shares;
+      level.total = level.price * level.shares;
+      level.orders.push(order.id);
+      levels.set(order.price, level);
+    }
+
+    return Array.from(levels.values());
+  }
+
+  private diffBooks(previous: OrderBookLevels, next: OrderBookLevels): BookLevelChange[] {
+    const changes: BookLevelChange[] = [];
+
+    const diffSide = (side: 'bid' | 'ask', before: BookLevel[], after: BookLevel[]) => {
+      const afterByPrice = new Map(after.map((level) => [level.price, level]));
+
+      for (const level of before) {
+        if (!afterByPrice.has(level.price)) {
+          changes.push({ side, price: level.price, shares: 0, total: 0, orders: [] });
+        }
+      }
+
+      const beforeByPrice = new Map(before.map((level) => [level.price, level]));
+      for (const level of after) {
+        const old = beforeByPrice.get(level.price);
+        if (!old || old.shares !== level.shares || old.orders.join() !== level.orders.join()) {
+          changes.push({ side, ...level });
+        }
+      }
+    };
+
+    diffSide('bid', previous.bids, next.bids);
+    diffSide('ask', previous.asks, next.asks);
+
+    return changes;
+  }
+}
+
+// Singleton instance
+export const marketDataService = new MarketDataService();
@@ -0,0 +1,969 @@
+/**
+ * Secondary Market Matching Engine
+ *
+ * Crosses limit buy orders (bids) against sell orders (asks) using
+ * price-time priority: the best price is matched first, and orders at
+ * the same price are matched oldest first.
+ *
+ * Key Rules:
+ * 1. Fills execute at the resting (maker) order's price
+ * 2. Bid funds are locked in the buyer's wallet until filled or cancelled
+ * 3. Users never match against their own orders
+ * 4. Expired orders are retired as soon as the engine encounters them
+ * 5. Every fill must pass the offering's transfer rules; orders that
+ *    fail them are skipped, not matched
+ * 6. Buys must fit the buyer's investor-tier limits. Bids are checked
+ *    for their full locked amount when placed.
+ * 7. Matching locks the offering's book, so one taker at a time reads
+ *    and fills its orders. Fills also decrement the orders they take
+ *    from only while those orders still have the shares.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { BuyOrder, Prisma, SellOrder, Trade } from '@prisma/client';
+import { JournalLine, LedgerAccounts, ledgerService } from '@/lib/services/ledger';
+import { Money, MoneyInput, ZERO, formatINR, money, multiply, percentOf, subtract } from '@/lib/utils/money';
+import { marketDataService } from '@/lib/services/market-data';
+import { candleService } from '@/lib/services/candles';
+import { TransferRestrictionError, TransferViolation, transferRulesService } from '@/lib/services/transfer-rules';
+import { EligibilityCode, investorTierService } from '@/lib/services/investor-tiers';
+import { notificationService } from '@/lib/services/notifications';
+
+// Platform fee percentage charged to the seller (e.g., 2.5%)
+const PLATFORM_FEE_PERCENT = 2.5;
+
+const OPEN_ORDER_STATUSES: Array<'ACTIVE' | 'PARTIALLY_FILLED'> = ['ACTIVE', 'PARTIALLY_FILLED'];
+
+export interface Fill {
+  tradeId: string;
+  sellOrderId: string;
+  buyOrderId: string | null;
+  shares: number;
+  pricePerShare: Money;
+  totalAmount: Money;
+}
+
+export interface PlaceBuyOrderResult {
+  buyOrder: BuyOrder;
+  fills: Fill[];
+}
+
+export interface MarketOrderLimits {
+  maxAveragePrice?: MoneyInput;
+  maxSlippagePercent?: number; // Relative to the best ask the buyer can take when the order arrives
+}
+
+export type MarketOrderResult =
+  | {
+      filled: true;
+      fills: Fill[];
+      sharesFilled: number;
+      totalAmount: Money;
+      averagePrice: Money;
+      referencePrice: Money;
+      slippagePercent: number;
+      walletBalance: Money;
+    }
+  | {
+      filled: false;
+      code:
+        | 'NO_LIQUIDITY'
+        | 'INSUFFICIENT_LIQUIDITY'
+        | 'PRICE_LIMIT_EXCEEDED'
+        | 'SLIPPAGE_EXCEEDED'
+        | 'INSUFFICIENT_BALANCE'
+        | 'TRANSFER_RESTRICTED'
+        | 'INVESTOR_NOT_ELIGIBLE';
+      reason: string;
+      violations?: TransferViolation[];
+      eligibilityCode?: EligibilityCode;
+    };
+
+/**
+ * An order a fill was to take from has been filled, cancelled or expired
+ * since it was read. Thrown before the fill writes anything.
+ */
+export class OrderUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OrderUnavailableError';
+  }
+}
+
+interface ExecuteFillParams {
+  sellOrder: SellOrder;
+  buyerId: string;
+  shares: number;
+  pricePerShare: Money;
+  channelName: string;
+  buyOrder?: BuyOrder;
+}
+
+export class MatchingEngine {
+
+  /**
+   * Settle a single fill between a sell order and a buyer.
+   * Moves shares between investments and funds between wallets.
+   * Must be called inside a transaction. Throws TransferRestrictionError
+   * if the offering's transfer rules forbid it, and OrderUnavailableError
+   * if either order no longer has the shares, before writing anything.
+   */
+  async executeFill(tx: Prisma.TransactionClient, params: ExecuteFillParams) {
+    const { sellOrder, buyerId, shares, pricePerShare, channelName, buyOrder } = params;
+
+    await transferRulesService.assertTransferAllowed(tx, {
+      investmentId: sellOrder.investmentId,
+      buyerId,
+      shares,
+    });
+
+    const totalAmount = multiply(pricePerShare, shares);
+    const platformFee = percentOf(totalAmount, PLATFORM_FEE_PERCENT);
+    const netAmount = subtract(totalAmount, platformFee);
+    const reservedAmount = buyOrder ? multiply(buyOrder.limitPrice, shares) : ZERO;
+
+    // 1. Take the shares from the orders. Guarded decrements, so the
+    // caller's copies of the orders may be stale but cannot oversell.
+    const { count: askTaken } = await tx.sellOrder.updateMany({
+      where: { id: sellOrder.id, status: { in: OPEN_ORDER_STATUSES }, sharesRemaining: { gte: shares } },
+      data: { sharesRemaining: { decrement: shares } },
+    });
+    if (askTaken === 0) {
+      throw new OrderUnavailableError(`Sell order #${sellOrder.id.slice(-8)} no longer has ${shares} shares available`);
+    }
+
+    if (buyOrder) {
+      const { count: bidTaken } = await tx.buyOrder.updateMany({
+        where: { id: buyOrder.id, status: { in: OPEN_ORDER_STATUSES }, sharesRemaining: { gte: shares } },
+        data: {
+          sharesRemaining: { decrement: shares },
+          lockedAmount: { decrement: reservedAmount },
+        },
+      });
+      if (bidTaken === 0) {
+        throw new OrderUnavailableError(`Buy order #${buyOrder.id.slice(-8)} no longer wants ${shares} shares`);
+      }
+    }
+
+    // 2. Create trade record
+    const trade = await tx.trade.create({
+      data: {
+        sellOrderId: sellOrder.id,
+        buyOrderId: buyOrder?.id,
+        buyerId,
+        sellerId: sellOrder.sellerId,
+        offeringId: sellOrder.offeringId,
+        shares,
+        pricePerShare,
+        totalAmount,
+        platformFee,
+        netAmount,
+        status: 'COMPLETED',
+        completedAt: new Date(),
+      },
+    });
+
+    await candleService.recordTrade(tx, trade);
+
+    // 3. Update sell order status
+    const { sharesRemaining: askSharesRemaining } = await tx.sellOrder.findUniqueOrThrow({
+      where: { id: sellOrder.id },
+      select: { sharesRemaining: true },
+    });
+    await tx.sellOrder.update({
+      where: { id: sellOrder.id },
+      data: { status: askSharesRemaining === 0 ? 'FILLED' : 'PARTIALLY_FILLED' },
+    });
+
+    // 4. Update seller's investment (reduce shares)
+    await tx.investment.update({
+      where: { id: sellOrder.investmentId },
+      data: {
+        shares: { decrement: shares },
+      },
+    });
+
+    // 5. Create or update buyer's investment
+    const existingBuyerInvestment = await tx.investment.findFirst({
+      where: {
+        investorId: buyerId,
+        offeringId: sellOrder.offeringId,
+        status: 'CONFIRMED',
+      },
+    });
+
+    const buyerInvestment = existingBuyerInvestment
+      ? await tx.investment.update({
+          where: { id: existingBuyerInvestment.id },
+          data: {
+            shares: { increment: shares },
+            totalAmount: { increment: totalAmount },
+          },
+        })
+      : await tx.investment.create({
+          data: {
+            investorId: buyerId,
+            offeringId: sellOrder.offeringId,
+            shares,
+            totalAmount,
+            status: 'CONFIRMED',
+          },
+        });
+
+    await tx.trade.update({
+      where: { id: trade.id },
+      data: { buyerInvestmentId: buyerInvestment.id },
+    });
+
+    // 6. Update wallet totals (balances move through the ledger below)
+    const buyerWallet = await tx.wallet.update({
+      where: { userId: buyerId },
+      data: {
+        totalInvested: { increment: totalAmount },
+      },
+    });
+
+    const sellerWallet = await tx.wallet.findUnique({
+      where: { userId: sellOrder.sellerId },
+    });
+
+    if (!sellerWallet) {
+      throw new Error('Seller wallet not found');
+    }
+
+    await tx.wallet.update({
+      where: { id: sellerWallet.id },
+      data: {
+        totalEarnings: { increment: netAmount },
+      },
+    });
+
+    // 7. Update the bid's status, if this trade came from one
+    if (buyOrder) {
+      const { sharesRemaining: bidSharesRemaining } = await tx.buyOrder.findUniqueOrThrow({
+        where: { id: buyOrder.id },
+        select: { sharesRemaining: true },
+      });
+      await tx.buyOrder.update({
+        where: { id: buyOrder.id },
+        data: { status: bidSharesRemaining === 0 ? 'FILLED' : 'PARTIALLY_FILLED' },
+      });
+    }
+
+    // 8. Create transaction records
+    const tradeMetadata = {
+      tradeId: trade.id,
+      sellOrderId: sellOrder.id,
+      buyOrderId: buyOrder?.id ?? null,
+      shares,
+      pricePerShare,
+      channelName,
+    };
+
+    const buyerTransaction = await tx.transaction.create({
+      data: {
+        userId: buyerId,
+        type: 'INVESTMENT',
+        amount: totalAmount,
+        fee: 0,
+        netAmount: totalAmount,
+        status: 'COMPLETED',
+        referenceType: 'trade',
+        referenceId: trade.id,
+        description: `Bought ${shares} shares of ${channelName} at ₹${pricePerShare}/share`,
+        completedAt: new Date(),
+        metadata: tradeMetadata,
+      },
+    });
+
+    const sellerTransaction = await tx.transaction.create({
+      data: {
+        userId: sellOrder.sellerId,
+        type: 'EARNING',
+        amount: totalAmount,
+        fee: platformFee,
+        netAmount,
+        status: 'COMPLETED',
+        referenceType: 'trade',
+        referenceId: trade.id,
+        description: `Sold ${shares} shares of ${channelName} at ₹${pricePerShare}/share`,
+        completedAt: new Date(),
+        metadata: tradeMetadata,
+      },
+    });
+
+    // 9. Post the trade to the ledger - the buyer pays from locked bid funds or their balance
+    const buyerLines: JournalLine[] = buyOrder
+      ? [
+          {
+            account: LedgerAccounts.walletLocked(buyerWallet.id),
+            debit: totalAmount,
+            entryType: 'TRADE_BUY',
+            description: `Trade: Bought ${shares} shares of ${channelName}`,
+            transactionId: buyerTransaction.id,
+          },
+          { account: LedgerAccounts.walletLocked(buyerWallet.id), debit: reservedAmount.minus(totalAmount) },
+          {
+            account: LedgerAccounts.wallet(buyerWallet.id),
+            credit: reservedAmount.minus(totalAmount),
+            entryType: 'UNLOCK',
+            description: `Price improvement on bid #${buyOrder.id.slice(-8)} returned`,
+          },
+        ]
+      : [
+          {
+            account: LedgerAccounts.wallet(buyerWallet.id),
+            debit: totalAmount,
+            entryType: 'TRADE_BUY',
+            description: `Trade: Bought ${shares} shares of ${channelName}`,
+            transactionId: buyerTransaction.id,
+          },
+        ];
+
+    const { wallets } = await ledgerService.post(tx, {
+      description: `Trade: ${shares} shares of ${channelName} at ₹${pricePerShare}/share`,
+      referenceType: 'trade',
+      referenceId: trade.id,
+      metadata: tradeMetadata,
+      lines: [
+        ...buyerLines,
+        {
+          account: LedgerAccounts.wallet(sellerWallet.id),
+          credit: totalAmount,
+          entryType: 'TRADE_SELL',
+          description: `Trade: Sold ${shares} shares of ${channelName}`,
+          transactionId: sellerTransaction.id,
+        },
+        {
+          account: LedgerAccounts.wallet(sellerWallet.id),
+          debit: platformFee,
+          entryType: 'FEE_CHARGED',
+          description: `Platform fee (${PLATFORM_FEE_PERCENT}%) for trade`,
+          transactionId: sellerTransaction.id,
+        },
+        { account: LedgerAccounts.PLATFORM_REVENUE, credit: platformFee },
+      ],
+    });
+
+    // 10. Tell both sides their order filled
+    const fillDetails = { tradeId: trade.id, shares, pricePerShare, channelName };
+    await notificationService.notify(buyerId, { type: 'TRADE_FILLED', side: 'BUY', ...fillDetails }, { client: tx });
+    await notificationService.notify(sellOrder.sellerId, { type: 'TRADE_FILLED', side: 'SELL', ...fillDetails }, { client: tx });
+
+    return {
+      trade,
+      buyerInvestment,
+      buyerWallet: wallets[buyerWallet.id],
+      sellerWallet: wallets[sellerWallet.id],
+    };
+  }
+
+  /**
+   * Place a limit buy order.
+   * Locks the worst-case cost in the buyer's wallet, then crosses it
+   * against resting asks. Any unfilled remainder rests on the book.
+   * Metadata is recorded on the lock's journal entry.
+   */
+  async placeBuyOrder(
+    buyerId: string,
+    offeringId: string,
+    shares: number,
+    limitPrice: MoneyInput,
+    expiresAt?: Date | null,
+    metadata?: Prisma.InputJsonObject
+  ): Promise<PlaceBuyOrderResult> {
+    const offering = await prisma.offering.findUnique({
+      where: { id: offeringId },
+    });
+
+    if (!offering) {
+      throw new Error('Offering not found');
+    }
+
+    if (offering.status === 'CLOSED') {
+      throw new Error('Offering has closed and its shares no longer trade');
+    }
+
+    const lockAmount = multiply(limitPrice, shares);
+
+    const buyOrder = await prisma.$transaction(async (tx) => {
+      const wallet = await tx.wallet.findUnique({
+        where: { userId: buyerId },
+      });
+
+      if (!wallet || wallet.balance.lessThan(lockAmount)) {
+        throw new Error(
+          `Insufficient wallet balance. Required: ${formatINR(lockAmount)}, Available: ${formatINR(wallet?.balance ?? 0)}`
+        );
+      }
+
+      const newOrder = await tx.buyOrder.create({
+        data: {
+          buyerId,
+          offeringId,
+          sharesRequested: shares,
+          sharesRemaining: shares,
+          limitPrice: money(limitPrice),
+          lockedAmount: lockAmount,
+          status: 'ACTIVE',
+          expiresAt: expiresAt ?? null,
+        },
+      });
+
+      // Lock the funds
+      const { wallets } = await ledgerService.post(tx, {
+        description: `Funds locked for bid #${newOrder.id.slice(-8)} (${shares} shares @ ₹${limitPrice})`,
+        referenceType: 'buy_order',
+        referenceId: newOrder.id,
+        metadata,
+        lines: [
+          { account: LedgerAccounts.wallet(wallet.id), debit: lockAmount, entryType: 'LOCK' },
+          { account: LedgerAccounts.walletLocked(wallet.id), credit: lockAmount },
+        ],
+      });
+
+      // The check above read the wallet unlocked; a bid or withdrawal
+      // placed meanwhile may have spent the same balance
+      if (wallets[wallet.id].balance.lessThan(0)) {
+        throw new Error(
+          `Insufficient wallet balance. Required: ${formatINR(lockAmount)}, Available: ${formatINR(wallets[wallet.id].balance.plus(lockAmount))}`
+        );
+      }
+
+      return newOrder;
+    });
+
+    const fills = await this.matchBuyOrder(buyOrder.id);
+
+    const refreshed = await prisma.buyOrder.findUnique({
+      where: { id: buyOrder.id },
+    });
+
+    return { buyOrder: refreshed ?? buyOrder, fills };
+  }
+
+  /**
+   * Cross an incoming or repriced bid against resting asks.
+   * Asks are taken cheapest first, then oldest first.
+   */
+  async matchBuyOrder(buyOrderId: string): Promise<Fill[]> {
+    const { offeringId, fills } = await prisma.$transaction(async (tx) => {
+      const order = await tx.buyOrder.findUnique({ where: { id: buyOrderId }, select: { offeringId: true } });
+      if (!order) {
+        return { offeringId: null, fills: [] };
+      }
+      await this.lockBook(tx, order.offeringId);
+
+      let buyOrder = await tx.buyOrder.findUnique({
+        where: { id: buyOrderId },
+        include: { offering: { include: { channel: true } } },
+      });
+
+      if (!buyOrder || !OPEN_ORDER_STATUSES.includes(buyOrder.status as 'ACTIVE' | 'PARTIALLY_FILLED')) {
+        return { offeringId: null, fills: [] };
+      }
+
+      if (buyOrder.expiresAt && buyOrder.expiresAt < new Date()) {
+        await this.releaseBuyOrder(tx, buyOrder.id, 'EXPIRED');
+        return { offeringId: buyOrder.offeringId, fills: [] };
+      }
+
+      const asks = await tx.sellOrder.findMany({
+        where: {
+          offeringId: buyOrder.offeringId,
+          status: { in: OPEN_ORDER_STATUSES },
+          sharesRemaining: { gt: 0 },
+          pricePerShare: { lte: buyOrder.limitPrice },
+          sellerId: { not: buyOrder.buyerId },
+        },
+        orderBy: [
+          { pricePerShare: 'asc' },
+          { createdAt: 'asc' },
+        ],
+      });
+
+      const fills: Fill[] = [];
+      const channelName = buyOrder.offering.channel.channelName;
+
+      for (const ask of asks) {
+        if (buyOrder.sharesRemaining === 0) break;
+
+        if (ask.expiresAt && ask.expiresAt < new Date()) {
+          await tx.sellOrder.update({
+            where: { id: ask.id },
+            data: { status: 'EXPIRED' },
+          });
+          continue;
+        }
+
+        const shares = Math.min(buyOrder.sharesRemaining, ask.sharesRemaining);
+
+        // Respect the seller's minimum lot unless this fill clears the ask
+        if (shares < ask.minShares && shares < ask.sharesRemaining) continue;
+
+        const filled = await this.tryFill(tx, {
+          sellOrder: ask,
+          buyerId: buyOrder.buyerId,
+          shares,
+          pricePerShare: ask.pricePerShare,
+          channelName,
+          buyOrder,
+        });
+        if (!filled) continue;
+
+        fills.push(this.toFill(filled.trade));
+
+        buyOrder = {
+          ...buyOrder,
+          sharesRemaining: buyOrder.sharesRemaining - shares,
+          lockedAmount: buyOrder.lockedAmount.minus(multiply(buyOrder.limitPrice, shares)),
+        };
+      }
+
+      return { offeringId: buyOrder.offeringId, fills };
+    });
+
+    if (offeringId) {
+      marketDataService.publish(offeringId, { fills, takerSide: 'buy' });
+    }
+
+    return fills;
+  }
+
+  /**
+   * Cross an incoming or repriced ask against resting bids.
+   * Bids are taken highest first, then oldest first.
+   */
+  async matchSellOrder(sellOrderId: string): Promise<Fill[]> {
+    const { offeringId, fills } = await prisma.$transaction(async (tx) => {
+      const order = await tx.sellOrder.findUnique({ where: { id: sellOrderId }, select: { offeringId: true } });
+      if (!order) {
+        return { offeringId: null, fills: [] };
+      }
+      await this.lockBook(tx, order.offeringId);
+
+      let sellOrder = await tx.sellOrder.findUnique({
+        where: { id: sellOrderId },
+        include: { offering: { include: { channel: true } } },
+      });
+
+      if (!sellOrder || !OPEN_ORDER_STATUSES.includes(sellOrder.status as 'ACTIVE' | 'PARTIALLY_FILLED')) {
+        return { offeringId: null, fills: [] };
+      }
+
+      if (sellOrder.expiresAt && sellOrder.expiresAt < new Date()) {
+        await tx.sellOrder.update({
+          where: { id: sellOrder.id },
+          data: { status: 'EXPIRED' },
+        });
+        return { offeringId: sellOrder.offeringId, fills: [] };
+      }
+
+      const bids = await tx.buyOrder.findMany({
+        where: {
+          offeringId: sellOrder.offeringId,
+          status: { in: OPEN_ORDER_STATUSES },
+          sharesRemaining: { gt: 0 },
+          limitPrice: { gte: sellOrder.pricePerShare },
+          buyerId: { not: sellOrder.sellerId },
+        },
+        orderBy: [
+          { limitPrice: 'desc' },
+          { createdAt: 'asc' },
+        ],
+      });
+
+      const fills: Fill[] = [];
+      const channelName = sellOrder.offering.channel.channelName;
+
+      for (const bid of bids) {
+        if (sellOrder.sharesRemaining === 0) break;
+
+        if (bid.expiresAt && bid.expiresAt < new Date()) {
+          await this.releaseBuyOrder(tx, bid.id, 'EXPIRED');
+          continue;
+        }
+
+        const shares = Math.min(bid.sharesRemaining, sellOrder.sharesRemaining);
+
+        if (shares < sellOrder.minShares && shares < sellOrder.sharesRemaining) continue;
+
+        const filled = await this.tryFill(tx, {
+          sellOrder,
+          buyerId: bid.buyerId,
+          shares,
+          pricePerShare: bid.limitPrice,
+          channelName,
+          buyOrder: bid,
+        });
+        if (!filled) continue;
+
+        fills.push(this.toFill(filled.trade));
+
+        sellOrder = {
+          ...sellOrder,
+          sharesRemaining: sellOrder.sharesRemaining - shares,
+        };
+      }
+
+      return { offeringId: sellOrder.offeringId, fills };
+    });
+
+    if (offeringId) {
+      marketDataService.publish(offeringId, { fills, takerSide: 'sell' });
+    }
+
+    return fills;
+  }
+
+  /**
+   * Execute a market buy by sweeping asks cheapest first until the
+   * requested shares are filled. The order is all-or-nothing: if it
+   * cannot be filled completely within the caller's price limits,
+   * nothing is executed.
+   */
+  async executeMarketBuy(
+    buyerId: string,
+    offeringId: string,
+    shares: number,
+    limits: MarketOrderLimits = {}
+  ): Promise<MarketOrderResult> {
+    const result = await prisma.$transaction(async (tx): Promise<MarketOrderResult> => {
+      await this.lockBook(tx, offeringId);
+
+      const offering = await tx.offering.findUnique({
+        where: { id: offeringId },
+        include: { channel: true },
+      });
+
+      if (!offering) {
+        throw new Error('Offering not found');
+      }
+
+      if (offering.status === 'CLOSED') {
+        throw new Error('Offering has closed and its shares no longer trade');
+      }
+
+      const now = new Date();
+      const asks = await tx.sellOrder.findMany({
+        where: {
+          offeringId,
+          status: { in: OPEN_ORDER_STATUSES },
+          sharesRemaining: { gt: 0 },
+          sellerId: { not: buyerId },
+          OR: [
+            { expiresAt: null },
+            { expiresAt: { gt: now } },
+          ],
+        },
+        orderBy: [
+          { pricePerShare: 'asc' },
+          { createdAt: 'asc' },
+        ],
+      });
+
+      if (asks.length === 0) {
+        return { filled: false, code: 'NO_LIQUIDITY', reason: 'No sell orders available for this offering' };
+      }
+
+      const buyerCheck = await transferRulesService.checkBuyer(buyerId, offeringId, shares, { client: tx });
+      if (!buyerCheck.allowed) {
+        return {
+          filled: false,
+          code: 'TRANSFER_RESTRICTED',
+          reason: buyerCheck.violations.map((v) => v.reason).join('; '),
+          violations: buyerCheck.violations,
+        };
+      }
+
+      // Plan the sweep before touching any balances
+      const plan: Array<{ ask: SellOrder; shares: number }> = [];
+      let sharesToFill = shares;
+      let totalAmount = ZERO;
+
+      for (const ask of asks) {
+        if (sharesToFill === 0) break;
+
+        const fillShares = Math.min(sharesToFill, ask.sharesRemaining);
+        if (fillShares < ask.minShares && fillShares < ask.sharesRemaining) continue;
+
+        // Skip asks whose shares are still locked up
+        const investment = await tx.investment.findUnique({ where: { id: ask.investmentId } });
+        if (!investment || !(await transferRulesService.checkSeller(investment, fillShares, 0, tx)).allowed) continue;
+
+        plan.push({ ask, shares: fillShares });
+        sharesToFill -= fillShares;
+        totalAmount = totalAmount.plus(multiply(ask.pricePerShare, fillShares));
+      }
+
+      if (sharesToFill > 0) {
+        return {
+          filled: false,
+          code: 'INSUFFICIENT_LIQUIDITY',
+          reason: `Only ${shares - sharesToFill} of ${shares} shares are available on the order book`,
+        };
+      }
+
+      // Measured from the best ask this buyer can actually take, not one
+      // skipped above
+      const referencePrice = plan[0].ask.pricePerShare;
+      const averagePrice = money(totalAmount.dividedBy(shares));
+      const slippagePercent = averagePrice.minus(referencePrice).dividedBy(referencePrice).times(100).toNumber();
+
+      if (limits.maxAveragePrice !== undefined && averagePrice.greaterThan(limits.maxAveragePrice)) {
+        return {
+          filled: false,
+          code: 'PRICE_LIMIT_EXCEEDED',
+          reason: `Average fill price ${formatINR(averagePrice)} exceeds your limit of ${formatINR(limits.maxAveragePrice)}`,
+        };
+      }
+
+      if (limits.maxSlippagePercent !== undefined && slippagePercent > limits.maxSlippagePercent) {
+        return {
+          filled: false,
+          code: 'SLIPPAGE_EXCEEDED',
+          reason: `Slippage of ${slippagePercent.toFixed(2)}% exceeds your limit of ${limits.maxSlippagePercent}%`,
+        };
+      }
+
+      const eligibility = await investorTierService.checkEligibility(buyerId, totalAmount, { client: tx });
+      if (!eligibility.eligible) {
+        return {
+          filled: false,
+          code: 'INVESTOR_NOT_ELIGIBLE',
+          reason: eligibility.reason,
+          eligibilityCode: eligibility.code,
+        };
+      }
+
+      const wallet = await tx.wallet.findUnique({
+        where: { userId: buyerId },
+      });
+
+      if (!wallet || wallet.balance.lessThan(totalAmount)) {
+        return {
+          filled: false,
+          code: 'INSUFFICIENT_BALANCE',
+          reason: `Insufficient wallet balance. Required: ${formatINR(totalAmount)}, Available: ${formatINR(wallet?.balance ?? 0)}`,
+        };
+      }
+
+      const fills: Fill[] = [];
+      let walletBalance = wallet.balance;
+
+      for (const { ask, shares: fillShares } of plan) {
+        const { trade, buyerWallet } = await this.executeFill(tx, {
+          sellOrder: ask,
+          buyerId,
+          shares: fillShares,
+          pricePerShare: ask.pricePerShare,
+          channelName: offering.channel.channelName,
+        });
+
+        fills.push(this.toFill(trade));
+        walletBalance = buyerWallet.balance;
+      }
+
+      return {
+        filled: true,
+        fills,
+        sharesFilled: shares,
+        totalAmount,
+        averagePrice,
+        referencePrice,
+        slippagePercent,
+        walletBalance,
+      };
+    });
+
+    if (result.filled) {
+      marketDataService.publish(offeringId, { fills: result.fills, takerSide: 'buy' });
+    }
+
+    return result;
+  }
+
+  /**
+   * Cancel a resting bid and return its locked funds
+   */
+  async cancelBuyOrder(buyOrderId: string): Promise<BuyOrder> {
+    const cancelled = await prisma.$transaction(async (tx) => {
+      const buyOrder = await tx.buyOrder.findUnique({
+        where: { id: buyOrderId },
+      });
+
+      if (!buyOrder) {
+        throw new Error('Buy order not found');
+      }
+
+      const released = await this.releaseBuyOrder(tx, buyOrder.id, 'CANCELLED');
+      if (!released) {
+        throw new Error(`Order is already ${buyOrder.status.toLowerCase().replace('_', ' ')}`);
+      }
+      return released;
+    });
+
+    marketDataService.publish(cancelled.offeringId);
+
+    return cancelled;
+  }
+
+  /**
+   * Expire resting orders that are past their expiresAt.
+   * Asks simply close; bids also return their locked funds.
+   */
+  async expireStaleOrders(): Promise<{ sellOrdersExpired: number; buyOrdersExpired: number }> {
+    const now = new Date();
+    const staleWhere = {
+      status: { in: OPEN_ORDER_STATUSES },
+      expiresAt: { lt: now },
+    };
+
+    const staleAsks = await prisma.sellOrder.findMany({
+      where: staleWhere,
+      select: { offeringId: true },
+      distinct: ['offeringId'],
+    });
+
+    const { count: sellOrdersExpired } = await prisma.sellOrder.updateMany({
+      where: staleWhere,
+      data: { status: 'EXPIRED' },
+    });
+
+    const staleBids = await prisma.buyOrder.findMany({
+      where: staleWhere,
+      select: { id: true, offeringId: true },
+    });
+
+    let buyOrdersExpired = 0;
+
+    for (const { id } of staleBids) {
+      // The bid may have filled or been cancelled since; releasing it then does nothing
+      const expired = await prisma.$transaction(async (tx) => (await this.releaseBuyOrder(tx, id, 'EXPIRED')) !== null);
+
+      if (expired) buyOrdersExpired++;
+    }
+
+    const affectedOfferings = new Set([...staleAsks, ...staleBids].map((order) => order.offeringId));
+    affectedOfferings.forEach((offeringId) => marketDataService.publish(offeringId));
+
+    return { sellOrdersExpired, buyOrdersExpired };
+  }
+
+  /**
+   * Close every open order on an offering inside the caller's
+   * transaction, e.g. when it matures. Bids return their locked funds.
+   * The book stays locked until the transaction ends; the caller
+   * publishes market data once it commits.
+   */
+  async closeOrderBook(
+    tx: Prisma.TransactionClient,
+    offeringId: string
+  ): Promise<{ sellOrdersClosed: number; buyOrdersClosed: number }> {
+    await this.lockBook(tx, offeringId);
+
+    const { count: sellOrdersClosed } = await tx.sellOrder.updateMany({
+      where: { offeringId, status: { in: OPEN_ORDER_STATUSES } },
+      data: { status: 'EXPIRED' },
+    });
+
+    const bids = await tx.buyOrder.findMany({
+      where: { offeringId, status: { in: OPEN_ORDER_STATUSES } },
+      select: { id: true },
+    });
+
+    let buyOrdersClosed = 0;
+
+    for (const { id } of bids) {
+      if ((await this.releaseBuyOrder(tx, id, 'EXPIRED')) !== null) buyOrdersClosed++;
+    }
+
+    return { sellOrdersClosed, buyOrdersClosed };
+  }
+
+  /**
+   * Close a bid and unlock whatever funds it still reserves. Returns null,
+   * changing nothing, if the bid is no longer open.
+   */
+  private async releaseBuyOrder(
+    tx: Prisma.TransactionClient,
+    buyOrderId: string,
+    status: 'CANCELLED' | 'EXPIRED'
+  ): Promise<BuyOrder | null> {
+    // Guarded so a bid is released once, and never after it filled
+    const { count } = await tx.buyOrder.updateMany({
+      where: { id: buyOrderId, status: { in: OPEN_ORDER_STATUSES } },
+      data: {
+        status,
+        cancelledAt: status === 'CANCELLED' ? new Date() : undefined,
+      },
+    });
+    if (count === 0) {
+      return null;
+    }
+
+    // Re-read now the row is ours: fills may have spent part of the lock
+    const { buyerId, lockedAmount } = await tx.buyOrder.findUniqueOrThrow({
+      where: { id: buyOrderId },
+    });
+
+    const updatedOrder = await tx.buyOrder.update({
+      where: { id: buyOrderId },
+      data: { lockedAmount: ZERO },
+    });
+
+    if (lockedAmount.greaterThan(0)) {
+      const wallet = await tx.wallet.findUnique({
+        where: { userId: buyerId },
+      });
+
+      if (!wallet) {
+        throw new Error('Buyer wallet not found');
+      }
+
+      await ledgerService.post(tx, {
+        description: `Funds unlocked - bid ${status.toLowerCase()} #${buyOrderId.slice(-8)}`,
+        referenceType: 'buy_order',
+        referenceId: buyOrderId,
+        lines: [
+          { account: LedgerAccounts.walletLocked(wallet.id), debit: lockedAmount },
+          { account: LedgerAccounts.wallet(wallet.id), credit: lockedAmount, entryType: 'UNLOCK' },
+        ],
+      });
+    }
+
+    return updatedOrder;
+  }
+
+  /**
+   * executeFill, or null when the transfer rules reject this pairing or
+   * an order was taken in the meantime
+   */
+  private async tryFill(tx: Prisma.TransactionClient, params: ExecuteFillParams) {
+    try {
+      return await this.executeFill(tx, params);
+    } catch (error) {
+      if (error instanceof TransferRestrictionError || error instanceof OrderUnavailableError) return null;
+      throw error;
+    }
+  }
+
+  // Serialises matching on one offering's book until the transaction ends
+  private async lockBook(tx: Prisma.TransactionClient, offeringId: string): Promise<void> {
+    await tx.$queryRaw`SELECT id FROM offerings WHERE id = ${offeringId} FOR UPDATE`;
+  }
+
+  private toFill(trade: Pick<Trade, 'id' | 'sellOrderId' | 'buyOrderId' | 'shares' | 'pricePerShare' | 'totalAmount'>): Fill {
+    return {
+      tradeId: trade.id,
+      sellOrderId: trade.sellOrderId,
+      buyOrderId: trade.buyOrderId,
+      shares: trade.shares,
+      pricePerShare: trade.pricePerShare,
+      totalAmount: trade.totalAmount,
+    };
+  }
+}
+
+// Singleton instance
+export const matchingEngine = new MatchingEngine();
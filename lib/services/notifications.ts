@@ -0,0 +1,391 @@
+/**
+ * Notification Service
+ *
+ * One entry point for telling a user that something happened to their
+ * account. Each event is rendered from a template into an in-app
+ * notification (the Navbar inbox) and an email (sent through the
+ * outbox, see lib/services/email.ts), filtered by the user's channel
+ * preferences for that notification type.
+ *
+ * Call notify() with the transaction that makes the change, so nothing
+ * is announced for a change that rolls back.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { NotificationType, Prisma } from '@prisma/client';
+import { MoneyInput, formatINR } from '@/lib/utils/money';
+import { emailService } from '@/lib/services/email';
+
+// Days before a claim expires that its owner is reminded to claim it
+export const CLAIM_EXPIRY_REMINDER_DAYS = 7;
+
+export type NotificationEvent =
+  | { type: 'KYC_APPROVED' }
+  | { type: 'KYC_REJECTED'; reason: string }
+  | { type: 'WITHDRAWAL_PROCESSING'; withdrawalId: string; amount: MoneyInput }
+  | { type: 'WITHDRAWAL_COMPLETED'; withdrawalId: string; amount: MoneyInput; bankName: string }
+  | { type: 'WITHDRAWAL_FAILED'; withdrawalId: string; amount: MoneyInput; reason: string }
+  | {
+      type: 'TRADE_FILLED';
+      tradeId: string;
+      side: 'BUY' | 'SELL';
+      shares: number;
+      pricePerShare: MoneyInput;
+      channelName: string;
+    }
+  | { type: 'CLAIM_AVAILABLE'; claimId: string; amount: MoneyInput; channelName: string; expiresAt: Date }
+  | { type: 'CLAIM_EXPIRING'; claimId: string; amount: MoneyInput; channelName: string; expiresAt: Date }
+  | {
+      type: 'CLAIM_AUTO_PROCESSED';
+      claimId: string;
+      amount: MoneyInput;
+      channelName: string;
+      reinvestment: { route: 'PRIMARY' | 'SECONDARY'; shares: number; amount: MoneyInput } | null;
+      notReinvestedReason?: string; // Set when REINVEST fell back to the wallet
+    }
+  | { type: 'OFFERING_APPROVED'; offeringId: string; channelName: string }
+  | { type: 'OFFERING_CHANGES_REQUESTED'; offeringId: string; channelName: string; commentCount: number }
+  | { type: 'OFFERING_REJECTED'; offeringId: string; channelName: string; summary: string | null }
+  | {
+      type: 'PRICE_ALERT';
+      alertId: string;
+      offeringId: string;
+      channelName: string;
+      source: 'LAST_TRADE' | 'BEST_ASK';
+      direction: 'ABOVE' | 'BELOW';
+      threshold: MoneyInput;
+      price: MoneyInput;
+    };
+
+interface RenderedNotification {
+  title: string;
+  body: string;
+  link: string;
+}
+
+export interface ChannelPreference {
+  type: NotificationType;
+  label: string;
+  inApp: boolean;
+  email: boolean;
+}
+
+export const NOTIFICATION_LABELS: Record<NotificationType, string> = {
+  KYC_APPROVED: 'KYC approved',
+  KYC_REJECTED: 'KYC rejected',
+  WITHDRAWAL_PROCESSING: 'Withdrawal processing',
+  WITHDRAWAL_COMPLETED: 'Withdrawal completed',
+  WITHDRAWAL_FAILED: 'Withdrawal failed',
+  TRADE_FILLED: 'Order filled',
+  CLAIM_AVAILABLE: 'Revenue ready to claim',
+  CLAIM_EXPIRING: 'Claim about to expire',
+  CLAIM_AUTO_PROCESSED: 'Revenue claimed automatically',
+  OFFERING_APPROVED: 'Offering approved',
+  OFFERING_CHANGES_REQUESTED: 'Offering changes requested',
+  OFFERING_REJECTED: 'Offering rejected',
+  PRICE_ALERT: 'Price alert',
+};
+
+// Channels used when the user has not set a preference for a type
+const DEFAULT_CHANNELS: Record<NotificationType, { inApp: boolean; email: boolean }> = {
+  KYC_APPROVED: { inApp: true, email: true },
+  KYC_REJECTED: { inApp: true, email: true },
+  WITHDRAWAL_PROCESSING: { inApp: true, email: false },
+  WITHDRAWAL_COMPLETED: { inApp: true, email: true },
+  WITHDRAWAL_FAILED: { inApp: true, email: true },
+  TRADE_FILLED: { inApp: true, email: false },
+  CLAIM_AVAILABLE: { inApp: true, email: true },
+  CLAIM_EXPIRING: { inApp: true, email: true },
+  CLAIM_AUTO_PROCESSED: { inApp: true, email: false },
+  OFFERING_APPROVED: { inApp: true, email: true },
+  OFFERING_CHANGES_REQUESTED: { inApp: true, email: true },
+  OFFERING_REJECTED: { inApp: true, email: true },
+  PRICE_ALERT: { inApp: true, email: true },
+};
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'Asia/Kolkata' });
+
+function render(event: NotificationEvent): RenderedNotification {
+  switch (event.type) {
+    case 'KYC_APPROVED':
+      return {
+        title: 'Your KYC is verified',
+        body: 'Your identity has been verified. You can now invest and trade on the platform.',
+        link: '/profile?tab=kyc',
+      };
+    case 'KYC_REJECTED':
+      return {
+        title: 'Your KYC was not approved',
+        body: `We could not verify your identity: ${event.reason}. Please review your details and resubmit.`,
+        link: '/profile?tab=kyc',
+      };
+    case 'WITHDRAWAL_PROCESSING':
+      return {
+        title: 'Withdrawal is being processed',
+        body: `Your withdrawal of ${formatINR(event.amount)} has been approved and is on its way to your bank.`,
+        link: '/profile?tab=wallet',
+      };
+    case 'WITHDRAWAL_COMPLETED':
+      return {
+        title: 'Withdrawal completed',
+        body: `${formatINR(event.amount)} has been sent to your ${event.bankName} account.`,
+        link: '/profile?tab=wallet',
+      };
+    case 'WITHDRAWAL_FAILED':
+      return {
+        title: 'Withdrawal failed',
+        body: `Your withdrawal of ${formatINR(event.amount)} could not be completed: ${event.reason}. The funds are back in your wallet.`,
+        link: '/profile?tab=wallet',
+      };
+    case 'TRADE_FILLED':
+      return {
+        title: event.side === 'BUY' ? 'Buy order filled' : 'Sell order filled',
+        body: `${event.side === 'BUY' ? 'Bought' : 'Sold'} ${event.shares} share${event.shares === 1 ? '' : 's'} of ${event.channelName} at ${formatINR(event.pricePerShare)} per share.`,
+        link: '/trading/portfolio',
+      };
+    case 'CLAIM_AVAILABLE':
+      return {
+        title: 'Revenue ready to claim',
+        body: `${formatINR(event.amount)} from ${event.channelName} is ready to claim. Claim it by ${formatDate(event.expiresAt)}.`,
+        link: '/trading/portfolio',
+      };
+    case 'CLAIM_EXPIRING':
+      return {
+        title: 'Your revenue claim expires soon',
+        body: `${formatINR(event.amount)} from ${event.channelName} expires on ${formatDate(event.expiresAt)}. Claim it before then or it will be forfeited.`,
+        link: '/trading/portfolio',
+      };
+    case 'CLAIM_AUTO_PROCESSED': {
+      const claimed = `${formatINR(event.amount)} from ${event.channelName} was claimed into your wallet`;
+      const shares = event.reinvestment && `${event.reinvestment.shares} share${event.reinvestment.shares === 1 ? '' : 's'}`;
+      let body = `${claimed}.`;
+      if (event.reinvestment?.route === 'PRIMARY') {
+        body = `${claimed} and reinvested in ${shares} for ${formatINR(event.reinvestment.amount)}.`;
+      } else if (event.reinvestment?.route === 'SECONDARY') {
+        body = `${claimed} and a bid for ${shares} (up to ${formatINR(event.reinvestment.amount)}) was placed on the order book.`;
+      } else if (event.notReinvestedReason) {
+        body = `${claimed}. It was not reinvested: ${event.notReinvestedReason}.`;
+      }
+      return {
+        title: event.reinvestment ? 'Revenue reinvested' : 'Revenue claimed',
+        body,
+        link: '/trading/portfolio',
+      };
+    }
+    case 'OFFERING_APPROVED':
+      return {
+        title: 'Your offering is live',
+        body: `Your offering for ${event.channelName} has been approved and is now open to investors.`,
+        link: '/dashboard/creator',
+      };
+    case 'OFFERING_CHANGES_REQUESTED':
+      return {
+        title: 'Changes requested on your offering',
+        body: `A reviewer left ${event.commentCount} comment${event.commentCount === 1 ? '' : 's'} on your offering for ${event.channelName}. Revise it and resubmit for approval.`,
+        link: `/creator/offering/new?id=${event.offeringId}`,
+      };
+    case 'OFFERING_REJECTED':
+      return {
+        title: 'Your offering was not approved',
+        body: `Your offering for ${event.channelName} was rejected${event.summary ? `: ${event.summary}` : '.'}`,
+        link: `/creator/offering/new?id=${event.offeringId}`,
+      };
+    case 'PRICE_ALERT': {
+      const price = event.source === 'LAST_TRADE' ? 'Last trade price' : 'Best ask';
+      return {
+        title: `${event.channelName} ${event.direction === 'ABOVE' ? 'rose to' : 'fell to'} ${formatINR(event.price)}`,
+        body: `${price} for ${event.channelName} is ${formatINR(event.price)}, ${event.direction === 'ABOVE' ? 'at or above' : 'at or below'} your alert at ${formatINR(event.threshold)}.`,
+        link: `/exchange?symbol=${event.offeringId}`,
+      };
+    }
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&#39;');
+}
+
+function renderEmail(name: string | null, notification: RenderedNotification) {
+  const baseUrl = process.env.NEXTAUTH_URL || 'http://localhost:8000';
+  const url = `${baseUrl}${notification.link}`;
+  const greeting = `Hi ${name || 'there'},`;
+
+  return {
+    subject: notification.title,
+    text: `${greeting}\n\n${notification.body}\n\nView it here: ${url}\n`,
+    html: `<div style="font-family: Arial, sans-serif; max-width: 560px; margin: 0 auto; color: #18181b;">
+  <h2 style="color: #dc2626;">${escapeHtml(notification.title)}</h2>
+  <p>${escapeHtml(greeting)}</p>
+  <p>${escapeHtml(notification.body)}</p>
+  <p><a href="${escapeHtml(url)}" style="display: inline-block; padding: 10px 16px; background: #dc2626; color: #fff; text-decoration: none; border-radius: 6px;">View details</a></p>
+  <p style="font-size: 12px; color: #71717a;">You can choose which emails you receive under Profile &rarr; Notifications.</p>
+</div>`,
+  };
+}
+
+export class NotificationService {
+  /**
+   * Notify a user of an event on the channels they have enabled. With a
+   * dedupeKey, an event already notified under that key is skipped.
+   */
+  async notify(
+    userId: string,
+    event: NotificationEvent,
+    options: { client?: Prisma.TransactionClient; dedupeKey?: string } = {}
+  ): Promise<void> {
+    const client = options.client ?? prisma;
+
+    if (options.dedupeKey) {
+      const existing = await client.notification.findUnique({ where: { dedupeKey: options.dedupeKey } });
+      if (existing) return;
+    }
+
+    const [user, preference] = await Promise.all([
+      client.user.findUnique({ where: { id: userId }, select: { email: true, name: true } }),
+      client.notificationPreference.findUnique({ where: { userId_type: { userId, type: event.type } } }),
+    ]);
+
+    if (!user) return;
+
+    const channels = preference ?? DEFAULT_CHANNELS[event.type];
+    const rendered = render(event);
+    const { type, ...data } = event;
+
+    // Recorded even with the inbox off (marked read) so the dedupe key holds
+    await client.notification.create({
+      data: {
+        userId,
+        type,
+        ...rendered,
+        data: JSON.parse(JSON.stringify(data)) as Prisma.InputJsonObject, // Decimals and dates as strings
+        dedupeKey: options.dedupeKey,
+        readAt: channels.inApp ? null : new Date(),
+      },
+    });
+
+    if (channels.email && user.email) {
+      await emailService.enqueue({
+        userId,
+        to: user.email,
+        template: type,
+        ...renderEmail(user.name, rendered),
+      }, client);
+    }
+  }
+
+  async list(userId: string, options: { unreadOnly?: boolean; limit?: number } = {}) {
+    // Types the user turned off in the inbox are hidden, including older ones
+    const hiddenTypes = (await this.getPreferences(userId))
+      .filter((preference) => !preference.inApp)
+      .map((preference) => preference.type);
+
+    const where: Prisma.NotificationWhereInput = {
+      userId,
+      ...(hiddenTypes.length > 0 && { type: { notIn: hiddenTypes } }),
+      ...(options.unreadOnly && { readAt: null }),
+    };
+
+    const [notifications, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: Math.min(options.limit ?? 20, 100),
+      }),
+      prisma.notification.count({ where: { ...where, readAt: null } }),
+    ]);
+
+    return { notifications, unreadCount };
+  }
+
+  /**
+   * Mark the given notifications, or all of them, as read
+   */
+  async markRead(userId: string, ids?: string[]): Promise<number> {
+    const result = await prisma.notification.updateMany({
+      where: { userId, readAt: null, ...(ids && { id: { in: ids } }) },
+      data: { readAt: new Date() },
+    });
+    return result.count;
+  }
+
+  async getPreferences(userId: string): Promise<ChannelPreference[]> {
+    const saved = await prisma.notificationPreference.findMany({ where: { userId } });
+    const byType = new Map(saved.map((preference) => [preference.type, preference]));
+
+    return Object.values(NotificationType).map((type) => {
+      const channels = byType.get(type) ?? DEFAULT_CHANNELS[type];
+      return { type, label: NOTIFICATION_LABELS[type], inApp: channels.inApp, email: channels.email };
+    });
+  }
+
+  async updatePreferences(
+    userId: string,
+    updates: Array<{ type: NotificationType; inApp?: boolean; email?: boolean }>
+  ): Promise<ChannelPreference[]> {
+    const current = new Map((await this.getPreferences(userId)).map((preference) => [preference.type, preference]));
+
+    await prisma.$transaction(
+      updates.map((update) => {
+        const existing = current.get(update.type);
+        if (!existing) {
+          throw new Error(`Unknown notification type ${update.type}`);
+        }
+        const channels = {
+          inApp: update.inApp ?? existing.inApp,
+          email: update.email ?? existing.email,
+        };
+        return prisma.notificationPreference.upsert({
+          where: { userId_type: { userId, type: update.type } },
+          create: { userId, type: update.type, ...channels },
+          update: channels,
+        });
+      })
+    );
+
+    return this.getPreferences(userId);
+  }
+
+  /**
+   * Remind owners of claims that expire within CLAIM_EXPIRY_REMINDER_DAYS.
+   * Each claim is reminded once.
+   */
+  async sendClaimExpiryReminders(): Promise<number> {
+    const cutoff = new Date(Date.now() + CLAIM_EXPIRY_REMINDER_DAYS * 24 * 60 * 60 * 1000);
+
+    const claims = await prisma.escrowClaim.findMany({
+      where: {
+        status: 'AVAILABLE',
+        expiresAt: { gt: new Date(), lte: cutoff },
+      },
+      include: { vault: { include: { offering: { include: { channel: true } } } } },
+    });
+
+    let sent = 0;
+    for (const claim of claims) {
+      const dedupeKey = `claim-expiring:${claim.id}`;
+      if (await prisma.notification.findUnique({ where: { dedupeKey } })) continue;
+
+      await prisma.$transaction((tx) =>
+        this.notify(claim.userId, {
+          type: 'CLAIM_EXPIRING',
+          claimId: claim.id,
+          amount: claim.amount,
+          channelName: claim.vault.offering.channel.channelName,
+          expiresAt: claim.expiresAt!,
+        }, { client: tx, dedupeKey })
+      );
+      sent++;
+    }
+
+    return sent;
+  }
+}
+
+// Singleton instance
+export const notificationService = new NotificationService();
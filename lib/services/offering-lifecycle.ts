@@ -0,0 +1,489 @@
+/**
+ * Offering Lifecycle Service
+ *
+ * An offering's revenue share runs for `duration` months from approval
+ * (`activatedAt`). When the term ends (`maturesAt`) the offering is wound
+ * down:
+ *
+ * 1. Open sell orders and bids are closed; bids get their funds back
+ * 2. Deposits never paid in are cancelled, and everything verified in
+ *    escrow gets a final distribution
+ * 3. If the offering has a `buybackPricePerShare`, the creator buys every
+ *    investor's shares back at that price from their wallet. What the
+ *    wallet cannot cover is paid pro rata and the rest recorded as a
+ *    BuybackShortfall owed to each holder.
+ * 4. Share tokens are burned, the vault and the offering are CLOSED
+ *
+ * All of it happens in one transaction, so a failure leaves the offering
+ * trading as before. Each step is recorded in the escrow audit log.
+ * Maturity is deferred - and retried on the next run - only while the
+ * vault is paused or disputed, which is up to an admin, not the creator.
+ * Claims created by the final distribution stay claimable after the
+ * vault closes.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { Offering, Prisma } from '@prisma/client';
+import { dexEscrowService } from '@/lib/services/dex-escrow';
+import { LedgerAccounts, ledgerService } from '@/lib/services/ledger';
+import { marketDataService } from '@/lib/services/market-data';
+import { matchingEngine } from '@/lib/services/matching-engine';
+import { Money, ZERO, allocate, multiply, subtract, sum } from '@/lib/utils/money';
+
+export interface BuybackHolding {
+  userId: string;
+  shares: number;
+  amount: Money;
+}
+
+export interface BuybackPayment extends BuybackHolding {
+  paid: Money; // From the creator's wallet
+  shortfall: Money; // Left owing, recorded as a BuybackShortfall
+}
+
+export interface MaturityResult {
+  offeringId: string;
+  status: 'MATURED' | 'DEFERRED';
+  reason?: string; // Why maturity was deferred
+  sellOrdersClosed: number;
+  buyOrdersClosed: number;
+  depositsRefunded: number; // Never paid in, cancelled at maturity
+  finalDistributions: number;
+  buyback: {
+    pricePerShare: Money;
+    shares: number;
+    totalAmount: Money;
+    paidAmount: Money;
+    shortfall: Money;
+    holders: BuybackPayment[];
+  } | null;
+  tokensBurned: number;
+}
+
+/**
+ * Maturity date for a term of `months` starting at `start`. Clamps to the
+ * last day of the month, so a 31 January start matures on 28/29 February.
+ */
+export function maturityDate(start: Date, months: number): Date {
+  const target = new Date(start);
+  target.setUTCDate(1);
+  target.setUTCMonth(target.getUTCMonth() + months);
+
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(start.getUTCDate(), lastDay));
+
+  return target;
+}
+
+export class OfferingLifecycleService {
+  /**
+   * Mature every offering whose term has ended. Offerings approved before
+   * terms were tracked get a maturity date from their creation date.
+   */
+  async matureDueOfferings(now: Date = new Date()): Promise<{
+    matured: MaturityResult[];
+    deferred: MaturityResult[];
+    failed: Array<{ offeringId: string; error: string }>;
+  }> {
+    const untracked = await prisma.offering.findMany({
+      where: { status: { in: ['ACTIVE', 'FUNDED'] }, maturesAt: null },
+    });
+
+    for (const offering of untracked) {
+      const activatedAt = offering.activatedAt ?? offering.createdAt;
+      await prisma.offering.update({
+        where: { id: offering.id },
+        data: { activatedAt, maturesAt: maturityDate(activatedAt, offering.duration) },
+      });
+    }
+
+    const due = await prisma.offering.findMany({
+      where: {
+        status: { in: ['ACTIVE', 'FUNDED'] },
+        maturedAt: null,
+        maturesAt: { lte: now },
+      },
+      select: { id: true },
+      orderBy: { maturesAt: 'asc' },
+    });
+
+    const matured: MaturityResult[] = [];
+    const deferred: MaturityResult[] = [];
+    const failed: Array<{ offeringId: string; error: string }> = [];
+
+    for (const { id } of due) {
+      try {
+        const result = await this.matureOffering(id);
+        (result.status === 'MATURED' ? matured : deferred).push(result);
+      } catch (error) {
+        console.error(`Maturing offering ${id} failed:`, error);
+        failed.push({ offeringId: id, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    return { matured, deferred, failed };
+  }
+
+  /**
+   * Wind an offering down. `actorId` is the admin maturing it early;
+   * scheduled maturity runs as SYSTEM.
+   */
+  async matureOffering(offeringId: string, actorId?: string): Promise<MaturityResult> {
+    const offering = await prisma.offering.findUnique({
+      where: { id: offeringId },
+      include: { channel: true },
+    });
+
+    if (!offering) {
+      throw new Error('Offering not found');
+    }
+
+    if (offering.maturedAt || offering.status === 'CLOSED') {
+      throw new Error('Offering has already closed');
+    }
+
+    const result: MaturityResult = {
+      offeringId,
+      status: 'DEFERRED',
+      sellOrdersClosed: 0,
+      buyOrdersClosed: 0,
+      depositsRefunded: 0,
+      finalDistributions: 0,
+      buyback: null,
+      tokensBurned: 0,
+    };
+
+    const vaultId = await dexEscrowService.createVault(offeringId);
+    const reason = await this.checkReady(vaultId);
+    if (reason) {
+      return { ...result, reason };
+    }
+
+    const channelName = offering.channel.channelName;
+    const actor = actorId ? { actorId, actorType: 'ADMIN' as const } : { actorType: 'SYSTEM' as const };
+
+    const distributionIds = await prisma.$transaction(async (tx) => {
+      // The vault before the book, in the order distributions take them
+      await tx.$queryRaw`SELECT id FROM escrow_vaults WHERE id = ${vaultId} FOR UPDATE`;
+
+      // Stop trading before the final distribution so holdings are settled
+      Object.assign(result, await matchingEngine.closeOrderBook(tx, offeringId));
+
+      const current = await tx.offering.findUniqueOrThrow({ where: { id: offeringId } });
+      if (current.maturedAt || current.status === 'CLOSED') {
+        throw new Error('Offering has already closed');
+      }
+
+      const refunded = await dexEscrowService.refundUnfundedDeposits(
+        tx,
+        vaultId,
+        'Offering matured before the deposit was paid in'
+      );
+      result.depositsRefunded = refunded.length;
+
+      const verified = await tx.escrowDeposit.findMany({
+        where: { vaultId, status: 'VERIFIED' },
+        select: { id: true },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      const distributed: string[] = [];
+      for (const deposit of verified) {
+        const { distributionId } = await dexEscrowService.distributeRevenueInTx(tx, offeringId, deposit.id);
+        distributed.push(distributionId);
+      }
+      result.finalDistributions = distributed.length;
+
+      const maturedAt = new Date();
+
+      if (offering.buybackPricePerShare) {
+        const holdings = await this.getBuybackHoldings(offering, tx);
+        const holders = await this.executeBuyback(tx, offering, channelName, holdings);
+        const totalAmount = sum(holders, (h) => h.amount);
+        const shortfall = sum(holders, (h) => h.shortfall);
+        result.buyback = {
+          pricePerShare: offering.buybackPricePerShare,
+          shares: holders.reduce((total, h) => total + h.shares, 0),
+          totalAmount,
+          paidAmount: subtract(totalAmount, shortfall),
+          shortfall,
+          holders,
+        };
+
+        await dexEscrowService.recordAuditEvent(tx, {
+          vaultId,
+          action: 'BUYBACK_EXECUTED',
+          ...actor,
+          amount: totalAmount,
+          newState: {
+            pricePerShare: offering.buybackPricePerShare.toString(),
+            shares: result.buyback.shares,
+            paidAmount: result.buyback.paidAmount.toString(),
+            shortfall: shortfall.toString(),
+            holders: holders.map((h) => ({
+              userId: h.userId,
+              shares: h.shares,
+              amount: h.amount.toString(),
+              paid: h.paid.toString(),
+              shortfall: h.shortfall.toString(),
+            })),
+          },
+        });
+      }
+
+      const { count: tokensBurned } = await tx.shareToken.updateMany({
+        where: { offeringId, burnedAt: null },
+        data: { burnedAt: maturedAt },
+      });
+      result.tokensBurned = tokensBurned;
+
+      await dexEscrowService.recordAuditEvent(tx, {
+        vaultId,
+        action: 'SHARES_BURNED',
+        ...actor,
+        newState: { tokensBurned, burnedAt: maturedAt.toISOString() },
+      });
+
+      const vault = await tx.escrowVault.update({
+        where: { id: vaultId },
+        data: { status: 'CLOSED' },
+      });
+
+      await dexEscrowService.recordAuditEvent(tx, {
+        vaultId,
+        action: 'VAULT_CLOSED',
+        ...actor,
+        previousState: { status: 'ACTIVE' },
+        newState: {
+          status: 'CLOSED',
+          totalBalance: vault.totalBalance.toString(),
+          creatorShare: vault.creatorShare.toString(),
+          investorPool: vault.investorPool.toString(),
+        },
+      });
+
+      await tx.offering.update({
+        where: { id: offeringId },
+        data: { status: 'CLOSED', maturedAt },
+      });
+
+      await dexEscrowService.recordAuditEvent(tx, {
+        vaultId,
+        action: 'OFFERING_MATURED',
+        ...actor,
+        previousState: { status: current.status },
+        newState: {
+          status: 'CLOSED',
+          activatedAt: current.activatedAt?.toISOString() ?? null,
+          maturesAt: current.maturesAt?.toISOString() ?? null,
+          maturedAt: maturedAt.toISOString(),
+          duration: current.duration,
+          sellOrdersClosed: result.sellOrdersClosed,
+          buyOrdersClosed: result.buyOrdersClosed,
+          depositsRefunded: refunded,
+          finalDistributions: result.finalDistributions,
+        },
+      });
+
+      return distributed;
+    }, { timeout: 60 * 1000 });
+
+    marketDataService.publish(offeringId);
+
+    for (const distributionId of distributionIds) {
+      await dexEscrowService.applyClaimPreferences(distributionId);
+    }
+
+    result.status = 'MATURED';
+    return result;
+  }
+
+  /**
+   * Investor holdings the creator buys back, priced at the buyback price
+   */
+  async getBuybackHoldings(
+    offering: Offering & { channel: { ownerId: string } },
+    client: Prisma.TransactionClient = prisma
+  ): Promise<BuybackHolding[]> {
+    if (!offering.buybackPricePerShare) return [];
+
+    const investments = await client.investment.findMany({
+      where: {
+        offeringId: offering.id,
+        status: 'CONFIRMED',
+        shares: { gt: 0 },
+        investorId: { not: offering.channel.ownerId },
+      },
+      select: { investorId: true, shares: true },
+    });
+
+    const shares = new Map<string, number>();
+    for (const investment of investments) {
+      shares.set(investment.investorId, (shares.get(investment.investorId) ?? 0) + investment.shares);
+    }
+
+    return Array.from(shares, ([userId, held]) => ({
+      userId,
+      shares: held,
+      amount: multiply(offering.buybackPricePerShare!, held),
+    }));
+  }
+
+  /**
+   * Reason the offering cannot mature yet, if any
+   */
+  private async checkReady(vaultId: string): Promise<string | undefined> {
+    const vault = await prisma.escrowVault.findUnique({ where: { id: vaultId } });
+
+    if (vault?.status === 'DISPUTED') {
+      return 'Escrow vault has an open revenue dispute';
+    }
+
+    if (vault?.status === 'PAUSED') {
+      return 'Escrow vault is paused';
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Pay each holder from the creator's wallet and close their holdings.
+   * If the wallet cannot cover every holder, what it holds is split pro
+   * rata and the rest is recorded as owed to each holder.
+   */
+  private async executeBuyback(
+    tx: Prisma.TransactionClient,
+    offering: Offering & { channel: { ownerId: string } },
+    channelName: string,
+    holders: BuybackHolding[]
+  ): Promise<BuybackPayment[]> {
+    const creatorId = offering.channel.ownerId;
+    const creatorWallet = await tx.wallet.upsert({
+      where: { userId: creatorId },
+      create: { userId: creatorId },
+      update: {},
+    });
+
+    // Hold the wallet so a withdrawal or bid cannot spend the same balance
+    await tx.$queryRaw`SELECT id FROM wallets WHERE id = ${creatorWallet.id} FOR UPDATE`;
+    const { balance } = await tx.wallet.findUniqueOrThrow({ where: { id: creatorWallet.id } });
+    const required = sum(holders, (h) => h.amount);
+
+    // Paise left over from a pro-rata split stay with the creator
+    const paid = balance.greaterThanOrEqualTo(required)
+      ? holders.map((h) => h.amount)
+      : allocate(balance.greaterThan(0) ? balance : ZERO, holders.map((h) => h.shares)).shares;
+
+    const payments = holders.map((holder, i) => ({
+      ...holder,
+      paid: paid[i],
+      shortfall: subtract(holder.amount, paid[i]),
+    }));
+
+    await tx.investment.updateMany({
+      where: {
+        offeringId: offering.id,
+        status: 'CONFIRMED',
+        investorId: { in: holders.map((h) => h.userId) },
+      },
+      data: { shares: 0 },
+    });
+
+    for (const holder of payments) {
+      if (holder.shortfall.greaterThan(0)) {
+        await tx.buybackShortfall.create({
+          data: {
+            offeringId: offering.id,
+            creatorId,
+            userId: holder.userId,
+            shares: holder.shares,
+            amount: holder.shortfall,
+          },
+        });
+      }
+    }
+
+    for (const holder of payments) {
+      if (holder.paid.isZero()) continue;
+
+      const holderWallet = await tx.wallet.upsert({
+        where: { userId: holder.userId },
+        create: { userId: holder.userId },
+        update: {},
+      });
+
+      const metadata = {
+        offeringId: offering.id,
+        shares: holder.shares,
+        pricePerShare: offering.buybackPricePerShare!.toString(),
+        channelName,
+        ...(holder.shortfall.greaterThan(0) && { shortfall: holder.shortfall.toString() }),
+      };
+
+      const creatorTransaction = await tx.transaction.create({
+        data: {
+          userId: creatorId,
+          type: 'TRANSFER',
+          amount: holder.paid,
+          fee: 0,
+          netAmount: holder.paid,
+          status: 'COMPLETED',
+          referenceType: 'offering_buyback',
+          referenceId: offering.id,
+          description: `Bought back ${holder.shares} shares of ${channelName} at maturity`,
+          completedAt: new Date(),
+          metadata,
+        },
+      });
+
+      const holderTransaction = await tx.transaction.create({
+        data: {
+          userId: holder.userId,
+          type: 'EARNING',
+          amount: holder.paid,
+          fee: 0,
+          netAmount: holder.paid,
+          status: 'COMPLETED',
+          referenceType: 'offering_buyback',
+          referenceId: offering.id,
+          description: `${holder.shares} shares of ${channelName} bought back by the creator at maturity`,
+          completedAt: new Date(),
+          metadata,
+        },
+      });
+
+      await ledgerService.post(tx, {
+        description: `Maturity buyback: ${holder.shares} shares of ${channelName} at ₹${offering.buybackPricePerShare}/share`,
+        referenceType: 'offering_buyback',
+        referenceId: offering.id,
+        metadata,
+        lines: [
+          {
+            account: LedgerAccounts.wallet(creatorWallet.id),
+            debit: holder.paid,
+            entryType: 'TRADE_BUY',
+            description: `Buyback: ${holder.shares} shares of ${channelName}`,
+            transactionId: creatorTransaction.id,
+          },
+          {
+            account: LedgerAccounts.wallet(holderWallet.id),
+            credit: holder.paid,
+            entryType: 'TRADE_SELL',
+            description: `Buyback: ${holder.shares} shares of ${channelName}`,
+            transactionId: holderTransaction.id,
+          },
+        ],
+      });
+
+      await tx.wallet.update({
+        where: { id: holderWallet.id },
+        data: { totalEarnings: { increment: holder.paid } },
+      });
+    }
+
+    return payments;
+  }
+}
+
+// Singleton instance
+export const offeringLifecycleService = new OfferingLifecycleService();
@@ -0,0 +1,414 @@
+/**
+ * Offering Review Service
+ *
+ * Creators submit offerings for admin review. Every submission is kept as
+ * a numbered OfferingRevision holding a snapshot of the terms, so a
+ * reviewer can see what changed since the last round. A reviewer decides
+ * each submission:
+ *
+ * - APPROVED: the offering goes ACTIVE, its term starts and the escrow
+ *   vault is created
+ * - CHANGES_REQUESTED: per-field comments go back to the creator, who
+ *   revises the terms and resubmits as the next revision
+ * - REJECTED: the offering is CLOSED
+ *
+ * Submissions and approvals are checked against the channel's revenue
+ * commitments (see revenue-waterfall.ts).
+ */
+
+import { prisma } from '@/lib/prisma';
+import { Offering, OfferingRevision, Prisma, RevenueSource, ReviewDecision } from '@prisma/client';
+import { MoneyInput } from '@/lib/utils/money';
+import { dexEscrowService } from '@/lib/services/dex-escrow';
+import { notificationService } from '@/lib/services/notifications';
+import { maturityDate } from '@/lib/services/offering-lifecycle';
+import { DEFAULT_REVENUE_SOURCES, revenueWaterfallService } from '@/lib/services/revenue-waterfall';
+
+// Offering fields a creator submits and a reviewer can comment on
+export const REVIEWABLE_FIELDS = [
+  'title',
+  'description',
+  'sharePercentage',
+  'totalShares',
+  'pricePerShare',
+  'minInvestment',
+  'maxInvestment',
+  'duration',
+  'buybackPricePerShare',
+  'revenueSources',
+  'returnCapMultiple',
+  'minimumMonthlyPayment',
+] as const;
+
+export type ReviewableField = typeof REVIEWABLE_FIELDS[number];
+
+// Comments that are about the submission as a whole
+export const GENERAL_COMMENT_FIELD = 'general';
+
+export interface OfferingTerms {
+  title: string;
+  description: string;
+  sharePercentage: number;
+  totalShares: number;
+  pricePerShare: MoneyInput;
+  minInvestment: MoneyInput;
+  maxInvestment?: MoneyInput | null;
+  duration: number; // months
+  buybackPricePerShare?: MoneyInput | null;
+  revenueSources?: RevenueSource[]; // Defaults to AdSense and Premium
+  returnCapMultiple?: MoneyInput | null; // e.g. 1.5: payments stop at 1.5x the capital raised
+  minimumMonthlyPayment?: MoneyInput | null; // Least investors get for a month, from the creator's wallet if need be
+}
+
+export interface ReviewComment {
+  field: ReviewableField | typeof GENERAL_COMMENT_FIELD;
+  comment: string;
+}
+
+export interface ReviewInput {
+  decision: ReviewDecision;
+  summary?: string;
+  comments?: ReviewComment[];
+}
+
+export interface ReviewResult {
+  offering: Offering;
+  revision: OfferingRevision;
+  vaultId: string | null; // Set when an approval created (or found) the vault
+}
+
+type Snapshot = Record<ReviewableField, string | number | null>;
+
+const REVISABLE_STATUSES = ['DRAFT', 'CHANGES_REQUESTED'] as const;
+
+// Terms as stored in a revision; amounts as strings so they compare exactly
+function snapshotOf(offering: Pick<Offering, ReviewableField>): Snapshot {
+  const snapshot = {} as Snapshot;
+  for (const field of REVIEWABLE_FIELDS) {
+    const value = offering[field];
+    snapshot[field] = value === null || typeof value === 'number' || typeof value === 'string'
+      ? value
+      : Array.isArray(value)
+        ? [...value].sort().join(', ')
+        : value.toFixed(2);
+  }
+  return snapshot;
+}
+
+function changedFields(previous: Snapshot | null, current: Snapshot): ReviewableField[] {
+  if (!previous) return [];
+  return REVIEWABLE_FIELDS.filter((field) => String(previous[field]) !== String(current[field]));
+}
+
+export class OfferingReviewService {
+  /**
+   * Create an offering on a verified channel and submit it for review
+   */
+  async submitOffering(creatorId: string, channelId: string, terms: OfferingTerms) {
+    const channel = await prisma.channel.findFirst({
+      where: { id: channelId, ownerId: creatorId, status: 'VERIFIED' },
+    });
+
+    if (!channel) {
+      throw new Error('Channel not found or not verified');
+    }
+
+    this.validateTerms(terms);
+    const data = this.termsData(terms);
+
+    return prisma.$transaction(async (tx) => {
+      await revenueWaterfallService.assertWithinLimit(tx, channelId, data);
+
+      const offering = await tx.offering.create({
+        data: {
+          channelId,
+          ...data,
+          waterfallRank: await revenueWaterfallService.nextRank(tx, channelId),
+          status: 'PENDING_APPROVAL',
+        },
+      });
+
+      await tx.offeringRevision.create({
+        data: {
+          offeringId: offering.id,
+          version: 1,
+          snapshot: snapshotOf(offering),
+          submittedBy: creatorId,
+        },
+      });
+
+      return offering;
+    });
+  }
+
+  /**
+   * Apply a creator's revised terms and resubmit as the next revision
+   */
+  async resubmitOffering(creatorId: string, offeringId: string, terms: OfferingTerms) {
+    this.validateTerms(terms);
+    const data = this.termsData(terms);
+
+    return prisma.$transaction(async (tx) => {
+      const offering = await tx.offering.findFirst({
+        where: { id: offeringId, channel: { ownerId: creatorId } },
+      });
+
+      if (!offering) {
+        throw new Error('Offering not found');
+      }
+
+      if (!(REVISABLE_STATUSES as readonly string[]).includes(offering.status)) {
+        throw new Error(
+          offering.status === 'PENDING_APPROVAL'
+            ? 'Offering is already awaiting review'
+            : 'Only offerings with requested changes can be revised'
+        );
+      }
+
+      await revenueWaterfallService.assertWithinLimit(tx, offering.channelId, data, offeringId);
+
+      // Guarded on status so two resubmits cannot both go through
+      const { count } = await tx.offering.updateMany({
+        where: { id: offeringId, status: offering.status },
+        data: { ...data, status: 'PENDING_APPROVAL' },
+      });
+      if (count === 0) {
+        throw new Error('Offering is already awaiting review');
+      }
+
+      const updated = await tx.offering.findUniqueOrThrow({ where: { id: offeringId } });
+      const latest = await tx.offeringRevision.findFirst({
+        where: { offeringId },
+        orderBy: { version: 'desc' },
+        select: { version: true },
+      });
+
+      await tx.offeringRevision.create({
+        data: {
+          offeringId,
+          version: (latest?.version ?? 0) + 1,
+          snapshot: snapshotOf(updated),
+          submittedBy: creatorId,
+        },
+      });
+
+      return updated;
+    });
+  }
+
+  /**
+   * Decide the submission awaiting review
+   */
+  async review(offeringId: string, reviewerId: string, input: ReviewInput): Promise<ReviewResult> {
+    const comments = (input.comments ?? []).map((c) => ({ field: c.field, comment: c.comment.trim() }));
+    const summary = input.summary?.trim() || null;
+
+    for (const { field, comment } of comments) {
+      if (field !== GENERAL_COMMENT_FIELD && !(REVIEWABLE_FIELDS as readonly string[]).includes(field)) {
+        throw new Error(`Unknown offering field: ${field}`);
+      }
+      if (!comment) {
+        throw new Error('Review comments cannot be empty');
+      }
+    }
+
+    if (input.decision === 'CHANGES_REQUESTED' && comments.length === 0) {
+      throw new Error('Add at least one comment describing the changes needed');
+    }
+    if (input.decision === 'REJECTED' && !summary) {
+      throw new Error('A reason is required to reject an offering');
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const offering = await tx.offering.findUnique({
+        where: { id: offeringId },
+        include: { channel: true },
+      });
+
+      if (!offering) {
+        throw new Error('Offering not found');
+      }
+
+      // Offerings from before the limit existed may still overcommit
+      if (input.decision === 'APPROVED') {
+        await revenueWaterfallService.assertWithinLimit(tx, offering.channelId, offering, offeringId);
+      }
+
+      const now = new Date();
+      const { count } = await tx.offering.updateMany({
+        where: { id: offeringId, status: 'PENDING_APPROVAL' },
+        data: input.decision === 'APPROVED'
+          ? {
+              status: 'ACTIVE',
+              ...(!offering.activatedAt && {
+                activatedAt: now,
+                maturesAt: maturityDate(now, offering.duration),
+              }),
+            }
+          : { status: input.decision === 'REJECTED' ? 'CLOSED' : 'CHANGES_REQUESTED' },
+      });
+      if (count === 0) {
+        throw new Error('Offering is not awaiting review');
+      }
+
+      const pending = await this.getPendingRevision(tx, offering);
+      const revision = await tx.offeringRevision.update({
+        where: { id: pending.id },
+        data: {
+          decision: input.decision,
+          summary,
+          reviewedBy: reviewerId,
+          reviewedAt: now,
+          comments: {
+            create: comments.map((c) => ({ ...c, authorId: reviewerId })),
+          },
+        },
+      });
+
+      const channelName = offering.channel.channelName;
+      await notificationService.notify(
+        offering.channel.ownerId,
+        input.decision === 'APPROVED'
+          ? { type: 'OFFERING_APPROVED', offeringId, channelName }
+          : input.decision === 'REJECTED'
+            ? { type: 'OFFERING_REJECTED', offeringId, channelName, summary }
+            : { type: 'OFFERING_CHANGES_REQUESTED', offeringId, channelName, commentCount: comments.length },
+        { client: tx }
+      );
+
+      return {
+        offering: await tx.offering.findUniqueOrThrow({ where: { id: offeringId } }),
+        revision,
+      };
+    });
+
+    let vaultId: string | null = null;
+    if (input.decision === 'APPROVED') {
+      try {
+        vaultId = await dexEscrowService.createVault(offeringId);
+      } catch (error) {
+        console.error('Error creating vault:', error);
+        // Continue even if vault creation fails - it is created on first deposit
+      }
+    }
+
+    return { ...result, vaultId };
+  }
+
+  /**
+   * Every submission of an offering, oldest first, with reviewer comments
+   * and the fields that changed since the previous submission
+   */
+  async getHistory(offeringId: string) {
+    const revisions = await prisma.offeringRevision.findMany({
+      where: { offeringId },
+      orderBy: { version: 'asc' },
+      include: { comments: { orderBy: { createdAt: 'asc' } } },
+    });
+
+    return revisions.map((revision, index) => ({
+      ...revision,
+      changedFields: changedFields(
+        index > 0 ? (revisions[index - 1].snapshot as Snapshot) : null,
+        revision.snapshot as Snapshot
+      ),
+    }));
+  }
+
+  // The latest revision, if undecided. Offerings submitted before reviews
+  // were recorded get their first revision from the current terms.
+  private async getPendingRevision(tx: Prisma.TransactionClient, offering: Offering & { channel: { ownerId: string } }) {
+    const latest = await tx.offeringRevision.findFirst({
+      where: { offeringId: offering.id },
+      orderBy: { version: 'desc' },
+    });
+
+    if (latest && !latest.decision) {
+      return latest;
+    }
+
+    return tx.offeringRevision.create({
+      data: {
+        offeringId: offering.id,
+        version: (latest?.version ?? 0) + 1,
+        snapshot: snapshotOf(offering),
+        submittedBy: offering.channel.ownerId,
+        submittedAt: offering.updatedAt,
+      },
+    });
+  }
+
+  private validateTerms(terms: OfferingTerms): void {
+    if (!terms.title?.trim() || !terms.description?.trim()) {
+      throw new Error('Title and description are required');
+    }
+
+    if (!(terms.sharePercentage >= 1 && terms.sharePercentage <= 50)) {
+      throw new Error('Share percentage must be between 1% and 50%');
+    }
+
+    if (!Number.isInteger(terms.totalShares) || terms.totalShares <= 0) {
+      throw new Error('Total shares must be a positive whole number');
+    }
+
+    if (!Number.isInteger(terms.duration) || terms.duration <= 0) {
+      throw new Error('Duration must be a whole number of months');
+    }
+
+    if (!(Number(terms.pricePerShare) > 0)) {
+      throw new Error('Price per share must be greater than 0');
+    }
+
+    if (!(Number(terms.minInvestment) >= 100)) {
+      throw new Error('Minimum investment must be at least ₹100');
+    }
+
+    if (terms.maxInvestment != null && !(Number(terms.maxInvestment) >= Number(terms.minInvestment))) {
+      throw new Error('Maximum investment cannot be below the minimum investment');
+    }
+
+    if (terms.buybackPricePerShare != null && !(Number(terms.buybackPricePerShare) > 0)) {
+      throw new Error('Buyback price per share must be greater than 0');
+    }
+
+    if (terms.returnCapMultiple != null && !(Number(terms.returnCapMultiple) >= 1 && Number(terms.returnCapMultiple) <= 10)) {
+      throw new Error('Return cap must be between 1x and 10x the capital raised');
+    }
+
+    if (terms.minimumMonthlyPayment != null && !(Number(terms.minimumMonthlyPayment) > 0)) {
+      throw new Error('Minimum monthly payment must be greater than 0');
+    }
+
+    if (terms.revenueSources !== undefined) {
+      if (!Array.isArray(terms.revenueSources) || terms.revenueSources.length === 0) {
+        throw new Error('Choose at least one revenue source');
+      }
+      const unknown = terms.revenueSources.find((source) => !Object.values(RevenueSource).includes(source));
+      if (unknown) {
+        throw new Error(`Unknown revenue source: ${unknown}`);
+      }
+    }
+  }
+
+  // Nothing is sold before approval, so every share is still available
+  private termsData(terms: OfferingTerms) {
+    return {
+      title: terms.title.trim(),
+      description: terms.description.trim(),
+      sharePercentage: terms.sharePercentage,
+      totalShares: terms.totalShares,
+      availableShares: terms.totalShares,
+      pricePerShare: terms.pricePerShare,
+      minInvestment: terms.minInvestment,
+      maxInvestment: terms.maxInvestment ?? null,
+      duration: terms.duration,
+      buybackPricePerShare: terms.buybackPricePerShare ?? null,
+      revenueSources: [...new Set(terms.revenueSources ?? DEFAULT_REVENUE_SOURCES)],
+      returnCapMultiple: terms.returnCapMultiple ?? null,
+      minimumMonthlyPayment: terms.minimumMonthlyPayment ?? null,
+    };
+  }
+}
+
+// Singleton instance
+export const offeringReviewService = new OfferingReviewService();
@@ -1,6 +1,11 @@
 import Stripe from 'stripe';
 import { prisma } from '@/lib/prisma';
 import crypto from 'crypto';
+import { LedgerAccounts, ledgerService } from '@/lib/services/ledger';
+import { MoneyInput, formatINR, fromMinorUnits, multiply, toMinorUnits } from '@/lib/utils/money';
+import { notificationService } from '@/lib/services/notifications';
+import { dexEscrowService } from '@/lib/services/dex-escrow';
+import { revenueReconciliationService } from '@/lib/services/revenue-reconciliation';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   // @ts-expect-error - Using latest Stripe API version
@@ -17,10 +22,10 @@ export class PaymentService {
   }
 
   // Create payment intent for wallet deposit
-  async createWalletDepositIntent(amount: number, userId: string, ipAddress?: string, userAgent?: string) {
+  async createWalletDepositIntent(amount: MoneyInput, userId: string, ipAddress?: string, userAgent?: string) {
     try {
       const paymentIntent = await stripe.paymentIntents.create({
-        amount: Math.round(amount * 100), // Convert to paise
+        amount: toMinorUnits(amount), // Convert to paise
         currency: 'inr',
         metadata: {
           userId,
@@ -64,7 +69,7 @@ export class PaymentService {
       
       if (paymentIntent.status === 'succeeded') {
         const { userId } = paymentIntent.metadata;
-        const amount = paymentIntent.amount / 100;
+        const amount = fromMinorUnits(paymentIntent.amount);
 
         const result = await prisma.$transaction(async (tx) => {
           // Get or create wallet
@@ -87,16 +92,13 @@ export class PaymentService {
             });
           }
 
-          // Update wallet balance
-          const newBalance = wallet.balance + amount;
-          const updatedWallet = await tx.wallet.update({
+          // Update wallet totals
+          await tx.wallet.update({
             where: { userId },
             data: {
-              balance: newBalance,
               totalDeposited: {
                 increment: amount,
               },
-              lastActivityAt: new Date(),
             },
           });
 
@@ -113,25 +115,22 @@ export class PaymentService {
                 completedAt: new Date(),
               },
             });
-
-            // Create ledger entry
-            await tx.walletLedger.create({
-              data: {
-                walletId: updatedWallet.id,
-                transactionId: transaction.id,
-                entryType: 'DEPOSIT',
-                debit: 0,
-                credit: amount,
-                balance: newBalance,
-                description: `Deposit via Stripe`,
-                referenceType: 'deposit',
-                referenceId: transaction.id,
-                metadata: { stripePaymentIntentId: paymentIntentId },
-              },
-            });
           }
 
-          return updatedWallet;
+          // Cash arrives in Stripe clearing and is owed to the user
+          const { wallets } = await ledgerService.post(tx, {
+            description: `Deposit via Stripe`,
+            referenceType: 'deposit',
+            referenceId: transaction?.id ?? paymentIntentId,
+            transactionId: transaction?.id,
+            metadata: { stripePaymentIntentId: paymentIntentId },
+            lines: [
+              { account: LedgerAccounts.STRIPE_CLEARING, debit: amount },
+              { account: LedgerAccounts.wallet(wallet.id), credit: amount, entryType: 'DEPOSIT' },
+            ],
+          });
+
+          return wallets[wallet.id];
         });
 
         return result;
@@ -163,18 +162,26 @@ export class PaymentService {
       }
 
       // Update status to processing
-      await prisma.withdrawal.update({
-        where: { id: withdrawalId },
-        data: { 
-          status: 'PROCESSING',
-          processedAt: new Date(),
-        },
+      await prisma.$transaction(async (tx) => {
+        await tx.withdrawal.update({
+          where: { id: withdrawalId },
+          data: { 
+            status: 'PROCESSING',
+            processedAt: new Date(),
+          },
+        });
+
+        await notificationService.notify(withdrawal.userId, {
+          type: 'WITHDRAWAL_PROCESSING',
+          withdrawalId,
+          amount: withdrawal.netAmount,
+        }, { client: tx });
       });
 
       // In production, you would initiate ACH transfer via Stripe or other payment processor
       // For now, we'll simulate the payout
       // const payout = await stripe.payouts.create({
-      //   amount: Math.round(withdrawal.netAmount * 100),
+      //   amount: toMinorUnits(withdrawal.netAmount),
       //   currency: 'usd',
       //   destination: withdrawal.bankAccount.stripeExternalId,
       // });
@@ -218,13 +225,11 @@ export class PaymentService {
           },
         });
 
-        // Update wallet - remove from locked, add to withdrawn
-        const updatedWallet = await tx.wallet.update({
+        // Update wallet totals
+        await tx.wallet.update({
           where: { id: wallet.id },
           data: {
-            lockedBalance: { decrement: withdrawal.amount },
             totalWithdrawn: { increment: withdrawal.netAmount },
-            lastActivityAt: new Date(),
           },
         });
 
@@ -240,39 +245,35 @@ export class PaymentService {
           },
         });
 
-        // Create ledger entry for completed withdrawal
-        await tx.walletLedger.create({
-          data: {
-            walletId: wallet.id,
-            entryType: 'WITHDRAWAL',
-            debit: withdrawal.amount,
-            credit: 0,
-            balance: updatedWallet.balance,
-            description: `Withdrawal completed to ${withdrawal.bankAccount.bankName} ****${withdrawal.bankAccount.accountNumberLast4}`,
-            referenceType: 'withdrawal',
-            referenceId: withdrawalId,
-            metadata: { 
-              fee: withdrawal.fee,
-              netAmount: withdrawal.netAmount,
-            },
+        // Release the locked funds - net amount paid out, fee kept as revenue
+        const { wallets } = await ledgerService.post(tx, {
+          description: `Withdrawal completed to ${withdrawal.bankAccount.bankName} ****${withdrawal.bankAccount.accountNumberLast4}`,
+          referenceType: 'withdrawal',
+          referenceId: withdrawalId,
+          metadata: {
+            fee: withdrawal.fee,
+            netAmount: withdrawal.netAmount,
           },
-        });
-
-        // If there was a fee, create fee ledger entry
-        if (withdrawal.fee > 0) {
-          await tx.walletLedger.create({
-            data: {
-              walletId: wallet.id,
-              entryType: 'FEE_CHARGED',
+          lines: [
+            { account: LedgerAccounts.walletLocked(wallet.id), debit: withdrawal.netAmount, entryType: 'WITHDRAWAL' },
+            {
+              account: LedgerAccounts.walletLocked(wallet.id),
               debit: withdrawal.fee,
-              credit: 0,
-              balance: updatedWallet.balance,
+              entryType: 'FEE_CHARGED',
               description: `Withdrawal fee (${WITHDRAWAL_FEE_PERCENT}%)`,
-              referenceType: 'withdrawal',
-              referenceId: withdrawalId,
             },
-          });
-        }
+            { account: LedgerAccounts.STRIPE_CLEARING, credit: withdrawal.netAmount },
+            { account: LedgerAccounts.PLATFORM_REVENUE, credit: withdrawal.fee },
+          ],
+        });
+        const updatedWallet = wallets[wallet.id];
+
+        await notificationService.notify(withdrawal.userId, {
+          type: 'WITHDRAWAL_COMPLETED',
+          withdrawalId,
+          amount: withdrawal.netAmount,
+          bankName: withdrawal.bankAccount.bankName,
+        }, { client: tx });
 
         return { withdrawal: updatedWithdrawal, wallet: updatedWallet };
       });
@@ -314,16 +315,6 @@ export class PaymentService {
           },
         });
 
-        // Unlock funds back to available balance
-        const updatedWallet = await tx.wallet.update({
-          where: { id: wallet.id },
-          data: {
-            balance: { increment: withdrawal.amount },
-            lockedBalance: { decrement: withdrawal.amount },
-            lastActivityAt: new Date(),
-          },
-        });
-
         // Update transaction
         await tx.transaction.updateMany({
           where: {
@@ -333,19 +324,24 @@ export class PaymentService {
           data: { status: 'FAILED' },
         });
 
-        // Create ledger entry for failed withdrawal
-        await tx.walletLedger.create({
-          data: {
-            walletId: wallet.id,
-            entryType: 'UNLOCK',
-            debit: 0,
-            credit: withdrawal.amount,
-            balance: updatedWallet.balance,
-            description: `Withdrawal failed - funds returned: ${failureReason}`,
-            referenceType: 'withdrawal',
-            referenceId: withdrawalId,
-          },
+        // Unlock funds back to available balance
+        const { wallets } = await ledgerService.post(tx, {
+          description: `Withdrawal failed - funds returned: ${failureReason}`,
+          referenceType: 'withdrawal',
+          referenceId: withdrawalId,
+          lines: [
+            { account: LedgerAccounts.walletLocked(wallet.id), debit: withdrawal.amount },
+            { account: LedgerAccounts.wallet(wallet.id), credit: withdrawal.amount, entryType: 'UNLOCK' },
+          ],
         });
+        const updatedWallet = wallets[wallet.id];
+
+        await notificationService.notify(withdrawal.userId, {
+          type: 'WITHDRAWAL_FAILED',
+          withdrawalId,
+          amount: withdrawal.amount,
+          reason: failureReason,
+        }, { client: tx });
 
         return { withdrawal: updatedWithdrawal, wallet: updatedWallet };
       });
@@ -377,7 +373,7 @@ export class PaymentService {
         throw new Error('Not enough shares available');
       }
 
-      const totalAmount = shares * offering.pricePerShare;
+      const totalAmount = multiply(offering.pricePerShare, shares);
 
       // Check wallet balance
       const wallet = await prisma.wallet.findUnique({
@@ -388,18 +384,18 @@ export class PaymentService {
         throw new Error('Wallet not found');
       }
 
-      const availableBalance = wallet.balance - wallet.lockedBalance;
-      if (availableBalance < totalAmount) {
-        throw new Error(`Insufficient wallet balance. Available: ₹${availableBalance.toLocaleString('en-IN')}`);
+      // Funds locked for bids and withdrawals have already left the balance
+      if (wallet.balance.lessThan(totalAmount)) {
+        throw new Error(`Insufficient wallet balance. Available: ${formatINR(wallet.balance)}`);
       }
 
       // Check min/max investment
-      if (totalAmount < offering.minInvestment) {
-        throw new Error(`Minimum investment is ₹${offering.minInvestment.toLocaleString('en-IN')}`);
+      if (totalAmount.lessThan(offering.minInvestment)) {
+        throw new Error(`Minimum investment is ${formatINR(offering.minInvestment)}`);
       }
 
-      if (offering.maxInvestment && totalAmount > offering.maxInvestment) {
-        throw new Error(`Maximum investment is ₹${offering.maxInvestment.toLocaleString('en-IN')}`);
+      if (offering.maxInvestment && totalAmount.greaterThan(offering.maxInvestment)) {
+        throw new Error(`Maximum investment is ${formatINR(offering.maxInvestment)}`);
       }
 
       // Create investment and update wallet in a transaction
@@ -415,16 +411,13 @@ export class PaymentService {
           },
         });
 
-        // Update wallet balance
-        const newBalance = wallet.balance - totalAmount;
-        const updatedWallet = await tx.wallet.update({
+        // Update wallet totals
+        await tx.wallet.update({
           where: { userId },
           data: {
-            balance: newBalance,
             totalInvested: {
               increment: totalAmount,
             },
-            lastActivityAt: new Date(),
           },
         });
 
@@ -461,25 +454,23 @@ export class PaymentService {
           },
         });
 
-        // Create ledger entry
-        await tx.walletLedger.create({
-          data: {
-            walletId: wallet.id,
-            transactionId: transaction.id,
-            entryType: 'INVESTMENT',
-            debit: totalAmount,
-            credit: 0,
-            balance: newBalance,
-            description: `Investment: ${offering.channel.channelName} (${shares} shares @ ₹${offering.pricePerShare})`,
-            referenceType: 'investment',
-            referenceId: investment.id,
-            metadata: {
-              offeringId,
-              shares,
-              pricePerShare: offering.pricePerShare,
-            },
+        // Move the funds into the offering's proceeds, owed to the creator
+        const { wallets } = await ledgerService.post(tx, {
+          description: `Investment: ${offering.channel.channelName} (${shares} shares @ ₹${offering.pricePerShare})`,
+          referenceType: 'investment',
+          referenceId: investment.id,
+          transactionId: transaction.id,
+          metadata: {
+            offeringId,
+            shares,
+            pricePerShare: offering.pricePerShare,
           },
+          lines: [
+            { account: LedgerAccounts.wallet(wallet.id), debit: totalAmount, entryType: 'INVESTMENT' },
+            { account: LedgerAccounts.offeringProceeds(offeringId), credit: totalAmount },
+          ],
         });
+        const updatedWallet = wallets[wallet.id];
 
         return { investment, transaction, wallet: updatedWallet };
       });
@@ -492,7 +483,7 @@ export class PaymentService {
   }
 
   // Record earnings from investments (payouts)
-  async recordInvestmentEarning(userId: string, investmentId: string, amount: number, revenueMonth: string) {
+  async recordInvestmentEarning(userId: string, investmentId: string, amount: MoneyInput, revenueMonth: string) {
     try {
       const result = await prisma.$transaction(async (tx) => {
         // Get wallet
@@ -525,14 +516,11 @@ export class PaymentService {
           },
         });
 
-        // Update wallet
-        const newBalance = wallet.balance + amount;
-        const updatedWallet = await tx.wallet.update({
+        // Update wallet totals
+        await tx.wallet.update({
           where: { userId },
           data: {
-            balance: newBalance,
             totalEarnings: { increment: amount },
-            lastActivityAt: new Date(),
           },
         });
 
@@ -558,20 +546,18 @@ export class PaymentService {
           },
         });
 
-        // Create ledger entry
-        await tx.walletLedger.create({
-          data: {
-            walletId: wallet.id,
-            transactionId: transaction.id,
-            entryType: 'PAYOUT_RECEIVED',
-            debit: 0,
-            credit: amount,
-            balance: newBalance,
-            description: `Revenue share: ${investment.offering.channel.channelName} (${revenueMonth})`,
-            referenceType: 'payout',
-            referenceId: payout.id,
-          },
+        // Channel revenue received and credited to the investor
+        const { wallets } = await ledgerService.post(tx, {
+          description: `Revenue share: ${investment.offering.channel.channelName} (${revenueMonth})`,
+          referenceType: 'payout',
+          referenceId: payout.id,
+          transactionId: transaction.id,
+          lines: [
+            { account: LedgerAccounts.CHANNEL_REVENUE_CLEARING, debit: amount },
+            { account: LedgerAccounts.wallet(wallet.id), credit: amount, entryType: 'PAYOUT_RECEIVED' },
+          ],
         });
+        const updatedWallet = wallets[wallet.id];
 
         return { payout, wallet: updatedWallet };
       });
@@ -583,10 +569,10 @@ export class PaymentService {
     }
   }
 
-  async createPaymentIntent(amount: number, userId: string, offeringId: string, investmentId: string) {
+  async createPaymentIntent(amount: MoneyInput, userId: string, offeringId: string, investmentId: string) {
     try {
       const paymentIntent = await stripe.paymentIntents.create({
-        amount: Math.round(amount * 100), // Convert to paise
+        amount: toMinorUnits(amount), // Convert to paise
         currency: 'inr',
         metadata: {
           userId,
@@ -621,7 +607,8 @@ export class PaymentService {
           throw new Error('Offering not found');
         }
 
-        const shares = Math.floor(paymentIntent.amount / 100 / offering.pricePerShare);
+        const paidAmount = fromMinorUnits(paymentIntent.amount);
+        const shares = paidAmount.dividedToIntegerBy(offering.pricePerShare).toNumber();
         
         let investment;
         
@@ -641,7 +628,7 @@ export class PaymentService {
               investorId: userId,
               offeringId,
               shares,
-              totalAmount: paymentIntent.amount / 100,
+              totalAmount: paidAmount,
               status: 'CONFIRMED',
             },
           });
@@ -669,6 +656,21 @@ export class PaymentService {
             });
         }
 
+        // Card payment cleared through Stripe into the offering's proceeds
+        await prisma.$transaction((tx) =>
+          ledgerService.post(tx, {
+            description: `Card investment in offering ${offeringId}`,
+            referenceType: 'investment',
+            referenceId: investment.id,
+            transactionId: transaction?.id,
+            metadata: { stripePaymentIntentId: paymentIntentId },
+            lines: [
+              { account: LedgerAccounts.STRIPE_CLEARING, debit: paidAmount },
+              { account: LedgerAccounts.offeringProceeds(offeringId), credit: paidAmount },
+            ],
+          })
+        );
+
         return investment;
       }
       
@@ -679,7 +681,7 @@ export class PaymentService {
     }
   }
 
-  async createPayout(investmentId: string, amount: number) {
+  async createPayout(investmentId: string, amount: MoneyInput) {
     try {
       const investment = await prisma.investment.findUnique({
         where: { id: investmentId },
@@ -692,7 +694,7 @@ export class PaymentService {
 
       // Create Stripe transfer (requires connected accounts for creators)
       const transfer = await stripe.transfers.create({
-        amount: Math.round(amount * 100),
+        amount: toMinorUnits(amount),
         currency: 'inr',
         destination: investment.investor.id, // Would be connected account ID
         metadata: {
@@ -712,6 +714,19 @@ export class PaymentService {
         },
       });
 
+      // Revenue paid straight out to the investor through Stripe
+      await prisma.$transaction((tx) =>
+        ledgerService.post(tx, {
+          description: `Revenue payout via Stripe transfer ${transfer.id}`,
+          referenceType: 'payout',
+          referenceId: payout.id,
+          lines: [
+            { account: LedgerAccounts.CHANNEL_REVENUE_CLEARING, debit: amount },
+            { account: LedgerAccounts.STRIPE_CLEARING, credit: amount },
+          ],
+        })
+      );
+
       return payout;
     } catch (error) {
       console.error('Payout creation error:', error);
@@ -719,6 +734,107 @@ export class PaymentService {
     }
   }
 
+  // Create payment intent that funds a pending escrow revenue deposit
+  async createEscrowDepositIntent(depositId: string, userId: string) {
+    try {
+      const deposit = await prisma.escrowDeposit.findUnique({
+        where: { id: depositId },
+      });
+
+      if (!deposit) {
+        throw new Error('Deposit not found');
+      }
+
+      if (deposit.status !== 'PENDING' || deposit.fundingMethod) {
+        throw new Error('Deposit is not awaiting funds');
+      }
+
+      // Reuse a payment that is still open rather than charging twice
+      if (deposit.stripePaymentIntentId) {
+        const existing = await stripe.paymentIntents.retrieve(deposit.stripePaymentIntentId);
+        if (existing.status !== 'canceled' && existing.status !== 'succeeded') {
+          return {
+            clientSecret: existing.client_secret,
+            paymentIntentId: existing.id,
+          };
+        }
+      }
+
+      const paymentIntent = await stripe.paymentIntents.create({
+        amount: toMinorUnits(deposit.amount), // Convert to paise
+        currency: 'inr',
+        metadata: {
+          userId,
+          depositId,
+          type: 'escrow_deposit',
+        },
+      });
+
+      await prisma.$transaction([
+        prisma.escrowDeposit.update({
+          where: { id: depositId },
+          data: { stripePaymentIntentId: paymentIntent.id },
+        }),
+        prisma.transaction.create({
+          data: {
+            userId,
+            type: 'TRANSFER',
+            amount: deposit.amount,
+            fee: 0,
+            netAmount: deposit.amount,
+            status: 'PENDING',
+            stripeId: paymentIntent.id,
+            referenceType: 'escrow_deposit',
+            referenceId: depositId,
+            description: `Revenue deposit for ${deposit.revenueMonth} paid into escrow`,
+            metadata: {
+              paymentIntentId: paymentIntent.id,
+              depositId,
+            },
+          },
+        }),
+      ]);
+
+      return {
+        clientSecret: paymentIntent.client_secret,
+        paymentIntentId: paymentIntent.id,
+      };
+    } catch (error) {
+      console.error('Escrow deposit intent creation error:', error);
+      throw error;
+    }
+  }
+
+  // Fund the escrow deposit once its payment settles; it is distributed
+  // by the next distribution run unless reconciliation holds it
+  async confirmEscrowDeposit(paymentIntentId: string) {
+    try {
+      const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+
+      if (paymentIntent.status !== 'succeeded') {
+        throw new Error('Payment not successful');
+      }
+
+      const { userId, depositId } = paymentIntent.metadata;
+      const outcome = await dexEscrowService.fundDepositFromStripe(
+        depositId,
+        userId,
+        paymentIntentId,
+        fromMinorUnits(paymentIntent.amount)
+      );
+
+      if (outcome === 'FUNDED') {
+        const deposit = await prisma.escrowDeposit.findUniqueOrThrow({ where: { id: depositId } });
+        await revenueReconciliationService.reconcile(deposit.vaultId, deposit.revenueMonth);
+      }
+
+      return outcome;
+    } catch (error) {
+      console.error('Escrow deposit confirmation error:', error);
+      throw error;
+    }
+  }
+
   async handleWebhook(body: string, signature: string) {
     try {
       const event = stripe.webhooks.constructEvent(
@@ -741,6 +857,9 @@ export class PaymentService {
             console.log('Wallet deposit confirmed:', result);
           } else if (metadata.type === 'investment') {
             await this.confirmPayment(paymentIntent.id);
+          } else if (metadata.type === 'escrow_deposit') {
+            const outcome = await this.confirmEscrowDeposit(paymentIntent.id);
+            console.log('Escrow deposit payment applied:', outcome);
           }
           break;
         }
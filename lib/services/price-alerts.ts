@@ -0,0 +1,330 @@
+/**
+ * Watchlist & Price Alert Service
+ *
+ * Users keep a server-side watchlist of offerings and set price alerts on
+ * them. An alert watches either the last trade price or the best ask and
+ * fires once, through the notification service, when that price reaches
+ * its threshold:
+ * - ABOVE: price >= threshold
+ * - BELOW: price <= threshold
+ *
+ * The direction defaults to the side of the current price the threshold
+ * is on, so an alert fires when the price crosses it. Active alerts are
+ * evaluated by the price-alerts job.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { AlertDirection, PriceAlert, PriceAlertSource, PriceAlertStatus } from '@prisma/client';
+import { Money, MoneyInput, money } from '@/lib/utils/money';
+import { marketDataService } from '@/lib/services/market-data';
+import { notificationService } from '@/lib/services/notifications';
+
+export const MAX_WATCHLIST_ITEMS = 10;
+export const MAX_ACTIVE_ALERTS_PER_OFFERING = 5;
+
+const WATCHABLE_STATUSES = ['ACTIVE', 'FUNDED', 'SUSPENDED'] as const;
+
+export interface CurrentPrices {
+  lastTrade: Money | null; // null until the offering has traded
+  bestAsk: Money | null; // null when no sell orders rest on the book
+}
+
+export interface CreateAlertInput {
+  offeringId: string;
+  threshold: MoneyInput;
+  source?: PriceAlertSource;
+  direction?: AlertDirection;
+}
+
+export interface UpdateAlertInput {
+  threshold?: MoneyInput;
+  source?: PriceAlertSource;
+  direction?: AlertDirection;
+}
+
+export interface EvaluationResult {
+  evaluated: number;
+  triggered: number;
+}
+
+function crossed(alert: Pick<PriceAlert, 'direction' | 'threshold'>, price: Money): boolean {
+  return alert.direction === 'ABOVE'
+    ? price.greaterThanOrEqualTo(alert.threshold)
+    : price.lessThanOrEqualTo(alert.threshold);
+}
+
+export class PriceAlertService {
+  /**
+   * Watched offerings with their ticker and active alerts
+   */
+  async getWatchlist(userId: string) {
+    const items = await prisma.watchlistItem.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        offering: {
+          select: {
+            id: true,
+            title: true,
+            status: true,
+            channel: { select: { channelName: true } },
+            priceAlerts: {
+              where: { userId, status: 'ACTIVE' },
+              orderBy: { createdAt: 'asc' },
+            },
+          },
+        },
+      },
+    });
+
+    return Promise.all(
+      items.map(async (item) => ({
+        offeringId: item.offeringId,
+        title: item.offering.title,
+        channelName: item.offering.channel.channelName,
+        status: item.offering.status,
+        ticker: await marketDataService.getTicker(item.offeringId),
+        alerts: item.offering.priceAlerts,
+        addedAt: item.createdAt,
+      }))
+    );
+  }
+
+  async addToWatchlist(userId: string, offeringId: string) {
+    const offering = await prisma.offering.findUnique({
+      where: { id: offeringId },
+      select: { status: true },
+    });
+
+    if (!offering || !(WATCHABLE_STATUSES as readonly string[]).includes(offering.status)) {
+      throw new Error('Offering not found or not tradeable');
+    }
+
+    const existing = await prisma.watchlistItem.findUnique({
+      where: { userId_offeringId: { userId, offeringId } },
+    });
+    if (existing) return existing;
+
+    const count = await prisma.watchlistItem.count({ where: { userId } });
+    if (count >= MAX_WATCHLIST_ITEMS) {
+      throw new Error(`Your watchlist is full (${MAX_WATCHLIST_ITEMS} offerings)`);
+    }
+
+    return prisma.watchlistItem.create({ data: { userId, offeringId } });
+  }
+
+  /**
+   * Remove an offering from the watchlist and cancel its active alerts
+   */
+  async removeFromWatchlist(userId: string, offeringId: string): Promise<void> {
+    await prisma.$transaction([
+      prisma.priceAlert.updateMany({
+        where: { userId, offeringId, status: 'ACTIVE' },
+        data: { status: 'CANCELLED' },
+      }),
+      prisma.watchlistItem.deleteMany({ where: { userId, offeringId } }),
+    ]);
+  }
+
+  async listAlerts(userId: string, filters: { offeringId?: string; status?: PriceAlertStatus } = {}) {
+    return prisma.priceAlert.findMany({
+      where: { userId, ...filters },
+      orderBy: { createdAt: 'desc' },
+      include: { offering: { select: { title: true, channel: { select: { channelName: true } } } } },
+      take: 100,
+    });
+  }
+
+  /**
+   * Create an alert. The offering is added to the watchlist if needed.
+   */
+  async createAlert(userId: string, input: CreateAlertInput): Promise<PriceAlert> {
+    this.checkSettings(input);
+    const threshold = this.parseThreshold(input.threshold);
+    const source = input.source ?? 'LAST_TRADE';
+
+    await this.addToWatchlist(userId, input.offeringId);
+
+    const active = await prisma.priceAlert.count({
+      where: { userId, offeringId: input.offeringId, status: 'ACTIVE' },
+    });
+    if (active >= MAX_ACTIVE_ALERTS_PER_OFFERING) {
+      throw new Error(`You can have at most ${MAX_ACTIVE_ALERTS_PER_OFFERING} active alerts per offering`);
+    }
+
+    const direction = input.direction ?? await this.defaultDirection(input.offeringId, source, threshold);
+
+    return prisma.priceAlert.create({
+      data: {
+        userId,
+        offeringId: input.offeringId,
+        source,
+        direction,
+        threshold,
+      },
+    });
+  }
+
+  /**
+   * Change an alert's settings. A triggered alert is re-armed.
+   */
+  async updateAlert(userId: string, alertId: string, input: UpdateAlertInput): Promise<PriceAlert> {
+    const alert = await prisma.priceAlert.findFirst({ where: { id: alertId, userId } });
+
+    if (!alert || alert.status === 'CANCELLED') {
+      throw new Error('Alert not found');
+    }
+
+    this.checkSettings(input);
+    const threshold = input.threshold === undefined ? alert.threshold : this.parseThreshold(input.threshold);
+    const source = input.source ?? alert.source;
+    const direction = input.direction
+      ?? (input.threshold === undefined && input.source === undefined
+        ? alert.direction
+        : await this.defaultDirection(alert.offeringId, source, threshold));
+
+    return prisma.priceAlert.update({
+      where: { id: alertId },
+      data: {
+        threshold,
+        source,
+        direction,
+        status: 'ACTIVE',
+        triggeredAt: null,
+        triggeredPrice: null,
+      },
+    });
+  }
+
+  async cancelAlert(userId: string, alertId: string): Promise<PriceAlert> {
+    const alert = await prisma.priceAlert.findFirst({ where: { id: alertId, userId } });
+
+    if (!alert) {
+      throw new Error('Alert not found');
+    }
+
+    return prisma.priceAlert.update({
+      where: { id: alertId },
+      data: { status: 'CANCELLED' },
+    });
+  }
+
+  async getCurrentPrices(offeringId: string): Promise<CurrentPrices> {
+    const now = new Date();
+    const [lastTrade, bestAsk] = await Promise.all([
+      prisma.trade.findFirst({
+        where: { offeringId, status: 'COMPLETED' },
+        select: { pricePerShare: true },
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.sellOrder.findFirst({
+        where: {
+          offeringId,
+          status: { in: ['ACTIVE', 'PARTIALLY_FILLED'] },
+          sharesRemaining: { gt: 0 },
+          OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+        },
+        select: { pricePerShare: true },
+        orderBy: { pricePerShare: 'asc' },
+      }),
+    ]);
+
+    return {
+      lastTrade: lastTrade?.pricePerShare ?? null,
+      bestAsk: bestAsk?.pricePerShare ?? null,
+    };
+  }
+
+  /**
+   * Fire every active alert whose price has reached its threshold
+   */
+  async evaluateAlerts(): Promise<EvaluationResult> {
+    const alerts = await prisma.priceAlert.findMany({
+      where: { status: 'ACTIVE' },
+      include: { offering: { select: { channel: { select: { channelName: true } } } } },
+    });
+
+    const offeringIds = [...new Set(alerts.map((alert) => alert.offeringId))];
+    const prices = new Map(
+      await Promise.all(offeringIds.map(async (id) => [id, await this.getCurrentPrices(id)] as const))
+    );
+
+    let triggered = 0;
+    for (const alert of alerts) {
+      const current = prices.get(alert.offeringId)!;
+      const price = alert.source === 'LAST_TRADE' ? current.lastTrade : current.bestAsk;
+      if (!price || !crossed(alert, price)) continue;
+
+      const fired = await prisma.$transaction(async (tx) => {
+        // Conditional, so an alert edited or cancelled meanwhile is left alone
+        const { count } = await tx.priceAlert.updateMany({
+          where: { id: alert.id, status: 'ACTIVE', updatedAt: alert.updatedAt },
+          data: { status: 'TRIGGERED', triggeredAt: new Date(), triggeredPrice: price },
+        });
+        if (count === 0) return false;
+
+        await notificationService.notify(alert.userId, {
+          type: 'PRICE_ALERT',
+          alertId: alert.id,
+          offeringId: alert.offeringId,
+          channelName: alert.offering.channel.channelName,
+          source: alert.source,
+          direction: alert.direction,
+          threshold: alert.threshold,
+          price,
+        }, { client: tx });
+        return true;
+      });
+
+      if (fired) triggered++;
+    }
+
+    return { evaluated: alerts.length, triggered };
+  }
+
+  // ABOVE if the threshold is at or over the current price, otherwise BELOW
+  private async defaultDirection(
+    offeringId: string,
+    source: PriceAlertSource,
+    threshold: Money
+  ): Promise<AlertDirection> {
+    const current = await this.getCurrentPrices(offeringId);
+    let price = source === 'LAST_TRADE' ? current.lastTrade : current.bestAsk;
+
+    if (!price) {
+      const offering = await prisma.offering.findUnique({
+        where: { id: offeringId },
+        select: { pricePerShare: true },
+      });
+      price = offering?.pricePerShare ?? null;
+    }
+
+    return !price || threshold.greaterThanOrEqualTo(price) ? 'ABOVE' : 'BELOW';
+  }
+
+  private parseThreshold(value: MoneyInput): Money {
+    let threshold: Money | null = null;
+    try {
+      threshold = money(value);
+    } catch {
+      // Not a number; reported below
+    }
+    if (!threshold || !threshold.isFinite() || threshold.lessThanOrEqualTo(0)) {
+      throw new Error('Alert price must be greater than zero');
+    }
+    return threshold;
+  }
+
+  // Request bodies are untyped, so enum values are checked here
+  private checkSettings(input: UpdateAlertInput): void {
+    if (input.source !== undefined && !(input.source in PriceAlertSource)) {
+      throw new Error('source must be LAST_TRADE or BEST_ASK');
+    }
+    if (input.direction !== undefined && !(input.direction in AlertDirection)) {
+      throw new Error('direction must be ABOVE or BELOW');
+    }
+  }
+}
+
+// Singleton instance
+export const priceAlertService = new PriceAlertService();
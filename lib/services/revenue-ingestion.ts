@@ -0,0 +1,232 @@
+/**
+ * Revenue Ingestion Service
+ *
+ * Pulls each channel's monthly estimated revenue from its revenue
+ * provider (YouTube Analytics by default, see revenue-providers.ts) and
+ * deposits it, as AdSense revenue, into the escrow vaults of the active
+ * offerings that cover AdSense, split down the channel's revenue
+ * waterfall (see revenue-waterfall.ts). The
+ * provider's report is stored on the deposit as evidence, so payouts no
+ * longer depend on creators reporting their own revenue.
+ *
+ * Rules:
+ * 1. Only complete months are ingested (the current month is still accruing)
+ * 2. A channel-month is deposited once per offering; re-running is a no-op
+ * 3. Deposits are held until the creator pays them in, from their wallet
+ *    or through Stripe; they are verified once funded and then distributed
+ * 4. Each deposit is reconciled against any creator-reported figure for
+ *    the same month (see revenue-reconciliation.ts)
+ */
+
+import crypto from 'node:crypto';
+import { prisma } from '@/lib/prisma';
+import { dexEscrowService } from '@/lib/services/dex-escrow';
+import { RevenueProvider, RevenueReport, getRevenueProvider } from '@/lib/services/revenue-providers';
+import { ReconciliationStatus, revenueReconciliationService } from '@/lib/services/revenue-reconciliation';
+import { WaterfallAllocation, revenueWaterfallService } from '@/lib/services/revenue-waterfall';
+import { Money } from '@/lib/utils/money';
+
+// How many complete months back each run looks
+const DEFAULT_LOOKBACK_MONTHS = 3;
+
+export interface IngestedDeposit {
+  offeringId: string;
+  depositId: string;
+  amount: Money;
+  reconciliation: ReconciliationStatus;
+}
+
+export interface MonthIngestion {
+  month: string;
+  revenue: number;
+  deposits: IngestedDeposit[];
+  skipped: string[]; // Offerings already holding a deposit for this month
+}
+
+export interface ChannelIngestionResult {
+  channelId: string;
+  provider: string;
+  months: MonthIngestion[];
+}
+
+/**
+ * YYYY-MM for the month `offset` months from the current UTC month
+ */
+function monthFromNow(offset: number): string {
+  const now = new Date();
+  const date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + offset, 1));
+  return date.toISOString().slice(0, 7);
+}
+
+export class RevenueIngestionService {
+  constructor(private readonly provider: RevenueProvider = getRevenueProvider()) {}
+
+  /**
+   * Ingest a channel's revenue for the last `lookbackMonths` complete months
+   */
+  async ingestChannel(
+    channelId: string,
+    lookbackMonths: number = DEFAULT_LOOKBACK_MONTHS
+  ): Promise<ChannelIngestionResult> {
+    const channel = await prisma.channel.findUnique({
+      where: { id: channelId },
+      include: {
+        offerings: {
+          where: { status: 'ACTIVE' },
+        },
+      },
+    });
+
+    if (!channel) {
+      throw new Error('Channel not found');
+    }
+
+    const result: ChannelIngestionResult = {
+      channelId,
+      provider: this.provider.name,
+      months: [],
+    };
+
+    if (channel.offerings.length === 0) {
+      return result;
+    }
+
+    const report = await this.provider.fetchMonthlyRevenue({
+      youtubeChannelId: channel.youtubeChannelId,
+      ownerId: channel.ownerId,
+      startMonth: monthFromNow(-lookbackMonths),
+      endMonth: monthFromNow(-1),
+    });
+
+    const reportHash = crypto
+      .createHash('sha256')
+      .update(JSON.stringify(report.raw))
+      .digest('hex');
+
+    for (const { month, estimatedRevenue } of report.months) {
+      if (!(estimatedRevenue > 0)) continue;
+
+      const monthResult: MonthIngestion = { month, revenue: estimatedRevenue, deposits: [], skipped: [] };
+      const externalRef = `${report.provider}:${channel.youtubeChannelId}:${month}`;
+
+      const { allocations } = await revenueWaterfallService.allocate(channel.id, 'YOUTUBE_ADSENSE', estimatedRevenue);
+
+      for (const allocation of allocations) {
+        const vault = await prisma.escrowVault.findUnique({
+          where: { offeringId: allocation.offeringId },
+        });
+
+        const existing = vault && await prisma.escrowDeposit.findFirst({
+          where: {
+            vaultId: vault.id,
+            revenueMonth: month,
+            source: 'YOUTUBE_ADSENSE',
+            origin: 'PLATFORM_FETCHED',
+            status: { notIn: ['FAILED', 'REFUNDED'] },
+          },
+        });
+
+        if (existing) {
+          monthResult.skipped.push(allocation.offeringId);
+          continue;
+        }
+
+        if (!vault) {
+          await dexEscrowService.createVault(allocation.offeringId);
+        }
+
+        const { amount } = allocation;
+        if (!amount.greaterThan(0)) continue;
+
+        const depositId = await dexEscrowService.depositRevenue(
+          allocation.offeringId,
+          amount,
+          month,
+          'YOUTUBE_ADSENSE',
+          {
+            externalRef,
+            origin: 'PLATFORM_FETCHED',
+            evidence: this.buildEvidence(report, month, estimatedRevenue, allocation, reportHash),
+          }
+        );
+
+        const { vaultId } = await prisma.escrowDeposit.findUniqueOrThrow({ where: { id: depositId } });
+        const { status } = await revenueReconciliationService.reconcile(vaultId, month);
+
+        monthResult.deposits.push({ offeringId: allocation.offeringId, depositId, amount, reconciliation: status });
+      }
+
+      result.months.push(monthResult);
+    }
+
+    await prisma.channel.update({
+      where: { id: channel.id },
+      data: {
+        revenueData: {
+          months: report.months.map(({ month, estimatedRevenue }) => ({ month, estimatedRevenue })),
+          currency: report.currency,
+          source: report.provider,
+          fetchedAt: report.fetchedAt,
+        },
+      },
+    });
+
+    return result;
+  }
+
+  /**
+   * Ingest every channel with an active offering. One channel failing
+   * does not stop the others.
+   */
+  async ingestAll(lookbackMonths?: number): Promise<{ results: ChannelIngestionResult[]; failed: Array<{ channelId: string; error: string }> }> {
+    const channels = await prisma.channel.findMany({
+      where: {
+        offerings: { some: { status: 'ACTIVE' } },
+      },
+      select: { id: true },
+    });
+
+    const results: ChannelIngestionResult[] = [];
+    const failed: Array<{ channelId: string; error: string }> = [];
+
+    for (const { id } of channels) {
+      try {
+        results.push(await this.ingestChannel(id, lookbackMonths));
+      } catch (error) {
+        console.error(`Revenue ingestion failed for channel ${id}:`, error);
+        failed.push({ channelId: id, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    return { results, failed };
+  }
+
+  private buildEvidence(
+    report: RevenueReport,
+    month: string,
+    estimatedRevenue: number,
+    allocation: WaterfallAllocation,
+    reportHash: string
+  ) {
+    return {
+      provider: report.provider,
+      youtubeChannelId: report.youtubeChannelId,
+      metric: 'estimatedRevenue',
+      currency: report.currency,
+      month,
+      channelRevenue: estimatedRevenue,
+      sharePercentage: allocation.sharePercentage,
+      waterfallRank: allocation.waterfallRank,
+      reportPeriod: { startDate: report.startDate, endDate: report.endDate },
+      report: {
+        columnHeaders: report.raw.columnHeaders,
+        rows: report.raw.rows,
+      },
+      reportHash,
+      fetchedAt: report.fetchedAt,
+    };
+  }
+}
+
+// Singleton instance
+export const revenueIngestionService = new RevenueIngestionService();
@@ -0,0 +1,189 @@
+/**
+ * Revenue Report Providers
+ *
+ * Where channel revenue figures come from. The ingestion pipeline
+ * (lib/services/revenue-ingestion.ts) asks a provider for a channel's
+ * monthly estimated revenue and keeps the provider's raw report as
+ * evidence on the escrow deposit.
+ *
+ * - youtube: YouTube Analytics API, using the channel owner's Google
+ *   OAuth tokens (needs YOUTUBE_MONETARY_SCOPE). Sign-in asks only for
+ *   basic profile scopes; creators grant revenue access separately from
+ *   the creator dashboard, which signs them in again with
+ *   REVENUE_ACCESS_SCOPE.
+ * - fixture: canned Analytics reports from a JSON file, for offline
+ *   development and testing. The file maps a YouTube channel ID (or
+ *   "default") to a report in the Analytics API's response format.
+ *
+ * Select with REVENUE_PROVIDER (default: youtube). REVENUE_FIXTURES_PATH
+ * points the fixture provider at a different file.
+ */
+
+import { readFile } from 'fs/promises';
+import { prisma } from '@/lib/prisma';
+import {
+  AnalyticsReport,
+  MonthlyRevenue,
+  YOUTUBE_MONETARY_SCOPE,
+  YouTubeService,
+  parseMonthlyRevenue,
+} from '@/lib/services/youtube';
+import { getValidAccessToken } from '@/lib/utils/google-auth';
+import defaultFixtures from '@/lib/fixtures/youtube-analytics-revenue.json';
+
+export interface RevenueReportRequest {
+  youtubeChannelId: string;
+  ownerId: string;
+  startMonth: string; // YYYY-MM, inclusive
+  endMonth: string; // YYYY-MM, inclusive
+}
+
+export interface RevenueReport {
+  provider: string;
+  youtubeChannelId: string;
+  currency: string;
+  startDate: string;
+  endDate: string;
+  months: MonthlyRevenue[];
+  raw: AnalyticsReport; // Kept as evidence
+  fetchedAt: string;
+}
+
+export interface RevenueProvider {
+  readonly name: string;
+  fetchMonthlyRevenue(request: RevenueReportRequest): Promise<RevenueReport>;
+}
+
+/**
+ * First and last day (YYYY-MM-DD) of a month range
+ */
+function monthRangeDates(startMonth: string, endMonth: string): { startDate: string; endDate: string } {
+  const [endYear, endMonthNumber] = endMonth.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(endYear, endMonthNumber, 0)).getUTCDate();
+
+  return {
+    startDate: `${startMonth}-01`,
+    endDate: `${endMonth}-${String(lastDay).padStart(2, '0')}`,
+  };
+}
+
+export class YouTubeAnalyticsRevenueProvider implements RevenueProvider {
+  readonly name = 'youtube-analytics';
+
+  async fetchMonthlyRevenue(request: RevenueReportRequest): Promise<RevenueReport> {
+    const account = await prisma.account.findFirst({
+      where: { userId: request.ownerId, provider: 'google' },
+    });
+
+    if (!account?.access_token) {
+      throw new Error('Channel owner has no Google account connected');
+    }
+
+    if (!account.scope?.includes(YOUTUBE_MONETARY_SCOPE)) {
+      throw new Error('Channel owner has not granted YouTube Analytics revenue access');
+    }
+
+    const accessToken = await getValidAccessToken({
+      id: account.id,
+      access_token: account.access_token,
+      refresh_token: account.refresh_token,
+      expires_at: account.expires_at,
+    });
+
+    if (!accessToken) {
+      throw new Error('Channel owner\'s Google access has expired. They need to sign in again.');
+    }
+
+    const { startDate, endDate } = monthRangeDates(request.startMonth, request.endMonth);
+    const youtube = new YouTubeService(accessToken, account.refresh_token || undefined);
+    const raw = await youtube.getMonthlyRevenueReport(request.youtubeChannelId, startDate, endDate);
+
+    return {
+      provider: this.name,
+      youtubeChannelId: request.youtubeChannelId,
+      currency: 'INR',
+      startDate,
+      endDate,
+      months: parseMonthlyRevenue(raw),
+      raw,
+      fetchedAt: new Date().toISOString(),
+    };
+  }
+}
+
+export class FixtureRevenueProvider implements RevenueProvider {
+  readonly name = 'fixture';
+
+  constructor(private readonly fixturesPath?: string) {}
+
+  async fetchMonthlyRevenue(request: RevenueReportRequest): Promise<RevenueReport> {
+    const fixtures = await this.loadFixtures();
+    const fixture = fixtures[request.youtubeChannelId] ?? fixtures.default;
+
+    if (!fixture) {
+      throw new Error(`No revenue fixture for channel ${request.youtubeChannelId}`);
+    }
+
+    // Return only the requested months, as the API would
+    const monthIndex = fixture.columnHeaders.findIndex((header) => header.name === 'month');
+    const raw: AnalyticsReport = {
+      columnHeaders: fixture.columnHeaders,
+      rows: fixture.rows.filter((row) => {
+        const month = String(row[monthIndex]);
+        return month >= request.startMonth && month <= request.endMonth;
+      }),
+    };
+
+    return {
+      provider: this.name,
+      youtubeChannelId: request.youtubeChannelId,
+      currency: 'INR',
+      ...monthRangeDates(request.startMonth, request.endMonth),
+      months: parseMonthlyRevenue(raw),
+      raw,
+      fetchedAt: new Date().toISOString(),
+    };
+  }
+
+  private async loadFixtures(): Promise<Record<string, AnalyticsReport>> {
+    if (!this.fixturesPath) {
+      return defaultFixtures as Record<string, AnalyticsReport>;
+    }
+    return JSON.parse(await readFile(this.fixturesPath, 'utf8'));
+  }
+}
+
+// Requested, with offline access, when a creator grants revenue access
+export const REVENUE_ACCESS_SCOPE = `openid email profile ${YOUTUBE_MONETARY_SCOPE}`;
+
+export interface RevenueAccess {
+  required: boolean; // false when revenue comes from fixtures
+  granted: boolean;
+  scope: string; // To request when not granted
+}
+
+/**
+ * Whether the platform may read a channel owner's YouTube revenue
+ */
+export async function getRevenueAccess(userId: string): Promise<RevenueAccess> {
+  const account = await prisma.account.findFirst({
+    where: { userId, provider: 'google' },
+    select: { scope: true, refresh_token: true },
+  });
+
+  return {
+    required: process.env.REVENUE_PROVIDER !== 'fixture',
+    granted: Boolean(account?.scope?.includes(YOUTUBE_MONETARY_SCOPE) && account.refresh_token),
+    scope: REVENUE_ACCESS_SCOPE,
+  };
+}
+
+/**
+ * Provider selected by REVENUE_PROVIDER
+ */
+export function getRevenueProvider(): RevenueProvider {
+  if (process.env.REVENUE_PROVIDER === 'fixture') {
+    return new FixtureRevenueProvider(process.env.REVENUE_FIXTURES_PATH);
+  }
+  return new YouTubeAnalyticsRevenueProvider();
+}
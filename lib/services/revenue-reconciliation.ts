@@ -0,0 +1,151 @@
+/**
+ * Revenue Reconciliation Service
+ *
+ * Compares what a creator reported for a month (/api/payout/reconcile,
+ * /api/dex/deposit) with what the platform fetched from the revenue
+ * provider (revenue-ingestion.ts) for the same vault.
+ *
+ * Rules:
+ * 1. Nothing happens until both figures exist for the month
+ * 2. The platform-fetched figure is authoritative. Within the threshold
+ *    the month is MATCHED and the creator-reported deposits are refunded
+ *    so the month is only paid once (the fetched ones are refunded
+ *    instead if the reported ones were already distributed, or were paid
+ *    in while the fetched ones are still awaiting funds)
+ * 3. Above the threshold a dispute is raised and the vault moves to
+ *    DISPUTED, holding all distribution until an admin resolves it
+ *
+ * The threshold is REVENUE_DISCREPANCY_THRESHOLD_PERCENT (default 5),
+ * measured against the fetched figure.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { DepositOrigin, EscrowDeposit } from '@prisma/client';
+import { dexEscrowService } from '@/lib/services/dex-escrow';
+import { Money, sum } from '@/lib/utils/money';
+
+const DEFAULT_THRESHOLD_PERCENT = 5;
+
+// Only revenue that a YouTube report can confirm is compared
+const COMPARABLE_SOURCES = ['YOUTUBE_ADSENSE', 'YOUTUBE_PREMIUM'] as const;
+
+export type ReconciliationStatus = 'UNMATCHED' | 'MATCHED' | 'DISPUTED';
+
+export interface ReconciliationResult {
+  vaultId: string;
+  revenueMonth: string;
+  status: ReconciliationStatus;
+  reportedAmount?: Money;
+  verifiedAmount?: Money;
+  differencePercent?: number;
+  disputeId?: string;
+  supersededDeposits: string[]; // Duplicates refunded on a match
+}
+
+function thresholdPercent(): number {
+  const configured = Number(process.env.REVENUE_DISCREPANCY_THRESHOLD_PERCENT);
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_THRESHOLD_PERCENT;
+}
+
+export class RevenueReconciliationService {
+  /**
+   * Reconcile a vault's revenue month. Safe to call after every deposit.
+   */
+  async reconcile(vaultId: string, revenueMonth: string): Promise<ReconciliationResult> {
+    const result: ReconciliationResult = {
+      vaultId,
+      revenueMonth,
+      status: 'UNMATCHED',
+      supersededDeposits: [],
+    };
+
+    const openDispute = await prisma.revenueDispute.findFirst({
+      where: { vaultId, revenueMonth, status: 'OPEN' },
+    });
+
+    if (openDispute) {
+      return {
+        ...result,
+        status: 'DISPUTED',
+        reportedAmount: openDispute.reportedAmount,
+        verifiedAmount: openDispute.verifiedAmount,
+        differencePercent: openDispute.differencePercent,
+        disputeId: openDispute.id,
+      };
+    }
+
+    const deposits = await prisma.escrowDeposit.findMany({
+      where: {
+        vaultId,
+        revenueMonth,
+        source: { in: [...COMPARABLE_SOURCES] },
+        status: { in: ['PENDING', 'VERIFIED', 'DISTRIBUTED'] },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const reported = deposits.filter((d) => d.origin === 'CREATOR_REPORTED');
+    const verified = deposits.filter((d) => d.origin === 'PLATFORM_FETCHED');
+
+    if (reported.length === 0 || verified.length === 0) {
+      return result;
+    }
+
+    const reportedAmount = sum(reported, (d) => d.amount);
+    const verifiedAmount = sum(verified, (d) => d.amount);
+    const differencePercent = verifiedAmount.greaterThan(0)
+      ? reportedAmount.minus(verifiedAmount).dividedBy(verifiedAmount).times(100).toNumber()
+      : 100;
+
+    Object.assign(result, { reportedAmount, verifiedAmount, differencePercent });
+
+    if (Math.abs(differencePercent) > thresholdPercent()) {
+      result.status = 'DISPUTED';
+      result.disputeId = await dexEscrowService.raiseDispute(vaultId, revenueMonth, reportedAmount, verifiedAmount);
+      return result;
+    }
+
+    result.status = 'MATCHED';
+    result.supersededDeposits = await this.supersede(reported, verified);
+    return result;
+  }
+
+  /**
+   * Refund one side of a matched month so it is only distributed once
+   */
+  private async supersede(reported: EscrowDeposit[], verified: EscrowDeposit[]): Promise<string[]> {
+    const reportedPaid = reported.some((d) => d.status === 'DISTRIBUTED');
+    const verifiedPaid = verified.some((d) => d.status === 'DISTRIBUTED');
+
+    // Both sides already paid out: nothing left in escrow to undo here
+    if (reportedPaid && verifiedPaid) {
+      return [];
+    }
+
+    // Otherwise keep money that has been paid in rather than bounce it
+    const reportedFunded = reported.some((d) => d.fundingMethod !== null);
+    const verifiedFunded = verified.some((d) => d.fundingMethod !== null);
+    const keepReported = reportedPaid || (!verifiedPaid && reportedFunded && !verifiedFunded);
+
+    const duplicates = keepReported ? verified : reported;
+    const origin: DepositOrigin = duplicates[0].origin;
+    const superseded: string[] = [];
+
+    for (const deposit of duplicates) {
+      await dexEscrowService.refundDeposit(
+        deposit.id,
+        origin === 'CREATOR_REPORTED'
+          ? 'Superseded by platform-fetched revenue'
+          : reportedPaid
+            ? 'Creator-reported revenue for this month was already distributed'
+            : 'Creator-reported revenue for this month was already paid in'
+      );
+      superseded.push(deposit.id);
+    }
+
+    return superseded;
+  }
+}
+
+// Singleton instance
+export const revenueReconciliationService = new RevenueReconciliationService();
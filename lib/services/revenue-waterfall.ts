@@ -0,0 +1,194 @@
+/**
+ * Revenue Waterfall Service
+ *
+ * Each offering declares the revenue sources its sharePercentage applies
+ * to (e.g. AdSense and Premium but not sponsorships) and holds a rank in
+ * its channel's waterfall, assigned in the order offerings are submitted.
+ *
+ * Rules:
+ * 1. A deposit of one source's revenue is allocated down the waterfall:
+ *    each active offering covering the source, senior first, takes its
+ *    sharePercentage of the gross until nothing is left. Whatever no
+ *    offering takes stays with the creator.
+ * 2. A channel can never promise more than 100% of a source. Offerings
+ *    that are live or awaiting review count towards the limit, which is
+ *    checked whenever an offering is submitted, resubmitted or approved.
+ *    Offerings that have paid out their return cap no longer count.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { OfferingStatus, Prisma, RevenueSource } from '@prisma/client';
+import { Money, MoneyInput, min, money, percentOf, subtract } from '@/lib/utils/money';
+
+// What an offering covers when the creator does not say
+export const DEFAULT_REVENUE_SOURCES: RevenueSource[] = ['YOUTUBE_ADSENSE', 'YOUTUBE_PREMIUM'];
+
+const MAX_COMMITTED_PERCENT = 100;
+
+// Offerings whose share is promised to investors, or about to be
+const COMMITTED_STATUSES: OfferingStatus[] = ['PENDING_APPROVAL', 'CHANGES_REQUESTED', 'ACTIVE', 'FUNDED', 'SUSPENDED'];
+
+export interface WaterfallAllocation {
+  offeringId: string;
+  title: string;
+  waterfallRank: number;
+  sharePercentage: number;
+  amount: Money; // Zero when the offerings above took everything
+}
+
+export interface WaterfallResult {
+  channelId: string;
+  source: RevenueSource;
+  grossRevenue: Money;
+  allocations: WaterfallAllocation[];
+  retained: Money; // Left with the creator
+}
+
+export interface SourceCommitment {
+  source: RevenueSource;
+  committedPercent: number;
+  availablePercent: number;
+}
+
+export interface ChannelWaterfall {
+  channelId: string;
+  offerings: Array<{
+    id: string;
+    title: string;
+    status: OfferingStatus;
+    waterfallRank: number;
+    sharePercentage: number;
+    revenueSources: RevenueSource[];
+  }>;
+  commitments: SourceCommitment[];
+}
+
+// The share of revenue an offering claims
+export interface RevenueClaim {
+  sharePercentage: number;
+  revenueSources: RevenueSource[];
+}
+
+// Float percentages such as 33.3 + 33.3 + 33.4 must still come to 100
+function roundPercent(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+function sourceLabel(source: RevenueSource): string {
+  return source.replace(/_/g, ' ').toLowerCase();
+}
+
+export class RevenueWaterfallService {
+  /**
+   * Split one source's gross revenue across the channel's active offerings
+   */
+  async allocate(channelId: string, source: RevenueSource, grossInput: MoneyInput): Promise<WaterfallResult> {
+    const grossRevenue = money(grossInput);
+
+    const offerings = await prisma.offering.findMany({
+      where: { channelId, status: 'ACTIVE', capReachedAt: null, revenueSources: { has: source } },
+      orderBy: [{ waterfallRank: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    let remaining = grossRevenue;
+    const allocations: WaterfallAllocation[] = offerings.map((offering) => {
+      const amount = min(percentOf(grossRevenue, offering.sharePercentage), remaining);
+      remaining = subtract(remaining, amount);
+
+      return {
+        offeringId: offering.id,
+        title: offering.title,
+        waterfallRank: offering.waterfallRank,
+        sharePercentage: offering.sharePercentage,
+        amount,
+      };
+    });
+
+    return { channelId, source, grossRevenue, allocations, retained: remaining };
+  }
+
+  /**
+   * The channel's offerings in waterfall order and how much of each
+   * source they promise
+   */
+  async getWaterfall(channelId: string): Promise<ChannelWaterfall> {
+    const offerings = await prisma.offering.findMany({
+      where: { channelId, status: { in: COMMITTED_STATUSES }, capReachedAt: null },
+      orderBy: [{ waterfallRank: 'asc' }, { createdAt: 'asc' }],
+      select: {
+        id: true,
+        title: true,
+        status: true,
+        waterfallRank: true,
+        sharePercentage: true,
+        revenueSources: true,
+      },
+    });
+
+    const commitments = Object.values(RevenueSource).map((source) => {
+      const committedPercent = roundPercent(
+        offerings
+          .filter((offering) => offering.revenueSources.includes(source))
+          .reduce((total, offering) => total + offering.sharePercentage, 0)
+      );
+      return {
+        source,
+        committedPercent,
+        availablePercent: Math.max(0, roundPercent(MAX_COMMITTED_PERCENT - committedPercent)),
+      };
+    });
+
+    return { channelId, offerings, commitments };
+  }
+
+  /**
+   * Throw if the offering would take the channel past 100% of any source
+   * it covers. Locks the channel so concurrent submissions are checked
+   * one after another; call inside the transaction that saves the offering.
+   */
+  async assertWithinLimit(
+    tx: Prisma.TransactionClient,
+    channelId: string,
+    claim: RevenueClaim,
+    offeringId?: string // Excluded from the existing commitments
+  ): Promise<void> {
+    await tx.$queryRaw`SELECT id FROM channels WHERE id = ${channelId} FOR UPDATE`;
+
+    const others = await tx.offering.findMany({
+      where: {
+        channelId,
+        status: { in: COMMITTED_STATUSES },
+        capReachedAt: null,
+        ...(offeringId && { id: { not: offeringId } }),
+      },
+      select: { sharePercentage: true, revenueSources: true },
+    });
+
+    for (const source of claim.revenueSources) {
+      const committed = others
+        .filter((offering) => offering.revenueSources.includes(source))
+        .reduce((total, offering) => total + offering.sharePercentage, 0);
+
+      if (roundPercent(committed + claim.sharePercentage) > MAX_COMMITTED_PERCENT) {
+        const available = Math.max(0, roundPercent(MAX_COMMITTED_PERCENT - committed));
+        throw new Error(
+          `This channel has already promised ${roundPercent(committed)}% of its ${sourceLabel(source)} revenue; at most ${available}% is left`
+        );
+      }
+    }
+  }
+
+  /**
+   * The rank for a channel's next offering: below every existing one
+   */
+  async nextRank(tx: Prisma.TransactionClient, channelId: string): Promise<number> {
+    const { _max } = await tx.offering.aggregate({
+      where: { channelId },
+      _max: { waterfallRank: true },
+    });
+    return (_max.waterfallRank ?? 0) + 1;
+  }
+}
+
+// Singleton instance
+export const revenueWaterfallService = new RevenueWaterfallService();
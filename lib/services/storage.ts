@@ -0,0 +1,361 @@
+/**
+ * File Storage Service
+ *
+ * Uploaded files live in a storage backend, never under public/:
+ * - local: a directory on disk (STORAGE_LOCAL_PATH, default ./storage)
+ * - s3: any S3-compatible bucket (AWS S3, MinIO, R2), path-style
+ *
+ * Select with STORAGE_BACKEND (default: local).
+ *
+ * Every file is served from /api/files/<id>. Profile images are public.
+ * KYC and tier documents are private: the owner and admins get redirected
+ * to a short-lived signed URL, and admin views are audit-logged.
+ *
+ * File types are decided by sniffing magic bytes; the client's declared
+ * type and file name are ignored.
+ */
+
+import crypto from 'crypto';
+import { mkdir, readFile, unlink, writeFile } from 'node:fs/promises';
+import { dirname, join, resolve, sep } from 'node:path';
+import { prisma } from '@/lib/prisma';
+import { FilePurpose, StoredFile } from '@prisma/client';
+
+// Lifetime of a signed download URL
+const SIGNED_URL_TTL_SECONDS = 5 * 60;
+
+const MB = 1024 * 1024;
+
+export type SniffedType = 'image/jpeg' | 'image/png' | 'image/webp' | 'image/gif' | 'application/pdf';
+
+const EXTENSIONS: Record<SniffedType, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'application/pdf': 'pdf',
+};
+
+interface UploadPolicy {
+  types: SniffedType[];
+  maxBytes: Partial<Record<SniffedType, number>> & { default: number };
+}
+
+const UPLOAD_POLICIES: Record<FilePurpose, UploadPolicy> = {
+  PROFILE_IMAGE: {
+    types: ['image/jpeg', 'image/png', 'image/webp', 'image/gif'],
+    maxBytes: { default: 5 * MB },
+  },
+  KYC_DOCUMENT: {
+    types: ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'],
+    maxBytes: { default: 5 * MB, 'application/pdf': 10 * MB },
+  },
+  TIER_DOCUMENT: {
+    types: ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'],
+    maxBytes: { default: 5 * MB, 'application/pdf': 10 * MB },
+  },
+};
+
+const STORAGE_FOLDERS: Record<FilePurpose, string> = {
+  PROFILE_IMAGE: 'profile',
+  KYC_DOCUMENT: 'kyc',
+  TIER_DOCUMENT: 'tier',
+};
+
+/**
+ * File type from its leading bytes, or null if it is not one we accept
+ */
+export function sniffContentType(bytes: Buffer): SniffedType | null {
+  const startsWith = (signature: number[], offset = 0) =>
+    bytes.length >= offset + signature.length && signature.every((byte, i) => bytes[offset + i] === byte);
+  const ascii = (text: string) => [...text].map((c) => c.charCodeAt(0));
+
+  if (startsWith([0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith(ascii('RIFF')) && startsWith(ascii('WEBP'), 8)) return 'image/webp';
+  if (startsWith(ascii('GIF87a')) || startsWith(ascii('GIF89a'))) return 'image/gif';
+  if (startsWith(ascii('%PDF-'))) return 'application/pdf';
+  return null;
+}
+
+export interface StorageBackend {
+  readonly name: string;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
+
+export class LocalDiskStorage implements StorageBackend {
+  readonly name = 'local';
+  private readonly root: string;
+
+  constructor(root: string = join(process.cwd(), 'storage')) {
+    this.root = resolve(root);
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const path = this.pathFor(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, body);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.pathFor(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await unlink(this.pathFor(key)).catch((error: NodeJS.ErrnoException) => {
+      if (error.code !== 'ENOENT') throw error;
+    });
+  }
+
+  private pathFor(key: string): string {
+    const path = resolve(this.root, key);
+    if (!path.startsWith(this.root + sep)) {
+      throw new Error(`Invalid storage key ${key}`);
+    }
+    return path;
+  }
+}
+
+export interface S3Config {
+  endpoint: string; // e.g. https://s3.ap-south-1.amazonaws.com
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+/**
+ * S3-compatible object storage, signed with AWS Signature Version 4
+ */
+export class S3Storage implements StorageBackend {
+  readonly name = 's3';
+
+  constructor(private readonly config: S3Config) {}
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    const response = await this.send('PUT', key, body, { 'content-type': contentType });
+    if (!response.ok) {
+      throw new Error(`S3 upload failed: ${response.status} ${await response.text()}`);
+    }
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const response = await this.send('GET', key);
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`S3 download failed: ${response.status} ${await response.text()}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.send('DELETE', key);
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 delete failed: ${response.status} ${await response.text()}`);
+    }
+  }
+
+  private async send(
+    method: 'GET' | 'PUT' | 'DELETE',
+    key: string,
+    body?: Buffer,
+    extraHeaders: Record<string, string> = {}
+  ): Promise<Response> {
+    const { endpoint, region, bucket, accessKeyId, secretAccessKey } = this.config;
+    const url = new URL(endpoint);
+    const path = `/${[bucket, ...key.split('/')].map(encodeRfc3986).join('/')}`;
+
+    const now = new Date();
+    const amzDate = now.toISOString().replaceAll(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(body ?? Buffer.alloc(0));
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      ...extraHeaders,
+    };
+
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      path,
+      '',
+      ...signedHeaders.map((name) => `${name}:${headers[name].trim()}`),
+      '',
+      signedHeaders.join(';'),
+      payloadHash,
+    ].join('\n');
+
+    const scope = `${dateStamp}/${region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+    let signingKey: Buffer = hmac(`AWS4${secretAccessKey}`, dateStamp);
+    for (const part of [region, 's3', 'aws4_request']) {
+      signingKey = hmac(signingKey, part);
+    }
+    const signature = hmac(signingKey, stringToSign).toString('hex');
+
+    const { host: _host, ...requestHeaders } = headers;
+    return fetch(`${url.origin}${path}`, {
+      method,
+      headers: {
+        ...requestHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`,
+      },
+      body: body ? new Uint8Array(body) : undefined,
+    });
+  }
+}
+
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replaceAll(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function sha256Hex(data: Buffer | string): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * Backend selected by STORAGE_BACKEND
+ */
+export function getStorageBackend(): StorageBackend {
+  if (process.env.STORAGE_BACKEND === 's3') {
+    const { S3_ENDPOINT, S3_REGION, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+    if (!S3_ENDPOINT || !S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new Error('S3 storage needs S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+    }
+    return new S3Storage({
+      endpoint: S3_ENDPOINT,
+      region: S3_REGION || 'us-east-1',
+      bucket: S3_BUCKET,
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+    });
+  }
+  return new LocalDiskStorage(process.env.STORAGE_LOCAL_PATH);
+}
+
+export class FileStorageService {
+  private backend: StorageBackend | null = null;
+
+  /**
+   * Validate and store an upload. Throws with a user-facing message if
+   * the file is not an accepted type or is too large.
+   */
+  async store(
+    ownerId: string,
+    purpose: FilePurpose,
+    bytes: Buffer,
+    originalName?: string
+  ): Promise<StoredFile> {
+    const policy = UPLOAD_POLICIES[purpose];
+    const contentType = sniffContentType(bytes);
+
+    if (!contentType || !policy.types.includes(contentType)) {
+      const accepted = policy.types.map((type) => EXTENSIONS[type].toUpperCase()).join(', ');
+      throw new Error(`Unsupported file type. Accepted formats: ${accepted}`);
+    }
+
+    const maxBytes = policy.maxBytes[contentType] ?? policy.maxBytes.default;
+    if (bytes.length > maxBytes) {
+      throw new Error(`File size must be less than ${maxBytes / MB}MB`);
+    }
+
+    const backend = this.getBackend();
+    const key = `${STORAGE_FOLDERS[purpose]}/${ownerId}/${crypto.randomUUID()}.${EXTENSIONS[contentType]}`;
+
+    await backend.put(key, bytes, contentType);
+
+    return prisma.storedFile.create({
+      data: {
+        ownerId,
+        purpose,
+        backend: backend.name,
+        key,
+        contentType,
+        size: bytes.length,
+        originalName: originalName?.slice(0, 255),
+      },
+    });
+  }
+
+  async read(file: StoredFile): Promise<Buffer | null> {
+    return this.getBackend().get(file.key);
+  }
+
+  isPublic(file: StoredFile): boolean {
+    return file.purpose === 'PROFILE_IMAGE';
+  }
+
+  canAccess(file: StoredFile, user: { id: string; role: string }): boolean {
+    return this.isPublic(file) || file.ownerId === user.id || user.role === 'ADMIN';
+  }
+
+  /**
+   * Stable link stored with the owning record (e.g. in kycData)
+   */
+  fileUrl(file: Pick<StoredFile, 'id'>): string {
+    return `/api/files/${file.id}`;
+  }
+
+  /**
+   * Whether every URL is a fileUrl() for a file of this owner and purpose
+   */
+  async ownsFileUrls(ownerId: string, purpose: FilePurpose, urls: string[]): Promise<boolean> {
+    const ids = urls.map((url) => /^\/api\/files\/([a-z0-9]+)$/.exec(url)?.[1]);
+    if (ids.some((id) => !id)) return false;
+
+    const owned = await prisma.storedFile.count({
+      where: { id: { in: ids as string[] }, ownerId, purpose },
+    });
+    return owned === new Set(ids).size;
+  }
+
+  /**
+   * Short-lived link to the file's bytes
+   */
+  signedUrl(file: Pick<StoredFile, 'id'>, ttlSeconds: number = SIGNED_URL_TTL_SECONDS): string {
+    const expires = Math.floor(Date.now() / 1000) + ttlSeconds;
+    return `/api/files/${file.id}/content?expires=${expires}&signature=${this.sign(file.id, expires)}`;
+  }
+
+  verifySignedUrl(fileId: string, expires: string | null, signature: string | null): boolean {
+    const expiresAt = Number(expires);
+    if (!signature || !Number.isInteger(expiresAt) || expiresAt < Date.now() / 1000) {
+      return false;
+    }
+
+    const expected = this.sign(fileId, expiresAt);
+    return signature.length === expected.length
+      && crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+  }
+
+  private sign(fileId: string, expires: number): string {
+    const secret = process.env.STORAGE_SIGNING_SECRET ?? process.env.NEXTAUTH_SECRET;
+    if (!secret) {
+      throw new Error('STORAGE_SIGNING_SECRET is not set');
+    }
+    return crypto.createHmac('sha256', secret).update(`${fileId}:${expires}`).digest('base64url');
+  }
+
+  private getBackend(): StorageBackend {
+    this.backend ??= getStorageBackend();
+    return this.backend;
+  }
+}
+
+// Singleton instance
+export const fileStorageService = new FileStorageService();
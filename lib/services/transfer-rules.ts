@@ -0,0 +1,308 @@
+/**
+ * Transfer Rules Service
+ *
+ * Enforces each offering's restrictions on secondary transfers
+ * (TransferRule). Checked when a sell order is listed, when a bid is
+ * placed and - authoritatively - inside every fill, so rules changed
+ * after an order was placed still apply.
+ *
+ * Rules:
+ * 1. Lock-up: shares can be sold `lockupDays` after they were acquired.
+ *    Sales come out of the oldest shares first, so only acquisitions
+ *    inside the window are locked.
+ * 2. Holding cap: no investor may end up holding more than
+ *    `maxHoldingPercent` of the offering's shares (open bids count).
+ * 3. KYC: with `requireKycVerified`, only KYC-verified users can buy.
+ * 4. Jurisdictions: users whose KYC address country is in
+ *    `blockedJurisdictions` cannot buy.
+ *
+ * Rejections carry machine-readable violation codes, which the trading
+ * APIs return as-is.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { Investment, Prisma, TransferRule } from '@prisma/client';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export type TransferViolationCode =
+  | 'LOCKUP_ACTIVE'
+  | 'HOLDING_CAP_EXCEEDED'
+  | 'BUYER_KYC_REQUIRED'
+  | 'JURISDICTION_BLOCKED';
+
+export interface TransferViolation {
+  code: TransferViolationCode;
+  reason: string;
+  details?: Record<string, string | number | null>;
+}
+
+export type TransferCheck =
+  | { allowed: true }
+  | { allowed: false; violations: TransferViolation[] };
+
+export type TransferRules = Pick<
+  TransferRule,
+  'lockupDays' | 'maxHoldingPercent' | 'requireKycVerified' | 'blockedJurisdictions'
+>;
+
+// Offerings without a TransferRule row trade unrestricted
+export const DEFAULT_TRANSFER_RULES: TransferRules = {
+  lockupDays: 0,
+  maxHoldingPercent: null,
+  requireKycVerified: false,
+  blockedJurisdictions: [],
+};
+
+export interface LockupStatus {
+  lockedShares: number;
+  unlockedShares: number;
+  nextUnlockAt: Date | null;
+}
+
+/**
+ * Thrown from inside a fill when the transfer is not allowed. Nothing
+ * has been written when it is thrown, so callers matching several orders
+ * can skip the fill and carry on.
+ */
+export class TransferRestrictionError extends Error {
+  constructor(readonly violations: TransferViolation[]) {
+    super(violations.map((v) => v.reason).join('; '));
+    this.name = 'TransferRestrictionError';
+  }
+}
+
+function result(violations: TransferViolation[]): TransferCheck {
+  return violations.length === 0 ? { allowed: true } : { allowed: false, violations };
+}
+
+/**
+ * Country from the KYC address, normalised for comparison
+ */
+function jurisdictionOf(kycData: Prisma.JsonValue | null): string | null {
+  const address = (kycData as { address?: { country?: unknown } } | null)?.address;
+  return typeof address?.country === 'string' && address.country.trim()
+    ? address.country.trim().toUpperCase()
+    : null;
+}
+
+export class TransferRulesService {
+  async getRules(offeringId: string, client: Prisma.TransactionClient = prisma): Promise<TransferRules> {
+    const rule = await client.transferRule.findUnique({
+      where: { offeringId },
+    });
+
+    return rule ?? DEFAULT_TRANSFER_RULES;
+  }
+
+  /**
+   * How many of an investment's shares are still inside the lock-up
+   */
+  async getLockupStatus(
+    investment: Pick<Investment, 'id' | 'shares' | 'createdAt'>,
+    lockupDays: number,
+    client: Prisma.TransactionClient = prisma,
+    now: Date = new Date()
+  ): Promise<LockupStatus> {
+    if (lockupDays <= 0 || investment.shares <= 0) {
+      return { lockedShares: 0, unlockedShares: Math.max(investment.shares, 0), nextUnlockAt: null };
+    }
+
+    const windowStart = new Date(now.getTime() - lockupDays * DAY);
+
+    const [bought, sold] = await Promise.all([
+      client.trade.findMany({
+        where: { buyerInvestmentId: investment.id, status: 'COMPLETED' },
+        select: { shares: true, createdAt: true, completedAt: true },
+      }),
+      client.trade.aggregate({
+        where: { sellOrder: { investmentId: investment.id }, status: 'COMPLETED' },
+        _sum: { shares: true },
+      }),
+    ]);
+
+    // The row's own (primary) purchase is its current shares with trades undone
+    const boughtShares = bought.reduce((total, trade) => total + trade.shares, 0);
+    const primaryShares = investment.shares - boughtShares + (sold._sum.shares ?? 0);
+
+    const acquisitions = [
+      { at: investment.createdAt, shares: primaryShares },
+      ...bought.map((trade) => ({ at: trade.completedAt ?? trade.createdAt, shares: trade.shares })),
+    ].filter((lot) => lot.shares > 0 && lot.at > windowStart);
+
+    const recentShares = acquisitions.reduce((total, lot) => total + lot.shares, 0);
+    const lockedShares = Math.min(investment.shares, recentShares);
+    const earliest = acquisitions.reduce<Date | null>((min, lot) => (!min || lot.at < min ? lot.at : min), null);
+
+    return {
+      lockedShares,
+      unlockedShares: investment.shares - lockedShares,
+      nextUnlockAt: lockedShares > 0 && earliest ? new Date(earliest.getTime() + lockupDays * DAY) : null,
+    };
+  }
+
+  /**
+   * Can `shares` of this investment be sold now? `alreadyListed` is the
+   * part of the unlocked shares committed to other open sell orders.
+   */
+  async checkSeller(
+    investment: Pick<Investment, 'id' | 'offeringId' | 'shares' | 'createdAt'>,
+    shares: number,
+    alreadyListed = 0,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<TransferCheck> {
+    const rules = await this.getRules(investment.offeringId, client);
+    const lockup = await this.getLockupStatus(investment, rules.lockupDays, client);
+    const sellable = lockup.unlockedShares - alreadyListed;
+
+    if (shares <= sellable) {
+      return { allowed: true };
+    }
+
+    return result([{
+      code: 'LOCKUP_ACTIVE',
+      reason: `Only ${Math.max(sellable, 0)} shares can be sold now. ${lockup.lockedShares} are within the ${rules.lockupDays}-day lock-up.`,
+      details: {
+        lockupDays: rules.lockupDays,
+        lockedShares: lockup.lockedShares,
+        sellableShares: Math.max(sellable, 0),
+        nextUnlockAt: lockup.nextUnlockAt?.toISOString() ?? null,
+      },
+    }]);
+  }
+
+  /**
+   * Can this user buy `shares` more of the offering? With
+   * `includeOpenBids`, shares still wanted by their resting bids count
+   * towards the holding cap.
+   */
+  async checkBuyer(
+    buyerId: string,
+    offeringId: string,
+    shares: number,
+    options: { includeOpenBids?: boolean; client?: Prisma.TransactionClient } = {}
+  ): Promise<TransferCheck> {
+    const client = options.client ?? prisma;
+    const rules = await this.getRules(offeringId, client);
+    const violations: TransferViolation[] = [];
+
+    if (rules.requireKycVerified || rules.blockedJurisdictions.length > 0) {
+      const buyer = await client.user.findUnique({
+        where: { id: buyerId },
+        select: { kycStatus: true, kycData: true },
+      });
+
+      if (rules.requireKycVerified && buyer?.kycStatus !== 'VERIFIED') {
+        violations.push({
+          code: 'BUYER_KYC_REQUIRED',
+          reason: 'This offering can only be bought by KYC-verified investors',
+          details: { kycStatus: buyer?.kycStatus ?? null },
+        });
+      }
+
+      const jurisdiction = jurisdictionOf(buyer?.kycData ?? null);
+      const blocked = rules.blockedJurisdictions.map((j) => j.trim().toUpperCase());
+
+      if (jurisdiction && blocked.includes(jurisdiction)) {
+        violations.push({
+          code: 'JURISDICTION_BLOCKED',
+          reason: `Investors in ${jurisdiction} cannot buy this offering`,
+          details: { jurisdiction },
+        });
+      } else if (!jurisdiction && blocked.length > 0) {
+        violations.push({
+          code: 'JURISDICTION_BLOCKED',
+          reason: 'This offering restricts buyers by jurisdiction. Complete KYC with your address first.',
+          details: { jurisdiction: null },
+        });
+      }
+    }
+
+    if (rules.maxHoldingPercent !== null) {
+      const offering = await client.offering.findUnique({
+        where: { id: offeringId },
+        select: { totalShares: true },
+      });
+
+      const [held, bids] = await Promise.all([
+        client.investment.aggregate({
+          where: { investorId: buyerId, offeringId, status: 'CONFIRMED' },
+          _sum: { shares: true },
+        }),
+        options.includeOpenBids
+          ? client.buyOrder.aggregate({
+              where: { buyerId, offeringId, status: { in: ['ACTIVE', 'PARTIALLY_FILLED'] } },
+              _sum: { sharesRemaining: true },
+            })
+          : null,
+      ]);
+
+      const maxShares = Math.floor(((offering?.totalShares ?? 0) * rules.maxHoldingPercent) / 100);
+      const currentShares = held._sum.shares ?? 0;
+      const pendingShares = bids?._sum.sharesRemaining ?? 0;
+
+      if (currentShares + pendingShares + shares > maxShares) {
+        violations.push({
+          code: 'HOLDING_CAP_EXCEEDED',
+          reason: `One investor may hold at most ${maxShares} shares (${rules.maxHoldingPercent}%) of this offering`,
+          details: {
+            maxShares,
+            currentShares,
+            pendingShares,
+            requestedShares: shares,
+          },
+        });
+      }
+    }
+
+    return result(violations);
+  }
+
+  /**
+   * Full check for one fill. Throws TransferRestrictionError if it is
+   * not allowed. Call inside the fill's transaction, before writing.
+   */
+  async assertTransferAllowed(
+    tx: Prisma.TransactionClient,
+    params: { investmentId: string; buyerId: string; shares: number }
+  ): Promise<void> {
+    const investment = await tx.investment.findUnique({
+      where: { id: params.investmentId },
+    });
+
+    if (!investment) {
+      throw new Error('Seller investment not found');
+    }
+
+    const [seller, buyer] = await Promise.all([
+      this.checkSeller(investment, params.shares, 0, tx),
+      this.checkBuyer(params.buyerId, investment.offeringId, params.shares, { client: tx }),
+    ]);
+
+    const violations = [
+      ...(seller.allowed ? [] : seller.violations),
+      ...(buyer.allowed ? [] : buyer.violations),
+    ];
+
+    if (violations.length > 0) {
+      throw new TransferRestrictionError(violations);
+    }
+  }
+
+  async updateRules(offeringId: string, rules: Partial<TransferRules>, adminId: string): Promise<TransferRule> {
+    const data = {
+      ...rules,
+      blockedJurisdictions: rules.blockedJurisdictions?.map((j) => j.trim().toUpperCase()).filter(Boolean),
+      updatedBy: adminId,
+    };
+
+    return prisma.transferRule.upsert({
+      where: { offeringId },
+      create: { offeringId, ...DEFAULT_TRANSFER_RULES, ...data },
+      update: data,
+    });
+  }
+}
+
+// Singleton instance
+export const transferRulesService = new TransferRulesService();
@@ -1,7 +1,39 @@
 import { google, Auth } from 'googleapis';
 
+// Scope needed to read estimatedRevenue from the YouTube Analytics API
+export const YOUTUBE_MONETARY_SCOPE = 'https://www.googleapis.com/auth/yt-analytics-monetary.readonly';
+
+// A YouTube Analytics report as returned by reports.query
+export interface AnalyticsReport {
+  columnHeaders: Array<{ name: string; columnType?: string; dataType?: string }>;
+  rows: Array<Array<string | number>>;
+}
+
+export interface MonthlyRevenue {
+  month: string; // YYYY-MM
+  estimatedRevenue: number;
+}
+
+/**
+ * Read `month` and `estimatedRevenue` columns out of an Analytics report
+ */
+export function parseMonthlyRevenue(report: AnalyticsReport): MonthlyRevenue[] {
+  const monthIndex = report.columnHeaders.findIndex(header => header.name === 'month');
+  const revenueIndex = report.columnHeaders.findIndex(header => header.name === 'estimatedRevenue');
+
+  if (monthIndex === -1 || revenueIndex === -1) {
+    throw new Error('Analytics report is missing the month or estimatedRevenue column');
+  }
+
+  return report.rows.map(row => ({
+    month: String(row[monthIndex]),
+    estimatedRevenue: Number(row[revenueIndex]),
+  }));
+}
+
 export class YouTubeService {
   private readonly youtube;
+  private readonly youtubeAnalytics;
   private readonly auth: Auth.OAuth2Client;
 
   constructor(accessToken?: string, refreshToken?: string) {
@@ -18,6 +50,7 @@ export class YouTubeService {
     }
 
     this.youtube = google.youtube({ version: 'v3', auth: this.auth });
+    this.youtubeAnalytics = google.youtubeAnalytics({ version: 'v2', auth: this.auth });
   }
 
   // Method to refresh the access token if needed
@@ -159,22 +192,49 @@ export class YouTubeService {
     }
   }
 
-  // Note: YouTube Analytics API requires separate approval and monetization access
+  /**
+   * Monthly estimated revenue report from the YouTube Analytics API.
+   * Requires the channel owner's token with YOUTUBE_MONETARY_SCOPE and a
+   * monetized channel. Dates are YYYY-MM-DD; startDate must be the first of
+   * a month and endDate the last day of a month.
+   */
+  async getMonthlyRevenueReport(
+    channelId: string,
+    startDate: string,
+    endDate: string,
+    currency = 'INR'
+  ): Promise<AnalyticsReport> {
+    const response = await this.youtubeAnalytics.reports.query({
+      ids: `channel==${channelId}`,
+      startDate,
+      endDate,
+      metrics: 'estimatedRevenue',
+      dimensions: 'month',
+      sort: 'month',
+      currency,
+    });
+
+    return {
+      columnHeaders: (response.data.columnHeaders || []).map(header => ({
+        name: header.name || '',
+        columnType: header.columnType || undefined,
+        dataType: header.dataType || undefined,
+      })),
+      rows: (response.data.rows || []) as Array<Array<string | number>>,
+    };
+  }
+
   async getRevenueData(channelId: string, startDate: string, endDate: string) {
-    // This would require YouTube Analytics API and monetization permissions
-    // For MVP, we'll use estimated revenue based on views and industry averages
     try {
-      const analytics = await this.getChannelAnalytics(channelId);
-      
-      // Rough estimation: $1-5 per 1000 views (varies greatly)
-      const estimatedRPM = 2.5; // Revenue per mille
-      const monthlyViews = analytics.viewCount * 0.1; // Assume 10% of total views per month
-      const estimatedMonthlyRevenue = (monthlyViews / 1000) * estimatedRPM;
+      const months = parseMonthlyRevenue(
+        await this.getMonthlyRevenueReport(channelId, startDate, endDate)
+      );
 
       return {
-        estimatedMonthlyRevenue,
-        actualRevenue: null, // Would come from YouTube Analytics API
-        note: 'Revenue estimation based on industry averages. Actual revenue requires creator permission.',
+        months,
+        totalRevenue: months.reduce((sum, m) => sum + m.estimatedRevenue, 0),
+        currency: 'INR',
+        source: 'youtube-analytics',
       };
     } catch (error) {
       console.error('Revenue data fetch error:', error);
@@ -2,6 +2,7 @@ import { getServerSession } from 'next-auth';
 import { NextResponse } from 'next/server';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { fieldEncryptionService } from '@/lib/services/field-encryption';
 
 /**
  * Helper to check if the current user is an admin
@@ -64,7 +65,9 @@ export async function getKycStatus(userId: string) {
 
   return {
     status: user?.kycStatus || 'PENDING',
-    data: user?.kycData,
+    data: user?.kycData
+      ? await fieldEncryptionService.maskKycData(user.kycData as Record<string, unknown>)
+      : null,
     isVerified: user?.kycStatus === 'VERIFIED',
     isPending: user?.kycStatus === 'PENDING',
     isRejected: user?.kycStatus === 'REJECTED',
@@ -0,0 +1,62 @@
+import { prisma } from '@/lib/prisma';
+
+/**
+ * Return a usable access token for a Google OAuth account, refreshing it
+ * (and saving the new token) if it is expired or about to expire.
+ */
+export async function getValidAccessToken(account: {
+  id: string;
+  access_token: string | null;
+  refresh_token: string | null;
+  expires_at: number | null;
+}): Promise<string | null> {
+  // Check if token is expired (with 5 minute buffer)
+  const now = Math.floor(Date.now() / 1000);
+  const isExpired = account.expires_at ? account.expires_at < now + 300 : true;
+
+  if (!isExpired && account.access_token) {
+    return account.access_token;
+  }
+
+  // Token is expired, try to refresh
+  if (!account.refresh_token) {
+    console.error('No refresh token available');
+    return null;
+  }
+
+  try {
+    const response = await fetch('https://oauth2.googleapis.com/token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        client_id: process.env.GOOGLE_CLIENT_ID!,
+        client_secret: process.env.GOOGLE_CLIENT_SECRET!,
+        grant_type: 'refresh_token',
+        refresh_token: account.refresh_token,
+      }),
+    });
+
+    const tokens = await response.json();
+
+    if (!response.ok) {
+      console.error('Token refresh failed:', tokens);
+      return null;
+    }
+
+    // Update the account with new tokens
+    await prisma.account.update({
+      where: { id: account.id },
+      data: {
+        access_token: tokens.access_token,
+        expires_at: Math.floor(Date.now() / 1000) + tokens.expires_in,
+        // refresh_token is only returned if it changed
+        ...(tokens.refresh_token && { refresh_token: tokens.refresh_token }),
+      },
+    });
+
+    return tokens.access_token;
+  } catch (error) {
+    console.error('Error refreshing token:', error);
+    return null;
+  }
+}
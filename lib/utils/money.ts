@@ -0,0 +1,113 @@
+/**
+ * Money helpers
+ *
+ * All money is stored as Prisma `Decimal` (numeric(20, 2)) and handled in
+ * server code as `Money` values - never as floating point numbers.
+ *
+ * Rounding rule:
+ * - Every amount is held to the paisa (2 decimal places)
+ * - Derived amounts (fees, price x quantity) round half-up to the paisa
+ * - Pro-rata splits round every share down and report the leftover
+ *   paise as a residue, so the parts always add back up to the whole
+ *
+ * Numbers only appear at the edges: request bodies are converted with
+ * `money()` on the way in, and `Money` serialises as a JSON number on the
+ * way out (see lib/prisma.ts).
+ */
+
+import { Prisma } from '@prisma/client';
+
+export type Money = Prisma.Decimal;
+export type MoneyInput = Money | number | string;
+
+const MINOR_UNIT_DECIMALS = 2;
+
+export const ZERO: Money = new Prisma.Decimal(0);
+
+/**
+ * Convert to Money, rounding half-up to the paisa
+ */
+export function money(value: MoneyInput): Money {
+  return new Prisma.Decimal(value).toDecimalPlaces(MINOR_UNIT_DECIMALS, Prisma.Decimal.ROUND_HALF_UP);
+}
+
+/**
+ * Integer paise (as used by Stripe) to Money
+ */
+export function fromMinorUnits(minorUnits: number): Money {
+  return new Prisma.Decimal(minorUnits).dividedBy(100);
+}
+
+/**
+ * Money to integer paise (as used by Stripe)
+ */
+export function toMinorUnits(amount: MoneyInput): number {
+  return money(amount).times(100).toNumber();
+}
+
+/**
+ * Price x quantity, rounded to the paisa
+ */
+export function multiply(amount: MoneyInput, factor: MoneyInput): Money {
+  return money(new Prisma.Decimal(amount).times(factor));
+}
+
+/**
+ * A percentage of an amount (e.g. a fee), rounded to the paisa
+ */
+export function percentOf(amount: MoneyInput, percent: number): Money {
+  return money(new Prisma.Decimal(amount).times(percent).dividedBy(100));
+}
+
+export function add(...amounts: MoneyInput[]): Money {
+  return amounts.reduce<Money>((total, amount) => total.plus(amount), ZERO);
+}
+
+export function subtract(amount: MoneyInput, ...amounts: MoneyInput[]): Money {
+  return amounts.reduce<Money>((total, value) => total.minus(value), new Prisma.Decimal(amount));
+}
+
+export function sum<T>(items: T[], pick: (item: T) => MoneyInput | null | undefined): Money {
+  return items.reduce<Money>((total, item) => total.plus(pick(item) ?? 0), ZERO);
+}
+
+export function min(a: MoneyInput, b: MoneyInput): Money {
+  return Prisma.Decimal.min(a, b);
+}
+
+/**
+ * Split an amount in proportion to the given weights.
+ * Each share is rounded down to the paisa; the paise left over are
+ * returned as `residue` for the caller to book to a defined account.
+ */
+export function allocate(total: MoneyInput, weights: number[]): { shares: Money[]; residue: Money } {
+  const amount = money(total);
+  const totalWeight = weights.reduce((acc, weight) => acc + weight, 0);
+
+  if (totalWeight <= 0) {
+    return { shares: weights.map(() => ZERO), residue: amount };
+  }
+
+  const shares = weights.map((weight) =>
+    amount
+      .times(weight)
+      .dividedBy(totalWeight)
+      .toDecimalPlaces(MINOR_UNIT_DECIMALS, Prisma.Decimal.ROUND_DOWN)
+  );
+
+  return { shares, residue: amount.minus(add(...shares)) };
+}
+
+/**
+ * Plain number for display, charts and client payloads - not for arithmetic
+ */
+export function toNumber(amount: MoneyInput | null | undefined): number {
+  return amount === null || amount === undefined ? 0 : new Prisma.Decimal(amount).toNumber();
+}
+
+/**
+ * Format as Indian Rupees, e.g. ₹1,23,456.78
+ */
+export function formatINR(amount: MoneyInput): string {
+  return `₹${toNumber(amount).toLocaleString('en-IN')}`;
+}
@@ -2,6 +2,7 @@
 const nextConfig = {
   experimental: {
     serverComponentsExternalPackages: ['@prisma/client'],
+    instrumentationHook: true, // Starts the job scheduler (instrumentation.ts)
   },
   images: {
     domains: [
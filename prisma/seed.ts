@@ -1,4 +1,6 @@
 import { PrismaClient } from '@prisma/client';
+import { Money, multiply, percentOf, subtract } from '../lib/utils/money';
+import { candleService } from '../lib/services/candles';
 
 const prisma = new PrismaClient();
 
@@ -133,7 +135,7 @@ async function main() {
   // Create wallets for all investors with initial balance
   console.log('\n💰 Creating wallets for investors...');
   
-  const wallets: Array<{ id: string; investorId: string; balance: number }> = [];
+  const wallets: Array<{ id: string; investorId: string; balance: Money }> = [];
   for (const investor of investors) {
     const initialBalance = randomInRange(50000, 500000);
     const totalDeposited = initialBalance + randomInRange(10000, 100000);
@@ -295,7 +297,7 @@ async function main() {
     investorId: string;
     offeringId: string;
     shares: number;
-    totalAmount: number;
+    totalAmount: Money;
   }
   
   const investments: InvestmentRecord[] = [];
@@ -308,7 +310,7 @@ async function main() {
     
     for (const investor of selectedInvestors) {
       const shares = randomInRange(5, 200);
-      const totalAmount = shares * offering.pricePerShare;
+      const totalAmount = multiply(offering.pricePerShare, shares);
 
       const investment = await prisma.investment.create({
         data: {
@@ -350,7 +352,7 @@ async function main() {
     offeringId: string;
     sharesListed: number;
     sharesRemaining: number;
-    pricePerShare: number;
+    pricePerShare: Money;
     status: string;
   }
   
@@ -366,7 +368,7 @@ async function main() {
 
     // Price variation from original (-15% to +25%)
     const priceMultiplier = randomFloatInRange(0.85, 1.25);
-    const askingPrice = Number.parseFloat((offering.pricePerShare * priceMultiplier).toFixed(2));
+    const askingPrice = multiply(offering.pricePerShare, priceMultiplier);
     
     const minShares = Math.min(randomInRange(1, 5), sharesToSell);
 
@@ -418,9 +420,9 @@ async function main() {
     const tradedShares = Math.floor(sellOrder.sharesListed * randomFloatInRange(0.2, 0.6));
     if (tradedShares < 1) continue;
 
-    const totalAmount = tradedShares * sellOrder.pricePerShare;
-    const platformFee = totalAmount * (PLATFORM_FEE_PERCENT / 100);
-    const netAmount = totalAmount - platformFee;
+    const totalAmount = multiply(sellOrder.pricePerShare, tradedShares);
+    const platformFee = percentOf(totalAmount, PLATFORM_FEE_PERCENT);
+    const netAmount = subtract(totalAmount, platformFee);
 
     // Get or find/create buyer's investment in this offering
     let buyerInvestment = investments.find(
@@ -516,6 +518,11 @@ async function main() {
 
   console.log('   ✅ Updated available shares');
 
+  // Build chart candles from the seeded trades
+  console.log('\n🕯️  Building price candles...');
+  const candleBackfill = await candleService.backfill();
+  console.log(`   ✅ Built ${candleBackfill.candles} candles from ${candleBackfill.trades} trades`);
+
   // Create some wallet transactions for realism
   console.log('\n📝 Creating wallet transaction history...');
   
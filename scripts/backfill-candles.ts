@@ -0,0 +1,29 @@
+/**
+ * Rebuild OHLCV candles from the trade history.
+ *
+ * Usage:
+ *   npm run candles:backfill                 # every offering
+ *   npm run candles:backfill -- <offeringId> # one offering
+ */
+
+import { prisma } from '../lib/prisma';
+import { candleService } from '../lib/services/candles';
+
+async function main() {
+  const offeringId = process.argv[2];
+
+  console.log(offeringId ? `Rebuilding candles for offering ${offeringId}...` : 'Rebuilding candles for all offerings...');
+
+  const result = await candleService.backfill(offeringId);
+
+  console.log(`Done: ${result.candles} candles from ${result.trades} trades across ${result.offerings} offerings`);
+}
+
+main()
+  .catch((e) => {
+    console.error('Candle backfill failed:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
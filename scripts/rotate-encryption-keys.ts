@@ -0,0 +1,34 @@
+/**
+ * Rotate the field-encryption data key and re-encrypt stored values.
+ *
+ * Also encrypts values written before encryption was enabled. To rotate
+ * the master key, set the new one as FIELD_ENCRYPTION_MASTER_KEY and the
+ * old one in FIELD_ENCRYPTION_PREVIOUS_MASTER_KEYS, run this, then drop
+ * the old one.
+ *
+ * Usage:
+ *   npm run keys:rotate
+ */
+
+import { prisma } from '../lib/prisma';
+import { fieldEncryptionService } from '../lib/services/field-encryption';
+
+async function main() {
+  console.log('Rotating field-encryption data key...');
+
+  const result = await fieldEncryptionService.rotate();
+
+  console.log(
+    `Done: now on data key v${result.keyVersion}. Re-wrapped ${result.rewrappedKeys} keys, ` +
+    `re-encrypted ${result.kycRecords} KYC records and ${result.bankAccounts} bank accounts`
+  );
+}
+
+main()
+  .catch((e) => {
+    console.error('Key rotation failed:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,77 @@
+/**
+ * Verify escrow audit hash chains.
+ *
+ * Walks each vault's chain and reports the first broken link. Exits
+ * non-zero if any chain is broken. Signatures are checked when
+ * ESCROW_SECRET_KEY (or NEXTAUTH_SECRET) is set.
+ *
+ * Usage:
+ *   npm run audit:verify                                   # every vault
+ *   npm run audit:verify -- <vaultId>                      # one vault
+ *   npm run audit:verify -- <vaultId> <sequence>:<hash>    # against a saved checkpoint
+ *   npm run audit:verify -- --backfill                     # chain entries written before the chain, then verify
+ */
+
+import { prisma } from '../lib/prisma';
+import { ChainCheckpoint, escrowAuditService } from '../lib/services/escrow-audit';
+
+function parseCheckpoint(value: string | undefined): ChainCheckpoint | undefined {
+  if (!value) return undefined;
+
+  const [sequence, entryHash] = value.split(':');
+  if (!/^\d+$/.test(sequence) || !/^[0-9a-f]{64}$/.test(entryHash || '')) {
+    throw new Error('Checkpoint must be <sequence>:<64-character hex hash>');
+  }
+  return { sequence: Number(sequence), entryHash };
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const backfill = args.includes('--backfill');
+  const [vaultId, checkpointArg] = args.filter((arg) => !arg.startsWith('--'));
+  const checkpoint = parseCheckpoint(checkpointArg);
+
+  const vaultIds = vaultId
+    ? [vaultId]
+    : (await prisma.escrowVault.findMany({ select: { id: true }, orderBy: { createdAt: 'asc' } })).map((v) => v.id);
+
+  let broken = 0;
+  for (const id of vaultIds) {
+    if (backfill) {
+      const chained = await escrowAuditService.backfill(id);
+      if (chained > 0) console.log(`${id}: chained ${chained} earlier entries`);
+    }
+
+    const result = await escrowAuditService.verifyChain(id, checkpoint);
+    const head = result.head ? `head #${result.head.sequence} ${result.head.entryHash}` : 'empty';
+
+    if (result.valid) {
+      console.log(`${id}: OK, ${result.entriesChecked} entries, ${head}`);
+    } else {
+      broken++;
+      const at = result.brokenAt
+        ? `entry #${result.brokenAt.sequence}${result.brokenAt.entryId ? ` (${result.brokenAt.entryId})` : ''}: ${result.brokenAt.reason}`
+        : `checkpoint #${checkpoint?.sequence} does not match`;
+      console.error(`${id}: BROKEN at ${at}; last good ${head}`);
+    }
+
+    if (result.unchainedEntries > 0) {
+      console.warn(`${id}: ${result.unchainedEntries} entries not chained yet (run with --backfill)`);
+    }
+    if (!result.signaturesChecked) {
+      console.warn(`${id}: signatures not checked, ESCROW_SECRET_KEY is not set`);
+    }
+  }
+
+  console.log(`Verified ${vaultIds.length} vault(s), ${broken} broken`);
+  if (broken > 0) process.exit(1);
+}
+
+main()
+  .catch((e) => {
+    console.error('Audit chain verification failed:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });